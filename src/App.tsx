@@ -15,6 +15,7 @@ const Students = lazy(() => import("./pages/Students"));
 const StudentProfile = lazy(() => import("./pages/StudentProfile"));
 const Settings = lazy(() => import("./pages/Settings"));
 const Schedule = lazy(() => import("./pages/Schedule"));
+const RunSheet = lazy(() => import("./pages/RunSheet"));
 const Lessons = lazy(() => import("./pages/Lessons"));
 const LessonNotes = lazy(() => import("./pages/LessonNotes"));
 const StudentTargets = lazy(() => import("./pages/StudentTargets"));
@@ -35,6 +36,7 @@ const TestStatistics = lazy(() => import("./pages/TestStatistics"));
 const Support = lazy(() => import("./pages/Support"));
 const AdminSupport = lazy(() => import("./pages/AdminSupport"));
 const Accounts = lazy(() => import("./pages/Accounts"));
+const InvoiceView = lazy(() => import("./pages/InvoiceView"));
 const PendingRequests = lazy(() => import("./pages/PendingRequests"));
 const InstructorMessages = lazy(() => import("./pages/InstructorMessages"));
 const TodoList = lazy(() => import("./pages/TodoList"));
@@ -102,6 +104,7 @@ const AppContent = () => {
           <Route path="students" element={<Students />} />
           <Route path="students/:studentId" element={<StudentProfile />} />
           <Route path="schedule" element={<Schedule />} />
+          <Route path="schedule/run-sheet" element={<RunSheet />} />
           <Route path="lessons" element={<Lessons />} />
           <Route path="lesson-notes" element={<LessonNotes />} />
           <Route path="student-targets" element={<StudentTargets />} />
@@ -120,6 +123,7 @@ const AppContent = () => {
           <Route path="admin/instructors" element={<AdminInstructors />} />
           <Route path="mileage-tracker" element={<MileageTracker />} />
           <Route path="accounts" element={<Accounts />} />
+          <Route path="invoices/:invoiceId" element={<InvoiceView />} />
           <Route path="support" element={<Support />} />
           <Route path="admin/support" element={<AdminSupport />} />
           <Route path="pending-requests" element={<PendingRequests />} />
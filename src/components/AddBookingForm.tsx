@@ -2,6 +2,7 @@
 
 import React, { useEffect, useState, useMemo } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { Button } from "@/components/ui/button";
@@ -24,33 +25,74 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showSuccess, showError } from "@/utils/toast";
-import { format, addMinutes, addWeeks, differenceInMinutes, isValid } from "date-fns";
-import { Plus, Minus, Sparkles, Repeat, X } from "lucide-react";
+import { format, addMinutes, differenceInMinutes, getDay, isValid, parseISO } from "date-fns";
+import { Plus, Minus, Sparkles, Repeat, X, Loader2, Users } from "lucide-react";
 import DatePicker from "@/components/DatePicker";
 import TimePicker from "@/components/TimePicker";
 import StudentSearch from "@/components/StudentSearch";
+import PickupLocationSelect from "@/components/PickupLocationSelect";
 import { cn } from "@/lib/utils";
+import { generateOccurrences, toRRule, RecurrenceRule, MAX_SERIES_OCCURRENCES } from "@/utils/booking-series";
+import { UnavailablePeriod } from "@/utils/slot-engine";
+import { DEFAULT_TIME_ZONE, getZonedDateKey, resolveTimeZone } from "@/utils/time-zone";
+import { fetchLessonTypes, findLessonType, lessonTypeNames } from "@/utils/lesson-types";
+import { BookingRange, checkBookingConflicts } from "@/utils/booking-conflicts";
+import { GROUP_SESSION_TYPE } from "@/utils/group-sessions";
+import BookingClashReport, { ClashReportEntry } from "@/components/BookingClashReport";
 
 interface Student {
   id: string;
   name: string;
 }
 
+const WEEKDAYS = [
+  { value: 1, label: "M" },
+  { value: 2, label: "T" },
+  { value: 3, label: "W" },
+  { value: 4, label: "T" },
+  { value: 5, label: "F" },
+  { value: 6, label: "S" },
+  { value: 0, label: "S" },
+];
+
 const formSchema = z.object({
   student_id: z.string().optional().nullable(),
+  pickup_location_id: z.string().optional().nullable(),
   description: z.string().optional().nullable(),
-  lesson_type: z.enum(["Driving lesson", "Driving Test", "Personal", "Availability"], {
-    message: "Please select a valid lesson type.",
-  }),
+  lesson_type: z.string().min(1, "Please select a valid lesson type."),
   lesson_length: z.string().min(1, "Length is required"),
   targets_for_next_session: z.string().optional().nullable(),
+  session_title: z.string().optional().nullable(),
+  capacity: z.string().optional(),
+  attendee_price: z.string().optional(),
   repeat_booking: z.enum(["none", "weekly", "fortnightly"]),
-  repeat_count: z.number().min(1).max(12).optional(),
+  repeat_days: z.array(z.number().min(0).max(6)),
+  repeat_end: z.enum(["count", "until"]),
+  repeat_count: z.number().min(1).max(52).optional(),
+  repeat_until: z.date().optional().nullable(),
+  skip_unavailable: z.boolean(),
   start_time: z.date({ required_error: "Start time is required." }),
 }).superRefine((data, ctx) => {
+  if (data.repeat_booking !== "none" && data.repeat_end === "until") {
+    if (!data.repeat_until) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please choose an end date.", path: ["repeat_until"] });
+    } else if (format(data.repeat_until, "yyyy-MM-dd") < format(data.start_time, "yyyy-MM-dd")) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The end date must be after the first lesson.", path: ["repeat_until"] });
+    }
+  }
+  if (data.lesson_type === GROUP_SESSION_TYPE) {
+    if (!data.session_title?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please name the session.", path: ["session_title"] });
+    }
+    if (!(parseInt(data.capacity || "", 10) >= 1)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least 1 place.", path: ["capacity"] });
+    }
+    return;
+  }
   if (data.lesson_type !== "Personal" && data.lesson_type !== "Availability" && !data.student_id) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
@@ -79,6 +121,16 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
   const [students, setStudents] = useState<Student[]>([]);
   const [isLoadingStudents, setIsLoadingStudents] = useState(true);
   const [isCustomLength, setIsCustomLength] = useState(false);
+  const [unavailability, setUnavailability] = useState<UnavailablePeriod[]>([]);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [clashReport, setClashReport] = useState<ClashReportEntry[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: lessonTypes = [] } = useQuery({
+    queryKey: ['lesson-types', user?.id],
+    queryFn: () => fetchLessonTypes(user!.id),
+    enabled: !!user,
+  });
 
   const initialDuration = useMemo(() => {
     const diff = differenceInMinutes(initialEndTime, initialStartTime);
@@ -89,12 +141,20 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
     resolver: zodResolver(formSchema),
     defaultValues: {
       student_id: "",
+      pickup_location_id: null,
       description: "",
       lesson_type: "Driving lesson",
       lesson_length: initialDuration,
       targets_for_next_session: "",
+      session_title: "",
+      capacity: "6",
+      attendee_price: "",
       repeat_booking: "none",
+      repeat_days: [],
+      repeat_end: "count",
       repeat_count: 1,
+      repeat_until: null,
+      skip_unavailable: true,
       start_time: initialStartTime,
     },
   });
@@ -104,10 +164,11 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
       if (!user) return;
       const { data, error } = await supabase
         .from("profiles")
-        .select("default_lesson_duration")
+        .select("default_lesson_duration, time_zone")
         .eq("id", user.id)
         .single();
 
+      if (!error) setTimeZone(resolveTimeZone(data?.time_zone));
       if (!error && data?.default_lesson_duration) {
         if (form.getValues("lesson_type") !== "Driving Test" && !defaultValues?.lesson_length) {
           form.setValue("lesson_length", data.default_lesson_duration);
@@ -127,13 +188,21 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
   const selectedStartTime = form.watch("start_time");
   const selectedRepeatBooking = form.watch("repeat_booking");
   const selectedLessonType = form.watch("lesson_type");
+  const selectedRepeatDays = form.watch("repeat_days");
+  const selectedRepeatEnd = form.watch("repeat_end");
+  const selectedRepeatCount = form.watch("repeat_count");
+  const selectedRepeatUntil = form.watch("repeat_until");
+  const selectedSkipUnavailable = form.watch("skip_unavailable");
+  const selectedStudentId = form.watch("student_id");
+  const isGroupSession = selectedLessonType === GROUP_SESSION_TYPE;
 
+  // Tests and catalogue types start at their own length
   useEffect(() => {
-    if (selectedLessonType === "Driving Test") {
-      form.setValue("lesson_length", "120");
-      setIsCustomLength(false);
-    }
-  }, [selectedLessonType, form]);
+    const length = selectedLessonType === "Driving Test" ? 120 : findLessonType(lessonTypes, selectedLessonType)?.default_duration_mins;
+    if (!length) return;
+    form.setValue("lesson_length", length.toString());
+    setIsCustomLength(![60, 90, 120].includes(length));
+  }, [selectedLessonType, lessonTypes, form]);
 
   const calculatedEndTime = useMemo(() => {
     const length = parseInt(selectedLessonLength, 10);
@@ -141,6 +210,36 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
     return addMinutes(selectedStartTime, length);
   }, [selectedStartTime, selectedLessonLength]);
 
+  const recurrenceRule = useMemo((): RecurrenceRule => ({
+    interval: selectedRepeatBooking === "fortnightly" ? 2 : 1,
+    byDay: selectedRepeatDays,
+    until: selectedRepeatEnd === "until" && selectedRepeatUntil ? format(selectedRepeatUntil, "yyyy-MM-dd") : null,
+    count: selectedRepeatEnd === "count" ? (selectedRepeatCount || 1) : null,
+  }), [selectedRepeatBooking, selectedRepeatDays, selectedRepeatEnd, selectedRepeatUntil, selectedRepeatCount]);
+
+  const occurrences = useMemo(() => {
+    const length = parseInt(selectedLessonLength, 10);
+    if (selectedRepeatBooking === "none" || !selectedStartTime || !isValid(selectedStartTime) || isNaN(length)) return [];
+    return generateOccurrences(selectedStartTime, length, recurrenceRule, selectedSkipUnavailable ? unavailability : [], timeZone);
+  }, [selectedRepeatBooking, selectedStartTime, selectedLessonLength, recurrenceRule, selectedSkipUnavailable, unavailability, timeZone]);
+
+  useEffect(() => {
+    const fetchUnavailability = async () => {
+      if (!user) return;
+      const { data, error } = await supabase
+        .from("instructor_unavailability")
+        .select("start_date, end_date")
+        .eq("user_id", user.id)
+        .gte("end_date", format(new Date(), "yyyy-MM-dd"));
+      if (error) {
+        console.error("Error fetching unavailability:", error);
+      } else {
+        setUnavailability(data || []);
+      }
+    };
+    fetchUnavailability();
+  }, [user]);
+
   useEffect(() => {
     const fetchStudents = async () => {
       if (!user) return;
@@ -164,53 +263,121 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
     fetchStudents();
   }, [user]);
 
+  // Any edit after a clash report means the times need checking again
+  useEffect(() => {
+    const subscription = form.watch(() => setClashReport(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
     if (!user) {
       showError("You must be logged in to add a booking.");
       return;
     }
 
+    let times: BookingRange[] = [{ start: values.start_time, end: calculatedEndTime }];
+    if (values.repeat_booking !== "none" && values.lesson_type !== GROUP_SESSION_TYPE) {
+      times = occurrences;
+      if (times.length === 0) {
+        showError("No lessons left to book after skipping your days off.");
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const conflicts = await checkBookingConflicts(user.id, times);
+      if (conflicts.some(list => list.length > 0)) {
+        setClashReport(times.map((time, i) => ({ ...time, conflicts: conflicts[i] })));
+        setIsSaving(false);
+        return;
+      }
+    } catch (error) {
+      console.error("Error checking for clashes:", error);
+      showError("Couldn't check for clashes: " + error.message);
+      setIsSaving(false);
+      return;
+    }
+
+    await saveBookings(values, times);
+    setIsSaving(false);
+  };
+
+  const saveFromClashReport = async (skipClashes: boolean) => {
+    if (!clashReport) return;
+    const times = skipClashes ? clashReport.filter(entry => entry.conflicts.length === 0) : clashReport;
+    setIsSaving(true);
+    await saveBookings(form.getValues(), times.map(({ start, end }) => ({ start, end })));
+    setIsSaving(false);
+  };
+
+  const saveBookings = async (values: z.infer<typeof formSchema>, times: BookingRange[]) => {
     let generatedTitle = "Personal Appointment";
     let status = "scheduled";
 
+    const isGroup = values.lesson_type === GROUP_SESSION_TYPE;
     if (values.lesson_type === "Availability") {
       generatedTitle = "Available Slot";
       status = "available";
+    } else if (isGroup) {
+      generatedTitle = values.session_title!.trim();
     } else if (values.lesson_type !== "Personal" || values.student_id) {
       const studentName = students.find(s => s.id === values.student_id)?.name || "Unknown Student";
       generatedTitle = `${studentName} - ${values.lesson_type}`;
     }
 
-    const bookingsToInsert = [];
-    const numRepeats = values.repeat_booking !== "none" ? (values.repeat_count || 1) : 1;
-    const interval = values.repeat_booking === "weekly" ? 1 : 2;
+    const lengthMins = parseInt(values.lesson_length, 10) || 0;
+    let seriesId: string | null = null;
 
-    for (let i = 0; i < numRepeats; i++) {
-      let currentStartTime = values.start_time;
-      let currentEndTime = calculatedEndTime;
-      if (i > 0 && values.repeat_booking !== "none") {
-        currentStartTime = addWeeks(values.start_time, i * interval);
-        currentEndTime = addMinutes(currentStartTime, parseInt(values.lesson_length, 10) || 0);
+    if (values.repeat_booking !== "none" && !isGroup) {
+      const { data: series, error: seriesError } = await supabase
+        .from("booking_series")
+        .insert({
+          user_id: user.id,
+          student_id: values.student_id || null,
+          title: generatedTitle,
+          description: values.description,
+          lesson_type: values.lesson_type,
+          status: status,
+          start_time: times[0].start.toISOString(),
+          duration_mins: lengthMins,
+          rrule: toRRule(recurrenceRule),
+          skip_unavailable: values.skip_unavailable,
+        })
+        .select("id")
+        .single();
+      if (seriesError) {
+        console.error("Error creating booking series:", seriesError);
+        showError("Failed to create repeat booking: " + seriesError.message);
+        return;
       }
-      bookingsToInsert.push({ 
-        user_id: user.id, 
-        student_id: values.student_id || null, 
-        title: generatedTitle, 
-        description: values.description, 
-        lesson_type: values.lesson_type, 
-        targets_for_next_session: values.targets_for_next_session, 
-        start_time: currentStartTime.toISOString(), 
-        end_time: currentEndTime.toISOString(), 
-        status: status 
-      });
+      seriesId = series.id;
     }
 
+    const bookingsToInsert = times.map(({ start, end }) => ({ 
+      user_id: user.id, 
+      student_id: isGroup ? null : values.student_id || null, 
+      pickup_location_id: values.student_id && !isGroup ? values.pickup_location_id || null : null,
+      title: generatedTitle, 
+      description: values.description, 
+      lesson_type: values.lesson_type, 
+      targets_for_next_session: values.targets_for_next_session, 
+      start_time: start.toISOString(), 
+      end_time: end.toISOString(), 
+      status: status,
+      series_id: seriesId,
+      capacity: isGroup ? parseInt(values.capacity!, 10) : null,
+      attendee_price: isGroup && values.attendee_price ? parseFloat(values.attendee_price) : null
+    }));
+
     const { error } = await supabase.from("bookings").insert(bookingsToInsert).select();
     if (error) {
+      if (seriesId) await supabase.from("booking_series").delete().eq("id", seriesId);
       console.error("Error adding booking(s):", error);
       showError("Failed to add booking(s): " + error.message);
     } else {
       showSuccess(values.lesson_type === "Availability" ? "Availability slot created!" : "Booking(s) added successfully!");
+      setClashReport(null);
       form.reset();
       onBookingAdded();
       onClose();
@@ -233,9 +400,14 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="Driving lesson">Driving lesson</SelectItem>
-                  <SelectItem value="Driving Test">Driving Test</SelectItem>
-                  <SelectItem value="Personal">Personal</SelectItem>
+                  {lessonTypeNames(lessonTypes).map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                  <SelectItem value={GROUP_SESSION_TYPE} className="font-bold">
+                    <div className="flex items-center gap-2">
+                      <Users className="h-4 w-4" /> Group Session
+                    </div>
+                  </SelectItem>
                   <SelectItem value="Availability" className="text-blue-600 font-bold">
                     <div className="flex items-center gap-2">
                       <Sparkles className="h-4 w-4" /> Availability Slot
@@ -251,6 +423,21 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
         {selectedLessonType !== "Availability" && (
           <div className="flex flex-col sm:flex-row gap-3 items-start">
             <div className="w-full sm:w-[240px]">
+              {isGroupSession ? (
+                <FormField
+                  control={form.control}
+                  name="session_title"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Session Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Hazard perception workshop" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
               <FormField
                 control={form.control}
                 name="student_id"
@@ -270,6 +457,7 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
                   </FormItem>
                 )}
               />
+              )}
             </div>
 
             <div className="flex-1 w-full">
@@ -354,6 +542,47 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
           </div>
         )}
 
+        {isGroupSession && (
+          <div className="grid grid-cols-2 gap-3">
+            <FormField
+              control={form.control}
+              name="capacity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Places</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="1" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="attendee_price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price per Student (£)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="0.01" placeholder="Free" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {selectedLessonType !== "Availability" && !isGroupSession && selectedStudentId && (
+          <FormField
+            control={form.control}
+            name="pickup_location_id"
+            render={({ field }) => (
+              <PickupLocationSelect studentId={selectedStudentId} value={field.value} onChange={field.onChange} selectDefault />
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="start_time"
@@ -393,7 +622,7 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
           )}
         />
 
-        {selectedLessonType !== "Personal" && selectedLessonType !== "Availability" && (
+        {selectedLessonType !== "Personal" && selectedLessonType !== "Availability" && !isGroupSession && (
           <FormField
             control={form.control}
             name="targets_for_next_session"
@@ -409,6 +638,7 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
           />
         )}
 
+        {!isGroupSession && (
         <div className="p-4 border rounded-xl bg-muted/30 space-y-4">
           <FormField
             control={form.control}
@@ -460,46 +690,152 @@ const AddBookingForm: React.FC<AddBookingFormProps> = ({
             )}
           />
           {selectedRepeatBooking !== "none" && (
-            <FormField
-              control={form.control}
-              name="repeat_count"
-              render={({ field }) => (
-                <FormItem className="animate-in slide-in-from-top-2 duration-200">
-                  <FormLabel>Number of Repeats</FormLabel>
-                  <FormControl>
-                    <div className="flex items-center gap-3 h-10">
-                      <Button 
-                        type="button" 
-                        variant="outline" 
-                        size="icon" 
-                        className="h-8 w-8 shrink-0" 
-                        onClick={() => field.onChange(Math.max(1, (field.value || 1) - 1))} 
-                        disabled={(field.value || 1) <= 1}
-                      >
-                        <Minus className="h-4 w-4" />
+            <div className="space-y-4 animate-in slide-in-from-top-2 duration-200">
+              <FormField
+                control={form.control}
+                name="repeat_days"
+                render={({ field }) => {
+                  const startDay = selectedStartTime && isValid(selectedStartTime) ? getDay(parseISO(getZonedDateKey(selectedStartTime, timeZone))) : null;
+                  return (
+                    <FormItem>
+                      <FormLabel>Repeat On</FormLabel>
+                      <div className="grid grid-cols-7 gap-1">
+                        {WEEKDAYS.map(day => {
+                          const isStartDay = day.value === startDay;
+                          const isSelected = isStartDay || field.value.includes(day.value);
+                          return (
+                            <Button
+                              key={day.value}
+                              type="button"
+                              variant={isSelected ? "default" : "outline"}
+                              size="sm"
+                              className="h-8 px-0 font-bold"
+                              disabled={isStartDay}
+                              onClick={() => field.onChange(
+                                field.value.includes(day.value)
+                                  ? field.value.filter(d => d !== day.value)
+                                  : [...field.value, day.value]
+                              )}
+                            >
+                              {day.label}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  );
+                }}
+              />
+
+              <FormField
+                control={form.control}
+                name="repeat_end"
+                render={({ field }) => (
+                  <FormItem className="space-y-2">
+                    <FormLabel>Ends</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button type="button" variant={field.value === "count" ? "default" : "outline"} size="sm" className="font-bold" onClick={() => field.onChange("count")}>
+                        After a number of lessons
                       </Button>
-                      <span className="w-12 text-center font-black text-xl text-primary">{field.value || 1}</span>
-                      <Button 
-                        type="button" 
-                        variant="outline" 
-                        size="icon" 
-                        className="h-8 w-8 shrink-0" 
-                        onClick={() => field.onChange(Math.min(12, (field.value || 1) + 1))} 
-                        disabled={(field.value || 1) >= 12}
-                      >
-                        <Plus className="h-4 w-4" />
+                      <Button type="button" variant={field.value === "until" ? "default" : "outline"} size="sm" className="font-bold" onClick={() => field.onChange("until")}>
+                        On a date
                       </Button>
                     </div>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+                  </FormItem>
+                )}
+              />
+
+              {selectedRepeatEnd === "count" ? (
+                <FormField
+                  control={form.control}
+                  name="repeat_count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Number of Lessons</FormLabel>
+                      <FormControl>
+                        <div className="flex items-center gap-3 h-10">
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            size="icon" 
+                            className="h-8 w-8 shrink-0" 
+                            onClick={() => field.onChange(Math.max(1, (field.value || 1) - 1))} 
+                            disabled={(field.value || 1) <= 1}
+                          >
+                            <Minus className="h-4 w-4" />
+                          </Button>
+                          <span className="w-12 text-center font-black text-xl text-primary">{field.value || 1}</span>
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            size="icon" 
+                            className="h-8 w-8 shrink-0" 
+                            onClick={() => field.onChange(Math.min(52, (field.value || 1) + 1))} 
+                            disabled={(field.value || 1) >= 52}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="repeat_until"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Last Lesson On or Before</FormLabel>
+                      <DatePicker date={field.value || undefined} setDate={field.onChange} placeholder="Select end date" />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
+
+              <FormField
+                control={form.control}
+                name="skip_unavailable"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border bg-background p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Skip My Days Off</FormLabel>
+                      <p className="text-[10px] text-muted-foreground">Holidays in your unavailability list are left free and don't count towards the total.</p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <p className="text-xs font-bold text-primary">
+                {occurrences.length === 0
+                  ? "No lessons match these settings."
+                  : `${occurrences.length} booking${occurrences.length === 1 ? "" : "s"}, ${format(occurrences[0].start, "d MMM")} to ${format(occurrences[occurrences.length - 1].start, "d MMM yyyy")}`}
+                {occurrences.length >= MAX_SERIES_OCCURRENCES && ` (limited to ${MAX_SERIES_OCCURRENCES})`}
+              </p>
+            </div>
           )}
         </div>
-        <Button type="submit" className="w-full font-black h-12 text-lg">
-          {selectedLessonType === "Availability" ? "Create Availability Slot" : "Add Booking"}
-        </Button>
+        )}
+        {clashReport ? (
+          <BookingClashReport
+            entries={clashReport}
+            timeZone={timeZone}
+            isSaving={isSaving}
+            onForce={() => saveFromClashReport(false)}
+            onSkip={clashReport.length > 1 ? () => saveFromClashReport(true) : undefined}
+            onCancel={() => setClashReport(null)}
+          />
+        ) : (
+          <Button type="submit" className="w-full font-black h-12 text-lg" disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : selectedLessonType === "Availability" ? "Create Availability Slot" : "Add Booking"}
+          </Button>
+        )}
       </form>
     </Form>
   );
@@ -0,0 +1,311 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarRange, Plus, Pencil, Trash2, Loader2, X, Undo2, History } from "lucide-react";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { showSuccess, showError } from "@/utils/toast";
+import DatePicker from "@/components/DatePicker";
+import {
+  applyAvailabilityTemplate,
+  AvailabilityTemplate,
+  fetchAvailabilityTemplates,
+  fetchTemplateRuns,
+  MAX_TEMPLATE_RANGE_DAYS,
+  TemplateSlot,
+  undoTemplateRun,
+} from "@/utils/availability-templates";
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const DEFAULT_SLOT: TemplateSlot = { weekday: 1, start: "09:00", duration_mins: 60 };
+
+const weekdayOrder = (day: number) => (day + 6) % 7;
+
+const sortSlots = (slots: TemplateSlot[]) =>
+  [...slots].sort((a, b) => weekdayOrder(a.weekday) - weekdayOrder(b.weekday) || a.start.localeCompare(b.start));
+
+const summariseSlots = (slots: TemplateSlot[]) => {
+  const days = WEEKDAYS.filter(d => slots.some(s => s.weekday === d.value)).map(d => d.label);
+  return `${slots.length} slot${slots.length === 1 ? "" : "s"}${days.length ? ` · ${days.join(", ")}` : ""}`;
+};
+
+interface AvailabilityTemplatesManagerProps {
+  onApplied: () => void;
+}
+
+/**
+ * Week templates of available slots for gaps booking mode, applied to a date range in one go
+ */
+const AvailabilityTemplatesManager: React.FC<AvailabilityTemplatesManagerProps> = ({ onApplied }) => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [slots, setSlots] = useState<TemplateSlot[]>([]);
+  const [templateId, setTemplateId] = useState<string>("");
+  const [fromDate, setFromDate] = useState<Date | undefined>(new Date());
+  const [toDate, setToDate] = useState<Date | undefined>(addDays(new Date(), 6));
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['availability-templates', user?.id],
+    queryFn: () => fetchAvailabilityTemplates(user!.id),
+    enabled: !!user
+  });
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ['availability-template-runs', user?.id],
+    queryFn: () => fetchTemplateRuns(user!.id),
+    enabled: !!user
+  });
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setEditingId(null);
+    setName("");
+    setSlots([]);
+  };
+
+  const startEdit = (template: AvailabilityTemplate) => {
+    setEditingId(template.id);
+    setName(template.name);
+    setSlots(sortSlots(template.slots));
+    setIsEditing(true);
+  };
+
+  const updateSlot = (index: number, changes: Partial<TemplateSlot>) =>
+    setSlots(slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+
+  // A new slot follows on from the last one on the same day
+  const addSlot = () => {
+    const last = slots[slots.length - 1];
+    if (!last) {
+      setSlots([DEFAULT_SLOT]);
+      return;
+    }
+    const [hours, minutes] = last.start.split(":").map(Number);
+    const next = Math.min(hours * 60 + minutes + last.duration_mins, 23 * 60);
+    setSlots([...slots, { ...last, start: `${Math.floor(next / 60).toString().padStart(2, "0")}:${(next % 60).toString().padStart(2, "0")}` }]);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!name.trim()) throw new Error("Please give the template a name.");
+      if (slots.length === 0) throw new Error("Please add at least one slot.");
+      if (slots.some(slot => !slot.start || !slot.duration_mins || slot.duration_mins < 15)) throw new Error("Each slot needs a start time and a length of at least 15 minutes.");
+
+      const values = { name: name.trim(), slots: sortSlots(slots) };
+      const { error } = editingId
+        ? await supabase.from("availability_templates").update(values).eq("id", editingId)
+        : await supabase.from("availability_templates").insert({ ...values, user_id: user!.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['availability-templates'] });
+      showSuccess(editingId ? "Template updated." : "Template saved.");
+      resetForm();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("availability_templates").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['availability-templates'] });
+      if (templateId === id) setTemplateId("");
+      showSuccess("Template deleted.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const template = templates.find(t => t.id === templateId);
+      if (!template) throw new Error("Please choose a template.");
+      if (!fromDate || !toDate) throw new Error("Please choose the dates.");
+      if (toDate < fromDate) throw new Error("The last day must be on or after the first.");
+      if (differenceInCalendarDays(toDate, fromDate) >= MAX_TEMPLATE_RANGE_DAYS) throw new Error(`Templates can be applied to up to ${MAX_TEMPLATE_RANGE_DAYS} days at a time.`);
+      return applyAvailabilityTemplate(user!.id, template, fromDate, toDate);
+    },
+    onSuccess: ({ created, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ['availability-template-runs'] });
+      if (created === 0) {
+        showError(skipped > 0 ? `All ${skipped} slots clash with existing bookings or days off.` : "No upcoming slots fall in those dates.");
+        return;
+      }
+      showSuccess(`Added ${created} available slot${created === 1 ? "" : "s"}${skipped > 0 ? `, skipped ${skipped} that clashed` : ""}.`);
+      onApplied();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (runId: string) => undoTemplateRun(runId),
+    onSuccess: ({ removed, kept }) => {
+      queryClient.invalidateQueries({ queryKey: ['availability-template-runs'] });
+      showSuccess(`Removed ${removed} slot${removed === 1 ? "" : "s"}${kept > 0 ? `. ${kept} already booked by students ${kept === 1 ? "was" : "were"} kept` : ""}.`);
+      onApplied();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-bold uppercase text-muted-foreground">Templates</span>
+          {!isEditing && (
+            <Button type="button" size="sm" variant="outline" className="h-8 font-bold" onClick={() => { resetForm(); setSlots([DEFAULT_SLOT]); setIsEditing(true); }}>
+              <Plus className="mr-1 h-3.5 w-3.5" /> New
+            </Button>
+          )}
+        </div>
+
+        {templates.length === 0 && !isEditing && (
+          <p className="text-xs text-muted-foreground italic">No templates yet. Save a typical week, such as "Standard week" or "School holiday week".</p>
+        )}
+
+        {!isEditing && templates.map(template => (
+          <div key={template.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+            <div className="min-w-0">
+              <p className="font-bold text-sm truncate">{template.name}</p>
+              <p className="text-xs text-muted-foreground">{summariseSlots(template.slots)}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" onClick={() => startEdit(template)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => deleteMutation.mutate(template.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {isEditing && (
+          <div className="space-y-3 p-3 rounded-lg border bg-muted/30 animate-in slide-in-from-top-2 duration-200">
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Standard week" className="h-9" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Slots</Label>
+              {slots.map((slot, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={slot.weekday.toString()} onValueChange={(value) => updateSlot(index, { weekday: parseInt(value, 10) })}>
+                    <SelectTrigger className="h-9 w-20"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map(day => <SelectItem key={day.value} value={day.value.toString()}>{day.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input type="time" value={slot.start} onChange={(e) => updateSlot(index, { start: e.target.value })} className="h-9 w-28" />
+                  <div className="flex items-center gap-1">
+                    <Input type="number" min="15" step="15" value={slot.duration_mins} onChange={(e) => updateSlot(index, { duration_mins: parseInt(e.target.value, 10) || 0 })} className="h-9 w-20" />
+                    <span className="text-xs text-muted-foreground">min</span>
+                  </div>
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive" onClick={() => setSlots(slots.filter((_, i) => i !== index))}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" size="sm" variant="outline" className="h-8 font-bold" onClick={addSlot}>
+                <Plus className="mr-1 h-3.5 w-3.5" /> Add Slot
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" className="flex-1 font-bold" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId ? "Save Changes" : "Save Template"}
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={resetForm}><X className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!isEditing && templates.length > 0 && (
+        <div className="space-y-3 p-3 rounded-lg border bg-muted/30">
+          <div className="flex items-center gap-2">
+            <CalendarRange className="h-4 w-4 text-primary" />
+            <span className="text-xs font-bold uppercase">Apply to Dates</span>
+          </div>
+          <Select value={templateId} onValueChange={setTemplateId}>
+            <SelectTrigger className="h-9"><SelectValue placeholder="Choose a template" /></SelectTrigger>
+            <SelectContent>
+              {templates.map(template => <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">From</Label>
+              <DatePicker date={fromDate} setDate={(date) => { setFromDate(date); if (date && (!toDate || toDate < date)) setToDate(date); }} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">To</Label>
+              <DatePicker date={toDate} setDate={setToDate} />
+            </div>
+          </div>
+          <p className="text-[10px] text-muted-foreground">Slots that clash with lessons, days off or slots you've already added are skipped.</p>
+          <Button type="button" className="w-full font-bold" onClick={() => applyMutation.mutate()} disabled={applyMutation.isPending || !templateId}>
+            {applyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Available Slots"}
+          </Button>
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <History className="h-4 w-4 text-muted-foreground" />
+            <span className="text-xs font-bold uppercase text-muted-foreground">Recently Applied</span>
+          </div>
+          {runs.map(run => (
+            <div key={run.id} className={cn("flex items-center justify-between gap-3 p-3 border rounded-lg", run.undone_at && "opacity-60")}>
+              <div className="min-w-0">
+                <p className="font-bold text-sm truncate">{run.template_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(parseISO(run.start_date), "d MMM")} – {format(parseISO(run.end_date), "d MMM yyyy")} · {run.slots_created} added
+                  {run.slots_skipped > 0 && `, ${run.slots_skipped} skipped`}
+                </p>
+              </div>
+              {run.undone_at ? (
+                <Badge variant="outline" className="text-[10px] h-5 shrink-0">Undone</Badge>
+              ) : (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="h-8 font-bold shrink-0"
+                  onClick={() => undoMutation.mutate(run.id)}
+                  disabled={undoMutation.isPending}
+                >
+                  <Undo2 className="mr-1 h-3.5 w-3.5" /> Undo
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityTemplatesManager;
@@ -0,0 +1,67 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BookingConflict, BookingRange } from "@/utils/booking-conflicts";
+import { formatInTimeZone } from "@/utils/time-zone";
+
+export interface ClashReportEntry extends BookingRange {
+  conflicts: BookingConflict[];
+}
+
+interface BookingClashReportProps {
+  entries: ClashReportEntry[];
+  timeZone: string;
+  isSaving?: boolean;
+  onForce: () => void;
+  onSkip?: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lists the lessons that clash with existing bookings or days off, with the choice to
+ * leave those dates out, save regardless, or go back and change the times
+ */
+const BookingClashReport: React.FC<BookingClashReportProps> = ({ entries, timeZone, isSaving, onForce, onSkip, onCancel }) => {
+  const clashing = entries.filter(entry => entry.conflicts.length > 0);
+  const clearCount = entries.length - clashing.length;
+
+  return (
+    <div className="rounded-xl border-2 border-orange-200 bg-orange-50 p-4 space-y-3 animate-in fade-in duration-200">
+      <p className="flex items-center gap-2 text-sm font-black text-orange-800">
+        <AlertTriangle className="h-4 w-4 shrink-0" />
+        {entries.length === 1
+          ? "This time clashes"
+          : `${clashing.length} of ${entries.length} lessons clash`}
+      </p>
+
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {clashing.map(entry => (
+          <div key={entry.start.toISOString()} className="rounded-lg bg-background/70 p-2">
+            <p className="text-xs font-bold">{formatInTimeZone(entry.start, timeZone, "EEE d MMM, HH:mm")}–{formatInTimeZone(entry.end, timeZone, "HH:mm")}</p>
+            {entry.conflicts.map((conflict, index) => (
+              <p key={index} className="text-[11px] text-orange-800">{conflict.message}</p>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        {onSkip && clearCount > 0 && (
+          <Button type="button" size="sm" className="flex-1 font-bold" onClick={onSkip} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : `Skip Clashes (Book ${clearCount})`}
+          </Button>
+        )}
+        <Button type="button" size="sm" variant="destructive" className="flex-1 font-bold" onClick={onForce} disabled={isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Anyway"}
+        </Button>
+        <Button type="button" size="sm" variant="outline" className="flex-1 font-bold" onClick={onCancel} disabled={isSaving}>
+          Change Times
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BookingClashReport;
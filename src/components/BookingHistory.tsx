@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Undo2, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import { BookingEvent, describeAction, describeActor, describeChanges, fetchBookingEvents, laterEditsTo, restoreBookingEvent } from "@/utils/booking-events";
+
+interface BookingHistoryProps {
+  bookingId: string;
+  onRestored: () => void;
+}
+
+/**
+ * Every change made to a booking, with the option to undo any of them
+ */
+const BookingHistory: React.FC<BookingHistoryProps> = ({ bookingId, onRestored }) => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['booking-events', bookingId],
+    queryFn: () => fetchBookingEvents(bookingId)
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (eventId: string) => restoreBookingEvent(eventId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['booking-events', bookingId] });
+      showSuccess("Change undone.");
+      onRestored();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const handleUndo = (event: BookingEvent) => {
+    const overwritten = laterEditsTo(event, data?.events || []);
+    if (overwritten.length > 0 && !window.confirm(
+      `${overwritten.join(", ")} ${overwritten.length === 1 ? "has" : "have"} been changed again since. Undoing this will overwrite the later change. Continue?`
+    )) return;
+    restoreMutation.mutate(event.id);
+  };
+
+  if (isLoading) return <Skeleton className="h-16 w-full" />;
+
+  const events = data?.events || [];
+  if (events.length === 0) {
+    return <p className="text-xs text-muted-foreground italic">No history recorded for this booking yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {events.map(event => {
+        const changes = describeChanges(event, data!.studentNames);
+        const canUndo = !!event.old_data && event.action !== "delete";
+        return (
+          <div key={event.id} className="p-2.5 border rounded-lg bg-background space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs">
+                <span className="font-bold">{describeAction(event)}</span>
+                <span className="text-muted-foreground"> by {describeActor(event.actor_id, user!.id, data!.actorNames)} · {format(parseISO(event.created_at), "d MMM yyyy, HH:mm")}</span>
+              </p>
+              {canUndo && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-xs font-bold shrink-0"
+                  onClick={() => handleUndo(event)}
+                  disabled={restoreMutation.isPending}
+                >
+                  {restoreMutation.isPending && restoreMutation.variables === event.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <><Undo2 className="mr-1 h-3 w-3" /> Undo</>}
+                </Button>
+              )}
+            </div>
+            {changes.map(change => (
+              <p key={change.label} className="text-[11px] text-muted-foreground">
+                {change.label}: <span className="line-through">{change.from}</span> → <span className="text-foreground font-medium">{change.to}</span>
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BookingHistory;
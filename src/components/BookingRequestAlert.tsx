@@ -4,7 +4,7 @@ import React, { useState, useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
-import { BellRing, Check, X, Clock, Calendar, User, Loader2 } from "lucide-react";
+import { BellRing, Check, X, Clock, Calendar, User, Loader2, MoveRight } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format, parseISO } from "date-fns";
 import {
@@ -17,6 +17,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { showSuccess, showError } from "@/utils/toast";
+import { approveBookingMove, declineBookingMove, MOVE_REQUEST_SELECT } from "@/utils/booking-moves";
 
 const BookingRequestAlert: React.FC = () => {
   const { user } = useSession();
@@ -39,7 +40,7 @@ const BookingRequestAlert: React.FC = () => {
 
       const { data } = await supabase
         .from("bookings")
-        .select("id, title, start_time, end_time, student_id, students(name, auth_user_id)")
+        .select(`id, title, start_time, end_time, student_id, students(name, auth_user_id), ${MOVE_REQUEST_SELECT}`)
         .eq("user_id", user.id)
         .eq("status", "pending_approval")
         .order("start_time", { ascending: true });
@@ -87,6 +88,19 @@ const BookingRequestAlert: React.FC = () => {
 
   const handleApprove = async (id: string, studentName: string, authUserId: string | null) => {
     setProcessingId(id);
+    const moveRequest = requests.find(r => r.id === id);
+    if (moveRequest?.reschedule_of) {
+      const moveError = await approveBookingMove(moveRequest, authUserId);
+      if (moveError) {
+        showError("Failed to approve move: " + moveError.message);
+      } else {
+        showSuccess("Lesson moved!");
+        queryClient.invalidateQueries({ queryKey: ['pending-requests-global'] });
+      }
+      setProcessingId(null);
+      return;
+    }
+
     const { error } = await supabase
       .from("bookings")
       .update({ status: "scheduled", title: `${studentName} - Driving lesson` })
@@ -113,6 +127,19 @@ const BookingRequestAlert: React.FC = () => {
 
   const handleReject = async (id: string, authUserId: string | null, startTime: string) => {
     setProcessingId(id);
+    const moveRequest = requests.find(r => r.id === id);
+    if (moveRequest?.reschedule_of) {
+      const moveError = await declineBookingMove(moveRequest, authUserId);
+      if (moveError) {
+        showError("Failed to decline move.");
+      } else {
+        showSuccess("Move declined. The original lesson is unchanged.");
+        queryClient.invalidateQueries({ queryKey: ['pending-requests-global'] });
+      }
+      setProcessingId(null);
+      return;
+    }
+
     
     if (authUserId) {
       await supabase.from("notifications").insert({
@@ -191,6 +218,12 @@ const BookingRequestAlert: React.FC = () => {
                             <Clock className="h-3.5 w-3.5" />
                             {format(parseISO(req.start_time), "p")} — {format(parseISO(req.end_time), "p")}
                           </div>
+                          {req.original && (
+                            <div className="flex items-center gap-2 text-xs sm:text-sm text-orange-600 font-bold">
+                              <MoveRight className="h-3.5 w-3.5" />
+                              Moving from {format(parseISO(req.original.start_time), "EEE, MMM do 'at' p")}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -28,9 +28,13 @@ import { Label } from "@/components/ui/label";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showSuccess, showError } from "@/utils/toast";
-import { Clock, CalendarRange, Timer, Shield, Loader2, CalendarDays, ChevronDown, ChevronUp, PoundSterling } from "lucide-react";
+import { Clock, CalendarRange, Timer, Shield, Loader2, CalendarDays, ChevronDown, ChevronUp, PoundSterling, Hourglass, Ban, Car, CheckCheck, Globe } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
+import WorkingIntervalsInput from "@/components/WorkingIntervalsInput";
+import WorkingHoursOverridesManager from "@/components/WorkingHoursOverridesManager";
+import { DEFAULT_WORKING_HOURS_FORM, fromWorkingHoursForm, toWorkingHoursForm, workingHoursFormSchema } from "@/utils/working-hours";
+import { DEFAULT_TIME_ZONE, describeTimeZone, getBrowserTimeZone, isValidTimeZone, resolveTimeZone, TIME_ZONE_OPTIONS } from "@/utils/time-zone";
 import {
   Collapsible,
   CollapsibleContent,
@@ -47,19 +51,6 @@ const DAYS = [
   { id: "0", label: "Sunday" },
 ];
 
-const generateTimeOptions = () => {
-  const options = [];
-  for (let hour = 0; hour < 24; hour++) {
-    for (let min = 0; min < 60; min += 15) {
-      const time = `${hour.toString().padStart(2, '0')}:${min.toString().padStart(2, '0')}`;
-      options.push(time);
-    }
-  }
-  return options;
-};
-
-const TIME_OPTIONS = generateTimeOptions();
-
 const formSchema = z.object({
   min_booking_notice_hours: z.preprocess(
     (val) => (val === "" ? 48 : Number(val)),
@@ -69,9 +60,33 @@ const formSchema = z.object({
     (val) => (val === "" ? 12 : Number(val)),
     z.number().min(1).max(52)
   ),
+  waitlist_offer_minutes: z.preprocess(
+    (val) => (val === "" ? 60 : Number(val)),
+    z.number().min(5).max(1440)
+  ),
+  cancellation_policy_enabled: z.boolean().default(false),
+  cancellation_cutoff_hours: z.preprocess(
+    (val) => (val === "" ? 48 : Number(val)),
+    z.number().min(1).max(336)
+  ),
+  cancellation_fee_type: z.enum(["percent", "fixed"]).default("percent"),
+  cancellation_fee_amount: z.preprocess(
+    (val) => (val === "" ? 100 : Number(val)),
+    z.number().min(0)
+  ),
+  cancellation_grace_count: z.preprocess(
+    (val) => (val === "" ? 0 : Number(val)),
+    z.number().min(0).max(20)
+  ),
+  auto_complete_enabled: z.boolean().default(false),
+  auto_complete_delay_hours: z.preprocess(
+    (val) => (val === "" ? 12 : Number(val)),
+    z.number().min(0).max(168)
+  ),
   require_booking_approval: z.boolean().default(false),
   show_prices_on_booking: z.boolean().default(true),
   booking_mode: z.enum(["gaps", "open"]).default("gaps"),
+  time_zone: z.string().refine(isValidTimeZone, { message: "Unknown time zone." }),
   booking_interval_mins: z.preprocess(
     (val) => (val === "" ? 30 : Number(val)),
     z.number().min(15).max(120)
@@ -80,11 +95,16 @@ const formSchema = z.object({
     (val) => (val === "" ? 15 : Number(val)),
     z.number().min(0).max(60)
   ),
-  working_hours: z.record(z.object({
-    active: z.boolean(),
-    start: z.string(),
-    end: z.string()
-  }))
+  travel_buffer_enabled: z.boolean().default(false),
+  travel_speed_mph: z.preprocess(
+    (val) => (val === "" ? 20 : Number(val)),
+    z.number().min(5).max(70)
+  ),
+  travel_max_buffer_mins: z.preprocess(
+    (val) => (val === "" ? 60 : Number(val)),
+    z.number().min(0).max(180)
+  ),
+  working_hours: workingHoursFormSchema
 });
 
 interface BookingSettingsFormProps {
@@ -103,20 +123,24 @@ const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ onSuccess })
     defaultValues: {
       min_booking_notice_hours: 48,
       max_booking_advance_weeks: 12,
+      waitlist_offer_minutes: 60,
+      cancellation_policy_enabled: false,
+      cancellation_cutoff_hours: 48,
+      cancellation_fee_type: "percent",
+      cancellation_fee_amount: 100,
+      cancellation_grace_count: 0,
+      auto_complete_enabled: false,
+      auto_complete_delay_hours: 12,
       require_booking_approval: false,
       show_prices_on_booking: true,
       booking_mode: "gaps",
+      time_zone: DEFAULT_TIME_ZONE,
       booking_interval_mins: 30,
       booking_buffer_mins: 15,
-      working_hours: {
-        "1": { active: true, start: "09:00", end: "17:00" },
-        "2": { active: true, start: "09:00", end: "17:00" },
-        "3": { active: true, start: "09:00", end: "17:00" },
-        "4": { active: true, start: "09:00", end: "17:00" },
-        "5": { active: true, start: "09:00", end: "17:00" },
-        "6": { active: false, start: "09:00", end: "17:00" },
-        "0": { active: false, start: "09:00", end: "17:00" },
-      }
+      travel_buffer_enabled: false,
+      travel_speed_mph: 20,
+      travel_max_buffer_mins: 60,
+      working_hours: DEFAULT_WORKING_HOURS_FORM
     },
   });
 
@@ -137,26 +161,27 @@ const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ onSuccess })
       if (data) {
         setInstructorPin(data.instructor_pin);
         
-        const rawHours = data.working_hours || {};
-        const formattedHours: any = {};
-        DAYS.forEach(day => {
-          const config = rawHours[day.id] || { active: false, start: "09:00", end: "17:00" };
-          formattedHours[day.id] = {
-            active: config.active,
-            start: typeof config.start === 'number' ? `${config.start.toString().padStart(2, '0')}:00` : config.start,
-            end: typeof config.end === 'number' ? `${config.end.toString().padStart(2, '0')}:00` : config.end,
-          };
-        });
-
         form.reset({
           min_booking_notice_hours: data.min_booking_notice_hours ?? 48,
           max_booking_advance_weeks: data.max_booking_advance_weeks ?? 12,
+          waitlist_offer_minutes: data.waitlist_offer_minutes ?? 60,
+          cancellation_policy_enabled: data.cancellation_policy_enabled ?? false,
+          cancellation_cutoff_hours: data.cancellation_cutoff_hours ?? 48,
+          cancellation_fee_type: (data.cancellation_fee_type as "percent" | "fixed") || "percent",
+          cancellation_fee_amount: data.cancellation_fee_amount ?? 100,
+          cancellation_grace_count: data.cancellation_grace_count ?? 0,
+          auto_complete_enabled: data.auto_complete_enabled ?? false,
+          auto_complete_delay_hours: data.auto_complete_delay_hours ?? 12,
           require_booking_approval: data.require_booking_approval ?? false,
           show_prices_on_booking: data.show_prices_on_booking ?? true,
           booking_mode: (data.booking_mode as "gaps" | "open") || "gaps",
+          time_zone: resolveTimeZone(data.time_zone),
           booking_interval_mins: data.booking_interval_mins ?? 30,
           booking_buffer_mins: data.booking_buffer_mins ?? 15,
-          working_hours: formattedHours
+          travel_buffer_enabled: data.travel_buffer_enabled ?? false,
+          travel_speed_mph: data.travel_speed_mph ?? 20,
+          travel_max_buffer_mins: data.travel_max_buffer_mins ?? 60,
+          working_hours: toWorkingHoursForm(data.working_hours)
         });
       }
     } catch (error: any) {
@@ -180,12 +205,24 @@ const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ onSuccess })
       .update({
         min_booking_notice_hours: values.min_booking_notice_hours,
         max_booking_advance_weeks: values.max_booking_advance_weeks,
+        waitlist_offer_minutes: values.waitlist_offer_minutes,
+        cancellation_policy_enabled: values.cancellation_policy_enabled,
+        cancellation_cutoff_hours: values.cancellation_cutoff_hours,
+        cancellation_fee_type: values.cancellation_fee_type,
+        cancellation_fee_amount: values.cancellation_fee_amount,
+        cancellation_grace_count: values.cancellation_grace_count,
+        auto_complete_enabled: values.auto_complete_enabled,
+        auto_complete_delay_hours: values.auto_complete_delay_hours,
         require_booking_approval: values.require_booking_approval,
         show_prices_on_booking: values.show_prices_on_booking,
         booking_mode: values.booking_mode,
+        time_zone: values.time_zone,
         booking_interval_mins: values.booking_interval_mins,
         booking_buffer_mins: values.booking_buffer_mins,
-        working_hours: values.working_hours,
+        travel_buffer_enabled: values.travel_buffer_enabled,
+        travel_speed_mph: values.travel_speed_mph,
+        travel_max_buffer_mins: values.travel_max_buffer_mins,
+        working_hours: fromWorkingHoursForm(values.working_hours),
         updated_at: new Date().toISOString(),
       })
       .eq("id", user.id);
@@ -210,6 +247,14 @@ const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ onSuccess })
   }
 
   const bookingMode = form.watch("booking_mode");
+  const timeZone = form.watch("time_zone");
+
+  // Keep a saved zone (or the browser's) selectable even if it isn't in the usual list
+  const timeZoneOptions = Array.from(new Set([...TIME_ZONE_OPTIONS, getBrowserTimeZone(), timeZone].filter(zone => zone && isValidTimeZone(zone))));
+  const cancellationPolicyEnabled = form.watch("cancellation_policy_enabled");
+  const cancellationFeeType = form.watch("cancellation_fee_type");
+  const autoCompleteEnabled = form.watch("auto_complete_enabled");
+  const travelBufferEnabled = form.watch("travel_buffer_enabled");
 
   return (
     <Form {...form}>
@@ -301,6 +346,42 @@ const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ onSuccess })
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="waitlist_offer_minutes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs font-bold flex items-center gap-1.5">
+                <Hourglass className="h-3 w-3" /> Waitlist Hold (Mins)
+              </FormLabel>
+              <FormControl><Input type="number" className="h-9" {...field} onChange={(e) => field.onChange(parseInt(e.target.value))} /></FormControl>
+              <FormDescription className="text-[10px]">How long each waitlisted student gets to claim a cancelled slot before it moves on</FormDescription>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="time_zone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs font-bold flex items-center gap-1.5">
+                <Globe className="h-3 w-3" /> Time Zone
+              </FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl><SelectTrigger className="h-9"><SelectValue /></SelectTrigger></FormControl>
+                <SelectContent>
+                  {timeZoneOptions.map(zone => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")} ({describeTimeZone(zone)})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription className="text-[10px]">Your working hours, students' booking slots, reminders and emails all use this zone</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {bookingMode === "open" && (
           <div className="space-y-4 animate-in fade-in slide-in-from-top-2 duration-200">
             <div className="grid grid-cols-2 gap-4">
@@ -380,37 +461,16 @@ const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ onSuccess })
 
                     <div className="flex items-center justify-end">
                       {form.watch(`working_hours.${day.id}.active`) ? (
-                        <div className="flex items-center gap-1.5 sm:gap-2">
-                          <FormField
-                            control={form.control}
-                            name={`working_hours.${day.id}.start`}
-                            render={({ field }) => (
-                              <Select onValueChange={field.onChange} value={field.value}>
-                                <FormControl><SelectTrigger className="w-[70px] sm:w-24 h-8 text-[10px] sm:text-xs px-2"><SelectValue /></SelectTrigger></FormControl>
-                                <SelectContent>
-                                  {TIME_OPTIONS.map((time) => (
-                                    <SelectItem key={time} value={time}>{time}</SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            )}
-                          />
-                          <span className="text-[10px] sm:text-xs font-bold text-muted-foreground">to</span>
-                          <FormField
-                            control={form.control}
-                            name={`working_hours.${day.id}.end`}
-                            render={({ field }) => (
-                              <Select onValueChange={field.onChange} value={field.value}>
-                                <FormControl><SelectTrigger className="w-[70px] sm:w-24 h-8 text-[10px] sm:text-xs px-2"><SelectValue /></SelectTrigger></FormControl>
-                                <SelectContent>
-                                  {TIME_OPTIONS.map((time) => (
-                                    <SelectItem key={time} value={time}>{time}</SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            )}
-                          />
-                        </div>
+                        <FormField
+                          control={form.control}
+                          name={`working_hours.${day.id}.intervals`}
+                          render={({ field }) => (
+                            <FormItem className="space-y-1">
+                              <WorkingIntervalsInput value={field.value} onChange={field.onChange} triggerClassName="w-[70px] sm:w-24 h-8 text-[10px] sm:text-xs" />
+                              <FormMessage className="text-[10px] text-right" />
+                            </FormItem>
+                          )}
+                        />
                       ) : (
                         <span className="text-[10px] sm:text-xs italic text-muted-foreground pr-2">Off</span>
                       )}
@@ -419,10 +479,163 @@ const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ onSuccess })
                 ))}
               </CollapsibleContent>
             </Collapsible>
+
+            <WorkingHoursOverridesManager />
           </div>
         )}
 
         <div className="space-y-4 pt-4 border-t">
+          <FormField
+            control={form.control}
+            name="travel_buffer_enabled"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                <div className="space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <Car className="h-4 w-4 text-blue-600" />
+                    <FormLabel className="text-sm font-bold">Travel Time Between Pickups</FormLabel>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">Leave time to drive between students' pickup locations</p>
+                </div>
+                <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+              </FormItem>
+            )}
+          />
+
+          {travelBufferEnabled && (
+            <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2 duration-200">
+              <FormField
+                control={form.control}
+                name="travel_speed_mph"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs font-bold">Average Speed (mph)</FormLabel>
+                    <FormControl><Input type="number" className="h-9" {...field} onChange={(e) => field.onChange(parseInt(e.target.value))} /></FormControl>
+                    <FormDescription className="text-[10px]">Door to door, including traffic</FormDescription>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="travel_max_buffer_mins"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs font-bold">Max Travel (Mins)</FormLabel>
+                    <FormControl><Input type="number" className="h-9" {...field} onChange={(e) => field.onChange(parseInt(e.target.value))} /></FormControl>
+                    <FormDescription className="text-[10px]">Longest gap ever added</FormDescription>
+                  </FormItem>
+                )}
+              />
+              <p className="col-span-2 text-[10px] text-muted-foreground">
+                The gap between lessons is the larger of your buffer and the estimated drive between pickups.
+              </p>
+            </div>
+          )}
+
+          <FormField
+            control={form.control}
+            name="cancellation_policy_enabled"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                <div className="space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <Ban className="h-4 w-4 text-orange-600" />
+                    <FormLabel className="text-sm font-bold">Late Cancellation Fees</FormLabel>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">Charge students who cancel inside your cutoff</p>
+                </div>
+                <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+              </FormItem>
+            )}
+          />
+
+          {cancellationPolicyEnabled && (
+            <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2 duration-200">
+              <FormField
+                control={form.control}
+                name="cancellation_cutoff_hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs font-bold">Cutoff (Hrs)</FormLabel>
+                    <FormControl><Input type="number" className="h-9" {...field} onChange={(e) => field.onChange(parseInt(e.target.value))} /></FormControl>
+                    <FormDescription className="text-[10px]">Cancelling closer than this is late</FormDescription>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="cancellation_grace_count"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs font-bold">Free Late Cancels</FormLabel>
+                    <FormControl><Input type="number" className="h-9" {...field} onChange={(e) => field.onChange(parseInt(e.target.value))} /></FormControl>
+                    <FormDescription className="text-[10px]">Allowed per student before fees apply</FormDescription>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="cancellation_fee_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs font-bold">Fee Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger className="h-9"><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value="percent">% of lesson price</SelectItem>
+                        <SelectItem value="fixed">Fixed amount (£)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="cancellation_fee_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs font-bold">{cancellationFeeType === "fixed" ? "Fee (£)" : "Fee (%)"}</FormLabel>
+                    <FormControl><Input type="number" step="0.01" className="h-9" {...field} onChange={(e) => field.onChange(parseFloat(e.target.value))} /></FormControl>
+                  </FormItem>
+                )}
+              />
+              <p className="col-span-2 text-[10px] text-muted-foreground">
+                Fees are taken from the student's pre-paid hours when they have enough, otherwise added to their account as unpaid.
+              </p>
+            </div>
+          )}
+
+          <FormField
+            control={form.control}
+            name="auto_complete_enabled"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                <div className="space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <CheckCheck className="h-4 w-4 text-green-600" />
+                    <FormLabel className="text-sm font-bold">Auto-Complete Lessons</FormLabel>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">Mark past lessons completed each night so pre-paid hours and income stay right</p>
+                </div>
+                <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+              </FormItem>
+            )}
+          />
+
+          {autoCompleteEnabled && (
+            <FormField
+              control={form.control}
+              name="auto_complete_delay_hours"
+              render={({ field }) => (
+                <FormItem className="animate-in fade-in slide-in-from-top-2 duration-200">
+                  <FormLabel className="text-xs font-bold">Wait After Lesson Ends (Hrs)</FormLabel>
+                  <FormControl><Input type="number" className="h-9" {...field} onChange={(e) => field.onChange(parseInt(e.target.value))} /></FormControl>
+                  <FormDescription className="text-[10px]">Lessons flagged for review are left alone. You'll get a notification listing what was completed.</FormDescription>
+                </FormItem>
+              )}
+            />
+          )}
+
           <FormField
             control={form.control}
             name="require_booking_approval"
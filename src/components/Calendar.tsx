@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Calendar, dateFnsLocalizer, Event as BigCalendarEvent } from 'react-big-calendar';
+import withDragAndDrop from 'react-big-calendar/lib/addons/dragAndDrop';
 import { 
   format, 
   parse, 
@@ -18,14 +19,19 @@ import {
   addMonths 
 } from 'date-fns';
 import { enUS } from 'date-fns/locale';
+import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showError, showSuccess } from "@/utils/toast";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import EditBookingForm from "@/components/EditBookingForm";
 import CalendarEventWrapper from "@/components/CalendarEventWrapper";
 import { Button } from "@/components/ui/button";
-import { CheckCircle } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, ArrowRight, CheckCircle, Loader2 } from "lucide-react";
+import { BookingConflict, checkBookingConflicts } from "@/utils/booking-conflicts";
+import { DEFAULT_TIME_ZONE, formatInTimeZone, resolveTimeZone } from "@/utils/time-zone";
 
 const locales = {
   'en-US': enUS,
@@ -39,6 +45,18 @@ const localizer = dateFnsLocalizer({
   locales,
 });
 
+const DragAndDropCalendar = withDragAndDrop(Calendar);
+
+// Only live lessons and open slots can be dragged; history stays where it happened
+const MOVABLE_STATUSES = ['scheduled', 'available'];
+
+interface PendingMove {
+  event: BigCalendarEvent;
+  start: Date;
+  end: Date;
+  conflicts: BookingConflict[];
+}
+
 const calculateDynamicTimeRange = (currentDate: Date, events: BigCalendarEvent[], currentView: string, defaultMin: number, defaultMax: number) => {
   if (currentView === 'month' || currentView === 'agenda') {
     return { min: undefined, max: undefined };
@@ -110,6 +128,18 @@ const CalendarComponent: React.FC<CalendarComponentProps> = ({
   const { user } = useSession();
   const [isEditBookingDialogOpen, setIsEditBookingDialogOpen] = useState(false);
   const [selectedBookingId, setSelectedBookingId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [notifyStudent, setNotifyStudent] = useState(true);
+  const [isMoving, setIsMoving] = useState(false);
+
+  const { data: timeZone = DEFAULT_TIME_ZONE } = useQuery({
+    queryKey: ['instructor-time-zone', user?.id],
+    queryFn: async () => {
+      const { data: profile } = await supabase.from("profiles").select("time_zone").eq("id", user!.id).single();
+      return resolveTimeZone(profile?.time_zone);
+    },
+    enabled: !!user,
+  });
 
   const { min: minTime, max: maxTime } = useMemo(() => {
     return calculateDynamicTimeRange(currentDate, events, currentView, defaultStartHour, defaultEndHour);
@@ -123,6 +153,62 @@ const CalendarComponent: React.FC<CalendarComponentProps> = ({
     setIsEditBookingDialogOpen(true);
   }, []);
 
+  const isTimeGridView = currentView === 'week' || currentView === 'day';
+  const isEventMovable = useCallback((event: BigCalendarEvent) =>
+    isTimeGridView && MOVABLE_STATUSES.includes(event.resource?.status), [isTimeGridView]);
+
+  const handleEventMove = useCallback(async ({ event, start, end }: { event: BigCalendarEvent; start: Date | string; end: Date | string }) => {
+    if (!user) return;
+    const newStart = new Date(start);
+    const newEnd = new Date(end);
+    if (newStart.getTime() === new Date(event.start!).getTime() && newEnd.getTime() === new Date(event.end!).getTime()) return;
+    if (newEnd <= newStart) return;
+
+    try {
+      const [conflicts] = await checkBookingConflicts(user.id, [{ start: newStart, end: newEnd }], [event.id as string]);
+      setNotifyStudent(true);
+      setPendingMove({ event, start: newStart, end: newEnd, conflicts });
+    } catch (err) {
+      console.error("Error checking for clashes:", err);
+      showError("Couldn't check that time for clashes.");
+    }
+  }, [user]);
+
+  const handleConfirmMove = async () => {
+    if (!pendingMove) return;
+    const { event, start, end } = pendingMove;
+    setIsMoving(true);
+
+    const { error } = await supabase
+      .from("bookings")
+      .update({ start_time: start.toISOString(), end_time: end.toISOString() })
+      .eq("id", event.id);
+
+    if (error) {
+      showError("Failed to move booking: " + error.message);
+      setIsMoving(false);
+      return;
+    }
+
+    const studentId = event.resource?.student_id;
+    if (notifyStudent && studentId && event.resource?.status === 'scheduled') {
+      const { data: student } = await supabase.from("students").select("auth_user_id").eq("id", studentId).maybeSingle();
+      if (student?.auth_user_id) {
+        await supabase.from("notifications").insert({
+          user_id: student.auth_user_id,
+          title: "Lesson Moved",
+          message: `Your lesson on ${formatInTimeZone(event.start!, timeZone, "PPP p")} has been moved to ${formatInTimeZone(start, timeZone, "PPP p")}.`,
+          type: "booking_confirmed"
+        });
+      }
+    }
+
+    showSuccess("Booking moved.");
+    setIsMoving(false);
+    setPendingMove(null);
+    onEventsRefetch(startOfMonth(currentDate), endOfMonth(addMonths(currentDate, 2)));
+  };
+
   const handleBookingUpdated = () => {
     const start = startOfMonth(currentDate);
     const end = endOfMonth(addMonths(currentDate, 2));
@@ -168,7 +254,7 @@ const CalendarComponent: React.FC<CalendarComponentProps> = ({
         </div>
       )}
       <div className="flex-1">
-        <Calendar
+        <DragAndDropCalendar
           localizer={localizer}
           events={events}
           startAccessor="start"
@@ -194,9 +280,61 @@ const CalendarComponent: React.FC<CalendarComponentProps> = ({
           selectable
           onSelectSlot={handleSelectSlot}
           onSelectEvent={handleSelectEvent}
+          draggableAccessor={isEventMovable}
+          resizableAccessor={isEventMovable}
+          resizable
+          onEventDrop={handleEventMove}
+          onEventResize={handleEventMove}
         />
       </div>
 
+      <Dialog open={!!pendingMove} onOpenChange={(open) => !open && !isMoving && setPendingMove(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{pendingMove?.conflicts.length ? "Move Despite Clash?" : "Move Booking?"}</DialogTitle>
+            <DialogDescription>{pendingMove?.event.title}</DialogDescription>
+          </DialogHeader>
+          {pendingMove && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2 rounded-lg border bg-muted/30 p-3 text-sm">
+                <div>
+                  <p className="font-bold">{formatInTimeZone(pendingMove.event.start!, timeZone, "EEE d MMM")}</p>
+                  <p className="text-muted-foreground">{formatInTimeZone(pendingMove.event.start!, timeZone, "HH:mm")}–{formatInTimeZone(pendingMove.event.end!, timeZone, "HH:mm")}</p>
+                </div>
+                <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="text-right">
+                  <p className="font-bold">{formatInTimeZone(pendingMove.start, timeZone, "EEE d MMM")}</p>
+                  <p className="text-muted-foreground">{formatInTimeZone(pendingMove.start, timeZone, "HH:mm")}–{formatInTimeZone(pendingMove.end, timeZone, "HH:mm")}</p>
+                </div>
+              </div>
+
+              {pendingMove.conflicts.length > 0 && (
+                <div className="rounded-lg border border-orange-200 bg-orange-50 p-3 space-y-1">
+                  {pendingMove.conflicts.map((conflict, index) => (
+                    <p key={index} className="flex items-start gap-2 text-xs font-medium text-orange-800">
+                      <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" /> {conflict.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {pendingMove.event.resource?.student_id && pendingMove.event.resource?.status === 'scheduled' && (
+                <div className="flex items-center gap-2">
+                  <Checkbox id="notify-student-move" checked={notifyStudent} onCheckedChange={(checked) => setNotifyStudent(checked === true)} />
+                  <Label htmlFor="notify-student-move" className="text-sm">Let the student know</Label>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setPendingMove(null)} disabled={isMoving}>Cancel</Button>
+            <Button onClick={handleConfirmMove} disabled={isMoving} variant={pendingMove?.conflicts.length ? "destructive" : "default"}>
+              {isMoving ? <Loader2 className="h-4 w-4 animate-spin" /> : pendingMove?.conflicts.length ? "Move Anyway" : "Move"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isEditBookingDialogOpen} onOpenChange={setIsEditBookingDialogOpen}>
         <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
           <DialogHeader><DialogTitle>Edit Booking</DialogTitle></DialogHeader>
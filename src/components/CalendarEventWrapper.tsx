@@ -1,12 +1,14 @@
 "use client";
 
 import React, { useState } from "react";
-import { Check, PoundSterling, Circle, Sparkles, ClipboardCheck } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, PoundSterling, Circle, Sparkles, ClipboardCheck, Repeat, Users } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showSuccess, showError } from "@/utils/toast";
 import { Event as BigCalendarEvent } from 'react-big-calendar';
 import { cn } from "@/lib/utils";
+import { fetchLessonTypes, findLessonType, lessonTypeColourClass } from "@/utils/lesson-types";
 
 interface CustomEventResource {
   student_id: string;
@@ -16,6 +18,8 @@ interface CustomEventResource {
   targets_for_next_session?: string;
   is_paid: boolean;
   is_covered: boolean;
+  series_id?: string | null;
+  capacity?: number | null;
 }
 
 interface CalendarEventWrapperProps {
@@ -28,6 +32,12 @@ interface CalendarEventWrapperProps {
 const CalendarEventWrapper: React.FC<CalendarEventWrapperProps> = ({ event, title, onEventStatusChange, onMarkAsPaid }) => {
   const { user } = useSession();
   const [isOptimisticCompleted, setIsOptimisticCompleted] = useState(false);
+
+  const { data: lessonTypes = [] } = useQuery({
+    queryKey: ['lesson-types', user?.id],
+    queryFn: () => fetchLessonTypes(user!.id),
+    enabled: !!user,
+  });
   
   const isCompleted = isOptimisticCompleted || event.resource?.status === 'completed';
   const isCancelled = event.resource?.status === 'cancelled';
@@ -36,6 +46,9 @@ const CalendarEventWrapper: React.FC<CalendarEventWrapperProps> = ({ event, titl
   const isDrivingTest = event.resource?.lesson_type === 'Driving Test';
   const isPersonal = event.resource?.lesson_type === 'Personal';
   const isDrivingLesson = event.resource?.lesson_type === 'Driving lesson';
+  // Attendees of a group session pay individually, so it has no payment button of its own
+  const isGroupSession = event.resource?.capacity != null;
+  const catalogueType = findLessonType(lessonTypes, event.resource?.lesson_type);
   
   const isPaid = event.resource?.is_paid || false;
   const isCovered = event.resource?.is_covered || false;
@@ -95,11 +108,14 @@ const CalendarEventWrapper: React.FC<CalendarEventWrapperProps> = ({ event, titl
         "bg-yellow-400/80": isPersonal && !isCompleted && !isCancelled && !isPending,
         "bg-orange-600/80": (isDrivingLesson && duration >= 80 && duration <= 100) && !isCompleted && !isCancelled && !isPending,
         "bg-sky-500/80": isDrivingLesson && duration >= 110 && !isCompleted && !isCancelled && !isPending,
-      }
+      },
+      catalogueType && !isCompleted && !isCancelled && !isAvailable && !isPending && lessonTypeColourClass(catalogueType)
     )}>
       <div className="flex items-center gap-1 flex-1 min-w-0">
         {isAvailable && <Sparkles className="h-3 w-3 shrink-0" />}
         {isPending && <ClipboardCheck className="h-3 w-3 shrink-0" />}
+        {isGroupSession && <Users className="h-3 w-3 shrink-0 text-white" />}
+        {event.resource?.series_id && <Repeat className={cn("h-3 w-3 shrink-0", !isAvailable && !isPending && "text-white")} />}
         <span className={cn(
           "truncate text-[10px] sm:text-xs font-bold",
           (isAvailable || isPending) ? "" : "text-white",
@@ -112,7 +128,7 @@ const CalendarEventWrapper: React.FC<CalendarEventWrapperProps> = ({ event, titl
       
       <div className="flex items-center gap-1 shrink-0">
         {/* Payment Status Button */}
-        {!isPersonal && !isCancelled && !isAvailable && !isPending && (
+        {!isPersonal && !isGroupSession && !isCancelled && !isAvailable && !isPending && (
           <button
             onClick={handlePaymentClick}
             className={cn(
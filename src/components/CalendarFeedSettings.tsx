@@ -0,0 +1,158 @@
+"use client";
+
+import React from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarSync, Copy, RefreshCw, Trash2, Loader2, Info, Link2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+
+const FEED_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL || ""}/functions/v1/calendar-feed`;
+
+const getCalendarFeedUrl = (token: string) => `${FEED_BASE_URL}?token=${token}`;
+
+const CalendarFeedSettings: React.FC = () => {
+  const { user, userRole } = useSession();
+  const queryClient = useQueryClient();
+  const isStudent = userRole === 'student';
+
+  const { data: student, isLoading: isLoadingStudent } = useQuery({
+    queryKey: ['student-profile', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("students")
+        .select("id, name, user_id, auth_user_id")
+        .eq("auth_user_id", user!.id)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && isStudent,
+  });
+
+  const { data: feed, isLoading: isLoadingFeed } = useQuery({
+    queryKey: ['calendar-feed-token', user?.id, student?.id],
+    queryFn: async () => {
+      let query = supabase
+        .from("calendar_feed_tokens")
+        .select("id, token, created_at, last_accessed_at");
+      query = isStudent ? query.eq("student_id", student!.id) : query.eq("user_id", user!.id).is("student_id", null);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && (!isStudent || !!student),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      // Regenerating replaces the old token, so any previously shared link stops working
+      if (feed) {
+        const { error: deleteError } = await supabase.from("calendar_feed_tokens").delete().eq("id", feed.id);
+        if (deleteError) throw deleteError;
+      }
+      const { error } = await supabase
+        .from("calendar_feed_tokens")
+        .insert(isStudent ? { user_id: student!.user_id, student_id: student!.id } : { user_id: user!.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed-token'] });
+      showSuccess(feed ? "New calendar link created. The old link no longer works." : "Calendar link created.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("calendar_feed_tokens").delete().eq("id", feed!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed-token'] });
+      showSuccess("Calendar link revoked.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const feedUrl = feed ? getCalendarFeedUrl(feed.token) : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      showSuccess("Link copied to clipboard.");
+    } catch {
+      showError("Could not copy link. Please copy it manually.");
+    }
+  };
+
+  const isBusy = createMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <Card className="border-none shadow-sm bg-card overflow-hidden">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="flex items-center gap-2">
+          <CalendarSync className="h-5 w-5 text-primary" />
+          Calendar Subscription
+        </CardTitle>
+        <CardDescription>
+          {isStudent
+            ? "Subscribe to your lessons in Google Calendar, Apple Calendar or Outlook."
+            : "Subscribe to your lessons and days off in Google Calendar, Apple Calendar or Outlook."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        {isLoadingFeed || (isStudent && isLoadingStudent) ? (
+          <Skeleton className="h-24 w-full" />
+        ) : feed ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={handleCopy} className="shrink-0">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Created {format(parseISO(feed.created_at), "PPP")}
+              {feed.last_accessed_at && ` · Last synced ${format(parseISO(feed.last_accessed_at), "PPP p")}`}
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button asChild variant="secondary" className="font-bold flex-1">
+                <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+                  <Link2 className="mr-2 h-4 w-4" /> Open in Calendar App
+                </a>
+              </Button>
+              <Button variant="outline" className="font-bold flex-1" onClick={() => createMutation.mutate()} disabled={isBusy}>
+                {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                New Link
+              </Button>
+              <Button variant="destructive" className="font-bold flex-1" onClick={() => revokeMutation.mutate()} disabled={isBusy}>
+                {revokeMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                Revoke
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button className="w-full font-bold h-12" onClick={() => createMutation.mutate()} disabled={isBusy || (isStudent && !student)}>
+            {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarSync className="mr-2 h-4 w-4" />}
+            Create Calendar Link
+          </Button>
+        )}
+
+        <div className="flex items-start gap-3 text-xs text-muted-foreground bg-blue-50/50 p-4 rounded-xl border border-blue-100">
+          <Info className="h-4 w-4 text-blue-500 shrink-0 mt-0.5" />
+          <p className="leading-relaxed">
+            Anyone with this link can see {isStudent ? "your lesson times" : "your diary, including student names"}. Keep it private, and revoke it if it has been shared by mistake. Calendar apps usually refresh subscriptions every few hours.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedSettings;
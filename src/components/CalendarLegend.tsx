@@ -1,8 +1,11 @@
 "use client";
 
 import React from "react";
+import { useQuery } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
 import { PoundSterling, Circle, Check } from "lucide-react";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { fetchLessonTypes, lessonTypeColourClass } from "@/utils/lesson-types";
 
 const LegendItem = ({ colorClass, label }: { colorClass: string; label: string }) => (
   <div className="flex items-center gap-2">
@@ -22,6 +25,14 @@ const PaymentLegendItem = ({ label, colorClass, circleColor }: { label: string,
 );
 
 const CalendarLegend = () => {
+  const { user } = useSession();
+
+  const { data: lessonTypes = [] } = useQuery({
+    queryKey: ['lesson-types', user?.id],
+    queryFn: () => fetchLessonTypes(user!.id),
+    enabled: !!user,
+  });
+
   return (
     <div className="flex flex-wrap items-center justify-center gap-x-8 gap-y-4 p-4 bg-card border rounded-lg shadow-sm mt-4">
       {/* Lesson Types */}
@@ -30,6 +41,9 @@ const CalendarLegend = () => {
       <LegendItem colorClass="bg-sky-500/80" label="2h Lesson" />
       <LegendItem colorClass="bg-yellow-400/80" label="Personal" />
       <LegendItem colorClass="bg-purple-600/80" label="Driving Test" />
+      {lessonTypes.filter(type => type.is_active).map(type => (
+        <LegendItem key={type.id} colorClass={lessonTypeColourClass(type)} label={type.name} />
+      ))}
       <LegendItem colorClass="bg-green-600/80" label="Completed" />
       <LegendItem colorClass="bg-red-600/80" label="Cancelled" />
       
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import { CANCELLATION_POLICY_COLUMNS, CancellationPolicySettings, describeCancellationFee, isLateCancellation } from "@/utils/cancellation-policy";
+
+interface CancelLessonDialogProps {
+  booking: { id: string; start_time: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: () => void;
+}
+
+const CancelLessonDialog: React.FC<CancelLessonDialogProps> = ({ booking, onOpenChange, onCancelled }) => {
+  const { user } = useSession();
+  const [waiveFee, setWaiveFee] = useState(false);
+
+  useEffect(() => {
+    setWaiveFee(false);
+  }, [booking?.id]);
+
+  const { data: policy } = useQuery({
+    queryKey: ['cancellation-policy', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select(CANCELLATION_POLICY_COLUMNS).eq("id", user!.id).single();
+      if (error) throw error;
+      return data as CancellationPolicySettings;
+    },
+    enabled: !!user,
+  });
+
+  const isLate = !!booking && isLateCancellation(policy, booking.start_time);
+
+  const handleConfirm = async () => {
+    if (!booking) return;
+    const { error } = await supabase
+      .from("bookings")
+      .update({ status: "cancelled", cancellation_fee_waived: isLate && waiveFee })
+      .eq("id", booking.id);
+
+    if (error) {
+      showError("Failed to cancel lesson: " + error.message);
+    } else {
+      showSuccess(isLate && !waiveFee ? "Lesson cancelled. The late cancellation policy has been applied." : "Lesson cancelled.");
+      onCancelled();
+    }
+  };
+
+  return (
+    <AlertDialog open={!!booking} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this lesson?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {booking && `The lesson on ${format(parseISO(booking.start_time), "EEEE, MMMM do 'at' p")} will be marked as cancelled.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {isLate && policy && (
+          <div className="space-y-3 p-3 rounded-lg border border-orange-200 bg-orange-50/50">
+            <p className="text-xs font-bold text-orange-700 flex items-center gap-1.5">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+              Inside your {policy.cancellation_cutoff_hours ?? 48}-hour cutoff: a fee of {describeCancellationFee(policy)} applies.
+            </p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="waive-fee" className="text-sm font-bold">Waive the fee</Label>
+              <Switch id="waive-fee" checked={waiveFee} onCheckedChange={setWaiveFee} />
+            </div>
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Lesson</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+            Cancel Lesson
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelLessonDialog;
@@ -0,0 +1,120 @@
+"use client";
+
+import React from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Ban, CheckCircle, Undo2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import { cn } from "@/lib/utils";
+
+interface CancellationChargesCardProps {
+  studentId: string;
+  onChanged?: () => void;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  charged: { label: "Unpaid", className: "bg-destructive" },
+  paid: { label: "Paid", className: "bg-green-600" },
+  deducted: { label: "From credit", className: "bg-purple-600" },
+  grace: { label: "Free allowance", className: "bg-blue-500" },
+  waived: { label: "Waived", className: "bg-muted-foreground" },
+};
+
+const CancellationChargesCard: React.FC<CancellationChargesCardProps> = ({ studentId, onChanged }) => {
+  const queryClient = useQueryClient();
+
+  const { data: charges = [] } = useQuery({
+    queryKey: ['cancellation-charges', studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cancellation_charges")
+        .select("*")
+        .eq("student_id", studentId)
+        .order("lesson_start", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['cancellation-charges'] });
+    onChanged?.();
+  };
+
+  const waiveMutation = useMutation({
+    mutationFn: async (chargeId: string) => {
+      const { error } = await supabase.rpc("waive_cancellation_charge", { p_charge_id: chargeId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      refresh();
+      showSuccess("Fee waived.");
+    },
+    onError: (err: Error) => showError("Failed to waive fee: " + err.message)
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async (chargeId: string) => {
+      const { error } = await supabase.from("cancellation_charges").update({ status: "paid" }).eq("id", chargeId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      refresh();
+      showSuccess("Fee marked as paid.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  if (charges.length === 0) return null;
+
+  return (
+    <Card className="border-none shadow-sm">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Ban className="h-5 w-5 text-orange-500" /> Late Cancellations
+        </CardTitle>
+        <CardDescription>Fees raised under your cancellation policy.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 pt-2 grid gap-2">
+        {charges.map(charge => {
+          const status = STATUS_LABELS[charge.status] || STATUS_LABELS.charged;
+          const canChange = charge.status === "charged" || charge.status === "deducted";
+          return (
+            <div key={charge.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg bg-white">
+              <div className="min-w-0 space-y-1">
+                <p className="font-bold text-sm">{format(parseISO(charge.lesson_start), "EEE, MMM do 'at' p")}</p>
+                <div className="flex items-center gap-2">
+                  <Badge className={cn("text-[10px] h-5", status.className)}>{status.label}</Badge>
+                  {charge.status === "deducted" && (
+                    <span className="text-[10px] font-bold text-muted-foreground">{Number(charge.hours_deducted).toFixed(2)} hrs</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <p className={cn("font-black", charge.status === "waived" || charge.status === "grace" ? "text-muted-foreground line-through" : "text-orange-600")}>
+                  £{Number(charge.amount).toFixed(2)}
+                </p>
+                {charge.status === "charged" && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-green-600" title="Mark as paid" onClick={() => markPaidMutation.mutate(charge.id)}>
+                    <CheckCircle className="h-4 w-4" />
+                  </Button>
+                )}
+                {canChange && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" title="Waive fee" onClick={() => waiveMutation.mutate(charge.id)}>
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CancellationChargesCard;
@@ -0,0 +1,82 @@
+"use client";
+
+import React from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RotateCcw, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import { describeActor, fetchDeletedBookings, restoreBookingEvent } from "@/utils/booking-events";
+
+interface DeletedBookingsListProps {
+  onRestored: () => void;
+}
+
+/**
+ * Recently deleted bookings that can be put back on the schedule
+ */
+const DeletedBookingsList: React.FC<DeletedBookingsListProps> = ({ onRestored }) => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['deleted-bookings', user?.id],
+    queryFn: () => fetchDeletedBookings(user!.id),
+    enabled: !!user
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (eventId: string) => restoreBookingEvent(eventId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deleted-bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['booking-events'] });
+      showSuccess("Booking restored.");
+      onRestored();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  if (isLoading) return <Skeleton className="h-24 w-full" />;
+
+  const events = data?.events || [];
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground italic py-4 text-center">No recently deleted bookings.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {events.map(event => {
+        const booking = event.old_data!;
+        return (
+          <div key={event.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+            <div className="min-w-0">
+              <p className="font-bold text-sm truncate">
+                {(booking.student_id && data!.studentNames[booking.student_id]) || booking.title || booking.lesson_type}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(parseISO(booking.start_time), "EEE d MMM, HH:mm")} · {booking.status}
+              </p>
+              <p className="text-[10px] text-muted-foreground">
+                Deleted by {describeActor(event.actor_id, user!.id, data!.actorNames)} on {format(parseISO(event.created_at), "d MMM, HH:mm")}
+              </p>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-8 font-bold shrink-0"
+              onClick={() => restoreMutation.mutate(event.id)}
+              disabled={restoreMutation.isPending}
+            >
+              {restoreMutation.isPending && restoreMutation.variables === event.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <><RotateCcw className="mr-1 h-3.5 w-3.5" /> Restore</>}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DeletedBookingsList;
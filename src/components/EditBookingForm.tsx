@@ -2,6 +2,7 @@
 
 import React, { useEffect, useState, useCallback, useMemo } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { Button } from "@/components/ui/button";
@@ -24,11 +25,12 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showSuccess, showError } from "@/utils/toast";
 import { format, addMinutes, isValid } from "date-fns";
-import { Target, X, Plus, Minus } from "lucide-react";
+import { Target, X, Plus, Minus, Repeat, AlertTriangle, History, ChevronDown, ChevronUp } from "lucide-react";
 import { 
   AlertDialog, 
   AlertDialogAction, 
@@ -41,30 +43,60 @@ import {
   AlertDialogTrigger 
 } from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import DatePicker from "@/components/DatePicker";
 import TimePicker from "@/components/TimePicker";
 import StudentSearch from "@/components/StudentSearch";
+import PickupLocationSelect from "@/components/PickupLocationSelect";
+import { cn } from "@/lib/utils";
+import { CANCELLATION_POLICY_COLUMNS, CancellationPolicySettings, describeCancellationFee, isLateCancellation } from "@/utils/cancellation-policy";
+import { applySeriesDelete, applySeriesUpdate, describeRule, fetchSeriesMoveRanges, parseRRule, SeriesBookingRef, SeriesScope } from "@/utils/booking-series";
+import { fetchLessonTypes, findLessonType, lessonTypeNames } from "@/utils/lesson-types";
+import { checkBookingConflicts } from "@/utils/booking-conflicts";
+import { DEFAULT_TIME_ZONE, resolveTimeZone } from "@/utils/time-zone";
+import BookingClashReport, { ClashReportEntry } from "@/components/BookingClashReport";
+import BookingHistory from "@/components/BookingHistory";
+import GroupAttendeesManager from "@/components/GroupAttendeesManager";
+import { GROUP_SESSION_TYPE } from "@/utils/group-sessions";
 
 interface Student {
   id: string;
   name: string;
 }
 
+const SCOPE_OPTIONS: { value: SeriesScope; label: string }[] = [
+  { value: "this", label: "This lesson" },
+  { value: "following", label: "This & following" },
+  { value: "all", label: "All upcoming" },
+];
+
 const formSchema = z.object({
   student_id: z.string().optional().nullable(),
+  pickup_location_id: z.string().optional().nullable(),
   description: z.string().optional().nullable(),
-  lesson_type: z.enum(["Driving lesson", "Driving Test", "Personal"], {
-    message: "Please select a valid lesson type.",
-  }),
+  lesson_type: z.string().min(1, "Please select a valid lesson type."),
   lesson_length: z.string().min(1, "Length is required"),
   targets_for_next_session: z.string().optional().nullable(),
+  session_title: z.string().optional().nullable(),
+  capacity: z.string().optional(),
+  attendee_price: z.string().optional(),
   status: z.enum(["scheduled", "completed", "cancelled"], {
     message: "Please select a valid status.",
   }),
   start_time: z.date({ required_error: "Start time is required." }),
   end_time: z.date({ required_error: "End time is required." }),
   is_paid: z.boolean().default(false),
+  needs_review: z.boolean().default(false),
 }).superRefine((data, ctx) => {
+  if (data.lesson_type === GROUP_SESSION_TYPE) {
+    if (!data.session_title?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please name the session.", path: ["session_title"] });
+    }
+    if (!(parseInt(data.capacity || "", 10) >= 1)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least 1 place.", path: ["capacity"] });
+    }
+    return;
+  }
   if (data.lesson_type !== "Personal" && !data.student_id) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
@@ -89,24 +121,55 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
 }) => {
   const { user } = useSession();
   const [students, setStudents] = useState<Student[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isLoadingStudents, setIsLoadingStudents] = useState(true);
   const [isLoadingBooking, setIsLoadingBooking] = useState(true);
   const [previousTargets, setPreviousTargets] = useState<string | null>(null);
   const [isLoadingPrevTargets, setIsLoadingPrevTargets] = useState(false);
   const [isCustomLength, setIsCustomLength] = useState(false);
+  const [seriesRef, setSeriesRef] = useState<SeriesBookingRef | null>(null);
+  const [seriesRule, setSeriesRule] = useState<string | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>("this");
+  const [originalStatus, setOriginalStatus] = useState<string | null>(null);
+  const [originalStudentId, setOriginalStudentId] = useState<string | null>(null);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicySettings | null>(null);
+  const [waiveCancellationFee, setWaiveCancellationFee] = useState(false);
+  const [originalTimes, setOriginalTimes] = useState<{ start: string; end: string } | null>(null);
+  const [clashReport, setClashReport] = useState<ClashReportEntry[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: lessonTypes = [] } = useQuery({
+    queryKey: ['lesson-types', user?.id],
+    queryFn: () => fetchLessonTypes(user!.id),
+    enabled: !!user,
+  });
+
+  const { data: timeZone = DEFAULT_TIME_ZONE } = useQuery({
+    queryKey: ['instructor-time-zone', user?.id],
+    queryFn: async () => {
+      const { data: profile } = await supabase.from("profiles").select("time_zone").eq("id", user!.id).single();
+      return resolveTimeZone(profile?.time_zone);
+    },
+    enabled: !!user,
+  });
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       student_id: "",
+      pickup_location_id: null,
       description: "",
       lesson_type: "Driving lesson",
       lesson_length: "60",
       targets_for_next_session: "",
+      session_title: "",
+      capacity: "",
+      attendee_price: "",
       status: "scheduled",
       start_time: new Date(),
       end_time: new Date(),
       is_paid: false,
+      needs_review: false,
     },
   });
 
@@ -115,6 +178,13 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
   const selectedLessonType = form.watch("lesson_type");
   const selectedStudentId = form.watch("student_id");
   const currentEndTime = form.watch("end_time");
+  const selectedStatus = form.watch("status");
+  const selectedCapacity = form.watch("capacity");
+  const selectedAttendeePrice = form.watch("attendee_price");
+  const isGroupSession = selectedLessonType === GROUP_SESSION_TYPE;
+  const isLateCancel = selectedStatus === "cancelled"
+    && originalStatus === "scheduled"
+    && isLateCancellation(cancellationPolicy, selectedStartTime);
 
   const fetchPreviousTargets = useCallback(async (studentId: string, startTime: Date) => {
     if (!studentId) { 
@@ -173,10 +243,17 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
       }
       setIsLoadingStudents(false);
 
+      const { data: policyData } = await supabase
+        .from("profiles")
+        .select(CANCELLATION_POLICY_COLUMNS)
+        .eq("id", user.id)
+        .single();
+      setCancellationPolicy(policyData as CancellationPolicySettings | null);
+
       setIsLoadingBooking(true);
       const { data: bookingData, error: bookingError } = await supabase
         .from("bookings")
-        .select("*, students(name)")
+        .select("*, students(name), booking_series(rrule)")
         .eq("id", bookingId)
         .single();
       
@@ -194,16 +271,34 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
           setIsCustomLength(true);
         }
 
+        setOriginalStatus(bookingData.status);
+        setOriginalTimes({ start: startTime.toISOString(), end: endTime.toISOString() });
+        setOriginalStudentId(bookingData.student_id);
+        if (bookingData.series_id) {
+          setSeriesRef({
+            id: bookingData.id,
+            series_id: bookingData.series_id,
+            start_time: bookingData.start_time,
+            end_time: bookingData.end_time,
+          });
+          setSeriesRule(bookingData.booking_series?.rrule || null);
+        }
+
         form.reset({
           student_id: bookingData.student_id,
+          pickup_location_id: bookingData.pickup_location_id,
           description: bookingData.description || "",
-          lesson_type: bookingData.lesson_type as "Driving lesson" | "Driving Test" | "Personal",
+          lesson_type: bookingData.lesson_type,
           lesson_length: durationStr,
           targets_for_next_session: bookingData.targets_for_next_session || "",
+          session_title: bookingData.title || "",
+          capacity: bookingData.capacity?.toString() || "",
+          attendee_price: bookingData.attendee_price?.toString() || "",
           status: bookingData.status as "scheduled" | "completed" | "cancelled",
           start_time: startTime,
           end_time: endTime,
           is_paid: bookingData.is_paid || false,
+          needs_review: bookingData.needs_review || false,
         });
       }
       setIsLoadingBooking(false);
@@ -211,18 +306,89 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
     fetchData();
   }, [bookingId, user, form, onClose]);
 
+  // Any edit after a clash report means the new time needs checking again
+  useEffect(() => {
+    const subscription = form.watch(() => setClashReport(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
     if (!user) { 
       showError("You must be logged in to update a booking."); 
       return; 
     }
+
+    // Only a new time can create a clash, and cancelled lessons don't take up any time
+    const timeChanged = values.start_time.toISOString() !== originalTimes?.start || values.end_time.toISOString() !== originalTimes?.end;
+    if (timeChanged && values.status !== "cancelled") {
+      setIsSaving(true);
+      try {
+        // Moving a series moves every lesson in scope, so each of them is checked, not just this one
+        const { ids, ranges } = seriesRef
+          ? await fetchSeriesMoveRanges(user.id, seriesRef, seriesScope, values.start_time, values.end_time)
+          : { ids: [bookingId], ranges: [{ start: values.start_time, end: values.end_time }] };
+        const conflicts = await checkBookingConflicts(user.id, ranges, ids);
+        if (conflicts.some(list => list.length > 0)) {
+          setClashReport(ranges.map((range, i) => ({ ...range, conflicts: conflicts[i] })));
+          setIsSaving(false);
+          return;
+        }
+      } catch (error) {
+        console.error("Error checking for clashes:", error);
+        showError("Couldn't check for clashes: " + error.message);
+        setIsSaving(false);
+        return;
+      }
+    }
+
+    await saveBooking(values);
+    setIsSaving(false);
+  };
+
+  const saveFromClashReport = async () => {
+    setIsSaving(true);
+    await saveBooking(form.getValues());
+    setIsSaving(false);
+  };
+
+  const saveBooking = async (values: z.infer<typeof formSchema>) => {
     
+    const isGroup = values.lesson_type === GROUP_SESSION_TYPE;
     let generatedTitle = "Personal Appointment";
-    if (values.lesson_type !== "Personal" || values.student_id) {
+    if (isGroup) {
+      generatedTitle = values.session_title!.trim();
+    } else if (values.lesson_type !== "Personal" || values.student_id) {
       const studentName = students.find(s => s.id === values.student_id)?.name || "Unknown Student";
       generatedTitle = `${studentName} - ${values.lesson_type}`;
     }
     
+    if (seriesRef) {
+      // Cancelling carries across the chosen scope; completing or paying is always per lesson
+      const shared = {
+        student_id: values.student_id || null,
+        title: generatedTitle,
+        description: values.description,
+        lesson_type: values.lesson_type,
+        ...(values.status === "cancelled" && originalStatus !== "cancelled" ? { status: "cancelled" } : {}),
+      };
+      try {
+        await applySeriesUpdate(seriesRef, seriesScope, values.start_time, values.end_time, shared, {
+          targets_for_next_session: values.targets_for_next_session,
+          status: values.status,
+          is_paid: values.is_paid,
+          needs_review: values.needs_review,
+          cancellation_fee_waived: isLateCancel && waiveCancellationFee,
+          pickup_location_id: values.student_id ? values.pickup_location_id || null : null,
+        });
+        showSuccess(seriesScope === "this" ? "Booking updated successfully!" : "Series updated successfully!");
+        onBookingUpdated();
+      } catch (error) {
+        console.error("Error updating booking series:", error);
+        showError("Failed to update booking: " + error.message);
+      }
+      return;
+    }
+
     const { error } = await supabase
       .from("bookings")
       .update({ 
@@ -234,7 +400,14 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
         status: values.status, 
         start_time: values.start_time.toISOString(), 
         end_time: values.end_time.toISOString(), 
-        is_paid: values.is_paid 
+        is_paid: values.is_paid,
+        needs_review: values.needs_review,
+        cancellation_fee_waived: isLateCancel && waiveCancellationFee,
+        pickup_location_id: values.student_id ? values.pickup_location_id || null : null,
+        ...(isGroup ? {
+          capacity: parseInt(values.capacity!, 10),
+          attendee_price: values.attendee_price ? parseFloat(values.attendee_price) : null
+        } : {})
       })
       .eq("id", bookingId);
     
@@ -252,6 +425,17 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
       showError("You must be logged in to delete a booking."); 
       return; 
     }
+    if (seriesRef) {
+      try {
+        await applySeriesDelete(seriesRef, seriesScope);
+        showSuccess(seriesScope === "this" ? "Booking deleted successfully!" : "Series lessons deleted successfully!");
+        onBookingDeleted();
+      } catch (error) {
+        console.error("Error deleting booking series:", error);
+        showError("Failed to delete booking: " + error.message);
+      }
+      return;
+    }
     const { error } = await supabase.from("bookings").delete().eq("id", bookingId);
     if (error) { 
       console.error("Error deleting booking:", error); 
@@ -284,16 +468,28 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
           render={({ field }) => (
             <FormItem>
               <FormLabel>Lesson Type</FormLabel>
-              <Select onValueChange={field.onChange} defaultValue={field.value}>
+              <Select
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  // Switching to a catalogue type starts it at that type's length
+                  const length = findLessonType(lessonTypes, value)?.default_duration_mins;
+                  if (length) {
+                    form.setValue("lesson_length", length.toString());
+                    setIsCustomLength(![60, 90, 120].includes(length));
+                  }
+                }}
+                defaultValue={field.value}
+                disabled={isGroupSession}
+              >
                 <FormControl>
                   <SelectTrigger>
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="Driving lesson">Driving lesson</SelectItem>
-                  <SelectItem value="Driving Test">Driving Test</SelectItem>
-                  <SelectItem value="Personal">Personal</SelectItem>
+                  {lessonTypeNames(lessonTypes, field.value).map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -303,6 +499,21 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
 
         <div className="flex flex-col sm:flex-row gap-3 items-start">
           <div className="w-full sm:w-[240px]">
+            {isGroupSession ? (
+              <FormField
+                control={form.control}
+                name="session_title"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Session Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
             <FormField
               control={form.control}
               name="student_id"
@@ -322,6 +533,7 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
                 </FormItem>
               )}
             />
+            )}
           </div>
 
           <div className="flex-1 w-full">
@@ -406,6 +618,21 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
           </div>
         </div>
 
+        {selectedStudentId && (
+          <FormField
+            control={form.control}
+            name="pickup_location_id"
+            render={({ field }) => (
+              <PickupLocationSelect
+                studentId={selectedStudentId}
+                value={field.value}
+                onChange={field.onChange}
+                selectDefault={!isLoadingBooking && selectedStudentId !== originalStudentId}
+              />
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="start_time"
@@ -460,7 +687,46 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
           )} 
         />
 
-        {selectedLessonType !== "Personal" && (
+        {isGroupSession && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="capacity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Places</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="attendee_price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price per Student (£)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" placeholder="Free" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <GroupAttendeesManager
+              bookingId={bookingId}
+              capacity={parseInt(selectedCapacity || "", 10) || 0}
+              attendeePrice={parseFloat(selectedAttendeePrice || "") || 0}
+              students={students}
+            />
+          </>
+        )}
+
+        {selectedLessonType !== "Personal" && !isGroupSession && (
           <FormField 
             control={form.control} 
             name="targets_for_next_session" 
@@ -499,6 +765,7 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
               </FormItem>
             )} 
           />
+          {!isGroupSession && (
           <FormField 
             control={form.control} 
             name="is_paid" 
@@ -513,10 +780,80 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
               </FormItem>
             )} 
           />
+          )}
         </div>
 
+        {selectedStatus === "scheduled" && (
+          <FormField
+            control={form.control}
+            name="needs_review"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                <div className="space-y-0.5">
+                  <FormLabel>Hold for Review</FormLabel>
+                  <p className="text-[10px] text-muted-foreground">Don't auto-complete this lesson, e.g. if the student didn't turn up</p>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+
+        {isLateCancel && cancellationPolicy && (
+          <div className="space-y-3 p-3 rounded-lg border border-orange-200 bg-orange-50/50">
+            <p className="text-xs font-bold text-orange-700 flex items-center gap-1.5">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+              Late cancellation: a fee of {describeCancellationFee(cancellationPolicy)} applies.
+            </p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="waive-cancellation-fee" className="text-sm font-bold">Waive the fee</Label>
+              <Switch id="waive-cancellation-fee" checked={waiveCancellationFee} onCheckedChange={setWaiveCancellationFee} />
+            </div>
+          </div>
+        )}
+
+        {seriesRef && (
+          <div className="p-3 border rounded-xl bg-muted/30 space-y-2">
+            <Label className="text-xs font-bold uppercase text-primary flex items-center">
+              <Repeat className="mr-1.5 h-3.5 w-3.5" /> Repeating Booking
+            </Label>
+            {seriesRule && <p className="text-xs text-muted-foreground">{describeRule(parseRRule(seriesRule))}</p>}
+            <RadioGroup value={seriesScope} onValueChange={(val) => { setSeriesScope(val as SeriesScope); setClashReport(null); }} className="grid grid-cols-3 gap-2">
+              {SCOPE_OPTIONS.map(option => (
+                <div key={option.value}>
+                  <RadioGroupItem value={option.value} id={`scope-${option.value}`} className="sr-only" />
+                  <Label
+                    htmlFor={`scope-${option.value}`}
+                    className={cn(
+                      "flex items-center justify-center text-center h-full rounded-md border-2 border-muted bg-popover p-2 hover:bg-accent cursor-pointer text-xs font-bold transition-all",
+                      seriesScope === option.value && "border-primary bg-primary/5"
+                    )}
+                  >
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            {seriesScope !== "this" && (
+              <p className="text-[10px] text-muted-foreground">Completed and past lessons are never changed. Targets and payment only apply to this lesson.</p>
+            )}
+          </div>
+        )}
+
+        {clashReport && (
+          <BookingClashReport
+            entries={clashReport}
+            timeZone={timeZone}
+            isSaving={isSaving}
+            onForce={saveFromClashReport}
+            onCancel={() => setClashReport(null)}
+          />
+        )}
+
         <div className="flex gap-2">
-          <Button type="submit" className="flex-1 font-black">Update Booking</Button>
+          <Button type="submit" className="flex-1 font-black" disabled={isSaving || !!clashReport}>Update Booking</Button>
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button type="button" variant="destructive" className="flex-1 font-bold">Delete Booking</Button>
@@ -525,7 +862,11 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
               <AlertDialogHeader>
                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete this booking.
+                  This will delete {seriesRef && seriesScope === "following"
+                    ? "this booking and all following lessons in the series"
+                    : seriesRef && seriesScope === "all"
+                      ? "every lesson in this series that hasn't been completed"
+                      : "this booking"}. Deleted bookings can be restored from Recently Deleted on the schedule.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -537,6 +878,21 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({
             </AlertDialogContent>
           </AlertDialog>
         </div>
+
+        <Collapsible open={isHistoryOpen} onOpenChange={setIsHistoryOpen} className="border rounded-xl bg-muted/30 overflow-hidden">
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" className="w-full flex items-center justify-between p-3 h-auto hover:bg-muted/50">
+              <div className="flex items-center gap-2">
+                <History className="h-4 w-4 text-primary" />
+                <span className="text-xs font-bold uppercase">History</span>
+              </div>
+              {isHistoryOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="p-2 sm:p-3 pt-0">
+            <BookingHistory bookingId={bookingId} onRestored={onBookingUpdated} />
+          </CollapsibleContent>
+        </Collapsible>
       </form>
     </Form>
   );
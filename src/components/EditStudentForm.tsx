@@ -74,12 +74,14 @@ const formSchema = z.object({
     }),
   driving_license_number: z.string().optional().nullable(),
   phone_number: z.string().optional().nullable(),
+  email: z.string().email("Please enter a valid email address.").optional().nullable().or(z.literal("")),
   full_address: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
   status: z.enum(["Beginner", "Intermediate", "Advanced"], {
     message: "Please select a valid status.",
   }),
   is_past_student: z.boolean().optional(),
+  reminders_enabled: z.boolean().optional(),
 });
 
 interface EditStudentFormProps {
@@ -103,10 +105,12 @@ const EditStudentForm: React.FC<EditStudentFormProps> = ({ studentId, onStudentU
       date_of_birth: "",
       driving_license_number: "",
       phone_number: "",
+      email: "",
       full_address: "",
       notes: "",
       status: "Beginner",
       is_past_student: false,
+      reminders_enabled: true,
     },
   });
 
@@ -116,7 +120,7 @@ const EditStudentForm: React.FC<EditStudentFormProps> = ({ studentId, onStudentU
       setIsLoadingStudent(true);
       const { data, error } = await supabase
         .from("students")
-        .select("name, date_of_birth, driving_license_number, phone_number, full_address, notes, status, is_past_student, auth_user_id")
+        .select("name, date_of_birth, driving_license_number, phone_number, email, full_address, notes, status, is_past_student, reminders_opt_out, auth_user_id")
         .eq("id", studentId)
         .eq("user_id", user.id)
         .single();
@@ -140,10 +144,12 @@ const EditStudentForm: React.FC<EditStudentFormProps> = ({ studentId, onStudentU
           date_of_birth: formattedDobForDisplay,
           driving_license_number: data.driving_license_number || "",
           phone_number: data.phone_number || "",
+          email: data.email || "",
           full_address: data.full_address || "",
           notes: data.notes || "",
           status: studentStatus,
           is_past_student: data.is_past_student,
+          reminders_enabled: !data.reminders_opt_out,
         });
         setAuthUserId(data.auth_user_id);
       }
@@ -170,10 +176,12 @@ const EditStudentForm: React.FC<EditStudentFormProps> = ({ studentId, onStudentU
         date_of_birth: formattedDobForSupabase,
         driving_license_number: values.driving_license_number,
         phone_number: values.phone_number,
+        email: values.email || null,
         full_address: values.full_address,
         notes: values.notes,
         status: values.status,
         is_past_student: values.is_past_student,
+        reminders_opt_out: !values.reminders_enabled,
       })
       .eq("id", studentId)
       .eq("user_id", user.id);
@@ -321,6 +329,20 @@ const EditStudentForm: React.FC<EditStudentFormProps> = ({ studentId, onStudentU
               )}
             />
           </div>
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="student@example.com" {...field} value={field.value || ""} />
+                </FormControl>
+                <FormDescription>Used for lesson reminders sent by email.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           <FormField
             control={form.control}
             name="full_address"
@@ -391,6 +413,27 @@ const EditStudentForm: React.FC<EditStudentFormProps> = ({ studentId, onStudentU
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="reminders_enabled"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                <div className="space-y-0.5">
+                  <FormLabel>Lesson Reminders</FormLabel>
+                  <FormDescription>
+                    Send this student your automatic lesson reminders.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
           <div className="flex gap-2">
             <Button type="submit" className="flex-1">Update Student</Button>
             <AlertDialog>
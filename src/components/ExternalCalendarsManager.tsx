@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { CalendarMinus, Upload, Link2, RefreshCw, Trash2, Loader2, AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+
+const invalidateBusyQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['external-calendars'] });
+  queryClient.invalidateQueries({ queryKey: ['instructor-busy-blocks'] });
+  queryClient.invalidateQueries({ queryKey: ['public-unavailability'] });
+};
+
+const runSync = async (calendarId: string, icsText?: string) => {
+  const { data, error } = await supabase.functions.invoke("calendar-sync", {
+    body: icsText ? { action: "import", calendarId, icsText } : { action: "sync", calendarId }
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as { blocks: number };
+};
+
+const ExternalCalendarsManager: React.FC = () => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+
+  const { data: calendars = [], isLoading } = useQuery({
+    queryKey: ['external-calendars', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("external_calendars")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user
+  });
+
+  const addUrlMutation = useMutation({
+    mutationFn: async () => {
+      if (!/^(https|webcal):\/\//i.test(url.trim())) throw new Error("Calendar URLs must start with https:// or webcal://");
+      const { data, error } = await supabase
+        .from("external_calendars")
+        .insert({ user_id: user!.id, name: name.trim() || "External calendar", url: url.trim() })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return runSync(data.id);
+    },
+    onSuccess: (result) => {
+      invalidateBusyQueries(queryClient);
+      setName("");
+      setUrl("");
+      showSuccess(`Calendar linked. ${result.blocks} busy period(s) imported.`);
+    },
+    onError: (err: Error) => {
+      invalidateBusyQueries(queryClient);
+      showError("Failed to sync calendar: " + err.message);
+    }
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const icsText = await file.text();
+      const { data, error } = await supabase
+        .from("external_calendars")
+        .insert({ user_id: user!.id, name: file.name.replace(/\.ics$/i, ""), url: null })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return runSync(data.id, icsText);
+    },
+    onSuccess: (result) => {
+      invalidateBusyQueries(queryClient);
+      showSuccess(`File imported. ${result.blocks} busy period(s) added.`);
+    },
+    onError: (err: Error) => {
+      invalidateBusyQueries(queryClient);
+      showError("Failed to import file: " + err.message);
+    }
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: (calendarId: string) => runSync(calendarId),
+    onSuccess: (result) => {
+      invalidateBusyQueries(queryClient);
+      showSuccess(`Synced. ${result.blocks} busy period(s) found.`);
+    },
+    onError: (err: Error) => {
+      invalidateBusyQueries(queryClient);
+      showError("Sync failed: " + err.message);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("external_calendars").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateBusyQueries(queryClient);
+      showSuccess("Calendar removed. Its busy times no longer block bookings.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    e.target.value = "";
+  };
+
+  return (
+    <Card className="border-none shadow-sm bg-card overflow-hidden">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="flex items-center gap-2">
+          <CalendarMinus className="h-5 w-5 text-primary" />
+          Import Busy Times
+        </CardTitle>
+        <CardDescription>
+          Events from your personal calendars are treated as busy, so students can't book lessons over them. Only the times are shared, never the event details.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-6">
+        <div className="space-y-3 p-4 rounded-xl bg-muted/30 border border-muted">
+          <div className="grid gap-3 sm:grid-cols-[1fr_2fr]">
+            <div className="space-y-1">
+              <Label className="text-xs font-bold uppercase">Name</Label>
+              <Input placeholder="e.g., Family calendar" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-bold uppercase">ICS / Webcal URL</Label>
+              <Input placeholder="https://calendar.google.com/calendar/ical/.../basic.ics" value={url} onChange={(e) => setUrl(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button className="font-bold flex-1" onClick={() => addUrlMutation.mutate()} disabled={!url.trim() || addUrlMutation.isPending}>
+              {addUrlMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+              Subscribe to URL
+            </Button>
+            <Button variant="outline" className="font-bold flex-1" onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+              {uploadMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload .ics File
+            </Button>
+            <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFileChange} />
+          </div>
+          <p className="text-[10px] text-muted-foreground">Subscribed URLs are re-synced every hour. Uploaded files are a one-off snapshot.</p>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic p-4 border rounded-lg border-dashed text-center">
+            No external calendars imported.
+          </p>
+        ) : (
+          <div className="grid gap-2">
+            {calendars.map((calendar) => (
+              <div key={calendar.id} className="flex items-center justify-between gap-3 p-3 bg-white border rounded-lg shadow-sm">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-bold text-sm truncate">{calendar.name}</p>
+                    <Badge variant="outline" className="text-[10px] h-5 shrink-0">{calendar.url ? "URL" : "File"}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {calendar.last_synced_at ? `Synced ${format(parseISO(calendar.last_synced_at), "PPP p")}` : "Not synced yet"}
+                  </p>
+                  {calendar.last_error && (
+                    <p className="text-xs text-destructive flex items-center gap-1"><AlertTriangle className="h-3 w-3 shrink-0" /> {calendar.last_error}</p>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {calendar.url && (
+                    <Button variant="ghost" size="icon" onClick={() => syncMutation.mutate(calendar.id)} disabled={syncMutation.isPending}>
+                      <RefreshCw className={syncMutation.isPending && syncMutation.variables === calendar.id ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive" onClick={() => deleteMutation.mutate(calendar.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExternalCalendarsManager;
@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, UserPlus, Trash2, Loader2 } from "lucide-react";
+import { showSuccess, showError } from "@/utils/toast";
+import StudentSearch from "@/components/StudentSearch";
+import { ATTENDEE_STATUS_LABELS, AttendeeStatus, fetchSessionAttendees, SessionAttendee } from "@/utils/group-sessions";
+
+interface GroupAttendeesManagerProps {
+  bookingId: string;
+  capacity: number;
+  attendeePrice: number;
+  students: { id: string; name: string }[];
+}
+
+/**
+ * Who is signed up to a group session, whether they came and whether they've paid.
+ * Attendees of a completed session are charged from pre-paid credit where they have enough.
+ */
+const GroupAttendeesManager: React.FC<GroupAttendeesManagerProps> = ({ bookingId, capacity, attendeePrice, students }) => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [newStudentId, setNewStudentId] = useState("");
+
+  const { data: attendees = [], isLoading } = useQuery({
+    queryKey: ['session-attendees', bookingId],
+    queryFn: () => fetchSessionAttendees(bookingId)
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['session-attendees', bookingId] });
+    queryClient.invalidateQueries({ queryKey: ['group-sessions'] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (studentId: string) => {
+      const { error } = await supabase.from("booking_attendees").insert({
+        booking_id: bookingId,
+        user_id: user!.id,
+        student_id: studentId,
+        amount: attendeePrice
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewStudentId("");
+      showSuccess("Student added to the session.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Partial<Pick<SessionAttendee, "status" | "payment_status">> }) => {
+      const { error } = await supabase.from("booking_attendees").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Any pre-paid hours the fee took are returned by the on_booking_attendee_status trigger
+      const { error } = await supabase.from("booking_attendees").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      showSuccess("Student removed from the session.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const signedUpIds = new Set(attendees.map(a => a.student_id));
+  const isFull = attendees.length >= capacity;
+
+  return (
+    <div className="p-3 border rounded-xl bg-muted/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs font-bold uppercase text-primary flex items-center">
+          <Users className="mr-1.5 h-3.5 w-3.5" /> Attendees
+        </Label>
+        <Badge variant={isFull ? "default" : "secondary"} className="text-[10px] font-bold">{attendees.length} / {capacity}</Badge>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-16 w-full" />
+      ) : attendees.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">Nobody has signed up yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {attendees.map(attendee => (
+            <div key={attendee.id} className="flex items-center gap-2 p-2 border rounded-lg bg-background">
+              <p className="flex-1 min-w-0 text-sm font-bold truncate">{attendee.students?.name || "Unknown student"}</p>
+              <Select
+                value={attendee.status}
+                onValueChange={(status) => updateMutation.mutate({ id: attendee.id, changes: { status: status as AttendeeStatus } })}
+              >
+                <SelectTrigger className="h-8 w-[110px] text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ATTENDEE_STATUS_LABELS) as AttendeeStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{ATTENDEE_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {attendee.payment_status === "credit" ? (
+                <Badge variant="outline" className="text-[10px] font-bold border-yellow-400 text-yellow-700 shrink-0" title={`${attendee.hours_deducted.toFixed(2)}h of pre-paid credit`}>Credit</Badge>
+              ) : (
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <Label htmlFor={`paid-${attendee.id}`} className="text-[10px] font-bold uppercase text-muted-foreground">Paid</Label>
+                  <Switch
+                    id={`paid-${attendee.id}`}
+                    checked={attendee.payment_status === "paid"}
+                    onCheckedChange={(paid) => updateMutation.mutate({ id: attendee.id, changes: { payment_status: paid ? "paid" : "unpaid" } })}
+                  />
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={() => removeMutation.mutate(attendee.id)}
+                disabled={removeMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isFull && (
+        <div className="flex gap-2">
+          <div className="flex-1 min-w-0">
+            <StudentSearch
+              value={newStudentId}
+              onChange={setNewStudentId}
+              students={students.filter(s => !signedUpIds.has(s.id))}
+              placeholder="Add a student"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            className="font-bold shrink-0"
+            onClick={() => addMutation.mutate(newStudentId)}
+            disabled={!newStudentId || addMutation.isPending}
+          >
+            {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><UserPlus className="mr-1 h-4 w-4" /> Add</>}
+          </Button>
+        </div>
+      )}
+      <p className="text-[10px] text-muted-foreground">
+        Completing the session charges everyone not marked absent, from their pre-paid hours when they cover the fee.
+      </p>
+    </div>
+  );
+};
+
+export default GroupAttendeesManager;
@@ -0,0 +1,103 @@
+"use client";
+
+import React from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { parseISO, differenceInMinutes } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Users, Clock, Check, Loader2 } from "lucide-react";
+import { showSuccess, showError } from "@/utils/toast";
+import { formatInTimeZone } from "@/utils/time-zone";
+import { fetchGroupSessions, joinGroupSession, leaveGroupSession, GroupSession } from "@/utils/group-sessions";
+
+interface GroupSessionsCardProps {
+  instructorId: string;
+  studentName: string;
+  timeZone: string;
+}
+
+/**
+ * Upcoming group sessions the student can sign up to or drop out of. Renders nothing if there are none.
+ */
+const GroupSessionsCard: React.FC<GroupSessionsCardProps> = ({ instructorId, studentName, timeZone }) => {
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [] } = useQuery({
+    queryKey: ['group-sessions', instructorId],
+    queryFn: () => fetchGroupSessions(instructorId)
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (session: GroupSession) => {
+      const leaving = session.is_signed_up;
+      await (leaving ? leaveGroupSession(session.id) : joinGroupSession(session.id));
+
+      const name = session.title || "the group session";
+      const when = formatInTimeZone(session.start_time, timeZone, "PPP p");
+      await supabase.from("notifications").insert({
+        user_id: instructorId,
+        title: leaving ? "Group Session Place Freed" : "Group Session Sign-up",
+        message: `${studentName} has ${leaving ? "dropped out of" : "signed up to"} ${name} on ${when}.`,
+        type: "group_session"
+      });
+      return leaving;
+    },
+    onSuccess: (leaving) => {
+      queryClient.invalidateQueries({ queryKey: ['group-sessions'] });
+      showSuccess(leaving ? "You've dropped out of the session." : "You're signed up!");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden">
+      <CardHeader className="bg-muted/50 border-b">
+        <CardTitle className="text-lg font-bold flex items-center gap-2"><Users className="h-5 w-5 text-primary/60" /> Group Sessions</CardTitle>
+        <CardDescription className="text-xs font-medium">Sessions run for several students at once. Sign up while there are places left.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y">
+          {sessions.map(session => {
+            const start = parseISO(session.start_time);
+            const duration = differenceInMinutes(parseISO(session.end_time), start) / 60;
+            const isFull = session.places_left <= 0;
+            const isSaving = toggleMutation.isPending && toggleMutation.variables?.id === session.id;
+            return (
+              <div key={session.id} className="p-4 flex items-center justify-between gap-3 hover:bg-muted/30 transition-colors">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-bold text-sm truncate">{session.title || "Group Session"}</p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-2">
+                    <Clock className="h-3 w-3" />{formatInTimeZone(start, timeZone, "EEE, MMM do p")} ({duration.toFixed(1)}h)
+                  </p>
+                  <div className="flex items-center gap-1.5">
+                    <Badge variant="secondary" className="text-[10px] font-bold">
+                      {isFull ? "Full" : `${session.places_left} ${session.places_left === 1 ? "place" : "places"} left`}
+                    </Badge>
+                    {session.attendee_price != null && session.attendee_price > 0 && (
+                      <Badge variant="outline" className="text-[10px] font-bold">£{Number(session.attendee_price).toFixed(2)}</Badge>
+                    )}
+                  </div>
+                </div>
+                {session.is_signed_up ? (
+                  <Button size="sm" variant="outline" className="font-bold shrink-0" onClick={() => toggleMutation.mutate(session)} disabled={isSaving}>
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Check className="mr-1 h-4 w-4 text-green-600" /> Drop Out</>}
+                  </Button>
+                ) : (
+                  <Button size="sm" className="font-bold shrink-0" onClick={() => toggleMutation.mutate(session)} disabled={isFull || isSaving}>
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Sign Up"}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GroupSessionsCard;
@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ChevronRight, FileText, Wallet } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import IssueInvoiceButton from "@/components/IssueInvoiceButton";
+import { fetchInvoices, invoiceTitle } from "@/utils/invoices";
+
+interface InvoicesCardProps {
+  studentId: string;
+  // The instructor's view, which also lists packages that can be given a receipt
+  canIssue?: boolean;
+}
+
+interface PackagePurchase {
+  id: string;
+  package_hours: number;
+  amount_paid: number | null;
+  purchase_date: string;
+}
+
+const InvoicesCard: React.FC<InvoicesCardProps> = ({ studentId, canIssue = false }) => {
+  const { data: invoices = [] } = useQuery({
+    queryKey: ["invoices", studentId],
+    queryFn: () => fetchInvoices({ studentId }),
+  });
+
+  const { data: packages = [] } = useQuery({
+    queryKey: ["student-packages", studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("pre_paid_hours")
+        .select("id, package_hours, amount_paid, purchase_date")
+        .eq("student_id", studentId)
+        .order("purchase_date", { ascending: false });
+      if (error) throw error;
+      return (data || []) as PackagePurchase[];
+    },
+    enabled: canIssue,
+  });
+
+  const paidPackages = packages.filter(pkg => pkg.amount_paid != null);
+  if (!canIssue && invoices.length === 0) return null;
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden">
+      <CardHeader className="bg-muted/50 border-b">
+        <CardTitle className="text-lg font-bold flex items-center gap-2"><FileText className="h-5 w-5 text-primary/60" /> Invoices & Receipts</CardTitle>
+        <CardDescription className="text-xs font-medium">
+          {canIssue ? "Receipts for lessons are issued from the lesson list or Accounts." : "Open one to download or print it."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {canIssue && paidPackages.length > 0 && (
+          <div className="divide-y border-b">
+            {paidPackages.map(pkg => (
+              <div key={pkg.id} className="p-4 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Wallet className="h-4 w-4 text-purple-600 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-bold text-sm">{Number(pkg.package_hours)}h package · £{Number(pkg.amount_paid).toFixed(2)}</p>
+                    <p className="text-[10px] text-muted-foreground font-bold uppercase">Bought {format(parseISO(pkg.purchase_date), "MMM d, yyyy")}</p>
+                  </div>
+                </div>
+                <IssueInvoiceButton sourceType="package" sourceId={pkg.id} kind="receipt" />
+              </div>
+            ))}
+          </div>
+        )}
+        {invoices.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground italic">Nothing issued yet.</p>
+        ) : (
+          <div className="divide-y">
+            {invoices.map(invoice => (
+              <Link key={invoice.id} to={`/invoices/${invoice.id}`} className="p-4 flex items-center justify-between gap-3 hover:bg-muted/30 transition-colors">
+                <div className="min-w-0">
+                  <p className="font-bold text-sm truncate">{invoiceTitle(invoice)}</p>
+                  <p className="text-xs text-muted-foreground truncate">{invoice.description}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={invoice.kind === "receipt" ? "default" : "secondary"} className="text-[10px] font-bold">£{Number(invoice.amount).toFixed(2)}</Badge>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoicesCard;
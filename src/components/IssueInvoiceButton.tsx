@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { showError } from "@/utils/toast";
+import { InvoiceKind, InvoiceSourceType, issueInvoice } from "@/utils/invoices";
+
+interface IssueInvoiceButtonProps {
+  sourceType: InvoiceSourceType;
+  sourceId: string;
+  kind: InvoiceKind;
+  className?: string;
+}
+
+/**
+ * Issues (or reopens) the invoice or receipt for a lesson, package or income item and shows it,
+ * ready to download or email. Income items have no student, so it asks who it's for first.
+ */
+const IssueInvoiceButton: React.FC<IssueInvoiceButtonProps> = ({ sourceType, sourceId, kind, className }) => {
+  const navigate = useNavigate();
+  const [isAsking, setIsAsking] = useState(false);
+  const [recipientName, setRecipientName] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const needsRecipient = sourceType === "additional_income";
+
+  const issueMutation = useMutation({
+    mutationFn: () => issueInvoice(sourceType, sourceId, kind, { name: recipientName, email: recipientEmail }),
+    onSuccess: (invoiceId) => navigate(`/invoices/${invoiceId}`),
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const label = kind === "receipt" ? "Receipt" : "Invoice";
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className={cn("h-7 px-2 text-[10px] font-bold uppercase", className)}
+        onClick={() => (needsRecipient ? setIsAsking(true) : issueMutation.mutate())}
+        disabled={issueMutation.isPending}
+      >
+        {issueMutation.isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <FileText className="mr-1 h-3 w-3" />} {label}
+      </Button>
+
+      {needsRecipient && (
+        <Dialog open={isAsking} onOpenChange={setIsAsking}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader><DialogTitle>Who is the {label.toLowerCase()} for?</DialogTitle></DialogHeader>
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={recipientName} onChange={(e) => setRecipientName(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Email (optional)</Label>
+                <Input type="email" value={recipientEmail} onChange={(e) => setRecipientEmail(e.target.value)} />
+              </div>
+              <p className="text-[10px] text-muted-foreground">If one has already been issued for this item, that one is shown instead.</p>
+            </div>
+            <DialogFooter>
+              <Button className="font-bold" onClick={() => issueMutation.mutate()} disabled={issueMutation.isPending || !recipientName.trim()}>
+                {issueMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Issue {label}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+};
+
+export default IssueInvoiceButton;
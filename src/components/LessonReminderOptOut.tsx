@@ -0,0 +1,67 @@
+"use client";
+
+import React from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlarmClock } from "lucide-react";
+import { showSuccess, showError } from "@/utils/toast";
+
+/**
+ * Lets a student turn their instructor's lesson reminders on or off
+ */
+const LessonReminderOptOut: React.FC = () => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+
+  const { data: optedOut, isLoading } = useQuery({
+    queryKey: ['lesson-reminders-opt-out', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("students").select("reminders_opt_out").eq("auth_user_id", user!.id).single();
+      if (error) throw error;
+      return data.reminders_opt_out ?? false;
+    },
+    enabled: !!user
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (optOut: boolean) => {
+      const { error } = await supabase.rpc("set_lesson_reminders_opt_out", { p_opt_out: optOut });
+      if (error) throw error;
+      return optOut;
+    },
+    onSuccess: (optOut) => {
+      queryClient.invalidateQueries({ queryKey: ['lesson-reminders-opt-out'] });
+      showSuccess(optOut ? "Lesson reminders turned off." : "Lesson reminders turned on.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  return (
+    <Card className="border-none shadow-sm bg-card overflow-hidden">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="flex items-center gap-2">
+          <AlarmClock className="h-5 w-5 text-primary" />
+          Lesson Reminders
+        </CardTitle>
+        <CardDescription>Get a reminder before each of your lessons.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <Label htmlFor="lesson-reminders" className="font-bold">Send Me Reminders</Label>
+          <Switch
+            id="lesson-reminders"
+            checked={!optedOut}
+            disabled={isLoading || updateMutation.isPending}
+            onCheckedChange={(checked) => updateMutation.mutate(!checked)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LessonReminderOptOut;
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlarmClock, Plus, Pencil, Trash2, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { showSuccess, showError } from "@/utils/toast";
+
+interface ReminderRule {
+  id: string;
+  hours_before: number;
+  channels: string[];
+  template: string;
+  is_active: boolean;
+}
+
+const CHANNELS = [
+  { value: "app", label: "In-App & Push" },
+  { value: "push", label: "Push Only" },
+  { value: "email", label: "Email" },
+];
+
+const PLACEHOLDERS = ["{student}", "{instructor}", "{date}", "{time}", "{lesson_type}", "{pickup}"];
+
+const DEFAULT_TEMPLATE = "Hi {student}, just a reminder of your {lesson_type} with {instructor} on {date} at {time}. Pickup: {pickup}.";
+
+const SUGGESTED_RULES = [
+  { hours_before: 24, template: DEFAULT_TEMPLATE },
+  { hours_before: 2, template: "Hi {student}, see you at {time} today! Pickup: {pickup}." },
+];
+
+const describeOffset = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? "" : "s"} before` : `${hours} hour${hours === 1 ? "" : "s"} before`;
+
+const LessonRemindersManager: React.FC = () => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [hoursBefore, setHoursBefore] = useState("24");
+  const [channels, setChannels] = useState<string[]>(["app"]);
+  const [template, setTemplate] = useState(DEFAULT_TEMPLATE);
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['lesson-reminder-rules', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("lesson_reminder_rules")
+        .select("id, hours_before, channels, template, is_active")
+        .eq("user_id", user!.id)
+        .order("hours_before", { ascending: false });
+      if (error) throw error;
+      return (data || []) as ReminderRule[];
+    },
+    enabled: !!user
+  });
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setEditingId(null);
+    setHoursBefore("24");
+    setChannels(["app"]);
+    setTemplate(DEFAULT_TEMPLATE);
+  };
+
+  const startEdit = (rule: ReminderRule) => {
+    setEditingId(rule.id);
+    setHoursBefore(rule.hours_before.toString());
+    setChannels(rule.channels);
+    setTemplate(rule.template);
+    setIsEditing(true);
+  };
+
+  const startFromSuggestion = (suggestion: typeof SUGGESTED_RULES[number]) => {
+    resetForm();
+    setHoursBefore(suggestion.hours_before.toString());
+    setTemplate(suggestion.template);
+    setIsEditing(true);
+  };
+
+  // Push only and in-app both reach the student's devices, so they're alternatives
+  const toggleChannel = (value: string) => {
+    if (channels.includes(value)) {
+      setChannels(channels.filter(c => c !== value));
+    } else {
+      const exclusive = value === "app" ? "push" : value === "push" ? "app" : null;
+      setChannels([...channels.filter(c => c !== exclusive), value]);
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const hours = parseInt(hoursBefore, 10);
+      if (isNaN(hours) || hours < 1 || hours > 168) throw new Error("Send reminders between 1 and 168 hours before the lesson.");
+      if (channels.length === 0) throw new Error("Please choose at least one way to send it.");
+      if (!template.trim()) throw new Error("Please enter the reminder message.");
+
+      const values = { hours_before: hours, channels, template: template.trim() };
+      const { error } = editingId
+        ? await supabase.from("lesson_reminder_rules").update(values).eq("id", editingId)
+        : await supabase.from("lesson_reminder_rules").insert({ ...values, user_id: user!.id });
+      if (error) throw error.code === "23505" ? new Error(`You already have a reminder ${describeOffset(hours)}.`) : error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lesson-reminder-rules'] });
+      showSuccess(editingId ? "Reminder updated." : "Reminder added.");
+      resetForm();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from("lesson_reminder_rules").update({ is_active: isActive }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['lesson-reminder-rules'] }),
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("lesson_reminder_rules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lesson-reminder-rules'] });
+      showSuccess("Reminder removed.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const suggestions = SUGGESTED_RULES.filter(s => !rules.some(rule => rule.hours_before === s.hours_before));
+
+  return (
+    <Card className="border-none shadow-sm bg-card overflow-hidden">
+      <CardHeader className="p-4 sm:p-6 flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center"><AlarmClock className="mr-2 h-5 w-5 text-primary" /> Lesson Reminders</CardTitle>
+          <CardDescription>Remind students about upcoming lessons automatically. Students can turn reminders off in their settings.</CardDescription>
+        </div>
+        {!isEditing && (
+          <Button type="button" size="sm" variant="outline" className="font-bold shrink-0" onClick={() => { resetForm(); setIsEditing(true); }}>
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : rules.length === 0 && !isEditing && (
+          <p className="text-sm text-muted-foreground italic">No reminders set up.</p>
+        )}
+
+        {rules.map(rule => (
+          <div key={rule.id} className={cn("flex items-center justify-between gap-3 p-3 border rounded-lg", !rule.is_active && "opacity-60")}>
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <p className="font-bold text-sm">{describeOffset(rule.hours_before)}</p>
+                {rule.channels.map(channel => (
+                  <Badge key={channel} variant="secondary" className="text-[10px] h-4 px-1.5">{CHANNELS.find(c => c.value === channel)?.label || channel}</Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground line-clamp-2">{rule.template}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Switch checked={rule.is_active} onCheckedChange={(checked) => activeMutation.mutate({ id: rule.id, isActive: checked })} />
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" onClick={() => startEdit(rule)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => deleteMutation.mutate(rule.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {!isEditing && suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <span className="text-[10px] font-bold uppercase text-muted-foreground">Suggestions</span>
+            {suggestions.map(suggestion => (
+              <Button key={suggestion.hours_before} type="button" size="sm" variant="outline" className="h-7 text-xs rounded-full" onClick={() => startFromSuggestion(suggestion)}>
+                <Plus className="mr-1 h-3 w-3" /> {describeOffset(suggestion.hours_before)}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="space-y-3 p-3 rounded-lg border bg-muted/30 animate-in slide-in-from-top-2 duration-200">
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Hours Before Lesson</Label>
+              <Input type="number" min="1" max="168" value={hoursBefore} onChange={(e) => setHoursBefore(e.target.value)} className="h-9 w-32" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Send By</Label>
+              <div className="flex flex-wrap gap-2">
+                {CHANNELS.map(channel => (
+                  <Button
+                    key={channel.value}
+                    type="button"
+                    size="sm"
+                    variant={channels.includes(channel.value) ? "default" : "outline"}
+                    className="h-8 font-bold"
+                    onClick={() => toggleChannel(channel.value)}
+                  >
+                    {channel.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">Emails go to the address on the student's record.</p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Message</Label>
+              <Textarea value={template} onChange={(e) => setTemplate(e.target.value)} rows={3} />
+              <div className="flex flex-wrap gap-1">
+                {PLACEHOLDERS.map(placeholder => (
+                  <button
+                    key={placeholder}
+                    type="button"
+                    className="rounded border bg-background px-1.5 py-0.5 text-[10px] font-mono text-muted-foreground hover:text-primary"
+                    onClick={() => setTemplate(`${template}${template.endsWith(" ") || !template ? "" : " "}${placeholder}`)}
+                  >
+                    {placeholder}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" className="flex-1 font-bold" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId ? "Save Changes" : "Add Reminder"}
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={resetForm}><X className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LessonRemindersManager;
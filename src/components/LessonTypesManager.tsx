@@ -0,0 +1,235 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Shapes, Plus, Pencil, Trash2, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { showSuccess, showError } from "@/utils/toast";
+import {
+  BUILT_IN_LESSON_TYPES,
+  LESSON_TYPE_COLOURS,
+  LessonType,
+  SUGGESTED_LESSON_TYPES,
+  fetchLessonTypes,
+  lessonTypeColourClass,
+} from "@/utils/lesson-types";
+
+const LessonTypesManager: React.FC = () => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [duration, setDuration] = useState("60");
+  const [price, setPrice] = useState("");
+  const [colour, setColour] = useState("teal");
+  const [studentBookable, setStudentBookable] = useState(false);
+
+  const { data: lessonTypes = [], isLoading } = useQuery({
+    queryKey: ['lesson-types', user?.id],
+    queryFn: () => fetchLessonTypes(user!.id),
+    enabled: !!user
+  });
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setEditingId(null);
+    setName("");
+    setDuration("60");
+    setPrice("");
+    setColour("teal");
+    setStudentBookable(false);
+  };
+
+  const startEdit = (type: LessonType) => {
+    setEditingId(type.id);
+    setName(type.name);
+    setDuration(type.default_duration_mins.toString());
+    setPrice(type.price != null ? type.price.toString() : "");
+    setColour(type.colour);
+    setStudentBookable(type.student_bookable);
+    setIsEditing(true);
+  };
+
+  const startFromSuggestion = (suggestion: typeof SUGGESTED_LESSON_TYPES[number]) => {
+    resetForm();
+    setName(suggestion.name);
+    setDuration(suggestion.default_duration_mins.toString());
+    setColour(suggestion.colour);
+    setIsEditing(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error("Please enter a name.");
+      if (BUILT_IN_LESSON_TYPES.includes(trimmed) || trimmed === "Availability") throw new Error(`"${trimmed}" is a built-in type.`);
+      const mins = parseInt(duration, 10);
+      if (isNaN(mins) || mins < 15) throw new Error("The default length must be at least 15 minutes.");
+      const parsedPrice = price.trim() === "" ? null : parseFloat(price);
+      if (parsedPrice != null && (isNaN(parsedPrice) || parsedPrice < 0)) throw new Error("Please enter a valid price.");
+
+      const values = { name: trimmed, default_duration_mins: mins, price: parsedPrice, colour, student_bookable: studentBookable };
+      const { error } = editingId
+        ? await supabase.from("lesson_types").update(values).eq("id", editingId)
+        : await supabase.from("lesson_types").insert({
+            ...values,
+            user_id: user!.id,
+            sort_order: lessonTypes.reduce((max, type) => Math.max(max, type.sort_order), 0) + 1,
+          });
+      if (error) throw error.code === "23505" ? new Error(`You already have a type called "${trimmed}".`) : error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lesson-types'] });
+      showSuccess(editingId ? "Lesson type updated." : "Lesson type added.");
+      resetForm();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from("lesson_types").update({ is_active: isActive }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['lesson-types'] }),
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("lesson_types").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lesson-types'] });
+      showSuccess("Lesson type removed. Existing lessons keep their name but use your standard rates.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const suggestions = SUGGESTED_LESSON_TYPES.filter(s => !lessonTypes.some(type => type.name.toLowerCase() === s.name.toLowerCase()));
+
+  return (
+    <Card className="border-none shadow-sm bg-card overflow-hidden">
+      <CardHeader className="p-4 sm:p-6 flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center"><Shapes className="mr-2 h-5 w-5 text-primary" /> Lesson Types</CardTitle>
+          <CardDescription>Extra lesson types with their own length, price and calendar colour. Standard lessons, tests and personal time are always available.</CardDescription>
+        </div>
+        {!isEditing && (
+          <Button size="sm" variant="outline" className="font-bold shrink-0" onClick={() => { resetForm(); setIsEditing(true); }}>
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : lessonTypes.length === 0 && !isEditing && (
+          <p className="text-sm text-muted-foreground italic">No lesson types yet.</p>
+        )}
+
+        {lessonTypes.map(type => (
+          <div key={type.id} className={cn("flex items-center justify-between gap-3 p-3 border rounded-lg", !type.is_active && "opacity-60")}>
+            <div className="flex items-center gap-3 min-w-0">
+              <div className={cn("h-4 w-4 rounded-sm shadow-sm shrink-0", lessonTypeColourClass(type))} />
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-bold text-sm">{type.name}</p>
+                  {type.student_bookable && <Badge variant="secondary" className="text-[10px] h-4 px-1.5">Bookable by students</Badge>}
+                  {!type.is_active && <Badge variant="outline" className="text-[10px] h-4 px-1.5">Retired</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {type.default_duration_mins} mins · {type.price != null ? `£${Number(type.price).toFixed(2)}` : "Standard rates"}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Switch
+                checked={type.is_active}
+                onCheckedChange={(checked) => activeMutation.mutate({ id: type.id, isActive: checked })}
+                title={type.is_active ? "Retire" : "Reactivate"}
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" onClick={() => startEdit(type)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => deleteMutation.mutate(type.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {!isEditing && suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <span className="text-[10px] font-bold uppercase text-muted-foreground">Suggestions</span>
+            {suggestions.map(suggestion => (
+              <Button key={suggestion.name} size="sm" variant="outline" className="h-7 text-xs rounded-full" onClick={() => startFromSuggestion(suggestion)}>
+                <Plus className="mr-1 h-3 w-3" /> {suggestion.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="space-y-3 p-3 rounded-lg border bg-muted/30 animate-in slide-in-from-top-2 duration-200">
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Motorway Lesson" className="h-9" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-[10px] font-bold uppercase text-muted-foreground">Default Length (Mins)</Label>
+                <Input type="number" min="15" step="15" value={duration} onChange={(e) => setDuration(e.target.value)} className="h-9" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px] font-bold uppercase text-muted-foreground">Price (£, Optional)</Label>
+                <Input type="number" min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="Standard rates" className="h-9" />
+              </div>
+            </div>
+            <p className="text-[10px] text-muted-foreground">The price is for a lesson of the default length and is pro-rated for longer or shorter lessons.</p>
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Calendar Colour</Label>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(LESSON_TYPE_COLOURS).map(([key, option]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    title={option.label}
+                    onClick={() => setColour(key)}
+                    className={cn("h-7 w-7 rounded-md shadow-sm transition-all", option.className, colour === key ? "ring-2 ring-offset-2 ring-primary" : "opacity-70 hover:opacity-100")}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border bg-background p-3">
+              <div className="space-y-0.5">
+                <Label>Students Can Book Online</Label>
+                <p className="text-[10px] text-muted-foreground">Offer this type on your students' booking screen.</p>
+              </div>
+              <Switch checked={studentBookable} onCheckedChange={setStudentBookable} />
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1 font-bold" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId ? "Save Changes" : "Add Lesson Type"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={resetForm}><X className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LessonTypesManager;
@@ -89,6 +89,12 @@ const NotificationBell: React.FC = () => {
       case 'booking_rejected':
         navigate('/');
         break;
+      case 'auto_complete_digest':
+        navigate('/lessons');
+        break;
+      case 'lesson_reminder':
+        navigate('/');
+        break;
       default:
         // Default behavior: just close the popover
         break;
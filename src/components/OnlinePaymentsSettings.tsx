@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Landmark, Package, Plus, Pencil, Trash2, Loader2, X, ExternalLink } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { showSuccess, showError } from "@/utils/toast";
+import { connectPayoutAccount, fetchLessonPackages, fetchPayoutStatus, LessonPackage } from "@/utils/student-payments";
+
+/**
+ * Lets students pay online: the instructor's Stripe payout account and the packages students can buy
+ */
+const OnlinePaymentsSettings: React.FC = () => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [hours, setHours] = useState("10");
+  const [price, setPrice] = useState("");
+
+  const { data: payoutStatus, isLoading: isLoadingStatus } = useQuery({
+    queryKey: ['payout-status', user?.id],
+    queryFn: fetchPayoutStatus,
+    enabled: !!user
+  });
+
+  const { data: packages = [], isLoading: isLoadingPackages } = useQuery({
+    queryKey: ['lesson-packages', user?.id],
+    queryFn: () => fetchLessonPackages(user!.id),
+    enabled: !!user
+  });
+
+  const connectMutation = useMutation({
+    mutationFn: connectPayoutAccount,
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setEditingId(null);
+    setName("");
+    setHours("10");
+    setPrice("");
+  };
+
+  const startEdit = (pkg: LessonPackage) => {
+    setEditingId(pkg.id);
+    setName(pkg.name);
+    setHours(pkg.hours.toString());
+    setPrice(pkg.price.toString());
+    setIsEditing(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const parsedHours = parseFloat(hours);
+      const parsedPrice = parseFloat(price);
+      if (isNaN(parsedHours) || parsedHours <= 0) throw new Error("Please enter the number of hours.");
+      if (isNaN(parsedPrice) || parsedPrice <= 0) throw new Error("Please enter a valid price.");
+
+      const values = { name: name.trim() || `${parsedHours} Hour Package`, hours: parsedHours, price: parsedPrice };
+      const { error } = editingId
+        ? await supabase.from("lesson_packages").update(values).eq("id", editingId)
+        : await supabase.from("lesson_packages").insert({ ...values, user_id: user!.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lesson-packages'] });
+      showSuccess(editingId ? "Package updated." : "Package added.");
+      resetForm();
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from("lesson_packages").update({ is_active: isActive }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['lesson-packages'] }),
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("lesson_packages").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lesson-packages'] });
+      showSuccess("Package removed. Hours students already bought are kept.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const isReady = !!payoutStatus?.chargesEnabled;
+
+  return (
+    <Card className="border-none shadow-sm bg-card overflow-hidden">
+      <CardHeader className="p-4 sm:p-6">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2"><Landmark className="h-5 w-5 text-primary" /> Online Payments</CardTitle>
+          {!isLoadingStatus && (
+            <Badge variant={isReady ? "default" : "outline"} className="font-bold px-3 py-1 rounded-full">
+              {isReady ? "ACTIVE" : payoutStatus?.connected ? "SETUP INCOMPLETE" : "NOT CONNECTED"}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>Let students pay for lessons and buy packages by card. Payments go straight to your own Stripe account.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        {isLoadingStatus ? (
+          <Skeleton className="h-12 w-full" />
+        ) : !isReady && (
+          <div className="p-3 border rounded-xl bg-muted/30 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              {payoutStatus?.connected
+                ? "Stripe needs a few more details before you can take payments."
+                : "Connect a Stripe account to receive student payments."}
+            </p>
+            <Button size="sm" className="font-bold shrink-0" onClick={() => connectMutation.mutate()} disabled={connectMutation.isPending}>
+              {connectMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><ExternalLink className="mr-1 h-4 w-4" /> {payoutStatus?.connected ? "Finish Setup" : "Connect Stripe"}</>}
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-bold uppercase text-primary flex items-center">
+            <Package className="mr-1.5 h-3.5 w-3.5" /> Packages Students Can Buy
+          </Label>
+          {!isEditing && (
+            <Button size="sm" variant="outline" className="font-bold" onClick={() => { resetForm(); setIsEditing(true); }}>
+              <Plus className="mr-1 h-4 w-4" /> Add
+            </Button>
+          )}
+        </div>
+
+        {isLoadingPackages ? (
+          <Skeleton className="h-16 w-full" />
+        ) : packages.length === 0 && !isEditing && (
+          <p className="text-sm text-muted-foreground italic">No packages yet.</p>
+        )}
+
+        {packages.map(pkg => (
+          <div key={pkg.id} className={cn("flex items-center justify-between gap-3 p-3 border rounded-lg", !pkg.is_active && "opacity-60")}>
+            <div className="min-w-0 space-y-0.5">
+              <div className="flex items-center gap-2 flex-wrap">
+                <p className="font-bold text-sm">{pkg.name}</p>
+                {!pkg.is_active && <Badge variant="outline" className="text-[10px] h-4 px-1.5">Hidden</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">{Number(pkg.hours)} hours · £{Number(pkg.price).toFixed(2)}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Switch
+                checked={pkg.is_active}
+                onCheckedChange={(checked) => activeMutation.mutate({ id: pkg.id, isActive: checked })}
+                title={pkg.is_active ? "Hide from students" : "Offer to students"}
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" onClick={() => startEdit(pkg)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => deleteMutation.mutate(pkg.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {isEditing && (
+          <div className="space-y-3 p-3 rounded-lg border bg-muted/30 animate-in slide-in-from-top-2 duration-200">
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="10 Hour Block" className="h-9" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-[10px] font-bold uppercase text-muted-foreground">Hours</Label>
+                <Input type="number" min="0.5" step="0.5" value={hours} onChange={(e) => setHours(e.target.value)} className="h-9" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px] font-bold uppercase text-muted-foreground">Price (£)</Label>
+                <Input type="number" min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} className="h-9" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1 font-bold" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId ? "Save Changes" : "Add Package"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={resetForm}><X className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OnlinePaymentsSettings;
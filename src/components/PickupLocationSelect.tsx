@@ -0,0 +1,53 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { fetchPickupLocations } from "@/utils/pickup-locations";
+
+interface PickupLocationSelectProps {
+  studentId: string | null | undefined;
+  value: string | null | undefined;
+  onChange: (value: string | null) => void;
+  // Pick the student's default location whenever the student changes
+  selectDefault?: boolean;
+  className?: string;
+}
+
+const NO_PICKUP = "none";
+
+const PickupLocationSelect: React.FC<PickupLocationSelectProps> = ({ studentId, value, onChange, selectDefault = false, className }) => {
+  const defaultedFor = useRef<string | null>(null);
+
+  const { data: locations = [], isSuccess } = useQuery({
+    queryKey: ['pickup-locations', studentId],
+    queryFn: () => fetchPickupLocations(studentId!),
+    enabled: !!studentId,
+  });
+
+  useEffect(() => {
+    if (!selectDefault || !studentId || !isSuccess || defaultedFor.current === studentId) return;
+    defaultedFor.current = studentId;
+    onChange(locations[0]?.id ?? null);
+  }, [selectDefault, studentId, isSuccess, locations, onChange]);
+
+  if (!studentId || locations.length === 0) return null;
+
+  return (
+    <Select value={value || NO_PICKUP} onValueChange={(v) => onChange(v === NO_PICKUP ? null : v)}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Pickup location" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PICKUP}>No pickup set</SelectItem>
+        {locations.map(location => (
+          <SelectItem key={location.id} value={location.id}>
+            {location.label} · {location.postcode}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default PickupLocationSelect;
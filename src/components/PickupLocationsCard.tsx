@@ -0,0 +1,178 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { MapPin, Plus, Star, Trash2, Loader2, X } from "lucide-react";
+import { showSuccess, showError } from "@/utils/toast";
+import { locatePostcode, normalisePostcode } from "@/utils/uk-postcodes";
+import { fetchPickupLocations } from "@/utils/pickup-locations";
+
+interface PickupLocationsCardProps {
+  studentId: string;
+  defaultAddress?: string | null;
+}
+
+const PickupLocationsCard: React.FC<PickupLocationsCardProps> = ({ studentId, defaultAddress }) => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [isAdding, setIsAdding] = useState(false);
+  const [label, setLabel] = useState("Home");
+  const [address, setAddress] = useState("");
+  const [postcode, setPostcode] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['pickup-locations', studentId],
+    queryFn: () => fetchPickupLocations(studentId),
+  });
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setLabel("Home");
+    setAddress("");
+    setPostcode("");
+    setLatitude("");
+    setLongitude("");
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const normalised = normalisePostcode(postcode);
+      if (!normalised) throw new Error("Please enter a valid UK postcode.");
+
+      // Hand-entered coordinates win over the postcode lookup
+      const manual = latitude && longitude ? { latitude: parseFloat(latitude), longitude: parseFloat(longitude) } : null;
+      if (manual && (isNaN(manual.latitude) || isNaN(manual.longitude))) throw new Error("Coordinates must be numbers.");
+      const point = manual || await locatePostcode(normalised);
+
+      const { error } = await supabase.from("student_pickup_locations").insert({
+        user_id: user!.id,
+        student_id: studentId,
+        label: label.trim() || "Home",
+        address: address.trim() || null,
+        postcode: normalised,
+        latitude: point?.latitude ?? null,
+        longitude: point?.longitude ?? null,
+        is_default: locations.length === 0,
+      });
+      if (error) throw error;
+      return !!point;
+    },
+    onSuccess: (located) => {
+      queryClient.invalidateQueries({ queryKey: ['pickup-locations'] });
+      resetForm();
+      showSuccess(located ? "Pickup location saved." : "Pickup location saved, but the postcode couldn't be located so travel time won't be estimated.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error: clearError } = await supabase.from("student_pickup_locations").update({ is_default: false }).eq("student_id", studentId);
+      if (clearError) throw clearError;
+      const { error } = await supabase.from("student_pickup_locations").update({ is_default: true }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['pickup-locations'] }),
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("student_pickup_locations").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pickup-locations'] });
+      showSuccess("Pickup location removed.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg flex items-center"><MapPin className="mr-2 h-5 w-5 text-primary" /> Pickup Locations</CardTitle>
+          <CardDescription>Where lessons start. Used to allow travel time between lessons.</CardDescription>
+        </div>
+        {!isAdding && (
+          <Button size="sm" variant="outline" className="font-bold shrink-0" onClick={() => { setAddress(defaultAddress || ""); setIsAdding(true); }}>
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {locations.length === 0 && !isAdding && (
+          <p className="text-sm text-muted-foreground italic">No pickup locations saved.</p>
+        )}
+
+        {locations.map(location => (
+          <div key={location.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+            <div className="min-w-0 space-y-0.5">
+              <div className="flex items-center gap-2">
+                <p className="font-bold text-sm">{location.label}</p>
+                {location.is_default && <Badge variant="secondary" className="text-[10px] h-4 px-1.5">Default</Badge>}
+                {location.latitude == null && <Badge variant="outline" className="text-[10px] h-4 px-1.5 text-orange-600 border-orange-200">Not located</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">{[location.address, location.postcode].filter(Boolean).join(", ")}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {!location.is_default && (
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" title="Make default" onClick={() => setDefaultMutation.mutate(location.id)}>
+                  <Star className="h-4 w-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => deleteMutation.mutate(location.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {isAdding && (
+          <div className="space-y-3 p-3 rounded-lg border bg-muted/30 animate-in slide-in-from-top-2 duration-200">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-[10px] font-bold uppercase text-muted-foreground">Label</Label>
+                <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Home, School, Work..." className="h-9" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px] font-bold uppercase text-muted-foreground">Postcode</Label>
+                <Input value={postcode} onChange={(e) => setPostcode(e.target.value)} placeholder="LS6 1AA" className="h-9 uppercase" />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Address (Optional)</Label>
+              <Input value={address} onChange={(e) => setAddress(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">Exact Coordinates (Optional)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input value={latitude} onChange={(e) => setLatitude(e.target.value)} placeholder="Latitude" className="h-9" inputMode="decimal" />
+                <Input value={longitude} onChange={(e) => setLongitude(e.target.value)} placeholder="Longitude" className="h-9" inputMode="decimal" />
+              </div>
+              <p className="text-[10px] text-muted-foreground">Leave blank to estimate from the postcode area.</p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1 font-bold" onClick={() => addMutation.mutate()} disabled={addMutation.isPending}>
+                {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Location"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={resetForm}><X className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PickupLocationsCard;
@@ -15,6 +15,7 @@ import {
   FormDescription,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -27,9 +28,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showSuccess, showError } from "@/utils/toast";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { User, Clock, Shield, CalendarRange, Timer, PoundSterling } from "lucide-react";
+import { User, Clock, Shield, CalendarRange, Timer, PoundSterling, FileText } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
+import WorkingIntervalsInput from "@/components/WorkingIntervalsInput";
+import { DEFAULT_WORKING_HOURS_FORM, fromWorkingHoursForm, toWorkingHoursForm, workingHoursFormSchema } from "@/utils/working-hours";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 
@@ -43,19 +46,6 @@ const DAYS = [
   { id: "0", label: "Sunday" },
 ];
 
-const generateTimeOptions = () => {
-  const options = [];
-  for (let hour = 0; hour < 24; hour++) {
-    for (let min = 0; min < 60; min += 15) {
-      const time = `${hour.toString().padStart(2, '0')}:${min.toString().padStart(2, '0')}`;
-      options.push(time);
-    }
-  }
-  return options;
-};
-
-const TIME_OPTIONS = generateTimeOptions();
-
 const formSchema = z.object({
   first_name: z.string().optional().nullable(),
   last_name: z.string().optional().nullable(),
@@ -83,11 +73,12 @@ const formSchema = z.object({
     (val) => (val === "" ? 15 : Number(val)),
     z.number().min(0).max(60)
   ),
-  working_hours: z.record(z.object({
-    active: z.boolean(),
-    start: z.string(),
-    end: z.string()
-  }))
+  working_hours: workingHoursFormSchema,
+  business_name: z.string().optional().nullable(),
+  business_address: z.string().optional().nullable(),
+  business_phone: z.string().optional().nullable(),
+  business_email: z.string().email().optional().nullable().or(z.literal("")),
+  invoice_notes: z.string().optional().nullable()
 });
 
 const ProfileSettingsForm: React.FC = () => {
@@ -112,15 +103,12 @@ const ProfileSettingsForm: React.FC = () => {
       booking_mode: "gaps",
       booking_interval_mins: 30,
       booking_buffer_mins: 15,
-      working_hours: {
-        "1": { active: true, start: "09:00", end: "17:00" },
-        "2": { active: true, start: "09:00", end: "17:00" },
-        "3": { active: true, start: "09:00", end: "17:00" },
-        "4": { active: true, start: "09:00", end: "17:00" },
-        "5": { active: true, start: "09:00", end: "17:00" },
-        "6": { active: false, start: "09:00", end: "17:00" },
-        "0": { active: false, start: "09:00", end: "17:00" },
-      }
+      working_hours: DEFAULT_WORKING_HOURS_FORM,
+      business_name: "",
+      business_address: "",
+      business_phone: "",
+      business_email: "",
+      invoice_notes: ""
     },
   });
 
@@ -140,17 +128,6 @@ const ProfileSettingsForm: React.FC = () => {
       if (data) {
         setUserRole(data.role);
         
-        const rawHours = data.working_hours || {};
-        const formattedHours: any = {};
-        DAYS.forEach(day => {
-          const config = rawHours[day.id] || { active: false, start: "09:00", end: "17:00" };
-          formattedHours[day.id] = {
-            active: config.active,
-            start: typeof config.start === 'number' ? `${config.start.toString().padStart(2, '0')}:00` : config.start,
-            end: typeof config.end === 'number' ? `${config.end.toString().padStart(2, '0')}:00` : config.end,
-          };
-        });
-
         form.reset({
           first_name: data.first_name || "",
           last_name: data.last_name || "",
@@ -166,7 +143,12 @@ const ProfileSettingsForm: React.FC = () => {
           booking_mode: data.booking_mode || "gaps",
           booking_interval_mins: data.booking_interval_mins ?? 30,
           booking_buffer_mins: data.booking_buffer_mins ?? 15,
-          working_hours: formattedHours
+          working_hours: toWorkingHoursForm(data.working_hours),
+          business_name: data.business_name || "",
+          business_address: data.business_address || "",
+          business_phone: data.business_phone || "",
+          business_email: data.business_email || "",
+          invoice_notes: data.invoice_notes || ""
         });
       }
     } catch (error: any) {
@@ -199,7 +181,12 @@ const ProfileSettingsForm: React.FC = () => {
         booking_mode: values.booking_mode,
         booking_interval_mins: values.booking_interval_mins,
         booking_buffer_mins: values.booking_buffer_mins,
-        working_hours: values.working_hours,
+        working_hours: fromWorkingHoursForm(values.working_hours),
+        business_name: values.business_name || null,
+        business_address: values.business_address || null,
+        business_phone: values.business_phone || null,
+        business_email: values.business_email || null,
+        invoice_notes: values.invoice_notes || null,
         updated_at: new Date().toISOString(),
       })
       .eq("id", user.id);
@@ -235,8 +222,9 @@ const ProfileSettingsForm: React.FC = () => {
               <FormItem className="flex-1 w-full">
                 <FormLabel>Logo URL</FormLabel>
                 <FormControl>
-                  <Input placeholder="https://example.com/logo.png" {...field} value={field.value || ""} />
+                  <Input placeholder="https://example.com/logo.jpg" {...field} value={field.value || ""} />
                 </FormControl>
+                {!isStudent && <FormDescription className="text-[10px]">Use a JPEG for it to appear on PDF invoices and receipts.</FormDescription>}
                 <FormMessage />
               </FormItem>
             )}
@@ -287,6 +275,75 @@ const ProfileSettingsForm: React.FC = () => {
           />
         </div>
 
+        {!isStudent && (
+          <div className="p-4 border rounded-xl bg-muted/30 space-y-4">
+            <h3 className="text-sm font-bold uppercase text-muted-foreground flex items-center gap-2">
+              <FileText className="h-4 w-4" /> Invoice Details
+            </h3>
+            <p className="text-[10px] text-muted-foreground -mt-2">
+              Printed on your invoices and receipts. Leave the business name blank to use your own name.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="business_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Business Name</FormLabel>
+                    <FormControl><Input {...field} value={field.value || ""} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="business_phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl><Input type="tel" {...field} value={field.value || ""} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="business_email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl><Input type="email" placeholder="Defaults to your sign-in email" {...field} value={field.value || ""} /></FormControl>
+                  <FormDescription className="text-[10px]">Students' replies to emailed invoices go here.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="business_address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl><Textarea rows={3} {...field} value={field.value || ""} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="invoice_notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Invoice Notes</FormLabel>
+                  <FormControl><Textarea rows={3} placeholder="e.g. bank details or payment terms" {...field} value={field.value || ""} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
         <div className="p-4 border rounded-xl bg-muted/30 space-y-4">
           <h3 className="text-sm font-bold uppercase text-muted-foreground flex items-center gap-2">
             <PoundSterling className="h-4 w-4" /> Lesson Rates
@@ -394,37 +451,16 @@ const ProfileSettingsForm: React.FC = () => {
 
                 <div className="flex items-center justify-between sm:justify-end gap-2">
                   {form.watch(`working_hours.${day.id}.active`) ? (
-                    <div className="flex items-center gap-1.5 sm:gap-2">
-                      <FormField
-                        control={form.control}
-                        name={`working_hours.${day.id}.start`}
-                        render={({ field }) => (
-                          <Select onValueChange={(val) => field.onChange(val)} value={field.value}>
-                            <FormControl><SelectTrigger className="w-[75px] sm:w-24 h-9 text-xs px-2"><SelectValue /></SelectTrigger></FormControl>
-                            <SelectContent>
-                              {TIME_OPTIONS.map((time) => (
-                                <SelectItem key={time} value={time}>{time}</SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        )}
-                      />
-                      <span className="text-[10px] sm:text-xs font-bold text-muted-foreground">to</span>
-                      <FormField
-                        control={form.control}
-                        name={`working_hours.${day.id}.end`}
-                        render={({ field }) => (
-                          <Select onValueChange={(val) => field.onChange(val)} value={field.value}>
-                            <FormControl><SelectTrigger className="w-[75px] sm:w-24 h-9 text-xs px-2"><SelectValue /></SelectTrigger></FormControl>
-                            <SelectContent>
-                              {TIME_OPTIONS.map((time) => (
-                                <SelectItem key={time} value={time}>{time}</SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        )}
-                      />
-                    </div>
+                    <FormField
+                      control={form.control}
+                      name={`working_hours.${day.id}.intervals`}
+                      render={({ field }) => (
+                        <FormItem className="space-y-1">
+                          <WorkingIntervalsInput value={field.value} onChange={field.onChange} />
+                          <FormMessage className="text-[10px] text-right" />
+                        </FormItem>
+                      )}
+                    />
                   ) : (
                     <span className="text-xs italic text-muted-foreground pr-2">Off Duty</span>
                   )}
@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import { CancellationPolicySettings, describeCancellationFee, isLateCancellation } from "@/utils/cancellation-policy";
+
+interface StudentCancelLessonDialogProps {
+  booking: { id: string; start_time: string; status: string; reschedule_of?: string | null } | null;
+  policy: CancellationPolicySettings | null | undefined;
+  instructorId: string;
+  studentName: string;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: () => void;
+}
+
+const StudentCancelLessonDialog: React.FC<StudentCancelLessonDialogProps> = ({ booking, policy, instructorId, studentName, onOpenChange, onCancelled }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isRequest = booking?.status === "pending_approval";
+  const isLate = !!booking && !isRequest && isLateCancellation(policy, booking.start_time);
+  const when = booking ? format(parseISO(booking.start_time), "EEEE, MMMM do 'at' p") : "";
+
+  const handleConfirm = async () => {
+    if (!booking) return;
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("cancel_student_booking", { p_booking_id: booking.id });
+
+    if (error) {
+      showError("Failed to cancel: " + error.message);
+    } else {
+      await supabase.from("notifications").insert({
+        user_id: instructorId,
+        title: isRequest ? "Request Withdrawn" : "Lesson Cancelled",
+        message: isRequest
+          ? `${studentName} has withdrawn their request for ${when}.`
+          : `${studentName} has cancelled their lesson on ${when}.`,
+        type: "booking_cancelled"
+      });
+      showSuccess(isRequest ? "Request withdrawn." : "Lesson cancelled.");
+      onCancelled();
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <AlertDialog open={!!booking} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{isRequest ? "Withdraw this request?" : "Cancel this lesson?"}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {isRequest
+              ? booking?.reschedule_of
+                ? `Your request to move to ${when} will be withdrawn. Your current lesson stays as it is.`
+                : `Your request for ${when} will be withdrawn.`
+              : `Your lesson on ${when} will be cancelled and the slot released.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {isLate && policy && (
+          <div className="p-3 rounded-lg border border-orange-200 bg-orange-50/50">
+            <p className="text-xs font-bold text-orange-700 flex items-start gap-1.5">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+              This is within {policy.cancellation_cutoff_hours ?? 48} hours of the lesson, so a late cancellation fee of {describeCancellationFee(policy)} may apply.
+            </p>
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSubmitting}>{isRequest ? "Keep Request" : "Keep Lesson"}</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm} disabled={isSubmitting} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+            {isRequest ? "Withdraw" : "Cancel Lesson"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default StudentCancelLessonDialog;
@@ -0,0 +1,125 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { BookOpenText } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { showError } from "@/utils/toast";
+import { fetchStudentLedger, LedgerEntry, PaymentMethod, PAYMENT_METHODS, setPaymentMethod } from "@/utils/student-ledger";
+
+interface StudentLedgerCardProps {
+  studentId: string;
+  // Students see their ledger but can't record how things were paid
+  readOnly?: boolean;
+}
+
+const formatBalance = (balance: number) => {
+  if (Math.abs(balance) < 0.005) return "£0.00";
+  return balance > 0 ? `£${balance.toFixed(2)} in credit` : `£${Math.abs(balance).toFixed(2)} owed`;
+};
+
+const methodLabel = (method: PaymentMethod | null) =>
+  PAYMENT_METHODS.find(m => m.value === method)?.label ?? "Method not recorded";
+
+const StudentLedgerCard: React.FC<StudentLedgerCardProps> = ({ studentId, readOnly = false }) => {
+  const queryClient = useQueryClient();
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["student-ledger", studentId],
+    queryFn: () => fetchStudentLedger(studentId),
+  });
+
+  const methodMutation = useMutation({
+    mutationFn: ({ entry, method }: { entry: LedgerEntry; method: PaymentMethod }) =>
+      setPaymentMethod(entry.source_type!, entry.source_id!, method),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["student-ledger", studentId] }),
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const balance = entries.length > 0 ? entries[entries.length - 1].balance : 0;
+  const totals = entries.reduce(
+    (sum, entry) => ({ charged: sum.charged + entry.charge, paid: sum.paid + entry.payment }),
+    { charged: 0, paid: 0 }
+  );
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden">
+      <CardHeader className="bg-muted/50 border-b">
+        <CardTitle className="text-lg font-bold flex items-center gap-2"><BookOpenText className="h-5 w-5 text-primary/60" /> Account</CardTitle>
+        <CardDescription className="text-xs font-medium">
+          Lessons and fees charged, payments made and pre-paid credit bought. Lessons keep the price they had when taught or paid for; hours used from a package are charged at the rate it was bought at.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-4 space-y-3"><Skeleton className="h-16 w-full" /><Skeleton className="h-40 w-full" /></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3 p-4 border-b">
+              <div className="p-3 border rounded-xl bg-muted/30">
+                <p className="text-[10px] font-bold uppercase text-muted-foreground">Charged</p>
+                <p className="text-lg font-black">£{totals.charged.toFixed(2)}</p>
+              </div>
+              <div className="p-3 border rounded-xl bg-muted/30">
+                <p className="text-[10px] font-bold uppercase text-muted-foreground">Paid & Credit</p>
+                <p className="text-lg font-black">£{totals.paid.toFixed(2)}</p>
+              </div>
+              <div className={cn("p-3 border rounded-xl", balance < -0.005 ? "bg-destructive/5 border-destructive/20" : "bg-green-50 border-green-200")}>
+                <p className="text-[10px] font-bold uppercase text-muted-foreground">Balance</p>
+                <p className={cn("text-lg font-black", balance < -0.005 ? "text-destructive" : "text-green-700")}>{formatBalance(balance)}</p>
+              </div>
+            </div>
+
+            {entries.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground italic">Nothing charged or paid yet.</p>
+            ) : (
+              <div className="divide-y">
+                {[...entries].reverse().map((entry, i) => {
+                  const isPayment = entry.entry_type !== "charge";
+                  const canSetMethod = !readOnly && isPayment && !!entry.source_type && !!entry.source_id;
+                  return (
+                    <div key={`${entry.source_id}-${entry.entry_type}-${i}`} className="p-4 flex items-center justify-between gap-3">
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-bold text-sm truncate">{entry.description}</p>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-[10px] font-bold uppercase text-muted-foreground">{format(parseISO(entry.entry_date), "MMM d, yyyy")}</span>
+                          {entry.entry_type === "credit" && <Badge variant="secondary" className="text-[10px] font-bold">Pre-paid Credit</Badge>}
+                          {isPayment && (canSetMethod ? (
+                            <Select
+                              value={entry.payment_method ?? undefined}
+                              onValueChange={(method) => methodMutation.mutate({ entry, method: method as PaymentMethod })}
+                            >
+                              <SelectTrigger className="h-6 w-auto gap-1 px-2 text-[10px] font-bold"><SelectValue placeholder="How was it paid?" /></SelectTrigger>
+                              <SelectContent>
+                                {PAYMENT_METHODS.map(m => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant="outline" className="text-[10px] font-bold">{methodLabel(entry.payment_method)}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className={cn("font-black", isPayment ? "text-green-600" : "text-foreground")}>
+                          {isPayment ? `+£${entry.payment.toFixed(2)}` : `-£${entry.charge.toFixed(2)}`}
+                        </p>
+                        <p className="text-[10px] text-muted-foreground font-medium">Balance £{entry.balance.toFixed(2)}</p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentLedgerCard;
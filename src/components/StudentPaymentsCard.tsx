@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { parseISO } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CreditCard, Package, Loader2 } from "lucide-react";
+import { showSuccess, showError } from "@/utils/toast";
+import { formatInTimeZone } from "@/utils/time-zone";
+import { buyLessonPackage, confirmStudentPayment, fetchLessonPackages, fetchPayableBookings, payForBooking } from "@/utils/student-payments";
+
+interface StudentPaymentsCardProps {
+  instructorId: string;
+  timeZone: string;
+}
+
+/**
+ * Card payments for a student whose instructor takes them online: lessons still owed for and packages to buy.
+ * Also finishes off a payment when Stripe sends the student back here.
+ */
+const StudentPaymentsCard: React.FC<StudentPaymentsCardProps> = ({ instructorId, timeZone }) => {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const returningSessionId = searchParams.get("payment_session");
+
+  const { data: payableBookings = [] } = useQuery({
+    queryKey: ['payable-bookings'],
+    queryFn: fetchPayableBookings
+  });
+
+  const { data: packages = [] } = useQuery({
+    queryKey: ['lesson-packages', instructorId],
+    queryFn: () => fetchLessonPackages(instructorId)
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: confirmStudentPayment,
+    onSuccess: (status) => {
+      if (status === "paid") {
+        showSuccess("Payment received, thank you!");
+        queryClient.invalidateQueries({ queryKey: ['payable-bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['student-credit'] });
+        queryClient.invalidateQueries({ queryKey: ['student-bookings'] });
+      } else if (status === "refund_due" || status === "refunded") {
+        showError("This lesson was already settled, so your payment is being refunded.");
+        queryClient.invalidateQueries({ queryKey: ['payable-bookings'] });
+      } else {
+        showError(status === "expired" ? "The payment was not completed." : "Your payment is still processing. It will show here once it clears.");
+      }
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const { mutate: confirmPayment } = confirmMutation;
+  useEffect(() => {
+    if (!returningSessionId) return;
+    confirmPayment(returningSessionId);
+    searchParams.delete("payment_session");
+    setSearchParams(searchParams, { replace: true });
+  }, [returningSessionId, confirmPayment, searchParams, setSearchParams]);
+
+  const checkoutMutation = useMutation({
+    mutationFn: ({ kind, id }: { kind: "booking" | "package"; id: string }) =>
+      kind === "booking" ? payForBooking(id) : buyLessonPackage(id),
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const isOpening = (id: string) => checkoutMutation.isPending && checkoutMutation.variables?.id === id;
+
+  if (payableBookings.length === 0 && packages.length === 0) return null;
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden">
+      <CardHeader className="bg-muted/50 border-b">
+        <CardTitle className="text-lg font-bold flex items-center gap-2"><CreditCard className="h-5 w-5 text-primary/60" /> Payments</CardTitle>
+        <CardDescription className="text-xs font-medium">Pay for lessons or top up your pre-paid hours by card.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {payableBookings.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-[10px] font-bold uppercase text-muted-foreground">Lessons to Pay For</Label>
+            {payableBookings.map(booking => (
+              <div key={booking.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-bold text-sm truncate">{booking.lesson_type}</p>
+                  <p className="text-xs text-muted-foreground">{formatInTimeZone(parseISO(booking.start_time), timeZone, "EEE, MMM do p")}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {booking.status === "completed" && <Badge variant="destructive" className="text-[8px] h-4 px-1 uppercase font-bold">Due</Badge>}
+                  <Button size="sm" className="font-bold" onClick={() => checkoutMutation.mutate({ kind: "booking", id: booking.id })} disabled={checkoutMutation.isPending}>
+                    {isOpening(booking.id) ? <Loader2 className="h-4 w-4 animate-spin" /> : `Pay £${Number(booking.amount).toFixed(2)}`}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {packages.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-[10px] font-bold uppercase text-muted-foreground">Buy Pre-paid Hours</Label>
+            {packages.map(pkg => (
+              <div key={pkg.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Package className="h-4 w-4 text-primary shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-bold text-sm truncate">{pkg.name}</p>
+                    <p className="text-xs text-muted-foreground">{Number(pkg.hours)} hours</p>
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" className="font-bold shrink-0" onClick={() => checkoutMutation.mutate({ kind: "package", id: pkg.id })} disabled={checkoutMutation.isPending}>
+                  {isOpening(pkg.id) ? <Loader2 className="h-4 w-4 animate-spin" /> : `Buy £${Number(pkg.price).toFixed(2)}`}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentPaymentsCard;
@@ -0,0 +1,290 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Car, FileDown, FileSpreadsheet, Landmark, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { showError } from "@/utils/toast";
+import {
+  buildTaxReturn,
+  disallowableBox,
+  ExpenditureCategoryMapping,
+  fetchMilesDriven,
+  fetchPackageSales,
+  SA103_EXPENSE_BOXES,
+  suggestMapping,
+  taxReturnCsv,
+  TaxReturnItem,
+  VehicleExpenseMethod,
+} from "@/utils/tax-return";
+
+interface TaxReturnReportProps {
+  taxYearStart: number;
+  range: { start: Date; end: Date };
+  // Money received in the tax year, not counting lessons paid from credit (packages count when bought)
+  income: TaxReturnItem[];
+  expenditure: TaxReturnItem[];
+}
+
+const TaxReturnReport: React.FC<TaxReturnReportProps> = ({ taxYearStart, range, income, expenditure }) => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const taxYearLabel = `${taxYearStart}-${String(taxYearStart + 1).slice(2)}`;
+  const [businessPercent, setBusinessPercent] = useState("100");
+
+  const { data: settings } = useQuery({
+    queryKey: ["vehicle-expense-settings", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("vehicle_expense_method, vehicle_business_percent").eq("id", user!.id).single();
+      if (error) throw error;
+      return { method: (data.vehicle_expense_method || "actual") as VehicleExpenseMethod, businessPercent: Number(data.vehicle_business_percent ?? 100) };
+    },
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (settings) setBusinessPercent(String(settings.businessPercent));
+  }, [settings]);
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["expenditure-category-boxes", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("expenditure_categories").select("id, name, sa103_box, is_vehicle_cost").eq("user_id", user!.id).order("name");
+      if (error) throw error;
+      return (data || []) as ExpenditureCategoryMapping[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: yearData, isLoading } = useQuery({
+    queryKey: ["tax-return-data", user?.id, taxYearStart],
+    queryFn: async () => {
+      const [milesDriven, packageSales] = await Promise.all([fetchMilesDriven(user!.id, range), fetchPackageSales(user!.id, range)]);
+      return { milesDriven, packageSales };
+    },
+    enabled: !!user,
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (changes: { vehicle_expense_method?: VehicleExpenseMethod; vehicle_business_percent?: number }) => {
+      const { error } = await supabase.from("profiles").update(changes).eq("id", user!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["vehicle-expense-settings"] }),
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async (mapping: ExpenditureCategoryMapping) => {
+      const changes = { sa103_box: mapping.sa103_box, is_vehicle_cost: mapping.is_vehicle_cost };
+      const { error } = mapping.id
+        ? await supabase.from("expenditure_categories").update(changes).eq("id", mapping.id)
+        : await supabase.from("expenditure_categories").insert({ user_id: user!.id, name: mapping.name, ...changes });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["expenditure-category-boxes"] }),
+    onError: (error: Error) => showError(error.message),
+  });
+
+  // Every category in use this year or set up, with its saved box or a suggested one
+  const mappings = useMemo(() => {
+    const names = new Set([...categories.map(c => c.name), ...expenditure.map(item => item.category)]);
+    return Array.from(names).sort().map(name => {
+      const saved = categories.find(c => c.name === name);
+      if (saved?.sa103_box != null) return saved;
+      return { id: saved?.id ?? null, name, ...suggestMapping(name) };
+    });
+  }, [categories, expenditure]);
+
+  const method = settings?.method ?? "actual";
+  const allIncome = useMemo(() => [...income, ...(yearData?.packageSales ?? [])], [income, yearData]);
+  const taxReturn = useMemo(() => buildTaxReturn({
+    income: allIncome,
+    expenditure,
+    mappings,
+    method,
+    businessPercent: settings?.businessPercent ?? 100,
+    milesDriven: yearData?.milesDriven ?? 0,
+  }), [allIncome, expenditure, mappings, method, settings, yearData]);
+
+  const handlePrint = () => {
+    const previousTitle = document.title;
+    document.title = `Tax return ${taxYearLabel}`;
+    window.print();
+    document.title = previousTitle;
+  };
+
+  const handleCsv = () => {
+    const csv = taxReturnCsv(taxReturn, taxYearLabel, allIncome, expenditure);
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `tax-return-${taxYearLabel}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const saveBusinessPercent = () => {
+    const value = Math.min(100, Math.max(0, Number(businessPercent) || 0));
+    setBusinessPercent(String(value));
+    if (value !== settings?.businessPercent) saveSettingsMutation.mutate({ vehicle_business_percent: value });
+  };
+
+  if (isLoading || !settings) {
+    return <div className="space-y-4"><Skeleton className="h-40 w-full" /><Skeleton className="h-96 w-full" /></div>;
+  }
+
+  const disallowableLines = taxReturn.expenses.filter(line => line.disallowable > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 print:hidden">
+        <p className="text-sm text-muted-foreground font-medium">
+          Figures for the self-employment (full) pages, SA103F, on the cash basis: money received and paid out in the tax year.
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" className="font-bold" onClick={handleCsv}><FileSpreadsheet className="mr-2 h-4 w-4" /> CSV</Button>
+          <Button variant="outline" className="font-bold" onClick={handlePrint}><Printer className="mr-2 h-4 w-4" /> Print</Button>
+          <Button className="font-bold" onClick={handlePrint} title="Choose &quot;Save as PDF&quot; as the printer"><FileDown className="mr-2 h-4 w-4" /> Save as PDF</Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2 print:hidden">
+        <Card className="shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2"><Car className="h-5 w-5 text-primary" /> Car Expenses</CardTitle>
+            <CardDescription>Once you've used simplified expenses for a car you must keep using them for as long as you have it.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RadioGroup value={method} onValueChange={(value) => saveSettingsMutation.mutate({ vehicle_expense_method: value as VehicleExpenseMethod })} className="space-y-2">
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="actual" id="vehicle-actual" className="mt-0.5" />
+                <Label htmlFor="vehicle-actual" className="font-normal">
+                  <span className="font-bold">Actual costs</span>
+                  <span className="block text-[10px] text-muted-foreground">Fuel, insurance, repairs and the rest as spent, less the private use share.</span>
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="simplified" id="vehicle-simplified" className="mt-0.5" />
+                <Label htmlFor="vehicle-simplified" className="font-normal">
+                  <span className="font-bold">Simplified expenses</span>
+                  <span className="block text-[10px] text-muted-foreground">45p a business mile for the first 10,000, then 25p, instead of the running costs. Miles come from the Mileage Tracker.</span>
+                </Label>
+              </div>
+            </RadioGroup>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="business-percent" className="text-[10px] font-bold uppercase text-muted-foreground shrink-0">Business use %</Label>
+              <Input id="business-percent" type="number" min={0} max={100} className="w-24" value={businessPercent} onChange={(e) => setBusinessPercent(e.target.value)} onBlur={saveBusinessPercent} />
+            </div>
+            {method === "simplified" && (
+              <p className="text-xs text-muted-foreground">
+                {(yearData?.milesDriven ?? 0).toLocaleString()} miles driven, {taxReturn.businessMiles.toLocaleString()} for business: £{taxReturn.mileageAllowance.toFixed(2)}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2"><Landmark className="h-5 w-5 text-primary" /> Expense Boxes</CardTitle>
+            <CardDescription>Which SA103F box each expenditure category goes in. Tick the car's running costs.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {mappings.length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">No expenditure categories yet.</p>
+            ) : mappings.map(mapping => (
+              <div key={mapping.name} className="flex items-center gap-2">
+                <span className="text-sm font-bold flex-1 min-w-0 truncate">{mapping.name}</span>
+                <Select value={String(mapping.sa103_box)} onValueChange={(box) => saveMappingMutation.mutate({ ...mapping, sa103_box: Number(box) })}>
+                  <SelectTrigger className="h-8 w-[180px] text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SA103_EXPENSE_BOXES.map(({ box, label }) => <SelectItem key={box} value={String(box)} className="text-xs">Box {box}: {label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <Checkbox
+                    id={`vehicle-${mapping.name}`}
+                    checked={mapping.is_vehicle_cost}
+                    onCheckedChange={(checked) => saveMappingMutation.mutate({ ...mapping, is_vehicle_cost: checked === true })}
+                  />
+                  <Label htmlFor={`vehicle-${mapping.name}`} className="text-[10px] font-bold uppercase text-muted-foreground">Car</Label>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-sm print:shadow-none print:border-none">
+        <CardHeader>
+          <CardTitle className="text-lg">Self-employment (full), tax year {taxYearStart} to {taxYearStart + 1}</CardTitle>
+          <CardDescription>6 April {taxYearStart} to 5 April {taxYearStart + 1}, cash basis.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-y text-[10px] font-bold uppercase text-muted-foreground">
+                <th className="text-left p-3 w-16">Box</th>
+                <th className="text-left p-3">Description</th>
+                <th className="text-right p-3 w-32">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              <tr className="font-bold"><td className="p-3">15</td><td className="p-3">Turnover</td><td className="p-3 text-right">£{taxReturn.turnover.toFixed(2)}</td></tr>
+              {taxReturn.expenses.map(line => (
+                <tr key={line.box} className={line.total === 0 ? "text-muted-foreground" : undefined}>
+                  <td className="p-3">{line.box}</td>
+                  <td className="p-3">
+                    {line.label}
+                    {line.box === 20 && taxReturn.mileageAllowance > 0 && (
+                      <span className="block text-[10px] text-muted-foreground">Includes £{taxReturn.mileageAllowance.toFixed(2)} simplified mileage for {taxReturn.businessMiles.toLocaleString()} business miles</span>
+                    )}
+                  </td>
+                  <td className="p-3 text-right">£{line.total.toFixed(2)}</td>
+                </tr>
+              ))}
+              <tr className="font-bold"><td className="p-3">31</td><td className="p-3">Total expenses</td><td className="p-3 text-right">£{taxReturn.totalExpenses.toFixed(2)}</td></tr>
+              {disallowableLines.map(line => (
+                <tr key={`d-${line.box}`}>
+                  <td className="p-3">{disallowableBox(line.box)}</td>
+                  <td className="p-3">{line.label} (disallowable)</td>
+                  <td className="p-3 text-right">£{line.disallowable.toFixed(2)}</td>
+                </tr>
+              ))}
+              <tr className="font-bold"><td className="p-3">46</td><td className="p-3">Total disallowable expenses</td><td className="p-3 text-right">£{taxReturn.totalDisallowable.toFixed(2)}</td></tr>
+              <tr className="font-black text-base">
+                <td className="p-3">{taxReturn.netLoss > 0 ? 48 : 47}</td>
+                <td className="p-3">{taxReturn.netLoss > 0 ? "Net loss" : "Net profit"}</td>
+                <td className="p-3 text-right">£{(taxReturn.netLoss > 0 ? taxReturn.netLoss : taxReturn.netProfit).toFixed(2)}</td>
+              </tr>
+              {taxReturn.totalDisallowable > 0 && (
+                <>
+                  <tr><td className="p-3"></td><td className="p-3">Add back disallowable expenses (box 46)</td><td className="p-3 text-right">£{taxReturn.totalDisallowable.toFixed(2)}</td></tr>
+                  <tr className="font-bold">
+                    <td className="p-3"></td>
+                    <td className="p-3">{taxReturn.adjustedProfit < 0 ? "Loss" : "Profit"} after adding back disallowable expenses</td>
+                    <td className="p-3 text-right">£{Math.abs(taxReturn.adjustedProfit).toFixed(2)}</td>
+                  </tr>
+                </>
+              )}
+            </tbody>
+          </table>
+          <p className="p-3 text-[10px] text-muted-foreground border-t">
+            Prepared from the app's records to help complete the return; check the figures (and any capital allowances) with HMRC's guidance or your accountant before filing.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TaxReturnReport;
@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { BellRing, Hourglass, Trash2, Loader2, Timer } from "lucide-react";
+import { format, parseISO, isBefore, startOfDay } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import { GeneratedSlot } from "@/utils/slot-engine";
+
+interface WaitlistPanelProps {
+  studentId: string;
+  instructorId: string;
+  selectedDate: Date;
+  onClaimOffer: (slot: GeneratedSlot) => void;
+}
+
+const invalidateWaitlistQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['waitlist-entries'] });
+  queryClient.invalidateQueries({ queryKey: ['waitlist-offers'] });
+  queryClient.invalidateQueries({ queryKey: ['waitlist-holds'] });
+};
+
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ studentId, instructorId, selectedDate, onClaimOffer }) => {
+  const queryClient = useQueryClient();
+  const [anyTime, setAnyTime] = useState(true);
+  const [windowStart, setWindowStart] = useState("09:00");
+  const [windowEnd, setWindowEnd] = useState("17:00");
+
+  const selectedKey = format(selectedDate, "yyyy-MM-dd");
+  const isPastDay = isBefore(selectedDate, startOfDay(new Date()));
+
+  const { data: offers = [] } = useQuery({
+    queryKey: ['waitlist-offers', studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("waitlist_offers")
+        .select("id, start_time, end_time, expires_at")
+        .eq("student_id", studentId)
+        .eq("status", "offered")
+        .gt("expires_at", new Date().toISOString())
+        .order("start_time", { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    refetchInterval: 60000,
+  });
+
+  const { data: entries = [] } = useQuery({
+    queryKey: ['waitlist-entries', studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("waitlist_entries")
+        .select("id, wait_date, window_start, window_end, status")
+        .eq("student_id", studentId)
+        .in("status", ["waiting", "offered"])
+        .gte("wait_date", format(new Date(), "yyyy-MM-dd"))
+        .order("wait_date", { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const isWaitingForSelectedDay = entries.some(e => e.wait_date === selectedKey);
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      if (!anyTime && windowStart >= windowEnd) throw new Error("The end of your time window must be after the start.");
+      const { error } = await supabase.from("waitlist_entries").insert({
+        instructor_id: instructorId,
+        student_id: studentId,
+        wait_date: selectedKey,
+        window_start: anyTime ? null : windowStart,
+        window_end: anyTime ? null : windowEnd,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateWaitlistQueries(queryClient);
+      showSuccess("You're on the waitlist. We'll notify you if a slot opens up.");
+    },
+    onError: (err: Error) => showError("Failed to join waitlist: " + err.message)
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("waitlist_entries").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateWaitlistQueries(queryClient);
+      showSuccess("Removed from the waitlist.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const passMutation = useMutation({
+    mutationFn: async (offerId: string) => {
+      const { error } = await supabase.rpc("decline_waitlist_offer", { p_offer_id: offerId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateWaitlistQueries(queryClient);
+      showSuccess("No problem, the slot has been passed on.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const formatWindow = (start: string | null, end: string | null) =>
+    start && end ? `${start.slice(0, 5)} - ${end.slice(0, 5)}` : "Any time";
+
+  return (
+    <div className="space-y-4">
+      {offers.map(offer => (
+        <Card key={offer.id} className="border-2 border-green-500 bg-green-50/50 shadow-md">
+          <CardContent className="p-5 space-y-3">
+            <div className="flex items-center gap-2 text-green-700">
+              <BellRing className="h-5 w-5" />
+              <p className="font-black">A slot has opened up for you!</p>
+            </div>
+            <p className="text-sm font-bold">
+              {format(parseISO(offer.start_time), "EEEE, MMMM do")} · {format(parseISO(offer.start_time), "p")} — {format(parseISO(offer.end_time), "p")}
+            </p>
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <Timer className="h-3 w-3" /> Held for you until {format(parseISO(offer.expires_at), "p")}, then offered to the next student.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                className="flex-1 font-bold bg-green-600 hover:bg-green-700"
+                onClick={() => onClaimOffer({ id: `offer-${offer.id}`, start_time: offer.start_time, end_time: offer.end_time })}
+              >
+                Book It
+              </Button>
+              <Button variant="outline" className="font-bold" onClick={() => passMutation.mutate(offer.id)} disabled={passMutation.isPending}>
+                {passMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Pass"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card className="border-none shadow-sm">
+        <CardHeader className="p-4 pb-2">
+          <CardTitle className="text-base font-black flex items-center gap-2">
+            <Hourglass className="h-4 w-4 text-primary" /> Waitlist
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Fully booked? Join the waitlist and you'll be offered any lesson that's cancelled, before anyone else.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-2 space-y-4">
+          {isPastDay ? null : isWaitingForSelectedDay ? (
+            <p className="text-xs font-bold text-primary">You're on the waitlist for {format(selectedDate, "EEE, do MMM")}.</p>
+          ) : (
+            <div className="space-y-3 p-3 rounded-xl bg-muted/30 border border-muted">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-bold">Any time on {format(selectedDate, "EEE, do MMM")}</Label>
+                <Switch checked={anyTime} onCheckedChange={setAnyTime} />
+              </div>
+              {!anyTime && (
+                <div className="grid grid-cols-2 gap-2 animate-in slide-in-from-top-2 duration-200">
+                  <div className="space-y-1">
+                    <Label className="text-[10px] font-bold uppercase text-muted-foreground">From</Label>
+                    <Input type="time" value={windowStart} onChange={(e) => setWindowStart(e.target.value)} className="h-9" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-[10px] font-bold uppercase text-muted-foreground">Until</Label>
+                    <Input type="time" value={windowEnd} onChange={(e) => setWindowEnd(e.target.value)} className="h-9" />
+                  </div>
+                </div>
+              )}
+              <Button className="w-full font-bold" onClick={() => joinMutation.mutate()} disabled={joinMutation.isPending}>
+                {joinMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Hourglass className="mr-2 h-4 w-4" />}
+                Join Waitlist
+              </Button>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <div className="grid gap-2">
+              {entries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between gap-3 p-3 bg-white border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-bold text-sm">{format(parseISO(entry.wait_date), "EEE, do MMM")}</p>
+                    <p className="text-xs text-muted-foreground">{formatWindow(entry.window_start, entry.window_end)}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {entry.status === "offered" && <Badge className="bg-green-600 text-[10px]">Offer waiting</Badge>}
+                    <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive" onClick={() => leaveMutation.mutate(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Plus, Trash2, Loader2, X } from "lucide-react";
+import { format, parseISO, differenceInCalendarDays } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import DatePicker from "@/components/DatePicker";
+import WorkingIntervalsInput from "@/components/WorkingIntervalsInput";
+import { fetchWorkingHoursOverrides, validateIntervals } from "@/utils/working-hours";
+
+const WEEKDAYS = [
+  { value: 1, label: "M" },
+  { value: 2, label: "T" },
+  { value: 3, label: "W" },
+  { value: 4, label: "T" },
+  { value: 5, label: "F" },
+  { value: 6, label: "S" },
+  { value: 0, label: "S" },
+];
+
+const formatTime = (t: string | number) => typeof t === "number" ? `${t.toString().padStart(2, "0")}:00` : t;
+
+/**
+ * Special hours or closed days on particular dates, e.g. school holidays. Only used in open booking mode.
+ */
+const WorkingHoursOverridesManager: React.FC = () => {
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [isAdding, setIsAdding] = useState(false);
+  const [startDate, setStartDate] = useState<Date | undefined>(new Date());
+  const [endDate, setEndDate] = useState<Date | undefined>(new Date());
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [isClosed, setIsClosed] = useState(false);
+  const [intervals, setIntervals] = useState([{ start: "09:00", end: "15:00" }]);
+  const [note, setNote] = useState("");
+
+  const { data: overrides = [] } = useQuery({
+    queryKey: ['working-hours-overrides', user?.id],
+    queryFn: () => fetchWorkingHoursOverrides(user!.id),
+    enabled: !!user
+  });
+
+  const isRange = !!startDate && !!endDate && differenceInCalendarDays(endDate, startDate) > 0;
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setStartDate(new Date());
+    setEndDate(new Date());
+    setWeekdays([1, 2, 3, 4, 5]);
+    setIsClosed(false);
+    setIntervals([{ start: "09:00", end: "15:00" }]);
+    setNote("");
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      if (!startDate || !endDate) throw new Error("Please choose the dates.");
+      if (endDate < startDate) throw new Error("The last day must be on or after the first.");
+      if (isRange && weekdays.length === 0) throw new Error("Please choose at least one day of the week.");
+      const intervalError = isClosed ? null : validateIntervals(intervals);
+      if (intervalError) throw new Error(intervalError);
+
+      const { error } = await supabase.from("working_hours_overrides").insert({
+        user_id: user!.id,
+        start_date: format(startDate, "yyyy-MM-dd"),
+        end_date: format(endDate, "yyyy-MM-dd"),
+        weekdays: isRange && weekdays.length < 7 ? weekdays : null,
+        is_closed: isClosed,
+        intervals: isClosed ? [] : [...intervals].sort((a, b) => a.start.localeCompare(b.start)),
+        note: note.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['working-hours-overrides'] });
+      resetForm();
+      showSuccess("Hours override saved.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("working_hours_overrides").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['working-hours-overrides'] });
+      showSuccess("Hours override removed.");
+    },
+    onError: (err: Error) => showError(err.message)
+  });
+
+  return (
+    <div className="border rounded-xl bg-muted/30 p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          <span className="text-xs font-bold uppercase">Date Overrides</span>
+        </div>
+        {!isAdding && (
+          <Button type="button" size="sm" variant="outline" className="h-8 font-bold" onClick={() => setIsAdding(true)}>
+            <Plus className="mr-1 h-3.5 w-3.5" /> Add
+          </Button>
+        )}
+      </div>
+      <p className="text-[10px] text-muted-foreground">Different hours or a closed day on particular dates, such as school holidays. These replace your weekly hours.</p>
+
+      {overrides.length === 0 && !isAdding && (
+        <p className="text-xs text-muted-foreground italic">No upcoming overrides.</p>
+      )}
+
+      {overrides.map(override => (
+        <div key={override.id} className="flex items-center justify-between gap-3 p-3 bg-background rounded-lg border shadow-sm">
+          <div className="min-w-0 space-y-0.5">
+            <p className="font-bold text-sm">
+              {format(parseISO(override.start_date), "d MMM")}
+              {override.end_date !== override.start_date && ` – ${format(parseISO(override.end_date), "d MMM yyyy")}`}
+              {override.weekdays && <span className="font-medium text-muted-foreground"> · {WEEKDAYS.filter(d => override.weekdays!.includes(d.value)).map(d => d.label).join("")}</span>}
+            </p>
+            <div className="flex items-center gap-2 flex-wrap">
+              {override.is_closed ? (
+                <Badge variant="outline" className="text-[10px] h-4 px-1.5 text-red-600 border-red-200">Closed</Badge>
+              ) : (
+                <span className="text-xs text-muted-foreground">{override.intervals.map(i => `${formatTime(i.start)}–${formatTime(i.end)}`).join(", ")}</span>
+              )}
+              {override.note && <span className="text-xs text-muted-foreground italic truncate">{override.note}</span>}
+            </div>
+          </div>
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive" onClick={() => deleteMutation.mutate(override.id)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {isAdding && (
+        <div className="space-y-3 p-3 bg-background rounded-lg border animate-in slide-in-from-top-2 duration-200">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">From</Label>
+              <DatePicker date={startDate} setDate={(date) => { setStartDate(date); if (date && (!endDate || endDate < date)) setEndDate(date); }} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">To</Label>
+              <DatePicker date={endDate} setDate={setEndDate} />
+            </div>
+          </div>
+
+          {isRange && (
+            <div className="space-y-1">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground">On These Days</Label>
+              <div className="grid grid-cols-7 gap-1">
+                {WEEKDAYS.map(day => (
+                  <Button
+                    key={day.value}
+                    type="button"
+                    variant={weekdays.includes(day.value) ? "default" : "outline"}
+                    size="sm"
+                    className="h-8 px-0 font-bold"
+                    onClick={() => setWeekdays(weekdays.includes(day.value) ? weekdays.filter(d => d !== day.value) : [...weekdays, day.value])}
+                  >
+                    {day.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <Label className="text-sm font-bold">Closed</Label>
+            <Switch checked={isClosed} onCheckedChange={setIsClosed} />
+          </div>
+
+          {!isClosed && (
+            <div className="flex items-start justify-between gap-2">
+              <Label className="text-[10px] font-bold uppercase text-muted-foreground pt-3">Hours</Label>
+              <WorkingIntervalsInput value={intervals} onChange={(value) => setIntervals(value as typeof intervals)} />
+            </div>
+          )}
+
+          {/* Rendered inside the booking settings form, so Enter mustn't submit it */}
+          <Input value={note} onChange={(e) => setNote(e.target.value)} onKeyDown={(e) => e.key === "Enter" && e.preventDefault()} placeholder="Note (optional), e.g. Half term" className="h-9" />
+
+          <div className="flex gap-2">
+            <Button type="button" size="sm" className="flex-1 font-bold" onClick={() => addMutation.mutate()} disabled={addMutation.isPending}>
+              {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Override"}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={resetForm}><X className="h-4 w-4" /></Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkingHoursOverridesManager;
@@ -0,0 +1,75 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Optional to match the settings forms' inferred schema type
+interface Interval {
+  start?: string;
+  end?: string;
+}
+
+interface WorkingIntervalsInputProps {
+  value: Interval[];
+  onChange: (value: Interval[]) => void;
+  triggerClassName?: string;
+}
+
+const TIME_OPTIONS = Array.from({ length: 96 }, (_, i) =>
+  `${Math.floor(i / 4).toString().padStart(2, '0')}:${((i % 4) * 15).toString().padStart(2, '0')}`
+);
+
+// A new shift starts an hour after the last one ends
+const nextShift = (intervals: Interval[]): Interval => {
+  const lastEnd = intervals[intervals.length - 1]?.end || "09:00";
+  const startIndex = Math.min(TIME_OPTIONS.indexOf(lastEnd) + 4, TIME_OPTIONS.length - 5);
+  return { start: TIME_OPTIONS[startIndex], end: TIME_OPTIONS[startIndex + 4] };
+};
+
+/**
+ * One or more start-to-end shifts for a day, e.g. 07:00-10:00 and 15:00-19:00
+ */
+const WorkingIntervalsInput: React.FC<WorkingIntervalsInputProps> = ({ value, onChange, triggerClassName }) => {
+  const update = (index: number, field: keyof Interval, time: string) =>
+    onChange(value.map((interval, i) => i === index ? { ...interval, [field]: time } : interval));
+
+  return (
+    <div className="flex flex-col items-end gap-1.5">
+      {value.map((interval, index) => (
+        <div key={index} className="flex items-center gap-1.5 sm:gap-2">
+          <Select onValueChange={(time) => update(index, "start", time)} value={interval.start}>
+            <SelectTrigger className={cn("w-[75px] sm:w-24 h-9 text-xs px-2", triggerClassName)}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {TIME_OPTIONS.map((time) => (
+                <SelectItem key={time} value={time}>{time}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-[10px] sm:text-xs font-bold text-muted-foreground">to</span>
+          <Select onValueChange={(time) => update(index, "end", time)} value={interval.end}>
+            <SelectTrigger className={cn("w-[75px] sm:w-24 h-9 text-xs px-2", triggerClassName)}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {TIME_OPTIONS.map((time) => (
+                <SelectItem key={time} value={time}>{time}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {index > 0 ? (
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-muted-foreground" title="Remove shift" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          ) : (
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-primary" title="Add a split shift" onClick={() => onChange([...value, nextShift(value)])}>
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WorkingIntervalsInput;
@@ -182,6 +182,8 @@ const Layout = () => {
     if (pathname.startsWith("/students/")) return "Student Profile";
     if (pathname === "/students") return "Students";
     if (pathname === "/schedule") return "Schedule";
+    if (pathname === "/schedule/run-sheet") return "Run Sheet";
+    if (pathname.startsWith("/invoices/")) return "Invoice";
     if (pathname === "/lessons") return "Lessons";
     if (pathname === "/lesson-notes") return "Lesson Notes";
     if (pathname === "/student-targets") return "Student Targets";
@@ -217,11 +219,12 @@ const Layout = () => {
 
   return (
     <div className="flex min-h-screen bg-background text-foreground">
-      {isMobile === false && <Sidebar isCollapsed={isCollapsed} logoUrl={logoUrl} />}
+      {/* Only the page itself is printed, e.g. the run sheet */}
+      {isMobile === false && <div className="contents print:hidden"><Sidebar isCollapsed={isCollapsed} logoUrl={logoUrl} /></div>}
 
       <div className="flex flex-col flex-1">
         {isMobile === false && (
-          <header className="flex h-16 items-center justify-between border-b bg-card px-4 lg:px-6">
+          <header className="flex h-16 items-center justify-between border-b bg-card px-4 lg:px-6 print:hidden">
             <div className="flex items-center gap-4">
               {!isRestrictedInstructor && (
                 <Button variant="ghost" size="icon" onClick={() => setIsCollapsed(!isCollapsed)} className="h-8 w-8">
@@ -242,12 +245,12 @@ const Layout = () => {
         )}
 
         {isMobile === true && !isRestrictedInstructor && (
-          <div className="sticky top-0 z-[40] flex justify-center p-2 bg-background/80 backdrop-blur-sm border-b">
+          <div className="sticky top-0 z-[40] flex justify-center p-2 bg-background/80 backdrop-blur-sm border-b print:hidden">
             <BookingRequestAlert />
           </div>
         )}
         
-        <main className={cn("flex-1 overflow-auto p-4 lg:p-6", isMobile ? "pb-32 pt-2" : "pb-6")}>
+        <main className={cn("flex-1 overflow-auto p-4 lg:p-6 print:overflow-visible print:p-0", isMobile ? "pb-32 pt-2" : "pb-6")}>
           {showContentLoader ? (
             <div className="h-full flex flex-col items-center justify-center py-20">
               <Loader2 className="h-8 w-8 animate-spin text-primary/40 mb-4" />
@@ -258,13 +261,15 @@ const Layout = () => {
           )}
         </main>
         
-        <footer className={cn("p-4 text-center text-sm text-gray-500 dark:text-gray-400", isMobile ? "pb-28" : "pb-4")}>
+        <footer className={cn("p-4 text-center text-sm text-gray-500 dark:text-gray-400 print:hidden", isMobile ? "pb-28" : "pb-4")}>
           Driving Instructor App
         </footer>
       </div>
       
-      <BottomNav logoUrl={logoUrl} />
-      {!isRestrictedInstructor && <AIAssistant />}
+      <div className="contents print:hidden">
+        <BottomNav logoUrl={logoUrl} />
+        {!isRestrictedInstructor && <AIAssistant />}
+      </div>
     </div>
   );
 };
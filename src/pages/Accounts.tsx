@@ -44,7 +44,8 @@ import {
   Settings2,
   Repeat,
   Filter,
-  Trash2
+  Trash2,
+  Ban
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -65,11 +66,14 @@ import AddExpenditureForm from "@/components/AddExpenditureForm";
 import ManageRecurringExpenditures from "@/components/ManageRecurringExpenditures";
 import ManageAccountCategories from "@/components/ManageAccountCategories";
 import DatePicker from "@/components/DatePicker";
+import IssueInvoiceButton from "@/components/IssueInvoiceButton";
+import TaxReturnReport from "@/components/TaxReturnReport";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip as RechartsTooltip } from 'recharts';
+import { calculateLessonPrice, fetchLessonTypes, findLessonType } from "@/utils/lesson-types";
 
 interface IncomeTransaction {
   id: string;
-  type: 'lesson' | 'package' | 'additional';
+  type: 'lesson' | 'package' | 'additional' | 'cancellation' | 'group';
   date: string;
   amount: number;
   description: string;
@@ -78,6 +82,8 @@ interface IncomeTransaction {
   // Metadata for deletion
   package_id?: string;
   hours_deducted?: number;
+  // Paid from pre-paid hours: the money was received when the package was bought
+  from_credit?: boolean;
 }
 
 interface ExpenditureTransaction {
@@ -124,16 +130,6 @@ const Accounts: React.FC = () => {
   const [selectedTaxYearStart, setSelectedTaxYearStart] = useState<number>(getTaxYearStartForDate(new Date()));
   const [baseDate, setBaseDate] = useState<Date>(new Date());
 
-  const calculateLessonValue = useCallback((durationHours: number, profileData: any) => {
-    if (!profileData) return 0;
-    
-    if (durationHours === 1 && profileData.rate_1h) return profileData.rate_1h;
-    if (durationHours === 1.5 && profileData.rate_1_5h) return profileData.rate_1_5h;
-    if (durationHours === 2 && profileData.rate_2h) return profileData.rate_2h;
-    
-    return durationHours * (profileData.hourly_rate || 0);
-  }, []);
-
   const processRecurringExpenditures = useCallback(async () => {
     if (!user) return;
 
@@ -234,20 +230,25 @@ const Accounts: React.FC = () => {
       
       setProfile(profileData);
 
-      const [creditTxRes, lessonsRes, additionalRes, expensesRes] = await Promise.all([
+      const lessonTypes = await fetchLessonTypes(user.id);
+
+      const [creditTxRes, lessonsRes, additionalRes, expensesRes, chargesRes, attendeesRes] = await Promise.all([
         supabase.from("pre_paid_hours_transactions")
           .select(`
             id, 
             hours_deducted, 
             transaction_date, 
             booking_id,
-            bookings(id, title, start_time, status, students(name)),
+            students(name),
+            bookings(id, title, start_time, status, capacity, students(name)),
             pre_paid_hours(id, amount_paid, package_hours)
           `)
           .eq("user_id", user.id),
-        supabase.from("bookings").select("id, title, start_time, end_time, is_paid, status, students(name)").eq("user_id", user.id).eq("status", "completed").order("start_time", { ascending: false }),
+        supabase.from("bookings").select("id, title, start_time, end_time, is_paid, status, lesson_type, capacity, charged_amount, students(name)").eq("user_id", user.id).eq("status", "completed").order("start_time", { ascending: false }),
         supabase.from("additional_income").select("*").eq("user_id", user.id),
-        supabase.from("expenditures").select("*").eq("user_id", user.id)
+        supabase.from("expenditures").select("*").eq("user_id", user.id),
+        supabase.from("cancellation_charges").select("id, lesson_start, amount, status, students(name)").eq("user_id", user.id).in("status", ["charged", "paid", "deducted"]),
+        supabase.from("booking_attendees").select("id, amount, payment_status, bookings!inner(start_time, status, title), students(name)").eq("user_id", user.id).eq("status", "attended").eq("bookings.status", "completed")
       ]);
 
       const income: IncomeTransaction[] = [];
@@ -264,6 +265,7 @@ const Accounts: React.FC = () => {
         }
 
         if (booking?.status === 'completed') {
+          const isGroup = booking.capacity != null;
           const effectiveRate = (pkg?.amount_paid && pkg?.package_hours) 
             ? (pkg.amount_paid / pkg.package_hours) 
             : (profileData?.hourly_rate || 0);
@@ -275,11 +277,12 @@ const Accounts: React.FC = () => {
             type: 'package',
             date: booking.start_time,
             amount: earnedAmount,
-            description: "Lesson (Pre-paid Credit)",
-            student_name: booking.students?.name || "Unknown",
+            description: isGroup ? "Group Session (Pre-paid Credit)" : "Lesson (Pre-paid Credit)",
+            student_name: (isGroup ? (tx.students as unknown as { name: string } | null)?.name : booking.students?.name) || "Unknown",
             category: "Driving Lessons",
             package_id: pkg?.id,
-            hours_deducted: tx.hours_deducted
+            hours_deducted: tx.hours_deducted,
+            from_credit: true
           });
         }
       });
@@ -288,9 +291,13 @@ const Accounts: React.FC = () => {
       lessonsRes.data?.forEach(lesson => {
         const isCredit = creditPaidBookingIds.has(lesson.id);
         const duration = (new Date(lesson.end_time).getTime() - new Date(lesson.start_time).getTime()) / 3600000;
-        const value = calculateLessonValue(duration, profileData);
+        // The price fixed when the lesson was completed or paid, as the student ledger uses
+        const value = lesson.charged_amount != null
+          ? Number(lesson.charged_amount)
+          : calculateLessonPrice(duration, profileData, findLessonType(lessonTypes, lesson.lesson_type));
 
-        if (isCredit) return;
+        // Group sessions are paid per attendee (section 4)
+        if (isCredit || lesson.capacity != null) return;
 
         if (lesson.is_paid) {
           income.push({
@@ -307,7 +314,46 @@ const Accounts: React.FC = () => {
         }
       });
 
-      // 3. Additional Income
+      // 3. Late Cancellation Fees (deductions from credit are counted here, not as lesson usage)
+      chargesRes.data?.forEach(charge => {
+        const studentName = (charge.students as unknown as { name: string } | null)?.name || "Unknown";
+        if (charge.status === 'charged') {
+          unpaid.push({ id: charge.id, start_time: charge.lesson_start, students: { name: studentName }, value: Number(charge.amount), is_cancellation_fee: true });
+          return;
+        }
+        income.push({
+          id: charge.id,
+          type: 'cancellation',
+          date: charge.lesson_start,
+          amount: Number(charge.amount),
+          description: charge.status === 'deducted' ? "Late Cancellation (Pre-paid Credit)" : "Late Cancellation Fee",
+          student_name: studentName,
+          category: "Cancellation Fees",
+          from_credit: charge.status === 'deducted'
+        });
+      });
+
+      // 4. Group Session Attendees (those charged from credit are counted in section 1)
+      attendeesRes.data?.forEach(attendee => {
+        const session = attendee.bookings as unknown as { start_time: string; title: string | null };
+        const studentName = (attendee.students as unknown as { name: string } | null)?.name || "Unknown";
+        const amount = Number(attendee.amount);
+        if (attendee.payment_status === 'paid') {
+          income.push({
+            id: attendee.id,
+            type: 'group',
+            date: session.start_time,
+            amount,
+            description: session.title ? `Group Session: ${session.title}` : "Group Session",
+            student_name: studentName,
+            category: "Driving Lessons"
+          });
+        } else if (attendee.payment_status === 'unpaid' && amount > 0) {
+          unpaid.push({ id: attendee.id, start_time: session.start_time, students: { name: studentName }, value: amount, is_group_attendee: true });
+        }
+      });
+
+      // 5. Additional Income
       additionalRes.data?.forEach(item => {
         income.push({
           id: item.id,
@@ -330,7 +376,7 @@ const Accounts: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [user, processRecurringExpenditures, calculateLessonValue]);
+  }, [user, processRecurringExpenditures]);
 
   useEffect(() => {
     if (!isSessionLoading) fetchData();
@@ -347,6 +393,13 @@ const Accounts: React.FC = () => {
         // Mark as unpaid instead of deleting the booking
         const { error } = await supabase.from("bookings").update({ is_paid: false }).eq("id", item.id);
         if (error) throw error;
+      } else if (item.type === 'group') {
+        const { error } = await supabase.from("booking_attendees").update({ payment_status: 'unpaid' }).eq("id", item.id);
+        if (error) throw error;
+      } else if (item.type === 'cancellation') {
+        // Waiving returns any pre-paid hours the fee used
+        const { error } = await supabase.rpc("waive_cancellation_charge", { p_charge_id: item.id });
+        if (error) throw error;
       } else if (item.type === 'package') {
         // 1. Return hours to package
         if (item.package_id && item.hours_deducted) {
@@ -395,6 +448,21 @@ const Accounts: React.FC = () => {
     });
   }, [expenditureTransactions, activeRange]);
 
+  // The tax return always covers the selected tax year, whatever period the rest of the page shows
+  const taxYearRange = useMemo(() => getTaxYearRange(selectedTaxYearStart), [selectedTaxYearStart]);
+
+  const taxYearIncome = useMemo(() => {
+    return incomeTransactions
+      .filter(tx => !tx.from_credit && new Date(tx.date) >= taxYearRange.start && new Date(tx.date) <= taxYearRange.end)
+      .map(tx => ({ date: tx.date, amount: tx.amount, category: tx.category }));
+  }, [incomeTransactions, taxYearRange]);
+
+  const taxYearExpenditure = useMemo(() => {
+    return expenditureTransactions
+      .filter(tx => new Date(tx.date) >= taxYearRange.start && new Date(tx.date) <= taxYearRange.end)
+      .map(tx => ({ date: tx.date, amount: Number(tx.amount), category: tx.category || "Other" }));
+  }, [expenditureTransactions, taxYearRange]);
+
   const stats = useMemo(() => {
     const totalIncome = filteredIncome.reduce((sum, tx) => sum + tx.amount, 0);
     const totalExpenditure = filteredExpenditure.reduce((sum, tx) => sum + tx.amount, 0);
@@ -438,8 +506,8 @@ const Accounts: React.FC = () => {
   }
 
   return (
-    <div className="space-y-8 max-w-6xl mx-auto">
-      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+    <div className="space-y-8 max-w-6xl mx-auto print:max-w-none">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 print:hidden">
         <div>
           <h1 className="text-3xl font-black tracking-tight">Accounts</h1>
           <p className="text-muted-foreground font-medium">
@@ -511,7 +579,7 @@ const Accounts: React.FC = () => {
         </div>
       </div>
 
-      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center bg-muted/30 p-4 rounded-xl border">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center bg-muted/30 p-4 rounded-xl border print:hidden">
         <div className="flex items-center gap-2 shrink-0">
           <Filter className="h-4 w-4 text-muted-foreground" />
           <span className="text-sm font-bold uppercase text-muted-foreground">View By:</span>
@@ -611,7 +679,7 @@ const Accounts: React.FC = () => {
         </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-3 print:hidden">
         <Card className="border-l-4 border-l-green-500 shadow-sm">
           <CardHeader className="pb-2">
             <CardTitle className="text-xs font-bold uppercase text-muted-foreground flex items-center gap-2">
@@ -652,12 +720,13 @@ const Accounts: React.FC = () => {
       </div>
 
       <Tabs defaultValue="income" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 h-12">
+        <TabsList className="grid w-full grid-cols-4 h-12 print:hidden">
           <TabsTrigger value="income" className="font-bold">Income History</TabsTrigger>
           <TabsTrigger value="expenditure" className="font-bold">Expenditure History</TabsTrigger>
           <TabsTrigger value="unpaid" className="font-bold">
             Unpaid {unpaidLessons.length > 0 && <Badge className="ml-2 bg-orange-500">{unpaidLessons.length}</Badge>}
           </TabsTrigger>
+          <TabsTrigger value="tax-return" className="font-bold">Tax Return</TabsTrigger>
         </TabsList>
 
         <TabsContent value="income" className="mt-6 space-y-6">
@@ -754,10 +823,12 @@ const Accounts: React.FC = () => {
                             <div className={cn(
                               "h-10 w-10 rounded-full flex items-center justify-center shrink-0",
                               tx.type === 'package' ? "bg-purple-100 text-purple-700" : 
-                              tx.type === 'additional' ? "bg-amber-100 text-amber-700" : "bg-green-100 text-green-700"
+                              tx.type === 'additional' ? "bg-amber-100 text-amber-700" : 
+                              tx.type === 'cancellation' ? "bg-orange-100 text-orange-700" : "bg-green-100 text-green-700"
                             )}>
                               {tx.type === 'package' ? <Wallet className="h-5 w-5" /> : 
-                               tx.type === 'additional' ? <Coins className="h-5 w-5" /> : <PoundSterling className="h-5 w-5" />}
+                               tx.type === 'additional' ? <Coins className="h-5 w-5" /> : 
+                               tx.type === 'cancellation' ? <Ban className="h-5 w-5" /> : <PoundSterling className="h-5 w-5" />}
                             </div>
                             <div className="min-w-0">
                               <p className="font-bold text-sm truncate">{tx.student_name}</p>
@@ -770,6 +841,9 @@ const Accounts: React.FC = () => {
                             <div className="text-right">
                               <p className="font-black text-lg text-green-600">+£{tx.amount.toFixed(2)}</p>
                             </div>
+                            {tx.type === 'lesson' && <IssueInvoiceButton sourceType="booking" sourceId={tx.id} kind="receipt" />}
+                            {tx.type === 'additional' && <IssueInvoiceButton sourceType="additional_income" sourceId={tx.id} kind="receipt" />}
+                            {tx.type === 'package' && tx.package_id && <IssueInvoiceButton sourceType="package" sourceId={tx.package_id} kind="receipt" />}
                             
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
@@ -789,6 +863,8 @@ const Accounts: React.FC = () => {
                                       ? "This will mark the lesson as unpaid. It will reappear in your outstanding payments list."
                                       : tx.type === 'package'
                                       ? "This will reverse the credit deduction and return the hours to the student's package balance."
+                                      : tx.type === 'cancellation'
+                                      ? "This will waive the late cancellation fee and return any pre-paid hours it used."
                                       : "This will permanently delete this income record."}
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
@@ -976,9 +1052,12 @@ const Accounts: React.FC = () => {
                           </p>
                         </div>
                       </div>
-                      <div className="text-right">
-                        <p className="font-black text-lg text-orange-600">£{lesson.value.toFixed(2)}</p>
-                        <Badge variant="destructive" className="text-[8px] h-4 px-1 uppercase font-bold">Unpaid</Badge>
+                      <div className="flex items-center gap-4">
+                        {!lesson.is_cancellation_fee && !lesson.is_group_attendee && <IssueInvoiceButton sourceType="booking" sourceId={lesson.id} kind="invoice" />}
+                        <div className="text-right">
+                          <p className="font-black text-lg text-orange-600">£{lesson.value.toFixed(2)}</p>
+                          <Badge variant="destructive" className="text-[8px] h-4 px-1 uppercase font-bold">{lesson.is_cancellation_fee ? "Late Cancel Fee" : lesson.is_group_attendee ? "Group Session" : "Unpaid"}</Badge>
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -987,6 +1066,15 @@ const Accounts: React.FC = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="tax-return" className="mt-6">
+          <TaxReturnReport
+            taxYearStart={selectedTaxYearStart}
+            range={taxYearRange}
+            income={taxYearIncome}
+            expenditure={taxYearExpenditure}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -52,6 +52,7 @@ import OwnerDashboard from "./OwnerDashboard";
 import StudentDashboard from "./StudentDashboard";
 import DashboardTodoWidget from "@/components/DashboardTodoWidget";
 import { useQuery, useQueryClient, useIsFetching } from "@tanstack/react-query";
+import { calculateLessonPrice, fetchLessonTypes, findLessonType } from "@/utils/lesson-types";
 
 interface Booking {
   id: string;
@@ -122,6 +123,12 @@ const Dashboard: React.FC = () => {
     staleTime: 1000 * 60 * 5,
   });
 
+  const { data: lessonTypes } = useQuery({
+    queryKey: ['lesson-types', user?.id],
+    queryFn: () => fetchLessonTypes(user!.id),
+    enabled: !!user && userRole === 'instructor',
+  });
+
   const isInstructor = userRole === 'instructor';
 
   const { data: pendingRequests } = useQuery({
@@ -167,16 +174,11 @@ const Dashboard: React.FC = () => {
     enabled: !!user && isInstructor,
   });
 
-  const calculateLessonValue = useCallback((durationHours: number, profile: any) => {
-    if (!profile) return 0;
-    if (durationHours === 1 && profile.rate_1h) return profile.rate_1h;
-    if (durationHours === 1.5 && profile.rate_1_5h) return profile.rate_1_5h;
-    if (durationHours === 2 && profile.rate_2h) return profile.rate_2h;
-    return durationHours * (profile.hourly_rate || 0);
-  }, []);
+  const calculateLessonValue = useCallback((durationHours: number, lessonType: string) =>
+    calculateLessonPrice(durationHours, instructorSettings, findLessonType(lessonTypes, lessonType)), [instructorSettings, lessonTypes]);
 
   const { data: revenue } = useQuery({
-    queryKey: ['revenue', user?.id, revenueTimeframe, instructorSettings],
+    queryKey: ['revenue', user?.id, revenueTimeframe, instructorSettings, lessonTypes],
     queryFn: async () => {
       const now = new Date();
       let startDate: Date, endDate: Date;
@@ -186,7 +188,7 @@ const Dashboard: React.FC = () => {
 
       const { data } = await supabase
         .from("bookings")
-        .select("start_time, end_time")
+        .select("start_time, end_time, lesson_type")
         .eq("user_id", user!.id)
         .eq("status", "completed")
         .neq("lesson_type", "Personal")
@@ -196,18 +198,18 @@ const Dashboard: React.FC = () => {
       let totalValue = 0;
       data?.forEach(b => {
         const duration = differenceInMinutes(new Date(b.end_time), new Date(b.start_time)) / 60;
-        totalValue += calculateLessonValue(duration, instructorSettings);
+        totalValue += calculateLessonValue(duration, b.lesson_type);
       });
       return totalValue;
     },
-    enabled: !!user && isInstructor && !!instructorSettings,
+    enabled: !!user && isInstructor && !!instructorSettings && !!lessonTypes,
   });
 
   const { data: pendingIncome } = useQuery({
-    queryKey: ['pending-income-dashboard', user?.id, instructorSettings],
+    queryKey: ['pending-income-dashboard', user?.id, instructorSettings, lessonTypes],
     queryFn: async () => {
       const [lessonsRes, creditTxRes] = await Promise.all([
-        supabase.from("bookings").select("id, start_time, end_time, is_paid").eq("user_id", user!.id).eq("status", "completed").eq("is_paid", false).neq("lesson_type", "Personal"),
+        supabase.from("bookings").select("id, start_time, end_time, is_paid, lesson_type").eq("user_id", user!.id).eq("status", "completed").eq("is_paid", false).neq("lesson_type", "Personal").is("capacity", null),
         supabase.from("pre_paid_hours_transactions").select("booking_id").eq("user_id", user!.id)
       ]);
 
@@ -217,13 +219,13 @@ const Dashboard: React.FC = () => {
       lessonsRes.data?.forEach(lesson => {
         if (!creditPaidIds.has(lesson.id)) {
           const duration = differenceInMinutes(new Date(lesson.end_time), new Date(lesson.start_time)) / 60;
-          total += calculateLessonValue(duration, instructorSettings);
+          total += calculateLessonValue(duration, lesson.lesson_type);
         }
       });
       
       return total;
     },
-    enabled: !!user && isInstructor && !!instructorSettings,
+    enabled: !!user && isInstructor && !!instructorSettings && !!lessonTypes,
   });
 
   const { data: bookedHours } = useQuery({
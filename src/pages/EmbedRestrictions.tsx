@@ -4,9 +4,10 @@ import React, { useMemo } from "react";
 import { useParams } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { format, parseISO, startOfMonth } from "date-fns";
+import { addWeeks, format, parseISO, startOfMonth } from "date-fns";
 import { Car, Ban, AlertTriangle, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getAllDayUnavailability, ExternalBusyBlock } from "@/utils/slot-engine";
 
 const EmbedRestrictions = () => {
   const { identifier } = useParams<{ identifier: string }>();
@@ -65,9 +66,17 @@ const EmbedRestrictions = () => {
         );
       }
 
-      const results = await Promise.all(queries);
+      const [results, { data: external }] = await Promise.all([
+        Promise.all(queries),
+        supabase.rpc("get_instructor_busy_blocks", {
+          p_instructor_id: instructor!.id,
+          p_start: now,
+          p_end: addWeeks(new Date(), 26).toISOString()
+        })
+      ]);
+      // Only whole days off from imported calendars are restrictions; timed busy blocks aren't listed
       return {
-        manual: results[0].data || [],
+        manual: [...(results[0].data || []), ...getAllDayUnavailability((external || []) as ExternalBusyBlock[])],
         tests: results[1]?.data || []
       };
     },
@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, FileDown, Loader2, Mail, Printer } from "lucide-react";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { showError, showSuccess } from "@/utils/toast";
+import { downloadInvoicePdf, emailInvoice, fetchInvoice, formatInvoiceNumber, invoiceTitle } from "@/utils/invoices";
+
+const formatDate = (value: string) => format(parseISO(value), "d MMMM yyyy");
+
+const InvoiceView = () => {
+  const { invoiceId } = useParams<{ invoiceId: string }>();
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const queryClient = useQueryClient();
+  const [emailTo, setEmailTo] = useState("");
+
+  const { data: invoice, isLoading } = useQuery({
+    queryKey: ["invoice", invoiceId],
+    queryFn: () => fetchInvoice(invoiceId!),
+    enabled: !!invoiceId,
+  });
+
+  useEffect(() => {
+    if (invoice) setEmailTo(invoice.recipient_email || "");
+  }, [invoice]);
+
+  const emailMutation = useMutation({
+    mutationFn: () => emailInvoice(invoice!.id, emailTo.trim() || undefined),
+    onSuccess: (sent) => {
+      showSuccess(`Sent to ${sent}`);
+      queryClient.invalidateQueries({ queryKey: ["invoice", invoiceId] });
+    },
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: () => downloadInvoicePdf(invoice!),
+    onError: (error: Error) => showError(error.message),
+  });
+
+  if (isLoading) {
+    return <div className="max-w-3xl mx-auto space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-96 w-full" /></div>;
+  }
+
+  if (!invoice) {
+    return <p className="text-center text-muted-foreground py-12">Invoice not found.</p>;
+  }
+
+  const isReceipt = invoice.kind === "receipt";
+  const isIssuer = invoice.user_id === user?.id;
+  const issuer = invoice.issuer;
+
+  const handlePrint = () => {
+    const previousTitle = document.title;
+    document.title = invoiceTitle(invoice);
+    window.print();
+    document.title = previousTitle;
+  };
+
+  return (
+    <div className="space-y-6 max-w-3xl mx-auto print:max-w-none">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => navigate(-1)}><ArrowLeft className="h-4 w-4" /></Button>
+          <h2 className="text-lg font-black">{invoiceTitle(invoice)}</h2>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="font-bold" onClick={handlePrint}><Printer className="mr-2 h-4 w-4" /> Print</Button>
+          <Button className="font-bold" onClick={() => downloadMutation.mutate()} disabled={downloadMutation.isPending}>
+            {downloadMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />} Download PDF
+          </Button>
+        </div>
+      </div>
+
+      {isIssuer && (
+        <div className="p-3 border rounded-xl bg-muted/30 space-y-2 print:hidden">
+          <p className="text-[10px] font-bold uppercase text-muted-foreground">Email as PDF</p>
+          <div className="flex gap-2">
+            <Input type="email" placeholder="student@example.com" value={emailTo} onChange={(e) => setEmailTo(e.target.value)} />
+            <Button className="font-bold shrink-0" onClick={() => emailMutation.mutate()} disabled={emailMutation.isPending || !emailTo.trim()}>
+              {emailMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />} Send
+            </Button>
+          </div>
+          {invoice.emailed_at && (
+            <p className="text-[10px] text-muted-foreground">Last emailed {format(parseISO(invoice.emailed_at), "d MMM yyyy 'at' HH:mm")}</p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-card border rounded-xl p-6 sm:p-10 space-y-8 print:border-none print:p-0">
+        <div className="flex flex-col sm:flex-row justify-between gap-6">
+          <div className="space-y-1">
+            {issuer.logo_url && <img src={issuer.logo_url} alt="" className="h-16 max-w-[200px] object-contain mb-3" />}
+            <h1 className="text-3xl font-black tracking-tight">{isReceipt ? "RECEIPT" : "INVOICE"}</h1>
+            <p className="text-sm text-muted-foreground">No. {formatInvoiceNumber(invoice.number)}</p>
+            <p className="text-sm text-muted-foreground">Date: {formatDate(invoice.issue_date)}</p>
+          </div>
+          <div className="sm:text-right text-sm space-y-0.5">
+            {issuer.name && <p className="font-bold text-base">{issuer.name}</p>}
+            {issuer.address && <p className="whitespace-pre-line text-muted-foreground">{issuer.address}</p>}
+            {issuer.phone && <p className="text-muted-foreground">{issuer.phone}</p>}
+            {issuer.email && <p className="text-muted-foreground">{issuer.email}</p>}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[10px] font-bold uppercase text-muted-foreground">{isReceipt ? "Received From" : "Bill To"}</p>
+          <p className="font-bold">{invoice.recipient_name}</p>
+          {invoice.recipient_email && <p className="text-sm text-muted-foreground">{invoice.recipient_email}</p>}
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-[10px] font-bold uppercase text-muted-foreground">
+              <th className="text-left py-2">Description</th>
+              <th className="text-right py-2 w-20">Hours</th>
+              <th className="text-right py-2 w-28">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b">
+              <td className="py-3">
+                {invoice.description}
+                <span className="block text-xs text-muted-foreground">{formatDate(invoice.supply_date)}</span>
+              </td>
+              <td className="py-3 text-right align-top">{invoice.quantity != null ? Number(invoice.quantity) : ""}</td>
+              <td className="py-3 text-right align-top">£{Number(invoice.amount).toFixed(2)}</td>
+            </tr>
+          </tbody>
+          <tfoot>
+            <tr>
+              <td />
+              <td className="pt-3 text-right text-[10px] font-bold uppercase text-muted-foreground">{isReceipt ? "Paid" : "Total Due"}</td>
+              <td className="pt-3 text-right text-lg font-black">£{Number(invoice.amount).toFixed(2)}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        {issuer.notes && (
+          <div>
+            <p className="text-[10px] font-bold uppercase text-muted-foreground">Notes</p>
+            <p className="text-sm whitespace-pre-line">{issuer.notes}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceView;
@@ -246,7 +246,7 @@ const OwnerDashboard: React.FC = () => {
               <CreditCard className={cn("h-5 w-5", pendingClaims.length > 0 ? "text-orange-600" : "text-muted-foreground")} />
               Pending Verification ({pendingClaims.length})
             </CardTitle>
-            <CardDescription>Verify Order IDs for instructors who activated their own accounts.</CardDescription>
+            <CardDescription>Activations no payment webhook has confirmed yet. Confirmed ones are approved automatically.</CardDescription>
           </CardHeader>
           <CardContent className="p-0">
             {pendingClaims.length === 0 ? (
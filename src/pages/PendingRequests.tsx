@@ -4,11 +4,12 @@ import React, { useState, useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
-import { BellRing, Check, X, Clock, Calendar, User, Loader2, ArrowLeft, Inbox, RefreshCcw } from "lucide-react";
+import { BellRing, Check, X, Clock, Calendar, User, Loader2, MoveRight, ArrowLeft, Inbox, RefreshCcw } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { showSuccess, showError } from "@/utils/toast";
+import { approveBookingMove, declineBookingMove, MOVE_REQUEST_SELECT } from "@/utils/booking-moves";
 import { Link } from "react-router-dom";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
@@ -25,7 +26,7 @@ const PendingRequests: React.FC = () => {
       
       const { data, error } = await supabase
         .from("bookings")
-        .select("id, title, start_time, end_time, student_id, students(name, auth_user_id)")
+        .select(`id, title, start_time, end_time, student_id, students(name, auth_user_id), ${MOVE_REQUEST_SELECT}`)
         .eq("user_id", user.id)
         .eq("status", "pending_approval")
         .order("start_time", { ascending: true });
@@ -68,6 +69,20 @@ const PendingRequests: React.FC = () => {
 
   const handleApprove = async (id: string, studentName: string, authUserId: string | null) => {
     setProcessingId(id);
+    const moveRequest = requests.find(r => r.id === id);
+    if (moveRequest?.reschedule_of) {
+      const moveError = await approveBookingMove(moveRequest, authUserId);
+      if (moveError) {
+        showError("Failed to approve move: " + moveError.message);
+      } else {
+        showSuccess("Lesson moved!");
+        queryClient.invalidateQueries({ queryKey: ['pending-requests-page'] });
+        queryClient.invalidateQueries({ queryKey: ['pending-requests-global'] });
+      }
+      setProcessingId(null);
+      return;
+    }
+
     const { error } = await supabase
       .from("bookings")
       .update({ status: "scheduled", title: `${studentName} - Driving lesson` })
@@ -95,6 +110,20 @@ const PendingRequests: React.FC = () => {
 
   const handleReject = async (id: string, authUserId: string | null, startTime: string) => {
     setProcessingId(id);
+    const moveRequest = requests.find(r => r.id === id);
+    if (moveRequest?.reschedule_of) {
+      const moveError = await declineBookingMove(moveRequest, authUserId);
+      if (moveError) {
+        showError("Failed to decline move.");
+      } else {
+        showSuccess("Move declined. The original lesson is unchanged.");
+        queryClient.invalidateQueries({ queryKey: ['pending-requests-page'] });
+        queryClient.invalidateQueries({ queryKey: ['pending-requests-global'] });
+      }
+      setProcessingId(null);
+      return;
+    }
+
     
     if (authUserId) {
       await supabase.from("notifications").insert({
@@ -178,7 +207,7 @@ const PendingRequests: React.FC = () => {
                       </div>
                       <div className="min-w-0">
                         <p className="font-black text-lg sm:text-xl truncate">{req.students?.name || "Unknown Student"}</p>
-                        <p className="text-[10px] sm:text-xs font-bold text-orange-600 uppercase tracking-wider">Requested Lesson</p>
+                        <p className="text-[10px] sm:text-xs font-bold text-orange-600 uppercase tracking-wider">{req.reschedule_of ? "Move Request" : "Requested Lesson"}</p>
                       </div>
                     </div>
                     
@@ -191,6 +220,12 @@ const PendingRequests: React.FC = () => {
                         <Clock className="h-4 w-4 text-primary/60" />
                         {format(parseISO(req.start_time), "p")} — {format(parseISO(req.end_time), "p")}
                       </div>
+                      {req.original && (
+                        <div className="flex items-center gap-2 text-xs sm:text-sm font-bold text-orange-600">
+                          <MoveRight className="h-4 w-4" />
+                          Moving from {format(parseISO(req.original.start_time), "EEE, MMM do 'at' p")}
+                        </div>
+                      )}
                     </div>
                   </div>
 
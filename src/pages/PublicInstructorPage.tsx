@@ -14,13 +14,10 @@ import {
   format, 
   parseISO, 
   startOfMonth, 
-  addHours, 
+  addDays, 
   addWeeks, 
   startOfDay, 
-  setHours, 
-  setMinutes, 
-  differenceInMinutes,
-  isSameDay
+  differenceInMinutes
 } from "date-fns";
 import { 
   Car, 
@@ -36,6 +33,9 @@ import {
   Timer
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { buildBusyByDay, buildGapsByDay, getAllDayUnavailability, getSlotsForDay, ExternalBusyBlock, GeneratedSlot } from "@/utils/slot-engine";
+import { fetchPublishedWorkingHoursOverrides } from "@/utils/working-hours";
+import { formatInTimeZone, resolveTimeZone, toZonedTime } from "@/utils/time-zone";
 
 const PublicInstructorPage = () => {
   const { identifier } = useParams<{ identifier: string }>();
@@ -96,7 +96,7 @@ const PublicInstructorPage = () => {
     enabled: !!instructor?.id && !!instructor?.show_availability_publicly
   });
 
-  const { data: unavailability = { manual: [], tests: [] } } = useQuery({
+  const { data: unavailability = { manual: [], tests: [], external: [] } } = useQuery({
     queryKey: ['public-unavailability', instructor?.id, instructor?.auto_hide_test_dates],
     queryFn: async () => {
       const today = format(new Date(), "yyyy-MM-dd");
@@ -121,104 +121,57 @@ const PublicInstructorPage = () => {
         );
       }
 
-      const results = await Promise.all(queries);
+      const [results, { data: external }] = await Promise.all([
+        Promise.all(queries),
+        supabase.rpc("get_instructor_busy_blocks", {
+          p_instructor_id: instructor!.id,
+          p_start: now,
+          p_end: addWeeks(new Date(), 26).toISOString()
+        })
+      ]);
+      const externalBusy = (external || []) as ExternalBusyBlock[];
       return {
-        manual: results[0].data || [],
-        tests: results[1]?.data || []
+        manual: [...(results[0].data || []), ...getAllDayUnavailability(externalBusy)],
+        tests: results[1]?.data || [],
+        external: externalBusy
       };
     },
     enabled: !!instructor?.id
   });
 
+  const { data: hoursOverrides = [] } = useQuery({
+    queryKey: ['working-hours-overrides', instructor?.id, 'published'],
+    queryFn: () => fetchPublishedWorkingHoursOverrides(instructor!.id),
+    enabled: !!instructor?.id
+  });
+
+  // Slots are shown in the instructor's local time
+  const timeZone = resolveTimeZone(instructor?.time_zone);
+
   const calculatedAvailability = useMemo(() => {
     if (!instructor || !instructor.show_availability_publicly) return [];
 
-    const mode = instructor.booking_mode || "gaps";
-    const now = new Date();
-    const noticeHours = instructor.min_booking_notice_hours ?? 48;
-    const advanceWeeks = instructor.max_booking_advance_weeks ?? 12;
-    const minStartTimeMs = addHours(now, noticeHours).getTime();
-    const maxStartTimeMs = addWeeks(now, advanceWeeks).getTime();
-    const durationMs = effectiveDuration * 60000;
-    const intervalMs = Math.max(15, instructor.booking_interval_mins || 30) * 60000;
-    const bufferMs = (instructor.booking_buffer_mins || 0) * 60000;
-
-    const busyPeriods = allBookings
-      .filter(b => b.status !== 'available')
-      .map(b => ({
-        start: parseISO(b.start_time).getTime() - bufferMs,
-        end: parseISO(b.end_time).getTime() + bufferMs
-      }));
-
-    const slots: any[] = [];
+    const busyByDay = buildBusyByDay(allBookings, instructor.booking_buffer_mins, unavailability.external, instructor.time_zone);
+    const gapsByDay = buildGapsByDay(allBookings, instructor.time_zone);
+    const maxSlots = 20;
     const daysToSearch = 14;
-
-    for (let i = 0; i < daysToSearch; i++) {
-      const day = addHours(startOfDay(now), i * 24);
-      const dateKey = format(day, 'yyyy-MM-dd');
-      
-      const isRestricted = unavailability.manual.some(m => 
-        isSameDay(parseISO(m.start_date), day) || 
-        (day >= parseISO(m.start_date) && day <= parseISO(m.end_date))
-      );
-
-      if (isRestricted) continue;
-
-      if (mode === "gaps") {
-        const manualGaps = allBookings.filter(b => b.status === 'available' && b.start_time.startsWith(dateKey));
-        manualGaps.forEach(gap => {
-          const gapStartMs = parseISO(gap.start_time).getTime();
-          const gapEndMs = parseISO(gap.end_time).getTime();
-          let currentPointerMs = gapStartMs;
-          
-          while (currentPointerMs + durationMs <= gapEndMs && slots.length < 20) {
-            const endPointerMs = currentPointerMs + durationMs;
-            const isClashing = busyPeriods.some(busy => currentPointerMs < busy.end && endPointerMs > busy.start);
-            
-            if (currentPointerMs >= minStartTimeMs && currentPointerMs <= maxStartTimeMs && !isClashing) {
-              slots.push({ 
-                start_time: new Date(currentPointerMs).toISOString(), 
-                end_time: new Date(endPointerMs).toISOString() 
-              });
-            }
-            currentPointerMs += intervalMs;
-          }
-        });
-      } else {
-        const dayOfWeek = day.getDay().toString();
-        const dayConfig = instructor.working_hours?.[dayOfWeek];
-        
-        if (dayConfig?.active) {
-          const parseTime = (t: any) => {
-            if (typeof t === 'number') return [t, 0];
-            const parts = (t || "09:00").split(':').map(Number);
-            return parts.length === 2 ? parts : [9, 0];
-          };
-          
-          const [startH, startM] = parseTime(dayConfig.start);
-          const [endH, endM] = parseTime(dayConfig.end);
-          const dayStartMs = setMinutes(setHours(startOfDay(day), startH), startM).getTime();
-          const dayEndMs = setMinutes(setHours(startOfDay(day), endH), endM).getTime();
-
-          let currentPointerMs = dayStartMs;
-          while (currentPointerMs + durationMs <= dayEndMs && slots.length < 20) {
-            const endPointerMs = currentPointerMs + durationMs;
-            const isClashing = busyPeriods.some(busy => currentPointerMs < busy.end && endPointerMs > busy.start);
-            
-            if (currentPointerMs >= minStartTimeMs && currentPointerMs <= maxStartTimeMs && !isClashing) {
-              slots.push({ 
-                start_time: new Date(currentPointerMs).toISOString(), 
-                end_time: new Date(endPointerMs).toISOString() 
-              });
-            }
-            currentPointerMs += intervalMs;
-          }
-        }
-      }
-      if (slots.length >= 20) break;
+    const slots: GeneratedSlot[] = [];
+
+    for (let i = 0; i < daysToSearch && slots.length < maxSlots; i++) {
+      const day = addDays(startOfDay(new Date()), i);
+      slots.push(...getSlotsForDay({
+        day,
+        settings: instructor,
+        busyByDay,
+        gapsByDay,
+        unavailability: unavailability.manual,
+        durationMins: effectiveDuration,
+        overrides: hoursOverrides,
+        limit: maxSlots - slots.length
+      }));
     }
     return slots;
-  }, [instructor, allBookings, unavailability.manual, effectiveDuration]);
+  }, [instructor, allBookings, unavailability.manual, unavailability.external, effectiveDuration, hoursOverrides]);
 
   const calculatePrice = (durationMins: number) => {
     if (!instructor) return 0;
@@ -230,9 +183,9 @@ const PublicInstructorPage = () => {
   };
 
   const groupedAvailability = useMemo(() => {
-    const groups: Record<string, { slots: any[], sortDate: number }> = {};
+    const groups: Record<string, { slots: GeneratedSlot[], sortDate: number }> = {};
     calculatedAvailability.forEach(slot => {
-      const date = parseISO(slot.start_time);
+      const date = toZonedTime(slot.start_time, timeZone);
       const monthKey = format(date, 'MMMM yyyy');
       if (!groups[monthKey]) {
         groups[monthKey] = { slots: [], sortDate: startOfMonth(date).getTime() };
@@ -240,7 +193,7 @@ const PublicInstructorPage = () => {
       groups[monthKey].slots.push(slot);
     });
     return Object.entries(groups).sort((a, b) => a[1].sortDate - b[1].sortDate);
-  }, [calculatedAvailability]);
+  }, [calculatedAvailability, timeZone]);
 
   const groupedRestrictions = useMemo(() => {
     const allItems: any[] = [
@@ -446,9 +399,9 @@ const PublicInstructorPage = () => {
                           {data.slots.map((slot, i) => (
                             <div key={i} className="flex items-center justify-between p-4 bg-muted/30 rounded-xl border border-muted hover:bg-muted/50 transition-colors group">
                               <div className="min-w-0">
-                                <p className="font-bold text-sm text-primary">{format(parseISO(slot.start_time), "EEEE, do")}</p>
+                                <p className="font-bold text-sm text-primary">{formatInTimeZone(slot.start_time, timeZone, "EEEE, do")}</p>
                                 <p className="text-xs text-muted-foreground flex items-center gap-1.5 mt-1 font-medium">
-                                  <Clock className="h-3 w-3" /> {format(parseISO(slot.start_time), "p")} — {format(parseISO(slot.end_time), "p")}
+                                  <Clock className="h-3 w-3" /> {formatInTimeZone(slot.start_time, timeZone, "p")} — {formatInTimeZone(slot.end_time, timeZone, "p")}
                                 </p>
                               </div>
                               <ChevronRight className="h-4 w-4 text-muted-foreground group-hover:translate-x-1 transition-transform" />
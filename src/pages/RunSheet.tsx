@@ -0,0 +1,259 @@
+"use client";
+
+import React from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, isValid, parseISO, subDays } from "date-fns";
+import { ArrowLeft, ChevronLeft, ChevronRight, MapPin, Phone, Printer, Target } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/components/auth/SessionContextProvider";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { calculateLessonPrice, fetchLessonTypes, findLessonType } from "@/utils/lesson-types";
+import { formatInTimeZone, getZonedDateKey, resolveTimeZone, zonedTimeToUtc } from "@/utils/time-zone";
+
+interface RunSheetBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  lesson_type: string;
+  title: string | null;
+  description: string | null;
+  pickup_address: string | null;
+  pickup_postcode: string | null;
+  student_id: string | null;
+  students: { name: string; phone_number: string | null; full_address: string | null } | null;
+}
+
+interface StudentSummary {
+  prepaidHours: number;
+  unpaidAmount: number;
+  ratings: { topic: string; rating: number }[];
+}
+
+const MAX_RATINGS_SHOWN = 6;
+
+/**
+ * Balances, money owed and latest progress ratings for the students on the sheet
+ */
+const fetchStudentSummaries = async (instructorId: string, studentIds: string[]) => {
+  const summaries: Record<string, StudentSummary> = {};
+  studentIds.forEach(id => { summaries[id] = { prepaidHours: 0, unpaidAmount: 0, ratings: [] }; });
+  if (studentIds.length === 0) return summaries;
+
+  const [packagesRes, unpaidRes, chargesRes, entriesRes, topicsRes, profileRes, lessonTypes] = await Promise.all([
+    supabase.from("pre_paid_hours").select("student_id, remaining_hours").in("student_id", studentIds),
+    supabase.from("bookings").select("id, student_id, start_time, end_time, lesson_type, charged_amount").in("student_id", studentIds).eq("status", "completed").eq("is_paid", false),
+    supabase.from("cancellation_charges").select("student_id, amount").in("student_id", studentIds).eq("status", "charged"),
+    supabase.from("student_progress_entries").select("student_id, topic_id, rating, entry_date").in("student_id", studentIds).order("entry_date", { ascending: false }),
+    supabase.from("progress_topics").select("id, name").or(`user_id.eq.${instructorId},is_default.eq.true`),
+    supabase.from("profiles").select("hourly_rate, rate_1h, rate_1_5h, rate_2h").eq("id", instructorId).single(),
+    fetchLessonTypes(instructorId),
+  ]);
+
+  packagesRes.data?.forEach(pkg => { summaries[pkg.student_id].prepaidHours += Number(pkg.remaining_hours) || 0; });
+
+  // Lessons settled from pre-paid credit aren't owed, matching the Unpaid tab in Accounts
+  const unpaidLessons = unpaidRes.data || [];
+  const { data: creditTx } = unpaidLessons.length > 0
+    ? await supabase.from("pre_paid_hours_transactions").select("booking_id").in("booking_id", unpaidLessons.map(l => l.id))
+    : { data: [] };
+  const creditPaidIds = new Set((creditTx || []).map(tx => tx.booking_id));
+  // Each lesson at the price it was charged when completed, falling back to today's rates for any without one
+  unpaidLessons.filter(l => !creditPaidIds.has(l.id)).forEach(lesson => {
+    const hours = (new Date(lesson.end_time).getTime() - new Date(lesson.start_time).getTime()) / 3600000;
+    summaries[lesson.student_id].unpaidAmount += lesson.charged_amount != null
+      ? Number(lesson.charged_amount)
+      : calculateLessonPrice(hours, profileRes.data, findLessonType(lessonTypes, lesson.lesson_type));
+  });
+  chargesRes.data?.forEach(charge => { summaries[charge.student_id].unpaidAmount += Number(charge.amount) || 0; });
+
+  const topicNames = new Map((topicsRes.data || []).map(t => [t.id, t.name]));
+  const seen = new Set<string>();
+  entriesRes.data?.forEach(entry => {
+    const key = `${entry.student_id}:${entry.topic_id}`;
+    if (seen.has(key) || !topicNames.has(entry.topic_id)) return;
+    seen.add(key);
+    summaries[entry.student_id].ratings.push({ topic: topicNames.get(entry.topic_id)!, rating: entry.rating });
+  });
+  // Weakest topics first, since they're what the lesson is likely to focus on
+  Object.values(summaries).forEach(summary => summary.ratings.sort((a, b) => a.rating - b.rating));
+
+  return summaries;
+};
+
+/**
+ * The targets set at each student's previous lesson, keyed by the booking on the sheet they lead into
+ */
+const fetchPreviousTargets = async (bookings: RunSheetBooking[]) => {
+  const targets: Record<string, string | null> = {};
+  const withStudents = bookings.filter(b => b.student_id);
+  if (withStudents.length === 0) return targets;
+
+  const { data, error } = await supabase
+    .from("bookings")
+    .select("student_id, start_time, targets_for_next_session")
+    .in("student_id", Array.from(new Set(withStudents.map(b => b.student_id!))))
+    .not("status", "in", "(cancelled,available)")
+    .lt("start_time", withStudents[withStudents.length - 1].start_time)
+    .order("start_time", { ascending: false });
+  if (error) throw error;
+
+  withStudents.forEach(booking => {
+    const previous = (data || []).find(p => p.student_id === booking.student_id && p.start_time < booking.start_time);
+    targets[booking.id] = previous?.targets_for_next_session || null;
+  });
+  return targets;
+};
+
+const RunSheet: React.FC = () => {
+  const { user } = useSession();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { data: timeZone } = useQuery({
+    queryKey: ['instructor-time-zone', user?.id],
+    queryFn: async () => {
+      const { data: profile } = await supabase.from("profiles").select("time_zone").eq("id", user!.id).single();
+      return resolveTimeZone(profile?.time_zone);
+    },
+    enabled: !!user,
+  });
+
+  // The day is a calendar day in the instructor's zone, whichever zone the browser is in
+  const todayKey = getZonedDateKey(new Date(), resolveTimeZone(timeZone));
+  const requestedDate = parseISO(searchParams.get("date") || todayKey);
+  const day = isValid(requestedDate) ? requestedDate : parseISO(todayKey);
+  const dateKey = format(day, "yyyy-MM-dd");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['run-sheet', user?.id, dateKey, timeZone],
+    queryFn: async () => {
+      const { data: bookings, error } = await supabase
+        .from("bookings")
+        .select("id, start_time, end_time, status, lesson_type, title, description, pickup_address, pickup_postcode, student_id, students(name, phone_number, full_address)")
+        .eq("user_id", user!.id)
+        .in("status", ["scheduled", "completed"])
+        .gte("start_time", zonedTimeToUtc(dateKey, 0, 0, timeZone!).toISOString())
+        .lt("start_time", zonedTimeToUtc(format(addDays(day, 1), "yyyy-MM-dd"), 0, 0, timeZone!).toISOString())
+        .order("start_time", { ascending: true });
+      if (error) throw error;
+
+      const rows = (bookings || []) as unknown as RunSheetBooking[];
+      const studentIds = Array.from(new Set(rows.map(b => b.student_id).filter(Boolean))) as string[];
+      const [summaries, previousTargets] = await Promise.all([
+        fetchStudentSummaries(user!.id, studentIds),
+        fetchPreviousTargets(rows),
+      ]);
+      return { bookings: rows, summaries, previousTargets };
+    },
+    enabled: !!user && !!timeZone,
+  });
+
+  const bookings = data?.bookings || [];
+  const summaries = data?.summaries || {};
+  const previousTargets = data?.previousTargets || {};
+  const lessonCount = bookings.filter(b => b.student_id).length;
+
+  const goToDay = (date: Date) => setSearchParams({ date: format(date, "yyyy-MM-dd") });
+
+  // The print dialog names a saved PDF after the page title
+  const handlePrint = () => {
+    const previousTitle = document.title;
+    document.title = `Run sheet ${dateKey}`;
+    window.print();
+    document.title = previousTitle;
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto print:max-w-none print:space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-2">
+          <Button asChild variant="ghost" size="icon" className="h-9 w-9">
+            <Link to="/schedule"><ArrowLeft className="h-4 w-4" /></Link>
+          </Button>
+          <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => goToDay(subDays(day, 1))}><ChevronLeft className="h-4 w-4" /></Button>
+          <Button variant="outline" className="h-9 font-bold" onClick={() => goToDay(parseISO(todayKey))}>Today</Button>
+          <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => goToDay(addDays(day, 1))}><ChevronRight className="h-4 w-4" /></Button>
+        </div>
+        <div className="flex gap-2">
+          <Button className="font-bold" onClick={handlePrint}><Printer className="mr-2 h-4 w-4" /> Print</Button>
+        </div>
+      </div>
+
+      <div className="border-b-2 border-foreground pb-2">
+        <h1 className="text-2xl sm:text-3xl font-black">{format(day, "EEEE d MMMM yyyy")}</h1>
+        <p className="text-sm text-muted-foreground font-medium">
+          {lessonCount} lesson{lessonCount === 1 ? "" : "s"}
+          {bookings.length > 0 && ` · ${formatInTimeZone(bookings[0].start_time, timeZone!, "HH:mm")} to ${formatInTimeZone(bookings[bookings.length - 1].end_time, timeZone!, "HH:mm")}`}
+        </p>
+      </div>
+
+      {isLoading || !timeZone ? (
+        <div className="space-y-3"><Skeleton className="h-32 w-full" /><Skeleton className="h-32 w-full" /></div>
+      ) : bookings.length === 0 ? (
+        <p className="text-center text-muted-foreground italic py-12">Nothing booked for this day.</p>
+      ) : (
+        <div className="space-y-3 print:space-y-2">
+          {bookings.map(booking => {
+            const summary = booking.student_id ? summaries[booking.student_id] : null;
+            const targets = previousTargets[booking.id];
+            const pickup = [booking.pickup_address, booking.pickup_postcode].filter(Boolean).join(", ") || booking.students?.full_address;
+
+            return (
+              <div key={booking.id} className="grid grid-cols-[70px_1fr] gap-3 rounded-lg border p-3 sm:p-4 break-inside-avoid print:rounded-none print:border-x-0 print:border-t-0 print:px-0">
+                <div>
+                  <p className="text-lg font-black leading-none">{formatInTimeZone(booking.start_time, timeZone!, "HH:mm")}</p>
+                  <p className="text-xs text-muted-foreground font-bold">{formatInTimeZone(booking.end_time, timeZone!, "HH:mm")}</p>
+                </div>
+
+                <div className="space-y-2 min-w-0">
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-4 gap-y-1">
+                    <p className="font-black text-base">
+                      {booking.students?.name || booking.title}
+                      <span className="ml-2 text-xs font-bold text-muted-foreground uppercase">{booking.lesson_type}</span>
+                      {booking.status === "completed" && <span className="ml-2 text-xs font-bold text-green-600 uppercase">Done</span>}
+                    </p>
+                    {booking.students?.phone_number && (
+                      <p className="flex items-center gap-1 text-sm font-bold"><Phone className="h-3.5 w-3.5" /> {booking.students.phone_number}</p>
+                    )}
+                  </div>
+
+                  {pickup && <p className="flex items-start gap-1 text-sm"><MapPin className="h-3.5 w-3.5 mt-0.5 shrink-0" /> {pickup}</p>}
+
+                  {targets && (
+                    <p className="flex items-start gap-1 text-sm"><Target className="h-3.5 w-3.5 mt-0.5 shrink-0 text-primary" /> {targets}</p>
+                  )}
+                  {booking.description && <p className="text-xs text-muted-foreground italic">{booking.description}</p>}
+
+                  {summary && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                      <span><span className="font-bold">Pre-paid:</span> {summary.prepaidHours.toFixed(1)} hrs</span>
+                      <span className={cn(summary.unpaidAmount > 0 && "text-red-600 font-bold")}>
+                        <span className="font-bold">Unpaid:</span> £{summary.unpaidAmount.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+
+                  {summary && summary.ratings.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {summary.ratings.slice(0, MAX_RATINGS_SHOWN).map(r => (
+                        <span key={r.topic} className="rounded border px-1.5 py-0.5 text-[10px] font-bold">{r.topic} {r.rating}/5</span>
+                      ))}
+                      {summary.ratings.length > MAX_RATINGS_SHOWN && (
+                        <span className="px-1.5 py-0.5 text-[10px] text-muted-foreground">+{summary.ratings.length - MAX_RATINGS_SHOWN} more</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunSheet;
@@ -3,11 +3,13 @@
 import React, { useState, useCallback, useEffect } from "react";
 import CalendarComponent from "@/components/Calendar";
 import { Button } from "@/components/ui/button";
-import { PlusCircle, RefreshCcw, ClipboardCheck, Settings2 } from "lucide-react";
+import { PlusCircle, RefreshCcw, ClipboardCheck, Settings2, ClipboardList, CalendarRange, Trash2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import AddBookingForm from "@/components/AddBookingForm";
 import BookingSettingsForm from "@/components/BookingSettingsForm";
-import { addMinutes, startOfMonth, endOfMonth, addMonths, subMonths, differenceInMinutes, parseISO, isValid } from "date-fns";
+import AvailabilityTemplatesManager from "@/components/AvailabilityTemplatesManager";
+import DeletedBookingsList from "@/components/DeletedBookingsList";
+import { addMinutes, startOfMonth, endOfMonth, addMonths, subMonths, differenceInMinutes, parseISO, isValid, format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showError, showSuccess } from "@/utils/toast";
@@ -22,6 +24,8 @@ const Schedule: React.FC = () => {
   const queryClient = useQueryClient();
   const [isAddBookingDialogOpen, setIsAddBookingDialogOpen] = useState(false);
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
+  const [isTemplatesDialogOpen, setIsTemplatesDialogOpen] = useState(false);
+  const [isDeletedDialogOpen, setIsDeletedDialogOpen] = useState(false);
   const [selectedSlot, setSelectedSlot] = useState<{ start: Date; end: Date } | null>(null);
   const [calendarHours, setCalendarHours] = useState({ start: 9, end: 18 });
   const [pendingCount, setPendingCount] = useState(0);
@@ -133,7 +137,9 @@ const Schedule: React.FC = () => {
         lesson_type: booking.lesson_type,
         targets_for_next_session: booking.targets_for_next_session,
         is_paid: booking.is_paid || paidViaCreditIds.has(booking.id),
-        is_covered: coverageMap[booking.id] || false
+        is_covered: coverageMap[booking.id] || false,
+        series_id: booking.series_id,
+        capacity: booking.capacity
       },
     }));
   }, [user]);
@@ -146,7 +152,7 @@ const Schedule: React.FC = () => {
       
       const { data: bookings, error: bookingsError } = await supabase
         .from("bookings")
-        .select("id, title, description, start_time, end_time, student_id, status, lesson_type, targets_for_next_session, is_paid, students(name)")
+        .select("id, title, description, start_time, end_time, student_id, status, lesson_type, targets_for_next_session, is_paid, series_id, capacity, students(name)")
         .eq("user_id", user!.id)
         .gte("start_time", start.toISOString())
         .lte("end_time", end.toISOString());
@@ -199,6 +205,27 @@ const Schedule: React.FC = () => {
           )}
         </div>
         <div className="flex items-center gap-2">
+          <Button asChild variant="outline" size="icon" className="h-9 w-9 sm:h-10 sm:w-10" title="Run Sheet">
+            <Link to={`/schedule/run-sheet?date=${format(currentCalendarDate, "yyyy-MM-dd")}`}><ClipboardList className="h-4 w-4" /></Link>
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsDeletedDialogOpen(true)}
+            className="h-9 w-9 sm:h-10 sm:w-10"
+            title="Recently Deleted"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsTemplatesDialogOpen(true)}
+            className="h-9 w-9 sm:h-10 sm:w-10"
+            title="Availability Templates"
+          >
+            <CalendarRange className="h-4 w-4" />
+          </Button>
           <Button 
             variant="outline" 
             size="icon" 
@@ -275,6 +302,30 @@ const Schedule: React.FC = () => {
           <BookingSettingsForm onSuccess={() => setIsSettingsDialogOpen(false)} />
         </DialogContent>
       </Dialog>
+
+      <Dialog open={isTemplatesDialogOpen} onOpenChange={setIsTemplatesDialogOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CalendarRange className="h-5 w-5 text-primary" />
+              Availability Templates
+            </DialogTitle>
+          </DialogHeader>
+          <AvailabilityTemplatesManager onApplied={() => queryClient.invalidateQueries({ queryKey: ['schedule-events'] })} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDeletedDialogOpen} onOpenChange={setIsDeletedDialogOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5 text-primary" />
+              Recently Deleted
+            </DialogTitle>
+          </DialogHeader>
+          <DeletedBookingsList onRestored={() => queryClient.invalidateQueries({ queryKey: ['schedule-events'] })} />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
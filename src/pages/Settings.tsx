@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { LogOut, LayoutList, UserCog, ShieldCheck, Bell, Lock, Mail, CreditCard } from "lucide-react";
+import { LogOut, LayoutList, UserCog, ShieldCheck, Bell, Lock, Mail, CreditCard, CalendarSync } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import ProfileSettingsForm from "@/components/ProfileSettingsForm";
@@ -12,11 +12,17 @@ import ChangePasswordForm from "@/components/ChangePasswordForm";
 import ChangeEmailForm from "@/components/ChangeEmailForm";
 import MenuCustomizer from "@/components/MenuCustomizer";
 import BillingSettings from "@/components/BillingSettings";
+import OnlinePaymentsSettings from "@/components/OnlinePaymentsSettings";
+import CalendarFeedSettings from "@/components/CalendarFeedSettings";
+import ExternalCalendarsManager from "@/components/ExternalCalendarsManager";
+import LessonTypesManager from "@/components/LessonTypesManager";
+import LessonRemindersManager from "@/components/LessonRemindersManager";
+import LessonReminderOptOut from "@/components/LessonReminderOptOut";
 import { cn } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useNavigate } from "react-router-dom";
 
-type SettingsTab = "profile" | "notifications" | "menu" | "billing" | "account";
+type SettingsTab = "profile" | "notifications" | "calendar" | "menu" | "billing" | "account";
 
 const Settings: React.FC = () => {
   const { user, subscriptionStatus, userRole, isLoading: isSessionLoading } = useSession();
@@ -36,6 +42,10 @@ const Settings: React.FC = () => {
       items.push({ id: "notifications", label: "Alerts", icon: Bell });
       items.push({ id: "menu", label: "Menu", icon: LayoutList });
     }
+
+    if (!isRestricted) {
+      items.push({ id: "calendar", label: "Calendar", icon: CalendarSync });
+    }
     
     if (!isStudent) {
       items.push({ id: "billing", label: "Billing", icon: CreditCard });
@@ -109,20 +119,31 @@ const Settings: React.FC = () => {
 
         <div className="animate-in fade-in slide-in-from-bottom-4 duration-300 px-1">
           {activeTab === "profile" && !isRestricted && !isStudent && (
-            <Card className="border-none shadow-sm bg-card overflow-hidden">
-              <CardHeader className="p-4 sm:p-6">
-                <CardTitle>Profile Settings</CardTitle>
-                <CardDescription>Update your personal information and instructor preferences.</CardDescription>
-              </CardHeader>
-              <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
-                <ProfileSettingsForm />
-              </CardContent>
-            </Card>
+            <div className="space-y-6">
+              <Card className="border-none shadow-sm bg-card overflow-hidden">
+                <CardHeader className="p-4 sm:p-6">
+                  <CardTitle>Profile Settings</CardTitle>
+                  <CardDescription>Update your personal information and instructor preferences.</CardDescription>
+                </CardHeader>
+                <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
+                  <ProfileSettingsForm />
+                </CardContent>
+              </Card>
+              <LessonTypesManager />
+            </div>
           )}
 
           {activeTab === "notifications" && !isRestricted && !isStudent && (
             <div className="space-y-6">
               <NotificationSettingsForm />
+              <LessonRemindersManager />
+            </div>
+          )}
+
+          {activeTab === "calendar" && !isRestricted && (
+            <div className="space-y-6">
+              <CalendarFeedSettings />
+              {!isStudent && <ExternalCalendarsManager />}
             </div>
           )}
 
@@ -139,7 +160,10 @@ const Settings: React.FC = () => {
           )}
 
           {activeTab === "billing" && !isStudent && (
-            <BillingSettings />
+            <div className="space-y-6">
+              <BillingSettings />
+              {!isRestricted && <OnlinePaymentsSettings />}
+            </div>
           )}
 
           {activeTab === "account" && (
@@ -159,6 +183,8 @@ const Settings: React.FC = () => {
                 </Card>
               )}
 
+              {isStudent && <LessonReminderOptOut />}
+
               <Card className="border-none shadow-sm bg-card overflow-hidden">
                 <CardHeader className="p-4 sm:p-6">
                   <CardTitle className="flex items-center gap-2">
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showError, showSuccess } from "@/utils/toast";
@@ -23,9 +23,14 @@ import {
   RefreshCw,
   Loader2,
   AlertCircle,
-  Timer
+  Timer,
+  ClipboardCheck,
+  MoveRight,
+  X,
+  MapPin,
+  Shapes
 } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { 
   Dialog, 
@@ -37,18 +42,12 @@ import {
 } from "@/components/ui/dialog";
 import { 
   format, 
-  addHours, 
-  addWeeks,
   isSameMonth, 
   isSameDay, 
   addMonths, 
   subMonths,
   parseISO,
   differenceInMinutes,
-  setHours,
-  setMinutes,
-  startOfDay,
-  getDay,
   startOfMonth,
   endOfMonth,
   startOfWeek,
@@ -57,20 +56,60 @@ import {
 } from "date-fns";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import WaitlistPanel from "@/components/WaitlistPanel";
+import PickupLocationSelect from "@/components/PickupLocationSelect";
+import { buildBusyByDay, buildGapsByDay, dayHasSlots, getAllDayUnavailability, getSlotsForDay, ExternalBusyBlock, GeneratedSlot, MAX_LESSON_MINS, MIN_LESSON_MINS, TravelBlock } from "@/utils/slot-engine";
+import { describeTimeZone, formatInTimeZone, getBrowserTimeZone, resolveTimeZone } from "@/utils/time-zone";
+import { fetchPickupLocations } from "@/utils/pickup-locations";
+import { calculateLessonPrice, fetchLessonTypes, findLessonType, STANDARD_LESSON_TYPE } from "@/utils/lesson-types";
+import { fetchPublishedWorkingHoursOverrides } from "@/utils/working-hours";
+import { fetchSlotHolds, holdBookingSlot, releaseSlotHold } from "@/utils/slot-holds";
 
 const StudentCalendar: React.FC = () => {
   const { user, isLoading: isSessionLoading } = useSession();
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const rescheduleId = searchParams.get("reschedule");
   
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const [selectedSlot, setSelectedSlot] = useState<any>(null);
+  const [selectedSlot, setSelectedSlot] = useState<GeneratedSlot | null>(null);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null);
+  const [holdSecondsLeft, setHoldSecondsLeft] = useState(0);
+  const [holdingSlotId, setHoldingSlotId] = useState<string | null>(null);
+  const hasHoldRef = useRef(false);
   const [isBooking, setIsBooking] = useState(false);
   const [filterDuration, setFilterDuration] = useState<number>(60);
   const [isCustomDuration, setIsCustomDuration] = useState(false);
   const [customMinutes, setCustomMinutes] = useState("45");
+  const [pickupLocationId, setPickupLocationId] = useState<string | null>(null);
+  const [lessonTypeName, setLessonTypeName] = useState(STANDARD_LESSON_TYPE);
 
-  const effectiveDuration = isCustomDuration ? (parseInt(customMinutes) || 60) : filterDuration;
+  // The lesson being moved when opened from "Reschedule" on the dashboard
+  const { data: rescheduleBooking } = useQuery({
+    queryKey: ['reschedule-booking', rescheduleId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select("id, start_time, end_time, status, lesson_type, pickup_location_id")
+        .eq("id", rescheduleId!)
+        .eq("status", "scheduled")
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!rescheduleId,
+  });
+
+  // A moved lesson keeps its pickup unless the student picks another
+  useEffect(() => {
+    if (rescheduleBooking?.pickup_location_id) setPickupLocationId(rescheduleBooking.pickup_location_id);
+  }, [rescheduleBooking]);
+
+  const effectiveDuration = rescheduleBooking
+    ? differenceInMinutes(parseISO(rescheduleBooking.end_time), parseISO(rescheduleBooking.start_time))
+    : isCustomDuration ? Math.min(MAX_LESSON_MINS, Math.max(MIN_LESSON_MINS, parseInt(customMinutes) || 60)) : filterDuration;
 
   const { data: studentData, isLoading: isLoadingStudent, isError: isStudentError } = useQuery({
     queryKey: ['student-profile', user?.id],
@@ -118,175 +157,226 @@ const StudentCalendar: React.FC = () => {
     enabled: !!studentData?.user_id,
   });
 
-  const busyByDay = useMemo(() => {
-    const map: Record<string, {start: number, end: number}[]> = {};
-    const bufferMs = (instructor?.booking_buffer_mins || 0) * 60000;
-    bookingsData.forEach(b => {
-      if (b.status === 'available' || !b.start_time || !b.end_time) return;
-      const dateKey = b.start_time.split('T')[0];
-      if (!map[dateKey]) map[dateKey] = [];
-      map[dateKey].push({
-        start: parseISO(b.start_time).getTime() - bufferMs,
-        end: parseISO(b.end_time).getTime() + bufferMs
+  const { data: unavailability = [] } = useQuery({
+    queryKey: ['instructor-unavailability', studentData?.user_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("instructor_unavailability")
+        .select("start_date, end_date")
+        .eq("user_id", studentData!.user_id)
+        .gte("end_date", format(new Date(), "yyyy-MM-dd"));
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!studentData?.user_id,
+  });
+
+  const { data: externalBusy = [] } = useQuery({
+    queryKey: ['instructor-busy-blocks', studentData?.user_id, format(currentMonth, 'yyyy-MM')],
+    queryFn: async () => {
+      const rangeStart = startOfWeek(startOfMonth(currentMonth), { weekStartsOn: 1 }).toISOString();
+      const rangeEnd = endOfWeek(endOfMonth(currentMonth), { weekStartsOn: 1 }).toISOString();
+      const { data, error } = await supabase.rpc("get_instructor_busy_blocks", {
+        p_instructor_id: studentData!.user_id,
+        p_start: rangeStart,
+        p_end: rangeEnd
       });
-    });
-    return map;
-  }, [bookingsData, instructor?.booking_buffer_mins]);
-
-  const manualGapsByDay = useMemo(() => {
-    const map: Record<string, any[]> = {};
-    bookingsData.forEach(b => {
-      if (b.status !== 'available' || !b.start_time) return;
-      const dateKey = b.start_time.split('T')[0];
-      if (!map[dateKey]) map[dateKey] = [];
-      map[dateKey].push(b);
-    });
-    return map;
-  }, [bookingsData]);
+      if (error) throw error;
+      return (data || []) as ExternalBusyBlock[];
+    },
+    enabled: !!studentData?.user_id,
+  });
+
+  // Freed slots currently held for another waitlisted student
+  const { data: waitlistHolds = [] } = useQuery({
+    queryKey: ['waitlist-holds', studentData?.user_id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_waitlist_holds", { p_instructor_id: studentData!.user_id });
+      if (error) throw error;
+      return (data || []) as ExternalBusyBlock[];
+    },
+    enabled: !!studentData?.user_id,
+  });
+
+  // Slots other students have open in their confirm dialog; re-checked often as holds only last minutes
+  const { data: slotHolds = [] } = useQuery({
+    queryKey: ['slot-holds', studentData?.user_id],
+    queryFn: () => fetchSlotHolds(studentData!.user_id),
+    enabled: !!studentData?.user_id,
+    refetchInterval: 60000,
+  });
+
+  const { data: lessonTypes = [] } = useQuery({
+    queryKey: ['lesson-types', studentData?.user_id],
+    queryFn: () => fetchLessonTypes(studentData!.user_id),
+    enabled: !!studentData?.user_id,
+  });
+
+  const { data: hoursOverrides = [] } = useQuery({
+    queryKey: ['working-hours-overrides', studentData?.user_id, 'published'],
+    queryFn: () => fetchPublishedWorkingHoursOverrides(studentData!.user_id),
+    enabled: !!studentData?.user_id,
+  });
+
+  const bookableLessonTypes = useMemo(() => lessonTypes.filter(type => type.is_active && type.student_bookable), [lessonTypes]);
+  const selectedLessonType = findLessonType(bookableLessonTypes, lessonTypeName);
+
+  const { data: pickupLocations = [] } = useQuery({
+    queryKey: ['pickup-locations', studentData?.id],
+    queryFn: () => fetchPickupLocations(studentData!.id),
+    enabled: !!studentData?.id,
+  });
+
+  // Time needed to drive to and from other lessons' pickups, so slots leave room for it
+  const { data: travel = [] } = useQuery({
+    queryKey: ['travel-blocks', studentData?.id, format(currentMonth, 'yyyy-MM'), pickupLocationId, rescheduleBooking?.id],
+    queryFn: async () => {
+      const rangeStart = startOfWeek(startOfMonth(currentMonth), { weekStartsOn: 1 }).toISOString();
+      const rangeEnd = endOfWeek(endOfMonth(currentMonth), { weekStartsOn: 1 }).toISOString();
+      const { data, error } = await supabase.rpc("get_travel_blocks", {
+        p_start: rangeStart,
+        p_end: rangeEnd,
+        p_pickup_location_id: pickupLocationId,
+        p_reschedule_of: rescheduleBooking?.id ?? null
+      });
+      if (error) throw error;
+      return (data || []) as TravelBlock[];
+    },
+    enabled: !!studentData?.id && !!instructor?.travel_buffer_enabled,
+  });
+
+  const blockedDays = useMemo(() => [...unavailability, ...getAllDayUnavailability(externalBusy)], [unavailability, externalBusy]);
+
+  // A move can take any time the lesson itself currently occupies
+  const busyBookings = useMemo(() => rescheduleBooking ? bookingsData.filter(b => b.id !== rescheduleBooking.id) : bookingsData, [bookingsData, rescheduleBooking]);
+
+  // Slots are worked out and shown in the instructor's time zone, wherever the student is
+  const timeZone = resolveTimeZone(instructor?.time_zone);
+  const isAwayFromInstructorZone = describeTimeZone(timeZone) !== describeTimeZone(getBrowserTimeZone());
+
+  const busyByDay = useMemo(() => buildBusyByDay(busyBookings, instructor?.booking_buffer_mins, [...externalBusy, ...waitlistHolds, ...slotHolds], timeZone), [busyBookings, instructor?.booking_buffer_mins, externalBusy, waitlistHolds, slotHolds, timeZone]);
+
+  const manualGapsByDay = useMemo(() => buildGapsByDay(bookingsData, timeZone), [bookingsData, timeZone]);
 
   const daysWithSlots = useMemo(() => {
     if (!instructor || !studentData) return new Set<string>();
-    const mode = instructor.booking_mode || "gaps";
-    const now = new Date();
-    const noticeHours = instructor.min_booking_notice_hours ?? 48;
-    const advanceWeeks = instructor.max_booking_advance_weeks ?? 12;
-    const minStartTimeMs = addHours(now, noticeHours).getTime();
-    const maxStartTimeMs = addWeeks(now, advanceWeeks).getTime();
-    const durationMs = effectiveDuration * 60000;
     const startRange = startOfWeek(startOfMonth(currentMonth), { weekStartsOn: 1 });
     const endRange = endOfWeek(endOfMonth(currentMonth), { weekStartsOn: 1 });
-    const daysInRange = eachDayOfInterval({ start: startRange, end: endRange });
     const result = new Set<string>();
 
-    daysInRange.forEach(day => {
-      const dateKey = format(day, 'yyyy-MM-dd');
-      const dayBusy = busyByDay[dateKey] || [];
-      const sortedBusy = [...dayBusy].sort((a, b) => a.start - b.start);
-
-      if (mode === "gaps") {
-        const gaps = manualGapsByDay[dateKey] || [];
-        for (const gap of gaps) {
-          const gapStartMs = parseISO(gap.start_time).getTime();
-          const gapEndMs = parseISO(gap.end_time).getTime();
-          const currentStart = Math.max(gapStartMs, minStartTimeMs);
-          const currentEnd = Math.min(gapEndMs, maxStartTimeMs);
-          if (currentEnd - currentStart < durationMs) continue;
-          let lastEnd = currentStart;
-          let found = false;
-          for (const busy of sortedBusy) {
-            if (busy.end <= lastEnd) continue;
-            if (busy.start >= currentEnd) break;
-            if (busy.start - lastEnd >= durationMs) { found = true; break; }
-            lastEnd = Math.max(lastEnd, busy.end);
-          }
-          if (found || currentEnd - lastEnd >= durationMs) { result.add(dateKey); return; }
-        }
-      } else {
-        const dayOfWeek = getDay(day).toString();
-        const dayConfig = instructor.working_hours?.[dayOfWeek];
-        if (!dayConfig || !dayConfig.active) return;
-        const parseTime = (t: any) => {
-          if (typeof t === 'number') return [t, 0];
-          return (t || "09:00").split(':').map(Number);
-        };
-        const [startH, startM] = parseTime(dayConfig.start);
-        const [endH, endM] = parseTime(dayConfig.end);
-        const dayStartMs = setMinutes(setHours(startOfDay(day), startH), startM).getTime();
-        const dayEndMs = setMinutes(setHours(startOfDay(day), endH), endM).getTime();
-        const currentStart = Math.max(dayStartMs, minStartTimeMs);
-        const currentEnd = Math.min(dayEndMs, maxStartTimeMs);
-        if (currentEnd - currentStart < durationMs) return;
-        let lastEnd = currentStart;
-        let found = false;
-        for (const busy of sortedBusy) {
-          if (busy.end <= lastEnd) continue;
-          if (busy.start >= currentEnd) break;
-          if (busy.start - lastEnd >= durationMs) { found = true; break; }
-          lastEnd = Math.max(lastEnd, busy.end);
-        }
-        if (found || currentEnd - lastEnd >= durationMs) { result.add(dateKey); return; }
+    eachDayOfInterval({ start: startRange, end: endRange }).forEach(day => {
+      if (dayHasSlots({ day, settings: instructor, busyByDay, gapsByDay: manualGapsByDay, unavailability: blockedDays, durationMins: effectiveDuration, travel, overrides: hoursOverrides })) {
+        result.add(format(day, 'yyyy-MM-dd'));
       }
     });
     return result;
-  }, [instructor, studentData, busyByDay, manualGapsByDay, effectiveDuration, currentMonth]);
+  }, [instructor, studentData, busyByDay, manualGapsByDay, blockedDays, effectiveDuration, currentMonth, travel, hoursOverrides]);
 
   const slotsForSelectedDate = useMemo(() => {
     if (!instructor || !studentData) return [];
-    const dateKey = format(selectedDate, 'yyyy-MM-dd');
-    const dayBusy = busyByDay[dateKey] || [];
-    const mode = instructor.booking_mode || "gaps";
-    const now = new Date();
-    const noticeHours = instructor.min_booking_notice_hours ?? 48;
-    const advanceWeeks = instructor.max_booking_advance_weeks ?? 12;
-    const minStartTimeMs = addHours(now, noticeHours).getTime();
-    const maxStartTimeMs = addWeeks(now, advanceWeeks).getTime();
-    const durationMs = effectiveDuration * 60000;
-    const intervalMs = Math.max(15, instructor.booking_interval_mins || 30) * 60000;
-    const slots: any[] = [];
-
-    if (mode === "gaps") {
-      const gaps = manualGapsByDay[dateKey] || [];
-      gaps.forEach(gap => {
-        const gapStartMs = parseISO(gap.start_time).getTime();
-        const gapEndMs = parseISO(gap.end_time).getTime();
-        let currentPointerMs = gapStartMs;
-        while (currentPointerMs + durationMs <= gapEndMs && slots.length < 100) {
-          const endPointerMs = currentPointerMs + durationMs;
-          const isClashing = dayBusy.some(busy => currentPointerMs < busy.end && endPointerMs > busy.start);
-          if (currentPointerMs >= minStartTimeMs && currentPointerMs <= maxStartTimeMs && !isClashing) {
-            slots.push({ id: `gap-${gap.id}-${currentPointerMs}`, start_time: new Date(currentPointerMs).toISOString(), end_time: new Date(endPointerMs).toISOString() });
-          }
-          currentPointerMs += intervalMs;
-        }
-      });
+    return getSlotsForDay({ day: selectedDate, settings: instructor, busyByDay, gapsByDay: manualGapsByDay, unavailability: blockedDays, durationMins: effectiveDuration, travel, overrides: hoursOverrides });
+  }, [instructor, studentData, selectedDate, busyByDay, manualGapsByDay, blockedDays, effectiveDuration, travel, hoursOverrides]);
+
+  const calculatePrice = useCallback((durationMins: number) =>
+    calculateLessonPrice(durationMins / 60, instructor, selectedLessonType), [instructor, selectedLessonType]);
+
+  // Catalogue types start at their own default length
+  const chooseLessonType = (name: string) => {
+    setLessonTypeName(name);
+    const length = findLessonType(bookableLessonTypes, name)?.default_duration_mins;
+    if (!length) return;
+    if ([60, 90, 120].includes(length)) {
+      setFilterDuration(length);
+      setIsCustomDuration(false);
     } else {
-      const dayOfWeek = getDay(selectedDate).toString();
-      const dayConfig = instructor.working_hours?.[dayOfWeek];
-      if (dayConfig?.active) {
-        const parseTime = (t: any) => {
-          if (typeof t === 'number') return [t, 0];
-          return (t || "09:00").split(':').map(Number);
-        };
-        const [startH, startM] = parseTime(dayConfig.start);
-        const [endH, endM] = parseTime(dayConfig.end);
-        const dayStartMs = setMinutes(setHours(startOfDay(selectedDate), startH), startM).getTime();
-        const dayEndMs = setMinutes(setHours(startOfDay(selectedDate), endH), endM).getTime();
-        let currentPointerMs = dayStartMs;
-        while (currentPointerMs + durationMs <= dayEndMs && slots.length < 100) {
-          const endPointerMs = currentPointerMs + durationMs;
-          const isClashing = dayBusy.some(busy => currentPointerMs < busy.end && endPointerMs > busy.start);
-          if (currentPointerMs >= minStartTimeMs && currentPointerMs <= maxStartTimeMs && !isClashing) {
-            slots.push({ id: `gen-${currentPointerMs}`, start_time: new Date(currentPointerMs).toISOString(), end_time: new Date(endPointerMs).toISOString() });
-          }
-          currentPointerMs += intervalMs;
-        }
-      }
+      setCustomMinutes(length.toString());
+      setIsCustomDuration(true);
+    }
+  };
+
+  // Opening the confirm dialog holds the slot so nobody else can take it while the student decides
+  const chooseSlot = async (slot: GeneratedSlot) => {
+    setHoldingSlotId(slot.id);
+    try {
+      const expiresAt = await holdBookingSlot(slot.start_time, slot.end_time);
+      hasHoldRef.current = true;
+      setSelectedSlot(slot);
+      setHoldExpiresAt(expiresAt);
+    } catch (error) {
+      queryClient.invalidateQueries({ queryKey: ['calendar-bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['slot-holds'] });
+      showError((error as Error).message);
+    } finally {
+      setHoldingSlotId(null);
+    }
+  };
+
+  // Claiming the slot clears the hold on the server, so only a cancelled choice needs releasing
+  const clearSelectedSlot = useCallback((release: boolean) => {
+    setSelectedSlot(null);
+    setHoldExpiresAt(null);
+    if (release && hasHoldRef.current) {
+      // A hold that fails to release still lapses on its own
+      releaseSlotHold().catch(() => undefined);
     }
-    return slots;
-  }, [instructor, studentData, selectedDate, busyByDay, manualGapsByDay, effectiveDuration]);
-
-  const calculatePrice = useCallback((durationMins: number) => {
-    if (!instructor) return 0;
-    const hours = durationMins / 60;
-    if (hours === 1 && instructor.rate_1h) return instructor.rate_1h;
-    if (hours === 1.5 && instructor.rate_1_5h) return instructor.rate_1_5h;
-    if (hours === 2 && instructor.rate_2h) return instructor.rate_2h;
-    return hours * (instructor.hourly_rate || 0);
-  }, [instructor]);
+    hasHoldRef.current = false;
+  }, []);
+
+  useEffect(() => {
+    if (!holdExpiresAt) return;
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.round((parseISO(holdExpiresAt).getTime() - Date.now()) / 1000));
+      setHoldSecondsLeft(secondsLeft);
+      if (secondsLeft === 0) {
+        clearSelectedSlot(false);
+        showError("Your hold on this slot ran out. Pick it again if it's still free.");
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [holdExpiresAt, clearSelectedSlot]);
+
+  // Leaving the page mid-booking frees the slot for others straight away
+  useEffect(() => () => {
+    if (hasHoldRef.current) releaseSlotHold().catch(() => undefined);
+  }, []);
 
   const handleConfirmBooking = async () => {
     if (!selectedSlot || !studentData || !instructor) return;
     setIsBooking(true);
     try {
+      if (rescheduleBooking) {
+        const { error } = await supabase.rpc("claim_booking_slot", { p_start_time: selectedSlot.start_time, p_end_time: selectedSlot.end_time, p_lesson_type: rescheduleBooking.lesson_type, p_reschedule_of: rescheduleBooking.id, p_pickup_location_id: pickupLocationId });
+        if (error) {
+          queryClient.invalidateQueries({ queryKey: ['calendar-bookings'] });
+          queryClient.invalidateQueries({ queryKey: ['slot-holds'] });
+          throw error;
+        }
+        await supabase.from("notifications").insert({ user_id: studentData.user_id, title: "Reschedule Request", message: `${studentData.name} would like to move their lesson on ${formatInTimeZone(rescheduleBooking.start_time, timeZone, "PPP p")} to ${formatInTimeZone(selectedSlot.start_time, timeZone, "PPP p")}.`, type: "booking_claimed" });
+        showSuccess("Move requested! Your current lesson stays booked until your instructor approves.");
+        clearSelectedSlot(false);
+        queryClient.invalidateQueries({ queryKey: ['student-bookings'] });
+        navigate("/");
+        return;
+      }
+
       const requireApproval = instructor.require_booking_approval ?? false;
-      const newStatus = requireApproval ? "pending_approval" : "scheduled";
-      const displayTitle = requireApproval ? `${studentData.name} - Pending Approval` : `${studentData.name} - Driving lesson`;
-      const { error } = await supabase.from("bookings").insert({ user_id: studentData.user_id, student_id: studentData.id, status: newStatus, title: displayTitle, lesson_type: "Driving lesson", start_time: selectedSlot.start_time, end_time: selectedSlot.end_time });
-      if (error) throw error;
-      await supabase.from("notifications").insert({ user_id: studentData.user_id, title: requireApproval ? "New Booking Request!" : "New Lesson Booked!", message: `${studentData.name} has ${requireApproval ? 'requested' : 'booked'} the slot on ${format(parseISO(selectedSlot.start_time), "PPP p")}.`, type: "booking_claimed" });
+      // The RPC re-validates the slot and claims it atomically, so a slot taken since this page loaded is rejected
+      const { error } = await supabase.rpc("claim_booking_slot", { p_start_time: selectedSlot.start_time, p_end_time: selectedSlot.end_time, p_lesson_type: lessonTypeName, p_pickup_location_id: pickupLocationId });
+      if (error) {
+        queryClient.invalidateQueries({ queryKey: ['calendar-bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['instructor-busy-blocks'] });
+        queryClient.invalidateQueries({ queryKey: ['waitlist-holds'] });
+        queryClient.invalidateQueries({ queryKey: ['slot-holds'] });
+        throw error;
+      }
+      await supabase.from("notifications").insert({ user_id: studentData.user_id, title: requireApproval ? "New Booking Request!" : "New Lesson Booked!", message: `${studentData.name} has ${requireApproval ? 'requested' : 'booked'} the slot on ${formatInTimeZone(selectedSlot.start_time, timeZone, "PPP p")}.`, type: "booking_claimed" });
       showSuccess(requireApproval ? "Request sent! Waiting for instructor approval." : "Lesson booked successfully!");
-      setSelectedSlot(null);
+      clearSelectedSlot(false);
       queryClient.invalidateQueries({ queryKey: ['calendar-bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist-offers'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist-entries'] });
     } catch (error: any) {
       showError("Failed to book lesson: " + error.message);
     } finally {
@@ -303,6 +393,7 @@ const StudentCalendar: React.FC = () => {
   }
 
   const showPrices = instructor?.show_prices_on_booking ?? true;
+  const needsApproval = !!rescheduleBooking || (instructor?.require_booking_approval ?? false);
   const days = eachDayOfInterval({ start: startOfWeek(startOfMonth(currentMonth), { weekStartsOn: 1 }), end: endOfWeek(endOfMonth(currentMonth), { weekStartsOn: 1 }) });
 
   return (
@@ -310,12 +401,46 @@ const StudentCalendar: React.FC = () => {
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
           <Button variant="ghost" asChild className="-ml-2"><Link to="/"><ArrowLeft className="mr-2 h-4 w-4" /> Dashboard</Link></Button>
-          <h1 className="text-3xl font-black tracking-tight">Book a Lesson</h1>
+          <h1 className="text-3xl font-black tracking-tight">{rescheduleBooking ? "Move a Lesson" : "Book a Lesson"}</h1>
         </div>
         <Button variant="ghost" size="icon" onClick={() => queryClient.invalidateQueries({ queryKey: ['calendar-bookings'] })} disabled={isFetchingBookings} className="h-10 w-10"><RefreshCw className={cn("h-5 w-5", isFetchingBookings && "animate-spin")} /></Button>
       </div>
 
+      {rescheduleBooking ? (
+        <Card className="border-2 border-orange-300 bg-orange-50/50 max-w-3xl">
+          <CardContent className="p-4 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <MoveRight className="h-5 w-5 text-orange-600 shrink-0" />
+              <div className="min-w-0">
+                <p className="font-black text-sm">Moving your lesson on {formatInTimeZone(rescheduleBooking.start_time, timeZone, "EEEE, MMMM do 'at' p")}</p>
+                <p className="text-xs text-muted-foreground">Pick a new {effectiveDuration}-minute slot. Your current lesson stays booked until your instructor approves the move.</p>
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="shrink-0" onClick={() => navigate("/available-slots")}><X className="h-4 w-4" /></Button>
+          </CardContent>
+        </Card>
+      ) : (
       <div className="space-y-4">
+        {bookableLessonTypes.length > 0 && (
+          <>
+            <div className="flex items-center gap-2 px-1">
+              <Shapes className="h-4 w-4 text-muted-foreground" />
+              <span className="text-xs font-bold uppercase text-muted-foreground tracking-wider">Select Lesson Type</span>
+            </div>
+            <div className="flex flex-wrap gap-2 max-w-3xl">
+              {[STANDARD_LESSON_TYPE, ...bookableLessonTypes.map(type => type.name)].map(name => (
+                <Button
+                  key={name}
+                  variant={lessonTypeName === name ? "default" : "outline"}
+                  className="font-bold rounded-full"
+                  onClick={() => chooseLessonType(name)}
+                >
+                  {name}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
         <div className="flex items-center gap-2 px-1">
           <Filter className="h-4 w-4 text-muted-foreground" />
           <span className="text-xs font-bold uppercase text-muted-foreground tracking-wider">Select Lesson Length</span>
@@ -350,7 +475,7 @@ const StudentCalendar: React.FC = () => {
           <div className="mt-4 flex items-center gap-3 p-4 bg-white border rounded-2xl max-w-xs animate-in slide-in-from-top-2 duration-200">
             <div className="space-y-1 flex-1">
               <Label className="text-[10px] font-bold uppercase text-muted-foreground">Minutes</Label>
-              <Input type="number" value={customMinutes} onChange={(e) => setCustomMinutes(e.target.value)} className="h-10 font-bold" min="15" max="300" />
+              <Input type="number" value={customMinutes} onChange={(e) => setCustomMinutes(e.target.value)} className="h-10 font-bold" min={MIN_LESSON_MINS} max={MAX_LESSON_MINS} />
             </div>
             {showPrices && (
               <div className="text-right pt-5">
@@ -361,6 +486,14 @@ const StudentCalendar: React.FC = () => {
           </div>
         )}
       </div>
+      )}
+
+      {pickupLocations.length > 0 && (
+        <div className="flex items-center gap-3 max-w-md">
+          <span className="text-xs font-bold uppercase text-muted-foreground tracking-wider flex items-center gap-2 shrink-0"><MapPin className="h-4 w-4" /> Pick me up from</span>
+          <PickupLocationSelect studentId={studentData.id} value={pickupLocationId} onChange={setPickupLocationId} selectDefault={!rescheduleBooking?.pickup_location_id} className="h-10 font-bold" />
+        </div>
+      )}
 
       <div className="grid gap-8 lg:grid-cols-[400px_1fr] items-start">
         <Card className="shadow-md border-none overflow-hidden">
@@ -398,8 +531,11 @@ const StudentCalendar: React.FC = () => {
             <h3 className="font-black text-xl flex items-center gap-2"><Clock className="h-6 w-6 text-primary" />{isSameDay(selectedDate, new Date()) ? "Today" : format(selectedDate, "EEE, do MMM")}</h3>
             <Badge variant="secondary" className="font-bold px-3 py-1">{slotsForSelectedDate.length} Available</Badge>
           </div>
+          {isAwayFromInstructorZone && (
+            <p className="text-xs text-muted-foreground px-1">Times are shown in your instructor's local time ({describeTimeZone(timeZone)}).</p>
+          )}
           <ScrollArea className="h-[500px] pr-4">
-            {isLoadingBookings ? <div className="space-y-4"><Skeleton className="h-24 w-full" /><Skeleton className="h-24 w-full" /></div> : slotsForSelectedDate.length === 0 ? <Card className="border-dashed bg-muted/20 h-full flex items-center justify-center"><CardContent className="p-12 text-center space-y-4"><div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mx-auto"><CalendarIcon className="h-8 w-8 text-muted-foreground/40" /></div><div className="space-y-1"><p className="text-sm text-muted-foreground font-bold uppercase tracking-tight">No slots available</p><p className="text-xs text-muted-foreground">Try another date highlighted in blue on the calendar.</p></div></CardContent></Card> : (
+            {isLoadingBookings ? <div className="space-y-4"><Skeleton className="h-24 w-full" /><Skeleton className="h-24 w-full" /></div> : slotsForSelectedDate.length === 0 ? <Card className="border-dashed bg-muted/20 h-full flex items-center justify-center"><CardContent className="p-12 text-center space-y-4"><div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mx-auto"><CalendarIcon className="h-8 w-8 text-muted-foreground/40" /></div><div className="space-y-1"><p className="text-sm text-muted-foreground font-bold uppercase tracking-tight">No slots available</p><p className="text-xs text-muted-foreground">Try another date highlighted in blue on the calendar, or join the waitlist for this day.</p></div></CardContent></Card> : (
               <div className="grid gap-4">
                 {slotsForSelectedDate.map((slot) => {
                   const start = parseISO(slot.start_time);
@@ -408,10 +544,10 @@ const StudentCalendar: React.FC = () => {
                     <Card key={slot.id} className="overflow-hidden border-l-4 border-l-blue-500 hover:shadow-md transition-all group">
                       <CardContent className="p-5 flex items-center justify-between">
                         <div className="space-y-1.5">
-                          <div className="flex items-center gap-2"><p className="font-black text-xl">{format(start, "p")}</p><Badge variant="outline" className="text-[10px] font-bold uppercase h-5 bg-blue-50/50">{duration.toFixed(1)}h Lesson</Badge></div>
-                          <p className="text-xs text-muted-foreground font-medium flex items-center gap-1.5"><Clock className="h-3 w-3" />Ends at {format(parseISO(slot.end_time), "p")}</p>
+                          <div className="flex items-center gap-2"><p className="font-black text-xl">{formatInTimeZone(start, timeZone, "p")}</p><Badge variant="outline" className="text-[10px] font-bold uppercase h-5 bg-blue-50/50">{duration.toFixed(1)}h Lesson</Badge></div>
+                          <p className="text-xs text-muted-foreground font-medium flex items-center gap-1.5"><Clock className="h-3 w-3" />Ends at {formatInTimeZone(slot.end_time, timeZone, "p")}</p>
                         </div>
-                        <Button size="sm" className={cn("font-bold h-10 px-6 transition-all", instructor?.require_booking_approval ? "bg-orange-600 hover:bg-orange-700" : "bg-blue-600 hover:bg-blue-700")} onClick={() => setSelectedSlot(slot)}>{instructor?.require_booking_approval ? "Request" : "Book"}</Button>
+                        <Button size="sm" className={cn("font-bold h-10 px-6 transition-all", needsApproval ? "bg-orange-600 hover:bg-orange-700" : "bg-blue-600 hover:bg-blue-700")} onClick={() => chooseSlot(slot)} disabled={!!holdingSlotId}>{holdingSlotId === slot.id ? <Loader2 className="h-4 w-4 animate-spin" /> : needsApproval ? "Request" : "Book"}</Button>
                       </CardContent>
                     </Card>
                   );
@@ -419,25 +555,28 @@ const StudentCalendar: React.FC = () => {
               </div>
             )}
           </ScrollArea>
+          <WaitlistPanel studentId={studentData.id} instructorId={studentData.user_id} selectedDate={selectedDate} onClaimOffer={chooseSlot} />
         </div>
       </div>
 
-      <Dialog open={!!selectedSlot} onOpenChange={(open) => !open && setSelectedSlot(null)}>
+      <Dialog open={!!selectedSlot} onOpenChange={(open) => !open && !isBooking && clearSelectedSlot(true)}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle className="flex items-center gap-2 text-xl font-black">{instructor?.require_booking_approval ? <ClipboardCheck className="h-6 w-6 text-orange-600" /> : <Sparkles className="h-6 w-6 text-blue-600" />}{instructor?.require_booking_approval ? "Request Booking" : "Confirm Booking"}</DialogTitle>
-            <DialogDescription className="text-base font-medium">{instructor?.require_booking_approval ? "This slot requires instructor approval. Send a request?" : "Would you like to book this lesson slot?"}</DialogDescription>
+            <DialogTitle className="flex items-center gap-2 text-xl font-black">{needsApproval ? <ClipboardCheck className="h-6 w-6 text-orange-600" /> : <Sparkles className="h-6 w-6 text-blue-600" />}{rescheduleBooking ? "Request Move" : needsApproval ? "Request Booking" : "Confirm Booking"}</DialogTitle>
+            <DialogDescription className="text-base font-medium">{rescheduleBooking ? "Ask your instructor to move your lesson to this slot?" : needsApproval ? "This slot requires instructor approval. Send a request?" : "Would you like to book this lesson slot?"}</DialogDescription>
           </DialogHeader>
           {selectedSlot && (
             <div className="py-6 space-y-4">
               <div className="p-5 bg-muted rounded-2xl space-y-3 border shadow-inner">
-                <div className="flex items-center gap-3 text-base font-bold"><CalendarDays className="h-5 w-5 text-primary" />{format(parseISO(selectedSlot.start_time), "EEEE, MMMM do")}</div>
-                <div className="flex items-center gap-3 text-base font-bold"><Clock className="h-5 w-5 text-primary" />{format(parseISO(selectedSlot.start_time), "p")} — {format(parseISO(selectedSlot.end_time), "p")}</div>
+                <div className="flex items-center gap-3 text-base font-bold"><CalendarDays className="h-5 w-5 text-primary" />{formatInTimeZone(selectedSlot.start_time, timeZone, "EEEE, MMMM do")}</div>
+                <div className="flex items-center gap-3 text-base font-bold"><Clock className="h-5 w-5 text-primary" />{formatInTimeZone(selectedSlot.start_time, timeZone, "p")} — {formatInTimeZone(selectedSlot.end_time, timeZone, "p")}</div>
+                <div className="flex items-center gap-3 text-base font-bold"><Shapes className="h-5 w-5 text-primary" />{rescheduleBooking?.lesson_type ?? lessonTypeName}</div>
               </div>
-              <div className="flex items-start gap-3 text-xs text-muted-foreground bg-blue-50/50 p-4 rounded-xl border border-blue-100"><Info className="h-5 w-5 text-blue-500 shrink-0" /><p className="leading-relaxed">{instructor?.require_booking_approval ? "Your instructor will be notified and can approve or decline your request. You'll see the status on your dashboard." : "Once confirmed, this lesson will be added to your schedule immediately."}</p></div>
+              <div className="flex items-center gap-2 text-xs font-bold text-muted-foreground"><Timer className="h-4 w-4 text-primary" />Held for you for {Math.floor(holdSecondsLeft / 60)}:{(holdSecondsLeft % 60).toString().padStart(2, "0")}</div>
+              <div className="flex items-start gap-3 text-xs text-muted-foreground bg-blue-50/50 p-4 rounded-xl border border-blue-100"><Info className="h-5 w-5 text-blue-500 shrink-0" /><p className="leading-relaxed">{needsApproval ? "Your instructor will be notified and can approve or decline your request. You'll see the status on your dashboard." : "Once confirmed, this lesson will be added to your schedule immediately."}</p></div>
             </div>
           )}
-          <DialogFooter className="flex gap-3 sm:gap-0"><Button variant="ghost" onClick={() => setSelectedSlot(null)} disabled={isBooking} className="font-bold h-12">Cancel</Button><Button onClick={handleConfirmBooking} disabled={isBooking} className={cn("font-black h-12 flex-1 sm:flex-none text-lg", instructor?.require_booking_approval ? "bg-orange-600 hover:bg-orange-700" : "bg-blue-600 hover:bg-blue-700")}>{isBooking ? <Loader2 className="h-5 w-5 animate-spin" /> : instructor?.require_booking_approval ? "Send Request" : "Confirm Booking"}</Button></DialogFooter>
+          <DialogFooter className="flex gap-3 sm:gap-0"><Button variant="ghost" onClick={() => clearSelectedSlot(true)} disabled={isBooking} className="font-bold h-12">Cancel</Button><Button onClick={handleConfirmBooking} disabled={isBooking} className={cn("font-black h-12 flex-1 sm:flex-none text-lg", needsApproval ? "bg-orange-600 hover:bg-orange-700" : "bg-blue-600 hover:bg-blue-700")}>{isBooking ? <Loader2 className="h-5 w-5 animate-spin" /> : needsApproval ? "Send Request" : "Confirm Booking"}</Button></DialogFooter>
         </DialogContent>
       </Dialog>
     </div>
@@ -6,7 +6,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/components/auth/SessionContextProvider";
 import { showError, showSuccess } from "@/utils/toast";
 import { Skeleton } from "@/components/ui/skeleton";
-import { format, isAfter, parseISO, differenceInMinutes, addHours, startOfDay, setHours, setMinutes, addWeeks } from "date-fns";
+import { format, isAfter, parseISO, differenceInMinutes, addDays, startOfDay, addWeeks } from "date-fns";
 import { 
   GraduationCap, 
   CalendarDays, 
@@ -31,7 +31,9 @@ import {
   XCircle,
   LayoutDashboard,
   Inbox,
-  Megaphone
+  Megaphone,
+  MoveRight,
+  CalendarClock
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
@@ -42,7 +44,16 @@ import StudentBookingStatusCard from "@/components/StudentBookingStatusCard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import MessageConversation from "@/components/MessageConversation";
+import StudentCancelLessonDialog from "@/components/StudentCancelLessonDialog";
+import GroupSessionsCard from "@/components/GroupSessionsCard";
+import StudentPaymentsCard from "@/components/StudentPaymentsCard";
+import InvoicesCard from "@/components/InvoicesCard";
+import StudentLedgerCard from "@/components/StudentLedgerCard";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { buildBusyByDay, buildGapsByDay, ExternalBusyBlock, GeneratedSlot, getAllDayUnavailability, getSlotsForDay } from "@/utils/slot-engine";
+import { fetchSlotHolds } from "@/utils/slot-holds";
+import { fetchPublishedWorkingHoursOverrides } from "@/utils/working-hours";
+import { formatInTimeZone, resolveTimeZone } from "@/utils/time-zone";
 
 interface Booking {
   id: string;
@@ -53,6 +64,7 @@ interface Booking {
   lesson_type: string;
   description?: string;
   targets_for_next_session?: string;
+  reschedule_of?: string | null;
 }
 
 const StudentDashboard: React.FC = () => {
@@ -64,6 +76,7 @@ const StudentDashboard: React.FC = () => {
   
   const [isBooking, setIsBooking] = useState<string | null>(null);
   const [expandedMessageId, setExpandedMessageId] = useState<string | null>(null);
+  const [bookingToCancel, setBookingToCancel] = useState<Booking | null>(null);
 
   const handleLogout = async () => {
     try {
@@ -139,78 +152,85 @@ const StudentDashboard: React.FC = () => {
     enabled: !!student?.user_id,
   });
 
-  // 5. Calculate Available Slots (Dynamic Logic)
+  // Days off, other calendars and held slots, as on the booking calendar
+  const { data: unavailability = [] } = useQuery({
+    queryKey: ['instructor-unavailability', student?.user_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("instructor_unavailability")
+        .select("start_date, end_date")
+        .eq("user_id", student!.user_id)
+        .gte("end_date", format(new Date(), "yyyy-MM-dd"));
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!student?.user_id,
+  });
+
+  const { data: externalBusy = [] } = useQuery({
+    queryKey: ['instructor-busy-blocks', student?.user_id, 'next-2-weeks'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_instructor_busy_blocks", {
+        p_instructor_id: student!.user_id,
+        p_start: new Date().toISOString(),
+        p_end: addWeeks(new Date(), 2).toISOString()
+      });
+      if (error) throw error;
+      return (data || []) as ExternalBusyBlock[];
+    },
+    enabled: !!student?.user_id,
+  });
+
+  const { data: waitlistHolds = [] } = useQuery({
+    queryKey: ['waitlist-holds', student?.user_id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_waitlist_holds", { p_instructor_id: student!.user_id });
+      if (error) throw error;
+      return (data || []) as ExternalBusyBlock[];
+    },
+    enabled: !!student?.user_id,
+  });
+
+  const { data: slotHolds = [] } = useQuery({
+    queryKey: ['slot-holds', student?.user_id],
+    queryFn: () => fetchSlotHolds(student!.user_id),
+    enabled: !!student?.user_id,
+    refetchInterval: 60000,
+  });
+
+  const { data: hoursOverrides = [] } = useQuery({
+    queryKey: ['working-hours-overrides', student?.user_id, 'published'],
+    queryFn: () => fetchPublishedWorkingHoursOverrides(student!.user_id),
+    enabled: !!student?.user_id,
+  });
+
+  // 5. Calculate Available Slots, in the instructor's time zone
+  const timeZone = resolveTimeZone(instructor?.time_zone);
+
   const availableSlots = useMemo(() => {
     if (!instructor || !student) return [];
 
-    const mode = instructor.booking_mode || "gaps";
-    const now = new Date();
-    const noticeHours = instructor.min_booking_notice_hours ?? 48;
-    const advanceWeeks = instructor.max_booking_advance_weeks ?? 12;
-    const minStartTimeMs = addHours(now, noticeHours).getTime();
-    const maxStartTimeMs = addWeeks(now, advanceWeeks).getTime();
-    const durationMs = 60 * 60000; // Default to 1 hour for dashboard preview
-    const intervalMs = Math.max(15, instructor.booking_interval_mins || 30) * 60000;
-    const bufferMs = (instructor.booking_buffer_mins || 0) * 60000;
-
-    const busyPeriods = allInstructorBookings
-      .filter(b => b.status !== 'available')
-      .map(b => ({
-        start: parseISO(b.start_time).getTime() - bufferMs,
-        end: parseISO(b.end_time).getTime() + bufferMs
-      }));
-
-    const slots: any[] = [];
+    const busyByDay = buildBusyByDay(allInstructorBookings, instructor.booking_buffer_mins, [...externalBusy, ...waitlistHolds, ...slotHolds], timeZone);
+    const gapsByDay = buildGapsByDay(allInstructorBookings, timeZone);
+    const blockedDays = [...unavailability, ...getAllDayUnavailability(externalBusy)];
+    const maxSlots = 5;
     const daysToSearch = 14; // Look ahead 2 weeks for the dashboard
-
-    for (let i = 0; i < daysToSearch; i++) {
-      const day = addHours(startOfDay(now), i * 24);
-      const dateKey = format(day, 'yyyy-MM-dd');
-      
-      if (mode === "gaps") {
-        const manualGaps = allInstructorBookings.filter(b => b.status === 'available' && b.start_time.startsWith(dateKey));
-        manualGaps.forEach(gap => {
-          const gapStartMs = parseISO(gap.start_time).getTime();
-          const gapEndMs = parseISO(gap.end_time).getTime();
-          let currentPointerMs = gapStartMs;
-          while (currentPointerMs + durationMs <= gapEndMs && slots.length < 5) {
-            const endPointerMs = currentPointerMs + durationMs;
-            const isClashing = busyPeriods.some(busy => currentPointerMs < busy.end && endPointerMs > busy.start);
-            if (currentPointerMs >= minStartTimeMs && currentPointerMs <= maxStartTimeMs && !isClashing) {
-              slots.push({ id: `gap-${gap.id}-${currentPointerMs}`, start_time: new Date(currentPointerMs).toISOString(), end_time: new Date(endPointerMs).toISOString() });
-            }
-            currentPointerMs += intervalMs;
-          }
-        });
-      } else {
-        const dayOfWeek = day.getDay().toString();
-        const dayConfig = instructor.working_hours?.[dayOfWeek];
-        if (dayConfig?.active) {
-          const parseTime = (t: any) => {
-            if (typeof t === 'number') return [t, 0];
-            const parts = (t || "09:00").split(':').map(Number);
-            return parts.length === 2 ? parts : [9, 0];
-          };
-          const [startH, startM] = parseTime(dayConfig.start);
-          const [endH, endM] = parseTime(dayConfig.end);
-          const dayStartMs = setMinutes(setHours(startOfDay(day), startH), startM).getTime();
-          const dayEndMs = setMinutes(setHours(startOfDay(day), endH), endM).getTime();
-
-          let currentPointerMs = dayStartMs;
-          while (currentPointerMs + durationMs <= dayEndMs && slots.length < 5) {
-            const endPointerMs = currentPointerMs + durationMs;
-            const isClashing = busyPeriods.some(busy => currentPointerMs < busy.end && endPointerMs > busy.start);
-            if (currentPointerMs >= minStartTimeMs && currentPointerMs <= maxStartTimeMs && !isClashing) {
-              slots.push({ id: `gen-${currentPointerMs}`, start_time: new Date(currentPointerMs).toISOString(), end_time: new Date(endPointerMs).toISOString() });
-            }
-            currentPointerMs += intervalMs;
-          }
-        }
-      }
-      if (slots.length >= 5) break;
+    const slots: GeneratedSlot[] = [];
+
+    for (let i = 0; i < daysToSearch && slots.length < maxSlots; i++) {
+      slots.push(...getSlotsForDay({
+        day: addDays(startOfDay(new Date()), i),
+        settings: instructor,
+        busyByDay,
+        gapsByDay,
+        unavailability: blockedDays,
+        durationMins: 60, // Default to 1 hour for dashboard preview
+        limit: maxSlots - slots.length,
+        overrides: hoursOverrides
+      }));
     }
     return slots;
-  }, [instructor, student, allInstructorBookings]);
+  }, [instructor, student, allInstructorBookings, externalBusy, waitlistHolds, slotHolds, unavailability, hoursOverrides, timeZone]);
 
   // 6. Get Messages
   const { data: directMessages = [] } = useQuery({
@@ -303,31 +323,25 @@ const StudentDashboard: React.FC = () => {
     if (!error) queryClient.invalidateQueries({ queryKey: ['student-notifications'] });
   };
 
-  const handleBookSlot = async (slot: any) => {
+  const handleBookSlot = async (slot: GeneratedSlot) => {
     if (!student || !instructor) return;
     setIsBooking(slot.id);
     try {
       const requireApproval = instructor.require_booking_approval ?? false;
-      const newStatus = requireApproval ? "pending_approval" : "scheduled";
-      const displayTitle = requireApproval ? `${student.name} - Pending Approval` : `${student.name} - Driving lesson`;
-
-      // Always use insert for student bookings to ensure clean records
-      const { error } = await supabase.from("bookings").insert({ 
-        user_id: student.user_id,
-        student_id: student.id, 
-        status: newStatus, 
-        title: displayTitle, 
-        lesson_type: "Driving lesson",
-        start_time: slot.start_time,
-        end_time: slot.end_time
-      });
-      
-      if (error) throw error;
+      // The RPC re-validates the slot and claims it atomically, so a slot taken since the dashboard loaded is rejected
+      const { error } = await supabase.rpc("claim_booking_slot", { p_start_time: slot.start_time, p_end_time: slot.end_time, p_lesson_type: "Driving lesson" });
+      if (error) {
+        queryClient.invalidateQueries({ queryKey: ['instructor-all-bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['instructor-busy-blocks'] });
+        queryClient.invalidateQueries({ queryKey: ['waitlist-holds'] });
+        queryClient.invalidateQueries({ queryKey: ['slot-holds'] });
+        throw error;
+      }
 
       await supabase.from("notifications").insert({
         user_id: student.user_id,
         title: requireApproval ? "New Booking Request!" : "New Lesson Booked!",
-        message: `${student.name} has ${requireApproval ? 'requested' : 'booked'} the slot on ${format(parseISO(slot.start_time), "PPP p")}.`,
+        message: `${student.name} has ${requireApproval ? 'requested' : 'booked'} the slot on ${formatInTimeZone(slot.start_time, timeZone, "PPP p")}.`,
         type: "booking_claimed"
       });
 
@@ -345,10 +359,30 @@ const StudentDashboard: React.FC = () => {
     return bookings.find(b => b.status === 'scheduled' && isAfter(parseISO(b.start_time), new Date()));
   }, [bookings]);
 
+  // Upcoming lessons and plain requests the student can manage; move requests are shown against the lesson they'd replace
+  const upcomingLessons = useMemo(() => {
+    const now = new Date();
+    return bookings
+      .filter(b => (b.status === 'scheduled' || (b.status === 'pending_approval' && !b.reschedule_of)) && isAfter(parseISO(b.start_time), now))
+      .sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime());
+  }, [bookings]);
+
+  const moveRequestsByLesson = useMemo(() => {
+    const map = new Map<string, Booking>();
+    bookings.filter(b => b.status === 'pending_approval' && b.reschedule_of).forEach(b => map.set(b.reschedule_of!, b));
+    return map;
+  }, [bookings]);
+
+  const handleLessonCancelled = () => {
+    setBookingToCancel(null);
+    queryClient.invalidateQueries({ queryKey: ['student-bookings'] });
+    queryClient.invalidateQueries({ queryKey: ['instructor-all-bookings'] });
+  };
+
   const bookingActivity = useMemo(() => {
     const activity: any[] = [];
     bookings.filter(b => b.status === 'pending_approval' && isAfter(parseISO(b.start_time), new Date())).forEach(b => {
-      activity.push({ id: b.id, start_time: b.start_time, status: b.status, type: 'pending', title: "Pending Approval" });
+      activity.push({ id: b.id, start_time: b.start_time, status: b.status, type: 'pending', title: b.reschedule_of ? "Move Requested" : "Pending Approval" });
     });
     notifications.filter(n => !n.read).forEach(n => {
       if (n.type === 'booking_confirmed' || n.type === 'booking_rejected') {
@@ -450,7 +484,7 @@ const StudentDashboard: React.FC = () => {
                       const duration = differenceInMinutes(parseISO(slot.end_time), start) / 60;
                       return (
                         <div key={slot.id} className="p-4 flex items-center justify-between hover:bg-blue-50 transition-colors">
-                          <div className="space-y-1"><p className="font-bold text-sm">{format(start, "EEEE, MMM do")}</p><p className="text-xs text-muted-foreground flex items-center gap-2"><Clock className="h-3 w-3" />{format(start, "p")} ({duration.toFixed(1)}h)</p></div>
+                          <div className="space-y-1"><p className="font-bold text-sm">{formatInTimeZone(start, timeZone, "EEEE, MMM do")}</p><p className="text-xs text-muted-foreground flex items-center gap-2"><Clock className="h-3 w-3" />{formatInTimeZone(start, timeZone, "p")} ({duration.toFixed(1)}h)</p></div>
                           <Button size="sm" className={cn("font-bold", instructor?.require_booking_approval ? "bg-orange-600 hover:bg-orange-700" : "bg-blue-600 hover:bg-blue-700")} onClick={() => handleBookSlot(slot)} disabled={isBooking === slot.id}>{isBooking === slot.id ? "Booking..." : instructor?.require_booking_approval ? <><ClipboardCheck className="mr-1 h-4 w-4" /> Request</> : <><Plus className="mr-1 h-4 w-4" /> Book</>}</Button>
                         </div>
                       );
@@ -465,6 +499,65 @@ const StudentDashboard: React.FC = () => {
               </CardFooter>
             </Card>
           </div>
+
+          {student && <GroupSessionsCard instructorId={student.user_id} studentName={student.name} timeZone={timeZone} />}
+
+          {student && instructor?.stripe_charges_enabled && <StudentPaymentsCard instructorId={student.user_id} timeZone={timeZone} />}
+
+          {student && <StudentLedgerCard studentId={student.id} readOnly />}
+
+          {student && <InvoicesCard studentId={student.id} />}
+
+          {upcomingLessons.length > 0 && (
+            <Card className="shadow-md border-none overflow-hidden">
+              <CardHeader className="bg-muted/50 border-b">
+                <CardTitle className="text-lg font-bold flex items-center gap-2"><CalendarClock className="h-5 w-5 text-primary/60" /> Your Upcoming Lessons</CardTitle>
+                <CardDescription className="text-xs font-medium">Need to change something? Ask to move a lesson or cancel it here.</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="divide-y">
+                  {upcomingLessons.map((lesson) => {
+                    const moveRequest = moveRequestsByLesson.get(lesson.id);
+                    const isRequest = lesson.status === 'pending_approval';
+                    return (
+                      <div key={lesson.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div className="space-y-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <p className="font-bold text-sm">{format(parseISO(lesson.start_time), "EEEE, MMM do")}</p>
+                            {isRequest && <Badge variant="outline" className="text-[9px] font-black uppercase px-1.5 h-4 text-orange-600 border-orange-200">Pending</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground flex items-center gap-2"><Clock className="h-3 w-3" />{format(parseISO(lesson.start_time), "p")} — {format(parseISO(lesson.end_time), "p")}</p>
+                          {moveRequest && (
+                            <p className="text-[11px] font-bold text-orange-600 flex items-center gap-1.5">
+                              <MoveRight className="h-3 w-3" /> Move to {format(parseISO(moveRequest.start_time), "EEE, MMM do 'at' p")} awaiting approval
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {isRequest ? (
+                            <Button size="sm" variant="outline" className="font-bold" onClick={() => setBookingToCancel(lesson)}>Withdraw</Button>
+                          ) : (
+                            <>
+                              {moveRequest ? (
+                                <Button size="sm" variant="outline" className="font-bold" onClick={() => setBookingToCancel(moveRequest)}>Withdraw Move</Button>
+                              ) : (
+                                <Button asChild size="sm" variant="outline" className="font-bold">
+                                  <Link to={`/available-slots?reschedule=${lesson.id}`}><MoveRight className="mr-1 h-4 w-4" /> Reschedule</Link>
+                                </Button>
+                              )}
+                              <Button size="sm" variant="ghost" className="font-bold text-destructive hover:text-destructive hover:bg-destructive/5" onClick={() => setBookingToCancel(lesson)}>
+                                <XCircle className="mr-1 h-4 w-4" /> Cancel
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="messages" className="animate-in fade-in duration-300">
@@ -504,6 +597,17 @@ const StudentDashboard: React.FC = () => {
           </Card>
         </TabsContent>
       </Tabs>
+
+      {student && (
+        <StudentCancelLessonDialog
+          booking={bookingToCancel}
+          policy={instructor}
+          instructorId={student.user_id}
+          studentName={student.name}
+          onOpenChange={(open) => !open && setBookingToCancel(null)}
+          onCancelled={handleLessonCancelled}
+        />
+      )}
     </div>
   );
 };
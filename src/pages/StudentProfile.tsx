@@ -70,6 +70,13 @@ import StarRatingInput from "@/components/StarRatingInput";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import MessageConversation from "@/components/MessageConversation";
+import CancelLessonDialog from "@/components/CancelLessonDialog";
+import CancellationChargesCard from "@/components/CancellationChargesCard";
+import PickupLocationsCard from "@/components/PickupLocationsCard";
+import InvoicesCard from "@/components/InvoicesCard";
+import StudentLedgerCard from "@/components/StudentLedgerCard";
+import IssueInvoiceButton from "@/components/IssueInvoiceButton";
+import { useQueryClient } from "@tanstack/react-query";
 
 interface Student {
   id: string;
@@ -133,6 +140,7 @@ const StudentProfile: React.FC = () => {
   const { studentId } = useParams<{ studentId: string }>();
   const { user, isLoading: isSessionLoading } = useSession();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const isMobile = useIsMobile();
   
   const [student, setStudent] = useState<Student | null>(null);
@@ -150,6 +158,7 @@ const StudentProfile: React.FC = () => {
   const [isEnableLoginDialogOpen, setIsEnableLoginDialogOpen] = useState(false);
   const [activeLessonView, setActiveLessonView] = useState<'future' | 'past'>('future');
   const [expandedLessonId, setExpandedLessonId] = useState<string | null>(null);
+  const [bookingToCancel, setBookingToCancel] = useState<{ id: string; start_time: string } | null>(null);
   
   const [savingTopicId, setSavingTopicId] = useState<string | null>(null);
   const [expandedTopicId, setExpandedTopicId] = useState<string | null>(null);
@@ -316,18 +325,10 @@ const StudentProfile: React.FC = () => {
     }
   };
 
-  const handleCancelLesson = async (bookingId: string) => {
-    const { error } = await supabase
-      .from("bookings")
-      .update({ status: 'cancelled' })
-      .eq("id", bookingId);
-
-    if (error) {
-      showError("Failed to cancel lesson: " + error.message);
-    } else {
-      showSuccess("Lesson cancelled.");
-      fetchData();
-    }
+  const handleLessonCancelled = () => {
+    setBookingToCancel(null);
+    queryClient.invalidateQueries({ queryKey: ['cancellation-charges'] });
+    fetchData();
   };
 
   const handleMarkAsCompleted = async (booking: Booking) => {
@@ -618,9 +619,10 @@ const StudentProfile: React.FC = () => {
       </div>
 
       <Tabs defaultValue="summary" className="w-full">
-        <TabsList className="grid w-full grid-cols-5 h-12">
+        <TabsList className="grid w-full grid-cols-6 h-12">
           <TabsTrigger value="summary" className="font-bold">Summary</TabsTrigger>
           <TabsTrigger value="lessons" className="font-bold">Lessons</TabsTrigger>
+          <TabsTrigger value="account" className="font-bold">Account</TabsTrigger>
           <TabsTrigger value="progress" className="font-bold">Progress</TabsTrigger>
           <TabsTrigger value="messages" className="font-bold">Messages</TabsTrigger>
           <TabsTrigger value="self" className="font-bold">Self</TabsTrigger>
@@ -678,6 +680,10 @@ const StudentProfile: React.FC = () => {
             </Card>
           </div>
 
+          <PickupLocationsCard studentId={student.id} defaultAddress={student.full_address} />
+
+          <InvoicesCard studentId={student.id} canIssue />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg flex items-center">
@@ -741,6 +747,8 @@ const StudentProfile: React.FC = () => {
             <SummaryCards />
           </div>
 
+          {studentId && <CancellationChargesCard studentId={studentId} onChanged={fetchData} />}
+
           <div className="flex gap-2 p-1 bg-muted rounded-lg w-fit mx-auto">
             <Button 
               variant={activeLessonView === 'future' ? 'default' : 'ghost'} 
@@ -830,7 +838,7 @@ const StudentProfile: React.FC = () => {
                               <Button 
                                 variant="outline" 
                                 className="text-destructive hover:text-destructive hover:bg-destructive/5 font-bold"
-                                onClick={() => handleCancelLesson(booking.id)}
+                                onClick={() => setBookingToCancel(booking)}
                               >
                                 <Ban className="mr-2 h-4 w-4" /> Cancel
                               </Button>
@@ -872,9 +880,14 @@ const StudentProfile: React.FC = () => {
                           <p className="font-medium">{format(new Date(booking.start_time), "MMM do, yyyy")}</p>
                           <p className="text-xs text-muted-foreground">{booking.lesson_type}</p>
                         </div>
-                        <Badge variant={booking.status === 'completed' ? 'default' : 'secondary'} className="capitalize">
-                          {booking.status}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          {booking.status !== 'cancelled' && !booking.is_covered && (
+                            <IssueInvoiceButton sourceType="booking" sourceId={booking.id} kind={booking.is_paid ? "receipt" : "invoice"} />
+                          )}
+                          <Badge variant={booking.status === 'completed' ? 'default' : 'secondary'} className="capitalize">
+                            {booking.status}
+                          </Badge>
+                        </div>
                       </CardContent>
                     </Card>
                   ))}
@@ -884,6 +897,10 @@ const StudentProfile: React.FC = () => {
           )}
         </TabsContent>
 
+        <TabsContent value="account" className="mt-6 space-y-6">
+          <StudentLedgerCard studentId={student.id} />
+        </TabsContent>
+
         <TabsContent value="progress" className="mt-6 space-y-6">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-card p-4 rounded-xl border shadow-sm">
             <div className="flex-1 min-w-0">
@@ -1161,6 +1178,12 @@ const StudentProfile: React.FC = () => {
         </TabsContent>
       </Tabs>
 
+      <CancelLessonDialog
+        booking={bookingToCancel}
+        onOpenChange={(open) => !open && setBookingToCancel(null)}
+        onCancelled={handleLessonCancelled}
+      />
+
       <div className={cn(
         "fixed z-50",
         isMobile ? "bottom-40 right-6" : "bottom-24 right-10"
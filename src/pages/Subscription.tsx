@@ -56,7 +56,23 @@ const Subscription: React.FC = () => {
     
     setIsActivating(true);
     try {
-      // 1. Record the claim for owner verification
+      // The payment webhook usually activates the account before the user gets back here
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("subscription_status")
+        .eq("id", user.id)
+        .single();
+
+      if (profile?.subscription_status === 'active' || profile?.subscription_status === 'lifetime') {
+        showSuccess("Pro features activated! Welcome back.");
+        await refreshProfile();
+        setTimeout(() => {
+          navigate("/", { replace: true });
+        }, 2000);
+        return;
+      }
+
+      // Fallback: 1. Record the claim for owner verification (approved automatically if a webhook confirms it later)
       await supabase
         .from("subscription_claims")
         .upsert({
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { expandTemplate } from "@/utils/availability-templates";
+
+const LONG_BEFORE = new Date("2026-01-01T00:00:00Z");
+
+describe("expandTemplate", () => {
+  it("reads slot times in the instructor's zone across the clocks changing", () => {
+    // Saturday 28 and Sunday 29 March 2026, with a 09:00 slot on both days
+    const slots = [6, 0].map(weekday => ({ weekday, start: "09:00", duration_mins: 60 }));
+    expect(expandTemplate(slots, new Date(2026, 2, 28), new Date(2026, 2, 29), "Europe/London", LONG_BEFORE)).toEqual([
+      { start: new Date("2026-03-28T09:00:00Z"), end: new Date("2026-03-28T10:00:00Z") },
+      { start: new Date("2026-03-29T08:00:00Z"), end: new Date("2026-03-29T09:00:00Z") },
+    ]);
+  });
+
+  it("uses the instructor's zone rather than the browser's", () => {
+    const slots = [{ weekday: 1, start: "09:00", duration_mins: 30 }];
+    expect(expandTemplate(slots, new Date(2026, 0, 5), new Date(2026, 0, 5), "America/New_York", LONG_BEFORE).map(r => r.start))
+      .toEqual([new Date("2026-01-05T14:00:00Z")]);
+  });
+
+  it("leaves out slots already in the past", () => {
+    const slots = [{ weekday: 1, start: "09:00", duration_mins: 60 }, { weekday: 1, start: "14:00", duration_mins: 60 }];
+    expect(expandTemplate(slots, new Date(2026, 0, 5), new Date(2026, 0, 5), "Europe/London", new Date("2026-01-05T12:00:00Z")))
+      .toHaveLength(1);
+  });
+});
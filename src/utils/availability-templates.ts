@@ -0,0 +1,166 @@
+import { addDays, addMinutes, differenceInCalendarDays, format, getDay, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { BookingRange, checkBookingConflicts } from "@/utils/booking-conflicts";
+import { resolveTimeZone, zonedTimeToUtc } from "@/utils/time-zone";
+
+/**
+ * One slot in a template week. weekday uses date-fns day numbers (0 = Sunday), start is "HH:mm".
+ */
+export interface TemplateSlot {
+  weekday: number;
+  start: string;
+  duration_mins: number;
+}
+
+export interface AvailabilityTemplate {
+  id: string;
+  name: string;
+  slots: TemplateSlot[];
+}
+
+export interface TemplateRun {
+  id: string;
+  template_name: string;
+  start_date: string;
+  end_date: string;
+  slots_created: number;
+  slots_skipped: number;
+  undone_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Longest range a template can be applied to in one go
+ */
+export const MAX_TEMPLATE_RANGE_DAYS = 91;
+
+export const fetchAvailabilityTemplates = async (instructorId: string) => {
+  const { data, error } = await supabase
+    .from("availability_templates")
+    .select("id, name, slots")
+    .eq("user_id", instructorId)
+    .order("name", { ascending: true });
+  if (error) throw error;
+  return (data || []) as AvailabilityTemplate[];
+};
+
+export const fetchTemplateRuns = async (instructorId: string) => {
+  const { data, error } = await supabase
+    .from("availability_template_runs")
+    .select("id, template_name, start_date, end_date, slots_created, slots_skipped, undone_at, created_at")
+    .eq("user_id", instructorId)
+    .order("created_at", { ascending: false })
+    .limit(10);
+  if (error) throw error;
+  return (data || []) as TemplateRun[];
+};
+
+/**
+ * The template's slots laid over every day from..to (inclusive), leaving out any already in the past.
+ * from and to are calendar days; slot times are read in the instructor's zone.
+ */
+export const expandTemplate = (slots: TemplateSlot[], from: Date, to: Date, timeZone: string, now = new Date()): BookingRange[] => {
+  const ranges: BookingRange[] = [];
+  const days = differenceInCalendarDays(to, from);
+
+  for (let i = 0; i <= days; i++) {
+    const day = addDays(startOfDay(from), i);
+    const dateKey = format(day, "yyyy-MM-dd");
+    slots
+      .filter(slot => slot.weekday === getDay(day))
+      .forEach(slot => {
+        const [hours, minutes] = slot.start.split(":").map(Number);
+        const start = zonedTimeToUtc(dateKey, hours, minutes, timeZone);
+        if (start > now) ranges.push({ start, end: addMinutes(start, slot.duration_mins) });
+      });
+  }
+
+  return ranges.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Creates the template's available slots over the range as one undoable batch. Slots that clash
+ * with lessons, days off, calendar events, the instructor's buffer or an existing available slot are skipped.
+ */
+export const applyAvailabilityTemplate = async (instructorId: string, template: AvailabilityTemplate, from: Date, to: Date) => {
+  const { data: profile } = await supabase.from("profiles").select("time_zone").eq("id", instructorId).single();
+  const ranges = expandTemplate(template.slots, from, to, resolveTimeZone(profile?.time_zone));
+  if (ranges.length === 0) return { created: 0, skipped: 0 };
+
+  const [conflicts, { data: existingGaps, error: gapsError }] = await Promise.all([
+    checkBookingConflicts(instructorId, ranges),
+    supabase
+      .from("bookings")
+      .select("start_time, end_time")
+      .eq("user_id", instructorId)
+      .eq("status", "available")
+      .lt("start_time", ranges[ranges.length - 1].end.toISOString())
+      .gt("end_time", ranges[0].start.toISOString())
+  ]);
+  if (gapsError) throw gapsError;
+
+  const clear = ranges.filter((range, i) =>
+    conflicts[i].length === 0 &&
+    !(existingGaps || []).some(gap => range.start < new Date(gap.end_time) && range.end > new Date(gap.start_time))
+  );
+  const skipped = ranges.length - clear.length;
+  if (clear.length === 0) return { created: 0, skipped };
+
+  const { data: run, error: runError } = await supabase
+    .from("availability_template_runs")
+    .insert({
+      user_id: instructorId,
+      template_id: template.id,
+      template_name: template.name,
+      start_date: format(from, "yyyy-MM-dd"),
+      end_date: format(to, "yyyy-MM-dd"),
+      slots_created: clear.length,
+      slots_skipped: skipped,
+    })
+    .select("id")
+    .single();
+  if (runError) throw runError;
+
+  const { error } = await supabase.from("bookings").insert(clear.map(range => ({
+    user_id: instructorId,
+    student_id: null,
+    title: "Available Slot",
+    lesson_type: "Availability",
+    start_time: range.start.toISOString(),
+    end_time: range.end.toISOString(),
+    status: "available",
+    template_run_id: run.id,
+  })));
+  if (error) {
+    await supabase.from("availability_template_runs").delete().eq("id", run.id);
+    throw error;
+  }
+
+  return { created: clear.length, skipped };
+};
+
+/**
+ * Removes a batch's slots that are still available. Any a student has booked or requested since are kept.
+ */
+export const undoTemplateRun = async (runId: string) => {
+  const { data: removed, error } = await supabase
+    .from("bookings")
+    .delete()
+    .eq("template_run_id", runId)
+    .eq("status", "available")
+    .select("id");
+  if (error) throw error;
+
+  const { count: kept } = await supabase
+    .from("bookings")
+    .select("id", { count: "exact", head: true })
+    .eq("template_run_id", runId);
+
+  const { error: runError } = await supabase
+    .from("availability_template_runs")
+    .update({ undone_at: new Date().toISOString() })
+    .eq("id", runId);
+  if (runError) throw runError;
+
+  return { removed: (removed || []).length, kept: kept || 0 };
+};
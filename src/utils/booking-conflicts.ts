@@ -0,0 +1,100 @@
+import { addMinutes } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { ExternalBusyBlock, getAllDayUnavailability, isDayUnavailable, UnavailablePeriod } from "@/utils/slot-engine";
+import { formatInTimeZone, resolveTimeZone } from "@/utils/time-zone";
+
+export interface BookingRange {
+  start: Date;
+  end: Date;
+}
+
+export interface BookingConflict {
+  kind: "overlap" | "buffer" | "unavailable" | "calendar";
+  message: string;
+}
+
+interface ExistingBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+  title: string | null;
+  students?: { name: string } | null;
+}
+
+const formatRange = (start: Date, end: Date, timeZone: string) =>
+  `${formatInTimeZone(start, timeZone, "HH:mm")}–${formatInTimeZone(end, timeZone, "HH:mm")}`;
+
+/**
+ * Checks proposed lesson times against the instructor's other bookings (including their
+ * buffer), days off and synced calendar events. Returns one list of clashes per range;
+ * an empty list means that range is clear.
+ */
+export const checkBookingConflicts = async (
+  instructorId: string,
+  ranges: BookingRange[],
+  excludeBookingIds: string[] = []
+): Promise<BookingConflict[][]> => {
+  if (ranges.length === 0) return [];
+
+  const { data: profile } = await supabase.from("profiles").select("booking_buffer_mins, time_zone").eq("id", instructorId).single();
+  const bufferMins = profile?.booking_buffer_mins || 0;
+  const timeZone = resolveTimeZone(profile?.time_zone);
+
+  const earliest = addMinutes(new Date(Math.min(...ranges.map(r => r.start.getTime()))), -bufferMins);
+  const latest = addMinutes(new Date(Math.max(...ranges.map(r => r.end.getTime()))), bufferMins);
+
+  const [{ data: bookings, error }, { data: unavailability }, { data: external }] = await Promise.all([
+    supabase
+      .from("bookings")
+      .select("id, start_time, end_time, title, students(name)")
+      .eq("user_id", instructorId)
+      .not("status", "in", "(cancelled,available)")
+      .lt("start_time", latest.toISOString())
+      .gt("end_time", earliest.toISOString()),
+    supabase
+      .from("instructor_unavailability")
+      .select("start_date, end_date")
+      .eq("user_id", instructorId)
+      .lte("start_date", formatInTimeZone(latest, timeZone, "yyyy-MM-dd"))
+      .gte("end_date", formatInTimeZone(earliest, timeZone, "yyyy-MM-dd")),
+    supabase.rpc("get_instructor_busy_blocks", {
+      p_instructor_id: instructorId,
+      p_start: earliest.toISOString(),
+      p_end: latest.toISOString()
+    })
+  ]);
+  if (error) throw error;
+
+  const others = ((bookings || []) as unknown as ExistingBooking[]).filter(b => !excludeBookingIds.includes(b.id));
+  const externalBusy = (external || []) as ExternalBusyBlock[];
+  const daysOff: UnavailablePeriod[] = [...(unavailability || []), ...getAllDayUnavailability(externalBusy)];
+
+  return ranges.map(({ start, end }) => {
+    const conflicts: BookingConflict[] = [];
+
+    if (isDayUnavailable(start, daysOff, timeZone)) {
+      conflicts.push({ kind: "unavailable", message: `You've marked ${formatInTimeZone(start, timeZone, "EEE d MMM")} as unavailable.` });
+    }
+
+    others.forEach(other => {
+      const otherStart = new Date(other.start_time);
+      const otherEnd = new Date(other.end_time);
+      const label = other.students?.name || other.title || "another booking";
+      if (start < otherEnd && end > otherStart) {
+        conflicts.push({ kind: "overlap", message: `Overlaps ${label} (${formatRange(otherStart, otherEnd, timeZone)}).` });
+      } else if (bufferMins > 0 && start < addMinutes(otherEnd, bufferMins) && end > addMinutes(otherStart, -bufferMins)) {
+        conflicts.push({ kind: "buffer", message: `Less than your ${bufferMins} min buffer from ${label} (${formatRange(otherStart, otherEnd, timeZone)}).` });
+      }
+    });
+
+    externalBusy.filter(block => !block.is_all_day).forEach(block => {
+      const blockStart = new Date(block.start_time);
+      const blockEnd = new Date(block.end_time);
+      if (start < blockEnd && end > blockStart) {
+        conflicts.push({ kind: "calendar", message: `Clashes with a calendar event (${formatRange(blockStart, blockEnd, timeZone)}).` });
+      }
+    });
+
+    return conflicts;
+  });
+};
@@ -0,0 +1,177 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export type BookingEventAction = "insert" | "update" | "delete" | "restore";
+
+/**
+ * A bookings row as it was logged
+ */
+export interface BookingSnapshot {
+  start_time: string;
+  status: string;
+  student_id: string | null;
+  title: string | null;
+  lesson_type: string;
+  [field: string]: unknown;
+}
+
+export interface BookingEvent {
+  id: string;
+  booking_id: string;
+  actor_id: string | null;
+  action: BookingEventAction;
+  old_data: BookingSnapshot | null;
+  new_data: BookingSnapshot | null;
+  changed_fields: string[];
+  created_at: string;
+}
+
+export interface BookingEventChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  start_time: "Start",
+  end_time: "End",
+  status: "Status",
+  student_id: "Student",
+  lesson_type: "Lesson type",
+  title: "Title",
+  description: "Notes",
+  is_paid: "Paid",
+  pickup_address: "Pickup",
+  pickup_postcode: "Pickup postcode",
+  targets_for_next_session: "Targets",
+  needs_review: "Held for review",
+  series_id: "Series",
+};
+
+const ACTION_LABELS: Record<BookingEventAction, string> = {
+  insert: "Created",
+  update: "Changed",
+  delete: "Deleted",
+  restore: "Restored",
+};
+
+const formatValue = (field: string, value: unknown, studentNames: Record<string, string>) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "start_time" || field === "end_time") return format(parseISO(String(value)), "EEE d MMM, HH:mm");
+  if (field === "student_id") return studentNames[String(value)] || "Unknown student";
+  if (field === "series_id") return "Linked";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+export const describeAction = (event: BookingEvent) =>
+  event.action === "restore" && event.old_data ? "Change undone" : ACTION_LABELS[event.action];
+
+/**
+ * The fields an update changed, old and new, leaving out internal columns
+ */
+export const describeChanges = (event: BookingEvent, studentNames: Record<string, string>): BookingEventChange[] =>
+  event.changed_fields
+    .filter(field => FIELD_LABELS[field])
+    .map(field => ({
+      label: FIELD_LABELS[field],
+      from: formatValue(field, event.old_data?.[field], studentNames),
+      to: formatValue(field, event.new_data?.[field], studentNames),
+    }));
+
+/**
+ * Labels of the fields an update touched that have been changed again since, which undoing it would overwrite
+ */
+export const laterEditsTo = (event: BookingEvent, events: BookingEvent[]) => {
+  const overwritten = new Set<string>();
+  events
+    .filter(later => later.id !== event.id && later.created_at > event.created_at && later.action !== "insert")
+    .forEach(later => later.changed_fields.forEach(field => {
+      if (event.changed_fields.includes(field) && FIELD_LABELS[field]) overwritten.add(FIELD_LABELS[field]);
+    }));
+  return Array.from(overwritten);
+};
+
+/**
+ * Who made a change, from the instructor's point of view
+ */
+export const describeActor = (actorId: string | null, instructorId: string, actorNames: Record<string, string>) => {
+  if (!actorId) return "Automatic";
+  if (actorId === instructorId) return "You";
+  return actorNames[actorId] || "Someone else";
+};
+
+/**
+ * Names for the students an event mentions or was made by, keyed by student id and by login id
+ */
+const fetchNames = async (events: BookingEvent[]) => {
+  const studentIds = new Set<string>();
+  const actorIds = new Set<string>();
+  events.forEach(event => {
+    [event.old_data?.student_id, event.new_data?.student_id].forEach(id => id && studentIds.add(id));
+    if (event.actor_id) actorIds.add(event.actor_id);
+  });
+
+  const studentNames: Record<string, string> = {};
+  const actorNames: Record<string, string> = {};
+  if (studentIds.size === 0 && actorIds.size === 0) return { studentNames, actorNames };
+
+  const [{ data: byId }, { data: byLogin }] = await Promise.all([
+    supabase.from("students").select("id, name").in("id", Array.from(studentIds)),
+    supabase.from("students").select("auth_user_id, name").in("auth_user_id", Array.from(actorIds)),
+  ]);
+  (byId || []).forEach(s => { studentNames[s.id] = s.name; });
+  (byLogin || []).forEach(s => { actorNames[s.auth_user_id] = s.name; });
+  return { studentNames, actorNames };
+};
+
+/**
+ * Full history of one booking, newest first
+ */
+export const fetchBookingEvents = async (bookingId: string) => {
+  const { data, error } = await supabase
+    .from("booking_events")
+    .select("id, booking_id, actor_id, action, old_data, new_data, changed_fields, created_at")
+    .eq("booking_id", bookingId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  const events = (data || []) as BookingEvent[];
+  return { events, ...(await fetchNames(events)) };
+};
+
+/**
+ * Recent deletions whose booking hasn't been restored since
+ */
+export const fetchDeletedBookings = async (instructorId: string) => {
+  const { data, error } = await supabase
+    .from("booking_events")
+    .select("id, booking_id, actor_id, action, old_data, new_data, changed_fields, created_at")
+    .eq("instructor_id", instructorId)
+    .eq("action", "delete")
+    .order("created_at", { ascending: false })
+    .limit(50);
+  if (error) throw error;
+
+  const deletions = (data || []) as BookingEvent[];
+  if (deletions.length === 0) return { events: [], studentNames: {}, actorNames: {} };
+
+  const { data: existing } = await supabase
+    .from("bookings")
+    .select("id")
+    .in("id", deletions.map(e => e.booking_id));
+  const stillThere = new Set((existing || []).map(b => b.id));
+
+  // Only the latest deletion of each booking can be restored
+  const seen = new Set<string>();
+  const events = deletions.filter(event => {
+    if (stillThere.has(event.booking_id) || seen.has(event.booking_id)) return false;
+    seen.add(event.booking_id);
+    return true;
+  });
+  return { events, ...(await fetchNames(events)) };
+};
+
+export const restoreBookingEvent = async (eventId: string) => {
+  const { error } = await supabase.rpc("restore_booking_event", { p_event_id: eventId });
+  if (error) throw error;
+};
@@ -0,0 +1,49 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * A student's request to move a scheduled lesson. It is stored as a pending_approval booking
+ * whose reschedule_of points at the lesson it would replace, which keeps its slot until approved.
+ */
+export interface BookingMoveRequest {
+  id: string;
+  start_time: string;
+  reschedule_of: string;
+  original?: { start_time: string } | null;
+}
+
+export const MOVE_REQUEST_SELECT = "reschedule_of, original:bookings!reschedule_of(start_time)";
+
+const describeOriginal = (request: BookingMoveRequest) =>
+  request.original ? `Your lesson on ${format(parseISO(request.original.start_time), "PPP p")}` : "Your lesson";
+
+export const approveBookingMove = async (request: BookingMoveRequest, authUserId: string | null) => {
+  const { error } = await supabase.rpc("approve_booking_move", { p_request_id: request.id });
+  if (error) return error;
+
+  if (authUserId) {
+    await supabase.from("notifications").insert({
+      user_id: authUserId,
+      title: "Lesson Moved!",
+      message: `${describeOriginal(request)} has been moved to ${format(parseISO(request.start_time), "PPP p")}.`,
+      type: "booking_confirmed"
+    });
+  }
+  return null;
+};
+
+// Declining only drops the request; the original lesson is left as it was
+export const declineBookingMove = async (request: BookingMoveRequest, authUserId: string | null) => {
+  const { error } = await supabase.from("bookings").delete().eq("id", request.id);
+  if (error) return error;
+
+  if (authUserId) {
+    await supabase.from("notifications").insert({
+      user_id: authUserId,
+      title: "Move Request Declined",
+      message: `Your request to move to ${format(parseISO(request.start_time), "PPP p")} was not approved. Your original lesson is unchanged.`,
+      type: "booking_rejected"
+    });
+  }
+  return null;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { generateOccurrences } from "@/utils/booking-series";
+
+const starts = (start: string, count: number, timeZone: string, byDay: number[] = []) =>
+  generateOccurrences(new Date(start), 60, { interval: 1, byDay, count }, [], timeZone).map(o => o.start.toISOString());
+
+describe("generateOccurrences", () => {
+  it("keeps the wall-clock time in the instructor's zone when the clocks change", () => {
+    // Saturdays at 10:00 in London, either side of 29 March 2026
+    expect(starts("2026-03-21T10:00:00Z", 3, "Europe/London")).toEqual([
+      "2026-03-21T10:00:00.000Z",
+      "2026-03-28T10:00:00.000Z",
+      "2026-04-04T09:00:00.000Z",
+    ]);
+  });
+
+  it("reads the start day in the instructor's zone", () => {
+    // 23:30 on Monday 5 January in New York is already Tuesday in UTC
+    expect(starts("2026-01-06T04:30:00Z", 2, "America/New_York", [3])).toEqual([
+      "2026-01-06T04:30:00.000Z",
+      "2026-01-08T04:30:00.000Z",
+    ]);
+  });
+
+  it("leaves days off free without using up the count", () => {
+    const occurrences = generateOccurrences(
+      new Date("2026-01-05T10:00:00Z"), 60, { interval: 1, byDay: [], count: 2 },
+      [{ start_date: "2026-01-12", end_date: "2026-01-12" }], "Europe/London"
+    );
+    expect(occurrences.map(o => o.start.toISOString())).toEqual(["2026-01-05T10:00:00.000Z", "2026-01-19T10:00:00.000Z"]);
+  });
+});
@@ -0,0 +1,195 @@
+import { supabase } from "@/integrations/supabase/client";
+import { addDays, addMinutes, differenceInCalendarDays, differenceInMinutes, format, getDay, parseISO, startOfWeek } from "date-fns";
+import { isDayUnavailable, UnavailablePeriod } from "@/utils/slot-engine";
+import { BookingRange } from "@/utils/booking-conflicts";
+import { formatInTimeZone, getZonedDateKey, resolveTimeZone, zonedTimeToUtc } from "@/utils/time-zone";
+
+export type SeriesScope = "this" | "following" | "all";
+
+/**
+ * Weekly recurrence, stored on booking_series as an RRULE string.
+ * byDay uses date-fns day numbers (0 = Sunday), until is an inclusive "yyyy-MM-dd".
+ */
+export interface RecurrenceRule {
+  interval: number;
+  byDay: number[];
+  until?: string | null;
+  count?: number | null;
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+export interface SeriesBookingRef {
+  id: string;
+  series_id: string;
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * Fields every lesson in a series shares. Per-lesson fields (targets, paid, completed)
+ * only ever apply to the lesson being edited.
+ */
+export interface SeriesSharedFields {
+  student_id?: string | null;
+  title?: string;
+  description?: string | null;
+  lesson_type?: string;
+  status?: string;
+}
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Hard cap so a mistyped until date can't fill the diary for years
+ */
+export const MAX_SERIES_OCCURRENCES = 104;
+
+/**
+ * Monday-first ordering, matching the week view
+ */
+export const sortWeekdays = (days: number[]) => [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+
+export const toRRule = (rule: RecurrenceRule) => {
+  const parts = ["FREQ=WEEKLY", `INTERVAL=${Math.max(1, rule.interval)}`];
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${sortWeekdays(rule.byDay).map(d => RRULE_DAYS[d]).join(",")}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+};
+
+export const parseRRule = (rrule: string): RecurrenceRule => {
+  const rule: RecurrenceRule = { interval: 1, byDay: [] };
+  rrule.split(";").forEach(part => {
+    const [key, value = ""] = part.split("=");
+    if (key === "INTERVAL") rule.interval = parseInt(value, 10) || 1;
+    if (key === "BYDAY") rule.byDay = value.split(",").map(d => RRULE_DAYS.indexOf(d)).filter(d => d >= 0);
+    if (key === "UNTIL") rule.until = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+    if (key === "COUNT") rule.count = parseInt(value, 10) || null;
+  });
+  return rule;
+};
+
+/**
+ * Human readable summary, e.g. "Every week on Mon, Thu until 20 Dec 2024"
+ */
+export const describeRule = (rule: RecurrenceRule) => {
+  const every = rule.interval === 1 ? "Every week" : rule.interval === 2 ? "Every fortnight" : `Every ${rule.interval} weeks`;
+  const days = rule.byDay.length > 0 ? ` on ${sortWeekdays(rule.byDay).map(d => DAY_LABELS[d]).join(", ")}` : "";
+  const end = rule.until ? ` until ${format(parseISO(rule.until), "d MMM yyyy")}` : rule.count ? `, ${rule.count} lessons` : "";
+  return every + days + end;
+};
+
+/**
+ * Expands a rule into lesson times. The first lesson is always on the start date, and
+ * skipped days off don't use up the count, so "10 lessons" always books ten. Days and times
+ * are read in the instructor's zone, so a 10:00 lesson stays at 10:00 when the clocks change.
+ */
+export const generateOccurrences = (
+  start: Date,
+  durationMins: number,
+  rule: RecurrenceRule,
+  skip: UnavailablePeriod[],
+  timeZone: string
+): Occurrence[] => {
+  const startKey = getZonedDateKey(start, timeZone);
+  const startDay = parseISO(startKey);
+  const [hours, minutes] = formatInTimeZone(start, timeZone, "HH:mm").split(":").map(Number);
+  const days = sortWeekdays(Array.from(new Set([getDay(startDay), ...rule.byDay])));
+  const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const interval = Math.max(1, rule.interval);
+  const firstWeek = startOfWeek(startDay, { weekStartsOn: 1 });
+  const occurrences: Occurrence[] = [];
+
+  for (let week = 0; occurrences.length < limit && week <= MAX_SERIES_OCCURRENCES * interval; week += interval) {
+    for (const day of days) {
+      const date = addDays(firstWeek, week * 7 + (day + 6) % 7);
+      const dateKey = format(date, "yyyy-MM-dd");
+      if (rule.until && dateKey > rule.until) return occurrences;
+      if (dateKey < startKey || isDayUnavailable(date, skip)) continue;
+
+      const occurrenceStart = dateKey === startKey ? start : zonedTimeToUtc(dateKey, hours, minutes, timeZone);
+      occurrences.push({ start: occurrenceStart, end: addMinutes(occurrenceStart, durationMins) });
+      if (occurrences.length >= limit) break;
+    }
+  }
+  return occurrences;
+};
+
+/**
+ * Where moving a lesson takes every lesson in the edit's scope, mirroring apply_series_update, so the
+ * new times can be checked for clashes before saving. ids are every lesson that moves (the edited one
+ * first); ranges leave out cancelled lessons, which don't take up any time.
+ */
+export const fetchSeriesMoveRanges = async (
+  instructorId: string,
+  anchor: SeriesBookingRef,
+  scope: SeriesScope,
+  newStart: Date,
+  newEnd: Date
+): Promise<{ ids: string[]; ranges: BookingRange[] }> => {
+  const ranges: BookingRange[] = [{ start: newStart, end: newEnd }];
+  if (scope === "this") return { ids: [anchor.id], ranges };
+
+  const [{ data: profile }, { data: others, error }] = await Promise.all([
+    supabase.from("profiles").select("time_zone").eq("id", instructorId).single(),
+    supabase
+      .from("bookings")
+      .select("id, start_time, status")
+      .eq("series_id", anchor.series_id)
+      .neq("id", anchor.id)
+      .neq("status", "completed")
+      .gte("start_time", scope === "all" ? new Date().toISOString() : anchor.start_time)
+      .order("start_time", { ascending: true }),
+  ]);
+  if (error) throw error;
+
+  const timeZone = resolveTimeZone(profile?.time_zone);
+  const dayShift = differenceInCalendarDays(parseISO(getZonedDateKey(newStart, timeZone)), parseISO(getZonedDateKey(anchor.start_time, timeZone)));
+  const [hours, minutes] = formatInTimeZone(newStart, timeZone, "HH:mm").split(":").map(Number);
+  const durationMins = differenceInMinutes(newEnd, newStart);
+
+  (others || []).filter(b => b.status !== "cancelled").forEach(b => {
+    const dateKey = format(addDays(parseISO(getZonedDateKey(b.start_time, timeZone)), dayShift), "yyyy-MM-dd");
+    const start = zonedTimeToUtc(dateKey, hours, minutes, timeZone);
+    ranges.push({ start, end: addMinutes(start, durationMins) });
+  });
+  return { ids: [anchor.id, ...(others || []).map(b => b.id)], ranges };
+};
+
+/**
+ * Applies an edit to one lesson and, depending on scope, the rest of its series, in one transaction
+ * (apply_series_update in supabase_booking_series.sql). Moving a lesson moves every other lesson in
+ * scope by the same number of days and to the same new start time. Completed and past lessons are
+ * never rewritten.
+ */
+export const applySeriesUpdate = async (
+  anchor: SeriesBookingRef,
+  scope: SeriesScope,
+  newStart: Date,
+  newEnd: Date,
+  shared: SeriesSharedFields,
+  ownFields: Record<string, unknown>
+) => {
+  const { error } = await supabase.rpc("apply_series_update", {
+    p_booking_id: anchor.id,
+    p_scope: scope,
+    p_start_time: newStart.toISOString(),
+    p_end_time: newEnd.toISOString(),
+    p_shared: shared,
+    p_own: ownFields,
+  });
+  if (error) throw error;
+};
+
+/**
+ * Deletes one lesson, this and all following lessons, or every upcoming lesson in the series
+ */
+export const applySeriesDelete = async (anchor: SeriesBookingRef, scope: SeriesScope) => {
+  const { error } = await supabase.rpc("apply_series_delete", { p_booking_id: anchor.id, p_scope: scope });
+  if (error) throw error;
+};
@@ -0,0 +1,27 @@
+import { differenceInMinutes, parseISO } from "date-fns";
+
+export interface CancellationPolicySettings {
+  cancellation_policy_enabled?: boolean | null;
+  cancellation_cutoff_hours?: number | null;
+  cancellation_fee_type?: string | null;
+  cancellation_fee_amount?: number | null;
+  cancellation_grace_count?: number | null;
+}
+
+export const CANCELLATION_POLICY_COLUMNS =
+  "cancellation_policy_enabled, cancellation_cutoff_hours, cancellation_fee_type, cancellation_fee_amount, cancellation_grace_count";
+
+/**
+ * Whether cancelling now would fall inside the cutoff. The fee itself is raised
+ * server-side by the handle_late_cancellation trigger.
+ */
+export const isLateCancellation = (settings: CancellationPolicySettings | null | undefined, startTime: string | Date, now: Date = new Date()) => {
+  if (!settings?.cancellation_policy_enabled) return false;
+  const start = typeof startTime === "string" ? parseISO(startTime) : startTime;
+  return differenceInMinutes(start, now) < (settings.cancellation_cutoff_hours ?? 48) * 60;
+};
+
+export const describeCancellationFee = (settings: CancellationPolicySettings) =>
+  settings.cancellation_fee_type === "fixed"
+    ? `£${Number(settings.cancellation_fee_amount ?? 0).toFixed(2)}`
+    : `${settings.cancellation_fee_amount ?? 100}% of the lesson price`;
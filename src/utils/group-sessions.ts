@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Lesson type of a group session. Like "Availability" it's offered in the booking form but never
+ * stored in lesson_types; what makes a booking a group session is its capacity.
+ */
+export const GROUP_SESSION_TYPE = "Group Session";
+
+export type AttendeeStatus = "booked" | "attended" | "absent";
+export type AttendeePaymentStatus = "unpaid" | "paid" | "credit";
+
+export interface SessionAttendee {
+  id: string;
+  student_id: string;
+  status: AttendeeStatus;
+  payment_status: AttendeePaymentStatus;
+  amount: number;
+  hours_deducted: number;
+  students: { name: string } | null;
+}
+
+/**
+ * An upcoming session as a student sees it
+ */
+export interface GroupSession {
+  id: string;
+  title: string | null;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  attendee_price: number | null;
+  places_left: number;
+  is_signed_up: boolean;
+}
+
+export const ATTENDEE_STATUS_LABELS: Record<AttendeeStatus, string> = {
+  booked: "Booked",
+  attended: "Attended",
+  absent: "Absent",
+};
+
+export const fetchSessionAttendees = async (bookingId: string) => {
+  const { data, error } = await supabase
+    .from("booking_attendees")
+    .select("id, student_id, status, payment_status, amount, hours_deducted, students(name)")
+    .eq("booking_id", bookingId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as unknown as SessionAttendee[];
+};
+
+export const fetchGroupSessions = async (instructorId: string) => {
+  const { data, error } = await supabase.rpc("get_group_sessions", { p_instructor_id: instructorId });
+  if (error) throw error;
+  return (data || []) as GroupSession[];
+};
+
+export const joinGroupSession = async (bookingId: string) => {
+  const { error } = await supabase.rpc("join_group_session", { p_booking_id: bookingId });
+  if (error) throw error;
+};
+
+export const leaveGroupSession = async (bookingId: string) => {
+  const { error } = await supabase.rpc("leave_group_session", { p_booking_id: bookingId });
+  if (error) throw error;
+};
@@ -0,0 +1,100 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type InvoiceKind = "invoice" | "receipt";
+export type InvoiceSourceType = "booking" | "package" | "additional_income";
+
+export interface Invoice {
+  id: string;
+  user_id: string;
+  number: number;
+  kind: InvoiceKind;
+  source_type: InvoiceSourceType;
+  source_id: string;
+  student_id: string | null;
+  recipient_name: string;
+  recipient_email: string | null;
+  issue_date: string;
+  supply_date: string;
+  description: string;
+  quantity: number | null;
+  amount: number;
+  issuer: {
+    name: string | null;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    logo_url: string | null;
+    notes: string | null;
+  };
+  emailed_at: string | null;
+  created_at: string;
+}
+
+export const formatInvoiceNumber = (number: number) => number.toString().padStart(4, "0");
+
+export const invoiceTitle = (invoice: Pick<Invoice, "kind" | "number">) =>
+  `${invoice.kind === "receipt" ? "Receipt" : "Invoice"} ${formatInvoiceNumber(invoice.number)}`;
+
+/**
+ * Issues the next numbered invoice or receipt for a lesson, package or income item.
+ * Returns the existing one if it's already been issued.
+ */
+export const issueInvoice = async (
+  sourceType: InvoiceSourceType,
+  sourceId: string,
+  kind: InvoiceKind,
+  recipient?: { name?: string; email?: string }
+) => {
+  const { data, error } = await supabase.rpc("issue_invoice", {
+    p_source_type: sourceType,
+    p_source_id: sourceId,
+    p_kind: kind,
+    p_recipient_name: recipient?.name || null,
+    p_recipient_email: recipient?.email || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const fetchInvoice = async (invoiceId: string) => {
+  const { data, error } = await supabase.from("invoices").select("*").eq("id", invoiceId).single();
+  if (error) throw error;
+  return data as Invoice;
+};
+
+/**
+ * Invoices visible to the signed-in user, newest first: all of an instructor's, or a student's own
+ */
+export const fetchInvoices = async (filters: { studentId?: string } = {}) => {
+  let query = supabase.from("invoices").select("*").order("number", { ascending: false });
+  if (filters.studentId) query = query.eq("student_id", filters.studentId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as Invoice[];
+};
+
+/**
+ * Downloads the invoice as the same PDF that's emailed, logo included when it's a JPEG
+ */
+export const downloadInvoicePdf = async (invoice: Pick<Invoice, "id" | "kind" | "number">) => {
+  const { data, error } = await supabase.functions.invoke("send-invoice", { body: { invoiceId: invoice.id, download: true } });
+  if (error) throw error;
+  if (!(data instanceof Blob)) throw new Error(data?.error || "Couldn't create the PDF");
+
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${invoiceTitle(invoice).replace(" ", "-")}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Emails the invoice as a PDF, to its recipient unless another address is given
+ */
+export const emailInvoice = async (invoiceId: string, to?: string) => {
+  const { data, error } = await supabase.functions.invoke("send-invoice", { body: { invoiceId, to } });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data.sent as string;
+};
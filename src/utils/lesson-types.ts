@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface LessonType {
+  id: string;
+  name: string;
+  default_duration_mins: number;
+  price: number | null;
+  colour: string;
+  student_bookable: boolean;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface LessonRates {
+  rate_1h?: number | null;
+  rate_1_5h?: number | null;
+  rate_2h?: number | null;
+  hourly_rate?: number | null;
+}
+
+export const STANDARD_LESSON_TYPE = "Driving lesson";
+
+// Always available and never stored in lesson_types
+export const BUILT_IN_LESSON_TYPES = [STANDARD_LESSON_TYPE, "Driving Test", "Personal"];
+
+// Full class names so Tailwind keeps them; the built-in types already use orange, sky, yellow and purple
+export const LESSON_TYPE_COLOURS: Record<string, { label: string; className: string }> = {
+  teal: { label: "Teal", className: "bg-teal-600/80" },
+  indigo: { label: "Indigo", className: "bg-indigo-600/80" },
+  pink: { label: "Pink", className: "bg-pink-500/80" },
+  emerald: { label: "Emerald", className: "bg-emerald-700/80" },
+  amber: { label: "Amber", className: "bg-amber-600/80" },
+  cyan: { label: "Cyan", className: "bg-cyan-600/80" },
+  fuchsia: { label: "Fuchsia", className: "bg-fuchsia-600/80" },
+  slate: { label: "Slate", className: "bg-slate-600/80" },
+};
+
+export const SUGGESTED_LESSON_TYPES: Pick<LessonType, "name" | "default_duration_mins" | "colour">[] = [
+  { name: "Motorway Lesson", default_duration_mins: 120, colour: "indigo" },
+  { name: "Mock Test", default_duration_mins: 60, colour: "pink" },
+  { name: "Pass Plus", default_duration_mins: 120, colour: "emerald" },
+  { name: "Refresher Lesson", default_duration_mins: 90, colour: "amber" },
+  { name: "Automatic Lesson", default_duration_mins: 60, colour: "cyan" },
+];
+
+/**
+ * An instructor's lesson type catalogue in display order. Shared by every ['lesson-types', instructorId] query.
+ */
+export const fetchLessonTypes = async (instructorId: string) => {
+  const { data, error } = await supabase
+    .from("lesson_types")
+    .select("id, name, default_duration_mins, price, colour, student_bookable, sort_order, is_active")
+    .eq("user_id", instructorId)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+  if (error) throw error;
+  return (data || []) as LessonType[];
+};
+
+export const findLessonType = (types: LessonType[] | undefined, name: string | null | undefined) =>
+  name ? types?.find(type => type.name === name) ?? null : null;
+
+/**
+ * Types offered in the instructor's booking forms. The current value is kept even if
+ * its type has since been retired, so editing an old lesson doesn't lose it.
+ */
+export const lessonTypeNames = (types: LessonType[], current?: string | null) => {
+  const names = [...BUILT_IN_LESSON_TYPES, ...types.filter(type => type.is_active).map(type => type.name)];
+  return current && current !== "Availability" && !names.includes(current) ? [...names, current] : names;
+};
+
+export const lessonTypeColourClass = (type: LessonType) =>
+  (LESSON_TYPE_COLOURS[type.colour] || LESSON_TYPE_COLOURS.teal).className;
+
+/**
+ * Price of a lesson. A priced catalogue type is pro-rated from its default length; everything
+ * else uses the instructor's rates. Mirrors public.calculate_lesson_price.
+ */
+export const calculateLessonPrice = (durationHours: number, rates: LessonRates | null | undefined, lessonType?: LessonType | null) => {
+  if (lessonType?.price != null) {
+    return Math.round(lessonType.price * durationHours * 60 / lessonType.default_duration_mins * 100) / 100;
+  }
+  if (!rates) return 0;
+  if (durationHours === 1 && rates.rate_1h) return rates.rate_1h;
+  if (durationHours === 1.5 && rates.rate_1_5h) return rates.rate_1_5h;
+  if (durationHours === 2 && rates.rate_2h) return rates.rate_2h;
+  return durationHours * (rates.hourly_rate || 0);
+};
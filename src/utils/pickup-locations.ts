@@ -0,0 +1,25 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PickupLocation {
+  id: string;
+  label: string;
+  address: string | null;
+  postcode: string;
+  latitude: number | null;
+  longitude: number | null;
+  is_default: boolean;
+}
+
+/**
+ * A student's saved pickups, default first. Shared by every ['pickup-locations', studentId] query.
+ */
+export const fetchPickupLocations = async (studentId: string) => {
+  const { data, error } = await supabase
+    .from("student_pickup_locations")
+    .select("id, label, address, postcode, latitude, longitude, is_default")
+    .eq("student_id", studentId)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as PickupLocation[];
+};
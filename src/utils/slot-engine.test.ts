@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { buildBusyByDay, buildGapsByDay, getSlotsForDay, SlotBooking, SlotEngineSettings, SlotQuery, WorkingHoursDay } from "@/utils/slot-engine";
+
+const everyDay = (start: string, end: string): Record<string, WorkingHoursDay> =>
+  Object.fromEntries([0, 1, 2, 3, 4, 5, 6].map(d => [d.toString(), { active: true, start, end }]));
+
+const openSettings = (overrides: Partial<SlotEngineSettings> = {}): SlotEngineSettings => ({
+  booking_mode: "open",
+  booking_interval_mins: 60,
+  booking_buffer_mins: 0,
+  min_booking_notice_hours: 0,
+  max_booking_advance_weeks: 52,
+  working_hours: everyDay("09:00", "12:00"),
+  time_zone: "Europe/London",
+  ...overrides,
+});
+
+// Monday 5 January 2026, in GMT
+const MONDAY = new Date(2026, 0, 5);
+const LONG_BEFORE = new Date("2025-12-01T00:00:00Z");
+
+const slotsFor = (query: Partial<SlotQuery> & { settings: SlotEngineSettings }) =>
+  getSlotsForDay({ day: MONDAY, busyByDay: {}, gapsByDay: {}, durationMins: 60, now: LONG_BEFORE, ...query });
+
+const startTimes = (query: Partial<SlotQuery> & { settings: SlotEngineSettings }) => slotsFor(query).map(slot => slot.start_time);
+
+const booking = (id: string, start: string, end: string, status = "scheduled"): SlotBooking => ({ id, start_time: start, end_time: end, status });
+
+describe("getSlotsForDay", () => {
+  it("fills the working hours in open mode", () => {
+    expect(startTimes({ settings: openSettings() })).toEqual([
+      "2026-01-05T09:00:00.000Z",
+      "2026-01-05T10:00:00.000Z",
+      "2026-01-05T11:00:00.000Z",
+    ]);
+  });
+
+  it("steps by the booking interval", () => {
+    expect(startTimes({ settings: openSettings({ booking_interval_mins: 30 }) })).toEqual([
+      "2026-01-05T09:00:00.000Z",
+      "2026-01-05T09:30:00.000Z",
+      "2026-01-05T10:00:00.000Z",
+      "2026-01-05T10:30:00.000Z",
+      "2026-01-05T11:00:00.000Z",
+    ]);
+  });
+
+  it("never steps by less than 15 minutes", () => {
+    expect(slotsFor({ settings: openSettings({ booking_interval_mins: 5 }), durationMins: 165 })).toHaveLength(2);
+  });
+
+  it("only offers published gaps in gaps mode", () => {
+    const settings = openSettings({ booking_mode: "gaps", booking_interval_mins: 30 });
+    const gapsByDay = buildGapsByDay([booking("gap", "2026-01-05T14:00:00Z", "2026-01-05T16:00:00Z", "available")], settings.time_zone);
+    expect(startTimes({ settings, gapsByDay })).toEqual([
+      "2026-01-05T14:00:00.000Z",
+      "2026-01-05T14:30:00.000Z",
+      "2026-01-05T15:00:00.000Z",
+    ]);
+    expect(startTimes({ settings })).toEqual([]);
+  });
+
+  it("ignores published gaps in open mode", () => {
+    const settings = openSettings();
+    const gapsByDay = buildGapsByDay([booking("gap", "2026-01-05T14:00:00Z", "2026-01-05T16:00:00Z", "available")], settings.time_zone);
+    expect(startTimes({ settings, gapsByDay })).toHaveLength(3);
+  });
+
+  it("keeps the buffer clear either side of other lessons", () => {
+    const lessons = [booking("lesson", "2026-01-05T10:00:00Z", "2026-01-05T11:00:00Z")];
+    const settings = openSettings({ booking_interval_mins: 30, working_hours: everyDay("09:00", "13:00") });
+
+    expect(startTimes({ settings, busyByDay: buildBusyByDay(lessons, 0, [], settings.time_zone) })).toEqual([
+      "2026-01-05T09:00:00.000Z",
+      "2026-01-05T11:00:00.000Z",
+      "2026-01-05T11:30:00.000Z",
+      "2026-01-05T12:00:00.000Z",
+    ]);
+    expect(startTimes({ settings, busyByDay: buildBusyByDay(lessons, 15, [], settings.time_zone) })).toEqual([
+      "2026-01-05T11:30:00.000Z",
+      "2026-01-05T12:00:00.000Z",
+    ]);
+  });
+
+  it("leaves out slots inside the notice period", () => {
+    const settings = openSettings({ min_booking_notice_hours: 2 });
+    expect(startTimes({ settings, now: new Date("2026-01-05T08:00:00Z") })).toEqual([
+      "2026-01-05T10:00:00.000Z",
+      "2026-01-05T11:00:00.000Z",
+    ]);
+  });
+
+  it("leaves out days further ahead than the advance limit", () => {
+    const settings = openSettings({ max_booking_advance_weeks: 1 });
+    expect(startTimes({ settings, now: new Date("2025-12-28T09:00:00Z") })).toEqual([]);
+    expect(startTimes({ settings, now: new Date("2025-12-30T09:00:00Z") })).toHaveLength(3);
+  });
+
+  it("has nothing on a day off", () => {
+    expect(startTimes({ settings: openSettings(), unavailability: [{ start_date: "2026-01-04", end_date: "2026-01-06" }] })).toEqual([]);
+  });
+
+  it("reads working hours in the instructor's zone across the clocks changing", () => {
+    const settings = openSettings({ working_hours: everyDay("09:00", "10:00") });
+    const dayStarts = (day: Date) => startTimes({ settings, day });
+
+    expect(dayStarts(new Date(2026, 2, 28))).toEqual(["2026-03-28T09:00:00.000Z"]);
+    expect(dayStarts(new Date(2026, 2, 29))).toEqual(["2026-03-29T08:00:00.000Z"]);
+    expect(dayStarts(new Date(2026, 9, 24))).toEqual(["2026-10-24T08:00:00.000Z"]);
+    expect(dayStarts(new Date(2026, 9, 25))).toEqual(["2026-10-25T09:00:00.000Z"]);
+  });
+
+  it("uses the instructor's zone, not London, when one is set", () => {
+    expect(startTimes({ settings: openSettings({ time_zone: "America/New_York", working_hours: everyDay("09:00", "10:00") }) }))
+      .toEqual(["2026-01-05T14:00:00.000Z"]);
+  });
+});
+
+describe("buildBusyByDay", () => {
+  it("pads lessons by the buffer and skips available and cancelled ones", () => {
+    const busy = buildBusyByDay([
+      booking("lesson", "2026-01-05T10:00:00Z", "2026-01-05T11:00:00Z"),
+      booking("gap", "2026-01-05T12:00:00Z", "2026-01-05T13:00:00Z", "available"),
+      booking("cancelled", "2026-01-05T14:00:00Z", "2026-01-05T15:00:00Z", "cancelled"),
+    ], 15, [], "Europe/London");
+
+    expect(busy).toEqual({
+      "2026-01-05": [{ start: Date.parse("2026-01-05T09:45:00Z"), end: Date.parse("2026-01-05T11:15:00Z") }],
+    });
+  });
+
+  it("lists a period running past midnight under both days", () => {
+    const busy = buildBusyByDay([booking("late", "2026-01-05T23:00:00Z", "2026-01-06T01:00:00Z")], 0, [], "Europe/London");
+    expect(Object.keys(busy)).toEqual(["2026-01-05", "2026-01-06"]);
+  });
+
+  it("groups by the day in the instructor's zone", () => {
+    // 23:30 UTC on 1 June is 00:30 on 2 June in London
+    const busy = buildBusyByDay([booking("lesson", "2026-06-01T23:30:00Z", "2026-06-02T00:30:00Z")], 0, [], "Europe/London");
+    expect(Object.keys(busy)).toEqual(["2026-06-02"]);
+  });
+
+  it("adds timed busy blocks but leaves all-day ones to the unavailability list", () => {
+    const busy = buildBusyByDay([], 0, [
+      { start_time: "2026-01-05T10:00:00Z", end_time: "2026-01-05T11:00:00Z", is_all_day: false, start_date: "2026-01-05", end_date: "2026-01-05" },
+      { start_time: "2026-01-06T00:00:00Z", end_time: "2026-01-07T00:00:00Z", is_all_day: true, start_date: "2026-01-06", end_date: "2026-01-06" },
+    ], "Europe/London");
+    expect(Object.keys(busy)).toEqual(["2026-01-05"]);
+  });
+});
+
+describe("buildGapsByDay", () => {
+  it("groups only available slots, by the day in the instructor's zone", () => {
+    const gaps = buildGapsByDay([
+      booking("gap", "2026-06-01T23:30:00Z", "2026-06-02T01:00:00Z", "available"),
+      booking("lesson", "2026-06-01T10:00:00Z", "2026-06-01T11:00:00Z"),
+    ], "Europe/London");
+    expect(Object.keys(gaps)).toEqual(["2026-06-02"]);
+    expect(gaps["2026-06-02"].map(gap => gap.id)).toEqual(["gap"]);
+  });
+});
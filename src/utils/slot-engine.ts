@@ -0,0 +1,292 @@
+import { addDays, addHours, addWeeks, format, getDay, parseISO } from "date-fns";
+import { TravelSettings } from "@/utils/travel-time";
+import { DEFAULT_TIME_ZONE, getZonedDateKey, resolveTimeZone, zonedTimeToUtc } from "@/utils/time-zone";
+
+// Lesson lengths students can book, also enforced by claim_booking_slot
+export const MIN_LESSON_MINS = 15;
+export const MAX_LESSON_MINS = 300;
+
+export interface WorkingInterval {
+  start: string | number;
+  end: string | number;
+}
+
+/**
+ * A weekday in profiles.working_hours. Split shifts are listed in intervals;
+ * days saved before they existed only have start and end.
+ */
+export interface WorkingHoursDay extends WorkingInterval {
+  active: boolean;
+  intervals?: WorkingInterval[];
+}
+
+/**
+ * Special hours or a closed day replacing the weekly hours, from working_hours_overrides
+ */
+export interface WorkingHoursOverride {
+  start_date: string;
+  end_date: string;
+  weekdays: number[] | null;
+  is_closed: boolean;
+  intervals: WorkingInterval[];
+  created_at: string;
+}
+
+export interface SlotEngineSettings extends TravelSettings {
+  booking_mode?: string | null;
+  booking_interval_mins?: number | null;
+  booking_buffer_mins?: number | null;
+  min_booking_notice_hours?: number | null;
+  max_booking_advance_weeks?: number | null;
+  working_hours?: Record<string, WorkingHoursDay> | null;
+  time_zone?: string | null;
+}
+
+export interface SlotBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+}
+
+export interface UnavailablePeriod {
+  start_date: string;
+  end_date: string;
+}
+
+export interface ExternalBusyBlock {
+  start_time: string;
+  end_time: string;
+  is_all_day: boolean;
+  start_date: string;
+  end_date: string;
+}
+
+export interface BusyPeriod {
+  start: number;
+  end: number;
+}
+
+export interface GeneratedSlot {
+  id: string;
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * Another lesson padded by the drive between its pickup and the student's, as returned by the
+ * get_travel_blocks RPC. Worked out server-side so other students' pickups are never sent.
+ */
+export interface TravelBlock {
+  start_time: string;
+  end_time: string;
+}
+
+interface SlotWindow {
+  id: string;
+  start: number;
+  end: number;
+}
+
+export interface SlotQuery {
+  day: Date;
+  settings: SlotEngineSettings;
+  busyByDay: Record<string, BusyPeriod[]>;
+  gapsByDay: Record<string, SlotBooking[]>;
+  unavailability?: UnavailablePeriod[];
+  durationMins: number;
+  now?: Date;
+  limit?: number;
+  travel?: TravelBlock[];
+  overrides?: WorkingHoursOverride[];
+}
+
+/**
+ * Day key used to group bookings, e.g. "2024-05-01", for the day the time falls on in the instructor's zone
+ */
+export const getDateKey = (isoString: string, timeZone: string = DEFAULT_TIME_ZONE) => getZonedDateKey(isoString, timeZone);
+
+/**
+ * Working hours are stored either as "HH:mm" strings or legacy whole hours
+ */
+export const parseWorkingTime = (t: string | number | undefined | null): [number, number] => {
+  if (typeof t === 'number') return [t, 0];
+  const parts = (t || "09:00").split(':').map(Number);
+  return parts.length === 2 && !parts.some(isNaN) ? [parts[0], parts[1]] : [9, 0];
+};
+
+/**
+ * Earliest and latest start times a student may book, based on notice and advance settings
+ */
+export const getBookingWindow = (settings: SlotEngineSettings, now: Date = new Date()) => ({
+  minStartMs: addHours(now, settings.min_booking_notice_hours ?? 48).getTime(),
+  maxStartMs: addWeeks(now, settings.max_booking_advance_weeks ?? 12).getTime(),
+});
+
+const addBusyPeriod = (map: Record<string, BusyPeriod[]>, startIso: string, endIso: string, bufferMs: number, timeZone: string) => {
+  const period = {
+    start: parseISO(startIso).getTime() - bufferMs,
+    end: parseISO(endIso).getTime() + bufferMs
+  };
+  // Periods running past midnight are listed under every day they touch
+  const lastKey = getDateKey(endIso, timeZone);
+  let day = parseISO(getDateKey(startIso, timeZone));
+  for (let key = format(day, 'yyyy-MM-dd'); key <= lastKey; key = format(day, 'yyyy-MM-dd')) {
+    if (!map[key]) map[key] = [];
+    map[key].push(period);
+    day = addDays(day, 1);
+  }
+};
+
+/**
+ * Groups every non-available booking, plus timed busy blocks imported from the
+ * instructor's other calendars, into busy periods padded by the instructor's buffer
+ */
+export const buildBusyByDay = (bookings: SlotBooking[], bufferMins?: number | null, externalBusy: ExternalBusyBlock[] = [], timeZone?: string | null) => {
+  const map: Record<string, BusyPeriod[]> = {};
+  const bufferMs = (bufferMins || 0) * 60000;
+  const zone = resolveTimeZone(timeZone);
+  bookings.forEach(b => {
+    if (b.status === 'available' || b.status === 'cancelled' || !b.start_time || !b.end_time) return;
+    addBusyPeriod(map, b.start_time, b.end_time, bufferMs, zone);
+  });
+  externalBusy.forEach(b => {
+    if (b.is_all_day) return;
+    addBusyPeriod(map, b.start_time, b.end_time, bufferMs, zone);
+  });
+  return map;
+};
+
+/**
+ * All-day imported events block the whole day, just like instructor_unavailability
+ */
+export const getAllDayUnavailability = (externalBusy: ExternalBusyBlock[] = []): UnavailablePeriod[] =>
+  externalBusy
+    .filter(b => b.is_all_day)
+    .map(b => ({ start_date: b.start_date, end_date: b.end_date }));
+
+/**
+ * Groups the instructor's manually published "available" gaps by day
+ */
+export const buildGapsByDay = (bookings: SlotBooking[], timeZone?: string | null) => {
+  const map: Record<string, SlotBooking[]> = {};
+  const zone = resolveTimeZone(timeZone);
+  bookings.forEach(b => {
+    if (b.status !== 'available' || !b.start_time) return;
+    const dateKey = getDateKey(b.start_time, zone);
+    if (!map[dateKey]) map[dateKey] = [];
+    map[dateKey].push(b);
+  });
+  return map;
+};
+
+/**
+ * Pass timeZone when day is an actual moment (e.g. a lesson's start) rather than a calendar day
+ */
+export const isDayUnavailable = (day: Date, unavailability: UnavailablePeriod[] = [], timeZone?: string | null) => {
+  const dateKey = timeZone ? getZonedDateKey(day, timeZone) : format(day, 'yyyy-MM-dd');
+  return unavailability.some(u => dateKey >= u.start_date && dateKey <= u.end_date);
+};
+
+/**
+ * The shifts worked on a day. The newest override covering the day wins over the weekly hours.
+ * Mirrors public.get_working_intervals.
+ */
+export const getWorkingIntervals = (day: Date, workingHours: Record<string, WorkingHoursDay> | null | undefined, overrides: WorkingHoursOverride[] = []): WorkingInterval[] => {
+  const dateKey = format(day, 'yyyy-MM-dd');
+  const weekday = getDay(day);
+  const override = overrides
+    .filter(o => dateKey >= o.start_date && dateKey <= o.end_date && (!o.weekdays || o.weekdays.includes(weekday)))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+  if (override) return override.is_closed ? [] : override.intervals;
+
+  const dayConfig = workingHours?.[weekday.toString()];
+  if (!dayConfig?.active) return [];
+  return dayConfig.intervals?.length ? dayConfig.intervals : [{ start: dayConfig.start, end: dayConfig.end }];
+};
+
+/**
+ * Bookable windows for a day: published gaps in "gaps" mode, working hours in "open" mode.
+ * day is a calendar day; working hours are read as wall-clock times in the instructor's zone.
+ */
+const getSlotWindows = (day: Date, settings: SlotEngineSettings, gapsByDay: Record<string, SlotBooking[]>, overrides?: WorkingHoursOverride[]): SlotWindow[] => {
+  const mode = settings.booking_mode || "gaps";
+  const dateKey = format(day, 'yyyy-MM-dd');
+
+  if (mode === "gaps") {
+    return (gapsByDay[dateKey] || []).map(gap => ({
+      id: `gap-${gap.id}`,
+      start: parseISO(gap.start_time).getTime(),
+      end: parseISO(gap.end_time).getTime()
+    }));
+  }
+
+  const timeZone = resolveTimeZone(settings.time_zone);
+  return getWorkingIntervals(day, settings.working_hours, overrides).map((interval, i) => {
+    const [startH, startM] = parseWorkingTime(interval.start);
+    const [endH, endM] = parseWorkingTime(interval.end);
+    return {
+      id: `gen-${i}`,
+      start: zonedTimeToUtc(dateKey, startH, startM, timeZone).getTime(),
+      end: zonedTimeToUtc(dateKey, endH, endM, timeZone).getTime()
+    };
+  });
+};
+
+/**
+ * Travel blocks touching the day, used on top of the flat buffer when the instructor has travel buffers on
+ */
+const getTravelPeriods = (day: Date, settings: SlotEngineSettings, travel: TravelBlock[] = []): BusyPeriod[] => {
+  if (!settings.travel_buffer_enabled) return [];
+  const dateKey = format(day, 'yyyy-MM-dd');
+  const timeZone = resolveTimeZone(settings.time_zone);
+  return travel
+    .filter(block => getDateKey(block.start_time, timeZone) <= dateKey && getDateKey(block.end_time, timeZone) >= dateKey)
+    .map(block => ({ start: parseISO(block.start_time).getTime(), end: parseISO(block.end_time).getTime() }));
+};
+
+/**
+ * Generates bookable slots for a single day. The same rules are re-checked
+ * server-side by the claim_booking_slot RPC when a student confirms.
+ */
+export const getSlotsForDay = ({
+  day,
+  settings,
+  busyByDay,
+  gapsByDay,
+  unavailability = [],
+  durationMins,
+  now = new Date(),
+  limit = 100,
+  travel,
+  overrides
+}: SlotQuery): GeneratedSlot[] => {
+  if (isDayUnavailable(day, unavailability)) return [];
+
+  const { minStartMs, maxStartMs } = getBookingWindow(settings, now);
+  const durationMs = durationMins * 60000;
+  const intervalMs = Math.max(15, settings.booking_interval_mins || 30) * 60000;
+  const dayBusy = [...(busyByDay[format(day, 'yyyy-MM-dd')] || []), ...getTravelPeriods(day, settings, travel)];
+  const slots: GeneratedSlot[] = [];
+
+  if (durationMs <= 0) return slots;
+
+  for (const window of getSlotWindows(day, settings, gapsByDay, overrides)) {
+    let currentPointerMs = window.start;
+    while (currentPointerMs + durationMs <= window.end && slots.length < limit) {
+      const endPointerMs = currentPointerMs + durationMs;
+      const isClashing = dayBusy.some(busy => currentPointerMs < busy.end && endPointerMs > busy.start);
+      if (currentPointerMs >= minStartMs && currentPointerMs <= maxStartMs && !isClashing) {
+        slots.push({
+          id: `${window.id}-${currentPointerMs}`,
+          start_time: new Date(currentPointerMs).toISOString(),
+          end_time: new Date(endPointerMs).toISOString()
+        });
+      }
+      currentPointerMs += intervalMs;
+    }
+  }
+  return slots;
+};
+
+export const dayHasSlots = (query: SlotQuery) => getSlotsForDay({ ...query, limit: 1 }).length > 0;
@@ -0,0 +1,26 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ExternalBusyBlock } from "@/utils/slot-engine";
+
+/**
+ * Holds the slot for the signed-in student while they confirm it, returning when the hold lapses.
+ * Any earlier hold of theirs is replaced.
+ */
+export const holdBookingSlot = async (startTime: string, endTime: string) => {
+  const { data, error } = await supabase.rpc("hold_booking_slot", { p_start_time: startTime, p_end_time: endTime });
+  if (error) throw error;
+  return data as string;
+};
+
+export const releaseSlotHold = async () => {
+  const { error } = await supabase.rpc("release_slot_hold");
+  if (error) throw error;
+};
+
+/**
+ * Slots other students are part way through booking, shaped like busy blocks for the slot engine
+ */
+export const fetchSlotHolds = async (instructorId: string) => {
+  const { data, error } = await supabase.rpc("get_slot_holds", { p_instructor_id: instructorId });
+  if (error) throw error;
+  return (data || []) as ExternalBusyBlock[];
+};
@@ -0,0 +1,46 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PaymentMethod = "cash" | "transfer" | "card";
+export type LedgerSourceType = "booking" | "cancellation_charge" | "booking_attendee" | "package";
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "transfer", label: "Bank Transfer" },
+  { value: "card", label: "Card" },
+];
+
+export interface LedgerEntry {
+  entry_date: string;
+  entry_type: "charge" | "payment" | "credit";
+  description: string;
+  payment_method: PaymentMethod | null;
+  charge: number;
+  payment: number;
+  // Running total after this entry: positive is in hand, negative is owed
+  balance: number;
+  source_type: LedgerSourceType | null;
+  source_id: string | null;
+}
+
+/**
+ * A student's charges, payments and pre-paid credit with a running balance, oldest first
+ */
+export const fetchStudentLedger = async (studentId: string) => {
+  const { data, error } = await supabase.rpc("get_student_ledger", { p_student_id: studentId });
+  if (error) throw error;
+  return ((data || []) as LedgerEntry[]).map(entry => ({
+    ...entry,
+    charge: Number(entry.charge),
+    payment: Number(entry.payment),
+    balance: Number(entry.balance),
+  }));
+};
+
+export const setPaymentMethod = async (sourceType: LedgerSourceType, sourceId: string, method: PaymentMethod | null) => {
+  const { error } = await supabase.rpc("set_payment_method", {
+    p_source_type: sourceType,
+    p_source_id: sourceId,
+    p_method: method,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface LessonPackage {
+  id: string;
+  name: string;
+  hours: number;
+  price: number;
+  is_active: boolean;
+}
+
+/**
+ * A lesson the signed-in student still owes for, priced at the instructor's rates
+ */
+export interface PayableBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+  lesson_type: string;
+  status: string;
+  amount: number;
+}
+
+// refund_due and refunded: the lesson was settled another way before the payment went through
+export type StudentPaymentStatus = "pending" | "paid" | "expired" | "refund_due" | "refunded";
+
+const invokePayments = async <T>(body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("student-payments", { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as T;
+};
+
+/**
+ * Where Stripe sends the student back to, with ?payment_session= added on success
+ */
+const currentPageUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+export const fetchLessonPackages = async (instructorId: string) => {
+  const { data, error } = await supabase
+    .from("lesson_packages")
+    .select("id, name, hours, price, is_active")
+    .eq("user_id", instructorId)
+    .order("hours", { ascending: true });
+  if (error) throw error;
+  return (data || []) as LessonPackage[];
+};
+
+export const fetchPayableBookings = async () => {
+  const { data, error } = await supabase.rpc("get_payable_bookings");
+  if (error) throw error;
+  return (data || []) as PayableBooking[];
+};
+
+/**
+ * Opens Stripe's onboarding for the instructor's payout account
+ */
+export const connectPayoutAccount = async () => {
+  const { url } = await invokePayments<{ url: string }>({ action: "connect", returnUrl: currentPageUrl() });
+  window.location.href = url;
+};
+
+export const fetchPayoutStatus = () =>
+  invokePayments<{ connected: boolean; chargesEnabled: boolean }>({ action: "connect_status" });
+
+export const payForBooking = async (bookingId: string) => {
+  const { url } = await invokePayments<{ url: string }>({ action: "pay_booking", bookingId, returnUrl: currentPageUrl() });
+  window.location.href = url;
+};
+
+export const buyLessonPackage = async (packageId: string) => {
+  const { url } = await invokePayments<{ url: string }>({ action: "buy_package", packageId, returnUrl: currentPageUrl() });
+  window.location.href = url;
+};
+
+/**
+ * Called on return from Checkout; marks the lesson paid or adds the hours once Stripe confirms it
+ */
+export const confirmStudentPayment = async (sessionId: string) => {
+  const { status } = await invokePayments<{ status: StudentPaymentStatus }>({ action: "confirm", sessionId });
+  return status;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { buildTaxReturn, ExpenditureCategoryMapping, mileageAllowance, taxReturnCsv, TaxReturnItem } from "@/utils/tax-return";
+
+const MAPPINGS: ExpenditureCategoryMapping[] = [
+  { id: "fuel", name: "Fuel", sa103_box: 20, is_vehicle_cost: true },
+  { id: "phone", name: "Phone", sa103_box: 23, is_vehicle_cost: false },
+  { id: "depreciation", name: "Car depreciation", sa103_box: 29, is_vehicle_cost: false },
+];
+
+const INCOME: TaxReturnItem[] = [{ date: "2025-06-01", amount: 30000, category: "Lessons" }];
+const EXPENDITURE: TaxReturnItem[] = [
+  { date: "2025-06-02", amount: 1000, category: "Fuel" },
+  { date: "2025-06-03", amount: 200, category: "Phone" },
+];
+
+const line = (taxReturn: ReturnType<typeof buildTaxReturn>, box: number) => taxReturn.expenses.find(l => l.box === box)!;
+
+describe("mileageAllowance", () => {
+  it("pays 45p a mile up to 10,000 miles and 25p after", () => {
+    expect(mileageAllowance(8000)).toBe(3600);
+    expect(mileageAllowance(10000)).toBe(4500);
+    expect(mileageAllowance(12000)).toBe(5000);
+  });
+});
+
+describe("buildTaxReturn", () => {
+  it("claims car costs less the private share under the actual method", () => {
+    const taxReturn = buildTaxReturn({ income: INCOME, expenditure: EXPENDITURE, mappings: MAPPINGS, method: "actual", businessPercent: 80, milesDriven: 10000 });
+    expect(line(taxReturn, 20)).toMatchObject({ total: 1000, disallowable: 200 });
+    expect(line(taxReturn, 23)).toMatchObject({ total: 200, disallowable: 0 });
+    expect(taxReturn).toMatchObject({
+      turnover: 30000,
+      totalExpenses: 1200,
+      totalDisallowable: 200,
+      netProfit: 28800,
+      netLoss: 0,
+      adjustedProfit: 29000,
+      businessMiles: 0,
+      mileageAllowance: 0,
+    });
+  });
+
+  it("claims the business share of miles instead of car costs under the simplified method", () => {
+    const taxReturn = buildTaxReturn({ income: INCOME, expenditure: EXPENDITURE, mappings: MAPPINGS, method: "simplified", businessPercent: 80, milesDriven: 10000 });
+    expect(line(taxReturn, 20)).toMatchObject({ total: 3600, disallowable: 0 });
+    expect(taxReturn).toMatchObject({ totalExpenses: 3800, totalDisallowable: 0, netProfit: 26200, businessMiles: 8000, mileageAllowance: 3600 });
+  });
+
+  it("drops to the lower rate for business miles over 10,000", () => {
+    const taxReturn = buildTaxReturn({ income: INCOME, expenditure: [], mappings: MAPPINGS, method: "simplified", businessPercent: 80, milesDriven: 15000 });
+    expect(taxReturn.businessMiles).toBe(12000);
+    expect(line(taxReturn, 20).total).toBe(5000);
+  });
+
+  it("adds depreciation back, turning a net loss into a taxable profit", () => {
+    const taxReturn = buildTaxReturn({
+      income: [{ date: "2025-06-01", amount: 1000, category: "Lessons" }],
+      expenditure: [{ date: "2025-06-02", amount: 1500, category: "Car depreciation" }],
+      mappings: MAPPINGS,
+      method: "actual",
+      businessPercent: 100,
+      milesDriven: 0,
+    });
+    expect(line(taxReturn, 29)).toMatchObject({ total: 1500, disallowable: 1500 });
+    expect(taxReturn).toMatchObject({ netProfit: 0, netLoss: 500, totalDisallowable: 1500, adjustedProfit: 1000 });
+  });
+});
+
+describe("taxReturnCsv", () => {
+  it("writes boxes 47 and 48 and the disallowable boxes", () => {
+    const expenditure = [{ date: "2025-06-02", amount: 1500, category: "Car depreciation" }];
+    const income = [{ date: "2025-06-01", amount: 1000, category: "Lessons" }];
+    const taxReturn = buildTaxReturn({ income, expenditure, mappings: MAPPINGS, method: "actual", businessPercent: 100, milesDriven: 0 });
+    const rows = taxReturnCsv(taxReturn, "2025-26", income, expenditure).split("\n");
+    expect(rows).toContain("44,Depreciation and loss or profit on sale of assets (disallowable),1500.00");
+    expect(rows).toContain("47,Net profit,0.00");
+    expect(rows).toContain("48,Net loss,500.00");
+    expect(rows).toContain(",Profit or loss after adding back disallowable expenses,1000.00");
+    expect(rows).toContain("20,\"Car, van and travel expenses\",0.00");
+  });
+
+  it("stops category names running as spreadsheet formulas", () => {
+    const expenditure = ["=SUM(A1:A9)", "+1", "-1", "@cmd"].map(category => ({ date: "2025-06-02", amount: -5, category }));
+    const taxReturn = buildTaxReturn({ income: [], expenditure, mappings: MAPPINGS, method: "actual", businessPercent: 100, milesDriven: 0 });
+    const rows = taxReturnCsv(taxReturn, "2025-26", [], expenditure).split("\n");
+    expect(rows.slice(-4)).toEqual([
+      "2025-06-02,Expenditure,'=SUM(A1:A9),-5.00",
+      "2025-06-02,Expenditure,'+1,-5.00",
+      "2025-06-02,Expenditure,'-1,-5.00",
+      "2025-06-02,Expenditure,'@cmd,-5.00",
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+import { parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export type VehicleExpenseMethod = "actual" | "simplified";
+
+// SA103F expense boxes; each has a matching disallowable box 15 further on (17 -> 32 ... 30 -> 45)
+export const SA103_EXPENSE_BOXES: { box: number; label: string }[] = [
+  { box: 17, label: "Cost of goods bought for resale or goods used" },
+  { box: 18, label: "Construction industry - payments to subcontractors" },
+  { box: 19, label: "Wages, salaries and other staff costs" },
+  { box: 20, label: "Car, van and travel expenses" },
+  { box: 21, label: "Rent, rates, power and insurance costs" },
+  { box: 22, label: "Repairs and maintenance of property and equipment" },
+  { box: 23, label: "Phone, fax, stationery and other office costs" },
+  { box: 24, label: "Advertising and business entertainment costs" },
+  { box: 25, label: "Interest on bank and other loans" },
+  { box: 26, label: "Bank, credit card and other financial charges" },
+  { box: 27, label: "Irrecoverable debts written off" },
+  { box: 28, label: "Accountancy, legal and other professional fees" },
+  { box: 29, label: "Depreciation and loss or profit on sale of assets" },
+  { box: 30, label: "Other business expenses" },
+];
+
+const DISALLOWABLE_OFFSET = 15;
+const CAR_BOX = 20;
+const DEPRECIATION_BOX = 29;
+
+// Business miles in a tax year: 45p each for the first 10,000, 25p after
+const MILEAGE_RATE_THRESHOLD = 10000;
+const MILEAGE_RATE_HIGH = 0.45;
+const MILEAGE_RATE_LOW = 0.25;
+
+export interface ExpenditureCategoryMapping {
+  id: string | null; // null for a category only used on expenses and never saved
+  name: string;
+  sa103_box: number | null;
+  is_vehicle_cost: boolean;
+}
+
+export interface TaxReturnItem {
+  date: string;
+  amount: number;
+  category: string;
+}
+
+export interface TaxReturnLine {
+  box: number;
+  label: string;
+  total: number;
+  disallowable: number;
+}
+
+export interface TaxReturn {
+  turnover: number; // box 15
+  expenses: TaxReturnLine[]; // boxes 17 to 30, and 32 to 45 for the disallowable part
+  totalExpenses: number; // box 31
+  totalDisallowable: number; // box 46
+  netProfit: number; // box 47: turnover less box 31, before anything is added back
+  netLoss: number; // box 48
+  // Box 47 or 48 with the disallowable expenses added back, the figure tax is worked out on
+  adjustedProfit: number;
+  businessMiles: number;
+  mileageAllowance: number;
+}
+
+/**
+ * Best guess at the box for a category nobody has mapped yet, from its name
+ */
+export const suggestMapping = (name: string): Pick<ExpenditureCategoryMapping, "sa103_box" | "is_vehicle_cost"> => {
+  const text = name.toLowerCase();
+  if (/liability|indemnity/.test(text)) return { sa103_box: 21, is_vehicle_cost: false };
+  // An instructor's "Insurance" is almost always the dual-controlled car's
+  if (/fuel|petrol|diesel|insurance|vehicle|mot\b|servic|tyre|car tax|road tax|lease|dual control|car repair|maintenance/.test(text)) {
+    return { sa103_box: CAR_BOX, is_vehicle_cost: true };
+  }
+  if (/parking|toll|train|travel|congestion/.test(text)) return { sa103_box: CAR_BOX, is_vehicle_cost: false };
+  if (/rent|rates|electric|power/.test(text)) return { sa103_box: 21, is_vehicle_cost: false };
+  if (/phone|mobile|stationery|office|software|subscription|app\b|internet/.test(text)) return { sa103_box: 23, is_vehicle_cost: false };
+  if (/advert|marketing|website|franchise/.test(text)) return { sa103_box: 24, is_vehicle_cost: false };
+  if (/bank|card fee|stripe|paypal/.test(text)) return { sa103_box: 26, is_vehicle_cost: false };
+  if (/accountan|legal|professional|dvsa|adi|cpd|training|badge/.test(text)) return { sa103_box: 28, is_vehicle_cost: false };
+  if (/interest|loan/.test(text)) return { sa103_box: 25, is_vehicle_cost: false };
+  if (/wage|salary|staff/.test(text)) return { sa103_box: 19, is_vehicle_cost: false };
+  if (/depreciation/.test(text)) return { sa103_box: DEPRECIATION_BOX, is_vehicle_cost: false };
+  return { sa103_box: 30, is_vehicle_cost: false };
+};
+
+export const mileageAllowance = (businessMiles: number) => {
+  const highRateMiles = Math.min(businessMiles, MILEAGE_RATE_THRESHOLD);
+  return highRateMiles * MILEAGE_RATE_HIGH + Math.max(0, businessMiles - MILEAGE_RATE_THRESHOLD) * MILEAGE_RATE_LOW;
+};
+
+const inRange = (date: string, range: { start: Date; end: Date }) => {
+  const d = parseISO(date);
+  return d >= range.start && d <= range.end;
+};
+
+/**
+ * Miles on the clock across all the instructor's cars within the range, from the mileage tracker's
+ * odometer readings
+ */
+export const fetchMilesDriven = async (userId: string, range: { start: Date; end: Date }) => {
+  const [carsRes, entriesRes] = await Promise.all([
+    supabase.from("cars").select("id, acquisition_date, initial_mileage").eq("user_id", userId),
+    supabase.from("car_mileage_entries").select("car_id, entry_date, current_mileage").eq("user_id", userId).order("entry_date", { ascending: true }),
+  ]);
+  if (carsRes.error) throw carsRes.error;
+  if (entriesRes.error) throw entriesRes.error;
+
+  let miles = 0;
+  (carsRes.data || []).forEach(car => {
+    let previousMileage = car.initial_mileage || 0;
+    (entriesRes.data || []).filter(entry => entry.car_id === car.id).forEach(entry => {
+      const driven = Math.max(0, entry.current_mileage - previousMileage);
+      previousMileage = entry.current_mileage;
+      if (inRange(entry.entry_date, range)) miles += driven;
+    });
+  });
+  return miles;
+};
+
+/**
+ * Money received from pre-paid packages bought within the range (cash basis: counted when paid)
+ */
+export const fetchPackageSales = async (userId: string, range: { start: Date; end: Date }) => {
+  const { data, error } = await supabase
+    .from("pre_paid_hours")
+    .select("purchase_date, amount_paid")
+    .eq("user_id", userId)
+    .not("amount_paid", "is", null);
+  if (error) throw error;
+  return (data || [])
+    .filter(pkg => inRange(pkg.purchase_date, range))
+    .map(pkg => ({ date: pkg.purchase_date, amount: Number(pkg.amount_paid), category: "Pre-paid Packages" }) as TaxReturnItem);
+};
+
+export const buildTaxReturn = (options: {
+  income: TaxReturnItem[];
+  expenditure: TaxReturnItem[];
+  mappings: ExpenditureCategoryMapping[];
+  method: VehicleExpenseMethod;
+  businessPercent: number;
+  milesDriven: number;
+}): TaxReturn => {
+  const { income, expenditure, mappings, method, milesDriven } = options;
+  const businessShare = Math.min(100, Math.max(0, options.businessPercent)) / 100;
+  const lines = new Map<number, TaxReturnLine>(
+    SA103_EXPENSE_BOXES.map(({ box, label }) => [box, { box, label, total: 0, disallowable: 0 }])
+  );
+
+  const mappingFor = (category: string) =>
+    mappings.find(m => m.name === category && m.sa103_box != null) ?? { ...suggestMapping(category), name: category, id: null };
+
+  expenditure.forEach(item => {
+    const mapping = mappingFor(item.category);
+    // The mileage rate covers running the car, so those costs aren't claimed as well
+    if (mapping.is_vehicle_cost && method === "simplified") return;
+    const line = lines.get(mapping.sa103_box ?? 30)!;
+    line.total += item.amount;
+    if (mapping.is_vehicle_cost) line.disallowable += item.amount * (1 - businessShare);
+    if (line.box === DEPRECIATION_BOX) line.disallowable += item.amount;
+  });
+
+  const businessMiles = method === "simplified" ? Math.round(milesDriven * businessShare) : 0;
+  const allowance = method === "simplified" ? mileageAllowance(businessMiles) : 0;
+  lines.get(CAR_BOX)!.total += allowance;
+
+  const expenses = Array.from(lines.values()).map(line => ({
+    ...line,
+    total: Math.round(line.total * 100) / 100,
+    disallowable: Math.round(line.disallowable * 100) / 100,
+  }));
+  const turnover = Math.round(income.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+  const totalExpenses = expenses.reduce((sum, line) => sum + line.total, 0);
+  const totalDisallowable = expenses.reduce((sum, line) => sum + line.disallowable, 0);
+  const profit = turnover - totalExpenses;
+
+  return {
+    turnover,
+    expenses,
+    totalExpenses,
+    totalDisallowable,
+    netProfit: Math.max(0, profit),
+    netLoss: Math.max(0, -profit),
+    adjustedProfit: Math.round((profit + totalDisallowable) * 100) / 100,
+    businessMiles,
+    mileageAllowance: allowance,
+  };
+};
+
+export const disallowableBox = (box: number) => box + DISALLOWABLE_OFFSET;
+
+const csvCell = (value: string | number) => {
+  let text = typeof value === "number" ? value.toFixed(2) : value;
+  // A category name starting like a formula would run as one in a spreadsheet
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The boxes as CSV, one row per box, followed by every income and expense item behind them
+ */
+export const taxReturnCsv = (taxReturn: TaxReturn, taxYearLabel: string, income: TaxReturnItem[], expenditure: TaxReturnItem[]) => {
+  const rows: (string | number)[][] = [
+    [`SA103F summary ${taxYearLabel}`],
+    ["Box", "Description", "Amount"],
+    ["15", "Turnover", taxReturn.turnover],
+    ...taxReturn.expenses.map(line => [`${line.box}`, line.label, line.total]),
+    ...taxReturn.expenses.filter(line => line.disallowable > 0).map(line => [`${disallowableBox(line.box)}`, `${line.label} (disallowable)`, line.disallowable]),
+    ["31", "Total expenses", taxReturn.totalExpenses],
+    ["46", "Total disallowable expenses", taxReturn.totalDisallowable],
+    ["47", "Net profit", taxReturn.netProfit],
+    ["48", "Net loss", taxReturn.netLoss],
+    ["", "Add back disallowable expenses (box 46)", taxReturn.totalDisallowable],
+    ["", "Profit or loss after adding back disallowable expenses", taxReturn.adjustedProfit],
+  ];
+  if (taxReturn.businessMiles > 0) {
+    rows.push(["", `Box 20 includes simplified mileage for ${taxReturn.businessMiles} business miles`, taxReturn.mileageAllowance]);
+  }
+  rows.push(
+    [],
+    ["Date", "Type", "Category", "Amount"],
+    ...income.map(item => [item.date.slice(0, 10), "Income", item.category, item.amount]),
+    ...expenditure.map(item => [item.date.slice(0, 10), "Expenditure", item.category, item.amount])
+  );
+  return rows.map(row => row.map(csvCell).join(",")).join("\n");
+};
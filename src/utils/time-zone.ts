@@ -0,0 +1,111 @@
+import { format } from "date-fns";
+
+/**
+ * Used when an instructor hasn't chosen a time zone. Mirrors public.instructor_time_zone.
+ */
+export const DEFAULT_TIME_ZONE = "Europe/London";
+
+/**
+ * Zones offered in settings. The browser's own zone is added if it isn't listed.
+ */
+export const TIME_ZONE_OPTIONS = [
+  "Europe/London",
+  "Europe/Dublin",
+  "Europe/Gibraltar",
+  "Europe/Isle_of_Man",
+  "Europe/Jersey",
+  "Europe/Guernsey",
+  "Europe/Lisbon",
+  "Atlantic/Canary",
+  "Europe/Paris",
+  "Europe/Madrid",
+  "Europe/Berlin",
+  "Europe/Amsterdam",
+  "Europe/Malta",
+  "Asia/Dubai",
+  "Australia/Sydney",
+  "America/New_York",
+  "America/Toronto",
+];
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimeZone = (timeZone?: string | null) =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+
+// Building a formatter is slow next to using one, and slot generation formats a lot of times
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    }));
+  }
+  return formatters.get(timeZone)!;
+};
+
+const getZonedParts = (utcMs: number, timeZone: string) => {
+  const dtf = getFormatter(timeZone);
+  const parts: Record<string, string> = {};
+  for (const part of dtf.formatToParts(new Date(utcMs))) parts[part.type] = part.value;
+  return { year: +parts.year, month: +parts.month, day: +parts.day, hour: +parts.hour, minute: +parts.minute, second: +parts.second };
+};
+
+const getOffsetMs = (utcMs: number, timeZone: string) => {
+  const p = getZonedParts(utcMs, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - utcMs;
+};
+
+/**
+ * The instant a wall-clock time on a "yyyy-MM-dd" day happens in the given zone
+ */
+export const zonedTimeToUtc = (dateKey: string, hours: number, minutes: number, timeZone: string) => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  const offset = getOffsetMs(guess, timeZone);
+  const result = guess - offset;
+  const correctedOffset = getOffsetMs(result, timeZone);
+  return new Date(correctedOffset === offset ? result : guess - correctedOffset);
+};
+
+/**
+ * A Date whose local fields read as the wall-clock time in the given zone, for passing to date-fns format
+ */
+export const toZonedTime = (date: Date | string, timeZone: string) => {
+  const p = getZonedParts(new Date(date).getTime(), timeZone);
+  return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+};
+
+export const formatInTimeZone = (date: Date | string, timeZone: string, pattern: string) =>
+  format(toZonedTime(date, timeZone), pattern);
+
+/**
+ * The "yyyy-MM-dd" day an instant falls on in the given zone
+ */
+export const getZonedDateKey = (date: Date | string, timeZone: string) =>
+  formatInTimeZone(date, timeZone, "yyyy-MM-dd");
+
+/**
+ * Short label for a zone, e.g. "GMT+1", at the given moment
+ */
+export const describeTimeZone = (timeZone: string, at: Date = new Date()) =>
+  new Intl.DateTimeFormat("en-GB", { timeZone, timeZoneName: "short" })
+    .formatToParts(at)
+    .find(part => part.type === "timeZoneName")?.value || timeZone;
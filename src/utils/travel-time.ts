@@ -0,0 +1,10 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TravelSettings {
+  travel_buffer_enabled?: boolean | null;
+  travel_speed_mph?: number | null;
+  travel_max_buffer_mins?: number | null;
+}
@@ -0,0 +1,100 @@
+import * as z from "zod";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { WorkingHoursDay, WorkingHoursOverride, WorkingInterval } from "@/utils/slot-engine";
+
+export const WEEKDAY_IDS = ["1", "2", "3", "4", "5", "6", "0"];
+
+const DEFAULT_SHIFT = { start: "09:00", end: "17:00" };
+
+const toTimeString = (t: string | number | undefined | null, fallback: string) =>
+  typeof t === "number" ? `${t.toString().padStart(2, "0")}:00` : t || fallback;
+
+const intervalSchema = z.object({ start: z.string(), end: z.string() });
+
+/**
+ * Returns a message for shifts that end before they start or overlap, otherwise null
+ */
+export const validateIntervals = (intervals: z.infer<typeof intervalSchema>[]) => {
+  const sorted = [...intervals].sort((a, b) => a.start.localeCompare(b.start));
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].end <= sorted[i].start) return "Each shift must end after it starts.";
+    if (i > 0 && sorted[i].start < sorted[i - 1].end) return "Shifts can't overlap.";
+  }
+  return null;
+};
+
+/**
+ * Weekly hours as edited in the settings forms: every day has at least one shift,
+ * and shifts must not run backwards or overlap
+ */
+export const workingHoursFormSchema = z.record(z.object({
+  active: z.boolean(),
+  intervals: z.array(intervalSchema).min(1),
+})).superRefine((days, ctx) => {
+  Object.entries(days).forEach(([dayId, day]) => {
+    if (!day.active) return;
+    const error = validateIntervals(day.intervals);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: [dayId, "intervals"] });
+  });
+});
+
+export type WorkingHoursForm = z.infer<typeof workingHoursFormSchema>;
+
+export const toWorkingHoursForm = (raw: Record<string, WorkingHoursDay> | null | undefined): WorkingHoursForm => {
+  const days: WorkingHoursForm = {};
+  WEEKDAY_IDS.forEach(id => {
+    const config = raw?.[id];
+    const intervals = config?.intervals?.length ? config.intervals : [config || DEFAULT_SHIFT];
+    days[id] = {
+      active: config?.active ?? false,
+      intervals: intervals.map(interval => ({ start: toTimeString(interval.start, DEFAULT_SHIFT.start), end: toTimeString(interval.end, DEFAULT_SHIFT.end) })),
+    };
+  });
+  return days;
+};
+
+// Monday to Friday, nine to five
+export const DEFAULT_WORKING_HOURS_FORM: WorkingHoursForm = Object.fromEntries(
+  WEEKDAY_IDS.map(id => [id, { active: id !== "6" && id !== "0", intervals: [{ ...DEFAULT_SHIFT }] }])
+);
+
+/**
+ * Back to profiles.working_hours. The first shift is also kept in start/end for older readers.
+ */
+export const fromWorkingHoursForm = (days: WorkingHoursForm): Record<string, WorkingHoursDay> => {
+  const stored: Record<string, WorkingHoursDay> = {};
+  Object.entries(days).forEach(([id, day]) => {
+    const intervals = [...day.intervals].sort((a, b) => a.start.localeCompare(b.start)) as WorkingInterval[];
+    stored[id] = { active: day.active, start: intervals[0].start, end: intervals[0].end, intervals };
+  });
+  return stored;
+};
+
+export interface WorkingHoursOverrideRow extends WorkingHoursOverride {
+  id: string;
+  note: string | null;
+}
+
+/**
+ * Overrides that haven't finished yet, notes included, for the instructor's own settings
+ */
+export const fetchWorkingHoursOverrides = async (instructorId: string) => {
+  const { data, error } = await supabase
+    .from("working_hours_overrides")
+    .select("id, start_date, end_date, weekdays, is_closed, intervals, note, created_at")
+    .eq("user_id", instructorId)
+    .gte("end_date", format(new Date(), "yyyy-MM-dd"))
+    .order("start_date", { ascending: true });
+  if (error) throw error;
+  return (data || []) as WorkingHoursOverrideRow[];
+};
+
+/**
+ * The same overrides without the instructor's notes, for students and the public booking page
+ */
+export const fetchPublishedWorkingHoursOverrides = async (instructorId: string) => {
+  const { data, error } = await supabase.rpc("get_published_working_hours_overrides", { p_instructor_id: instructorId });
+  if (error) throw error;
+  return (data || []) as (WorkingHoursOverride & { id: string })[];
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { calendarFeedUrl, isPrivateAddress } from "./calendar-feed.ts";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.1.1", "169.254.169.254",
+    "100.64.0.1", "0.0.0.0", "224.0.0.1", "::1", "::", "::ffff:10.0.0.1", "[::ffff:a00:1]",
+    "fd00::1", "fe80::1", "ff02::1", "64:ff9b::a00:1",
+  ])("rejects %s", address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "172.32.0.1", "100.128.0.1", "2a00:1450:4009:81a::200e", "fc::1"])("allows %s", address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe("calendarFeedUrl", () => {
+  it("turns webcal into https", () => {
+    expect(calendarFeedUrl("webcal://p01-calendars.icloud.com/published/2/abc").toString())
+      .toBe("https://p01-calendars.icloud.com/published/2/abc");
+  });
+
+  it.each([
+    ["http://calendar.example.com/feed.ics", "must start with https"],
+    ["file:///etc/passwd", "must start with https"],
+    ["https://calendar.example.com:8443/feed.ics", "standard https port"],
+    ["https://localhost/feed.ics", "public internet"],
+    ["https://metadata.google.internal/feed.ics", "public internet"],
+    ["https://169.254.169.254/latest/meta-data", "public internet"],
+    ["https://2130706433/feed.ics", "public internet"],
+    ["https://[::1]/feed.ics", "public internet"],
+    ["not a url", "not valid"],
+  ])("refuses %s", (url, message) => {
+    expect(() => calendarFeedUrl(url)).toThrow(message);
+  });
+});
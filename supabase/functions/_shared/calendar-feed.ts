@@ -0,0 +1,120 @@
+// Fetches an instructor's calendar feed. The URL is whatever they typed in, so it's only fetched
+// over https from a public address, redirects are checked hop by hop, and both the time taken
+// and the size of the response are capped.
+
+const FETCH_TIMEOUT_MS = 10000
+const MAX_REDIRECTS = 3
+export const MAX_CALENDAR_BYTES = 5 * 1024 * 1024
+
+const parseIpv4 = (address: string) => {
+  const parts = address.split('.')
+  if (parts.length !== 4 || parts.some(p => !/^\d{1,3}$/.test(p))) return null
+  const octets = parts.map(Number)
+  return octets.some(o => o > 255) ? null : octets
+}
+
+/**
+ * Loopback, private, link-local, shared (CGNAT), multicast and reserved addresses, for IPv4 and IPv6
+ */
+export const isPrivateAddress = (address: string) => {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase()
+  const v4 = parseIpv4(ip)
+  if (v4) {
+    const [a, b, c] = v4
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 192 && b === 0 && c === 0)
+      || (a === 198 && (b === 18 || b === 19))
+  }
+  if (!ip.includes(':')) return false
+  // Anything starting :: is unspecified, loopback or an embedded IPv4 address (::ffff:10.0.0.1)
+  return ip.startsWith('::')
+    || /^f[cd][0-9a-f]{2}:/.test(ip) // unique local
+    || /^fe[89ab][0-9a-f]:/.test(ip) // link-local
+    || /^ff[0-9a-f]{2}:/.test(ip) // multicast
+    || ip.startsWith('64:ff9b:') // NAT64, which can reach IPv4 private ranges
+}
+
+const isInternalHostname = (hostname: string) =>
+  !hostname.includes('.') || /(^|\.)(localhost|local|internal|localdomain)$/i.test(hostname)
+
+/**
+ * The https URL to fetch for a calendar URL (webcal:// is just https:// for calendar apps)
+ */
+export const calendarFeedUrl = (raw: string) => {
+  let url: URL
+  try {
+    url = new URL(raw.trim().replace(/^webcal:/i, 'https:'))
+  } catch {
+    throw new Error('The calendar URL is not valid')
+  }
+  if (url.protocol !== 'https:') throw new Error('Calendar URLs must start with https:// or webcal://')
+  if (url.port && url.port !== '443') throw new Error('Calendar URLs must use the standard https port')
+  if (isInternalHostname(url.hostname) || isPrivateAddress(url.hostname)) {
+    throw new Error('The calendar URL must be on the public internet')
+  }
+  return url
+}
+
+export const assertPublicHost = async (hostname: string) => {
+  if (parseIpv4(hostname) || hostname.startsWith('[')) return
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, 'A'), Deno.resolveDns(hostname, 'AAAA')])
+  const addresses = lookups.flatMap(result => result.status === 'fulfilled' ? result.value : [])
+  if (addresses.length === 0) throw new Error('The calendar server could not be found')
+  if (addresses.some(isPrivateAddress)) throw new Error('The calendar URL must be on the public internet')
+}
+
+const readCapped = async (res: Response) => {
+  if (Number(res.headers.get('content-length') || 0) > MAX_CALENDAR_BYTES) throw new Error('The calendar is too large to import')
+  const reader = res.body?.getReader()
+  if (!reader) return ''
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > MAX_CALENDAR_BYTES) {
+      await reader.cancel()
+      throw new Error('The calendar is too large to import')
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+export const fetchCalendarFeed = async (rawUrl: string) => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  let url = calendarFeedUrl(rawUrl)
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(url.hostname)
+    let res: Response
+    try {
+      res = await fetch(url, { redirect: 'manual', signal })
+    } catch (error) {
+      throw new Error(signal.aborted ? 'The calendar server took too long to respond' : error.message)
+    }
+
+    const location = res.headers.get('location')
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel()
+      if (redirects >= MAX_REDIRECTS) throw new Error('The calendar URL redirects too many times')
+      url = calendarFeedUrl(new URL(location, url).toString())
+      continue
+    }
+    if (!res.ok) throw new Error(`Calendar server responded with ${res.status}`)
+    return await readCapped(res)
+  }
+}
@@ -0,0 +1,68 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseIcsBusyBlocks } from "./ics-parser.ts";
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+const summarise = (text: string, from: string, to: string, zone?: string) =>
+  parseIcsBusyBlocks(text, new Date(from), new Date(to), zone).map(b => ({
+    summary: b.summary,
+    start: b.start.toISOString(),
+    end: b.end.toISOString(),
+    allDay: b.allDay,
+  }));
+
+describe("parseIcsBusyBlocks", () => {
+  it("expands a Google weekly rule with exceptions, a moved occurrence and free or cancelled events", () => {
+    expect(summarise(fixture("google.ics"), "2026-03-01T00:00:00Z", "2026-04-01T00:00:00Z")).toEqual([
+      { summary: "Gym, then tea", start: "2026-03-02T18:00:00.000Z", end: "2026-03-02T19:00:00.000Z", allDay: false },
+      { summary: "Gym (late)", start: "2026-03-04T20:00:00.000Z", end: "2026-03-04T21:00:00.000Z", allDay: false },
+      { summary: "A summary long enough that Google folds it on to a second line", start: "2026-03-10T09:00:00.000Z", end: "2026-03-10T10:00:00.000Z", allDay: false },
+      { summary: "Gym, then tea", start: "2026-03-11T18:00:00.000Z", end: "2026-03-11T19:00:00.000Z", allDay: false },
+      { summary: "Gym, then tea", start: "2026-03-16T18:00:00.000Z", end: "2026-03-16T19:00:00.000Z", allDay: false },
+      { summary: "Gym, then tea", start: "2026-03-18T18:00:00.000Z", end: "2026-03-18T19:00:00.000Z", allDay: false },
+    ]);
+  });
+
+  it("gives each occurrence of a recurring event its own uid", () => {
+    const uids = parseIcsBusyBlocks(fixture("google.ics"), new Date("2026-03-01T00:00:00Z"), new Date("2026-04-01T00:00:00Z")).map(b => b.uid);
+    expect(new Set(uids).size).toBe(uids.length);
+    expect(uids).toContain("long@google.com");
+  });
+
+  it("only returns events overlapping the range", () => {
+    expect(summarise(fixture("google.ics"), "2026-03-10T09:30:00Z", "2026-03-12T00:00:00Z").map(b => b.start)).toEqual([
+      "2026-03-10T09:00:00.000Z",
+      "2026-03-11T18:00:00.000Z",
+    ]);
+  });
+
+  it("reads Outlook's Windows zone names, all-day events and durations", () => {
+    expect(summarise(fixture("outlook.ics"), "2026-06-01T00:00:00Z", "2026-08-01T00:00:00Z")).toEqual([
+      { summary: "Team meeting", start: "2026-07-01T09:00:00.000Z", end: "2026-07-01T10:30:00.000Z", allDay: false },
+      { summary: "Holiday", start: "2026-07-09T23:00:00.000Z", end: "2026-07-12T23:00:00.000Z", allDay: true },
+      { summary: "Call", start: "2026-07-15T15:00:00.000Z", end: "2026-07-15T15:45:00.000Z", allDay: false },
+    ]);
+  });
+
+  it("reads floating times in the instructor's zone, keeping the wall-clock time when the clocks change", () => {
+    const starts = (zone: string) => summarise(fixture("apple-floating.ics"), "2026-03-01T00:00:00Z", "2026-04-30T00:00:00Z", zone).map(b => b.start);
+
+    expect(starts("Europe/London")).toEqual([
+      "2026-03-27T08:30:00.000Z",
+      "2026-03-28T08:30:00.000Z",
+      "2026-03-29T07:30:00.000Z",
+      "2026-03-30T07:30:00.000Z",
+    ]);
+    expect(starts("America/New_York")).toEqual([
+      "2026-03-27T12:30:00.000Z",
+      "2026-03-28T12:30:00.000Z",
+      "2026-03-29T12:30:00.000Z",
+      "2026-03-30T12:30:00.000Z",
+    ]);
+  });
+
+  it("finds nothing in a file with no events", () => {
+    expect(parseIcsBusyBlocks("BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n", new Date(0), new Date())).toEqual([]);
+  });
+});
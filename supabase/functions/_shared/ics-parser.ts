@@ -0,0 +1,357 @@
+// Minimal RFC 5545 parser for importing external calendars as busy time.
+// Pure TypeScript with no network or Deno APIs, so it can be run offline
+// against saved .ics files.
+
+export interface IcsBusyBlock {
+  uid: string
+  summary: string | null
+  start: Date
+  end: Date
+  allDay: boolean
+}
+
+interface IcsDateValue {
+  value: string
+  tzid: string | null
+  isDate: boolean
+}
+
+interface IcsEvent {
+  uid: string
+  summary: string | null
+  status: string | null
+  transp: string | null
+  dtstart: IcsDateValue | null
+  dtend: IcsDateValue | null
+  duration: string | null
+  rrule: string | null
+  exdates: IcsDateValue[]
+  recurrenceId: IcsDateValue | null
+}
+
+interface WallTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const DAY_MS = 86400000
+const MAX_ITERATIONS = 20000
+
+// Outlook exports Windows zone names rather than IANA ones
+const WINDOWS_ZONES: Record<string, string> = {
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Etc/GMT',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Eastern Standard Time': 'America/New_York',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'UTC': 'UTC',
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const resolveTimeZone = (tzid: string | null, fallback: string) => {
+  if (!tzid) return fallback
+  const cleaned = tzid.replace(/^"|"$/g, '')
+  const candidate = WINDOWS_ZONES[cleaned] || cleaned
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: candidate })
+    return candidate
+  } catch {
+    return fallback
+  }
+}
+
+const getOffsetMs = (utcMs: number, timeZone: string) => {
+  const dtf = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+  const parts: Record<string, string> = {}
+  for (const part of dtf.formatToParts(new Date(utcMs))) parts[part.type] = part.value
+  const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+  return asUtc - utcMs
+}
+
+/**
+ * Converts a wall-clock time in the given IANA zone to a UTC timestamp
+ */
+export const zonedTimeToUtc = (wall: WallTime, timeZone: string) => {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+  const offset = getOffsetMs(guess, timeZone)
+  const result = guess - offset
+  const correctedOffset = getOffsetMs(result, timeZone)
+  return correctedOffset === offset ? result : guess - correctedOffset
+}
+
+const unfold = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '')
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\,/g, ',').replace(/\\;/g, ';').replace(/\\\\/g, '\\')
+
+const parseProperty = (line: string) => {
+  let inQuotes = false
+  let colonIndex = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) { colonIndex = i; break }
+  }
+  if (colonIndex === -1) return null
+
+  const [rawName, ...rawParams] = line.slice(0, colonIndex).split(';')
+  const params: Record<string, string> = {}
+  rawParams.forEach(p => {
+    const [key, ...rest] = p.split('=')
+    params[key.toUpperCase()] = rest.join('=')
+  })
+  return { name: rawName.toUpperCase(), params, value: line.slice(colonIndex + 1) }
+}
+
+const toDateValue = (value: string, params: Record<string, string>): IcsDateValue => ({
+  value: value.trim(),
+  tzid: params.TZID || null,
+  isDate: params.VALUE === 'DATE' || /^\d{8}$/.test(value.trim()),
+})
+
+const parseWallTime = (value: string): WallTime | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/)
+  if (!match) return null
+  return {
+    year: +match[1],
+    month: +match[2],
+    day: +match[3],
+    hour: match[4] ? +match[4] : 0,
+    minute: match[5] ? +match[5] : 0,
+    second: match[6] ? +match[6] : 0,
+  }
+}
+
+const wallToUtc = (wall: WallTime, dateValue: IcsDateValue, fallbackZone: string) => {
+  if (dateValue.value.endsWith('Z')) {
+    return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+  }
+  return zonedTimeToUtc(wall, resolveTimeZone(dateValue.tzid, fallbackZone))
+}
+
+const toUtcMs = (dateValue: IcsDateValue, fallbackZone: string) => {
+  const wall = parseWallTime(dateValue.value)
+  return wall ? wallToUtc(wall, dateValue, fallbackZone) : null
+}
+
+/**
+ * Parses ISO 8601 durations such as PT1H30M, P1D or P2W into milliseconds
+ */
+const parseDuration = (value: string) => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return 0
+  const [, sign, w, d, h, m, s] = match
+  const ms = ((+(w || 0) * 7 + +(d || 0)) * DAY_MS) + (+(h || 0) * 3600 + +(m || 0) * 60 + +(s || 0)) * 1000
+  return sign === '-' ? -ms : ms
+}
+
+const parseRule = (rrule: string) => {
+  const rule: Record<string, string> = {}
+  rrule.split(';').forEach(part => {
+    const [key, value] = part.split('=')
+    if (key && value) rule[key.toUpperCase()] = value
+  })
+  return rule
+}
+
+const emptyEvent = (): IcsEvent => ({
+  uid: '',
+  summary: null,
+  status: null,
+  transp: null,
+  dtstart: null,
+  dtend: null,
+  duration: null,
+  rrule: null,
+  exdates: [],
+  recurrenceId: null,
+})
+
+const parseEvents = (text: string) => {
+  const events: IcsEvent[] = []
+  const stack: string[] = []
+  let current: IcsEvent | null = null
+
+  for (const line of unfold(text).split('\n')) {
+    if (!line.trim()) continue
+    const prop = parseProperty(line)
+    if (!prop) continue
+
+    if (prop.name === 'BEGIN') {
+      stack.push(prop.value.toUpperCase())
+      if (prop.value.toUpperCase() === 'VEVENT') current = emptyEvent()
+      continue
+    }
+    if (prop.name === 'END') {
+      const component = stack.pop()
+      if (component === 'VEVENT' && current) {
+        events.push(current)
+        current = null
+      }
+      continue
+    }
+
+    // Ignore properties of nested components such as VALARM
+    if (!current || stack[stack.length - 1] !== 'VEVENT') continue
+
+    switch (prop.name) {
+      case 'UID': current.uid = prop.value; break
+      case 'SUMMARY': current.summary = unescapeText(prop.value); break
+      case 'STATUS': current.status = prop.value.toUpperCase(); break
+      case 'TRANSP': current.transp = prop.value.toUpperCase(); break
+      case 'DTSTART': current.dtstart = toDateValue(prop.value, prop.params); break
+      case 'DTEND': current.dtend = toDateValue(prop.value, prop.params); break
+      case 'DURATION': current.duration = prop.value; break
+      case 'RRULE': current.rrule = prop.value; break
+      case 'RECURRENCE-ID': current.recurrenceId = toDateValue(prop.value, prop.params); break
+      case 'EXDATE':
+        prop.value.split(',').forEach(v => current!.exdates.push(toDateValue(v, prop.params)))
+        break
+    }
+  }
+  return events
+}
+
+const addWallDays = (wall: WallTime, days: number): WallTime => {
+  const d = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days))
+  return { ...wall, year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() }
+}
+
+const wallDayNumber = (wall: WallTime) => Math.floor(Date.UTC(wall.year, wall.month - 1, wall.day) / DAY_MS)
+
+/**
+ * Yields the wall-clock start of every occurrence of a recurring event, in order
+ */
+function* expandRule(start: WallTime, rrule: string) {
+  const rule = parseRule(rrule)
+  const freq = rule.FREQ
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1', 10))
+  const byDay = rule.BYDAY ? rule.BYDAY.split(',').map(d => WEEKDAYS.indexOf(d.slice(-2))) : null
+  const byMonthDay = rule.BYMONTHDAY ? rule.BYMONTHDAY.split(',').map(Number) : null
+  const startDay = wallDayNumber(start)
+  // Weeks start on Monday (WKST=MO), day 0 of the epoch was a Thursday
+  const startWeek = Math.floor((startDay + 3) / 7)
+
+  let cursor = start
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const dayNumber = wallDayNumber(cursor)
+    const weekday = (dayNumber + 4) % 7
+    let matches = false
+
+    if (freq === 'DAILY') {
+      matches = (dayNumber - startDay) % interval === 0 && (!byDay || byDay.includes(weekday))
+    } else if (freq === 'WEEKLY') {
+      const week = Math.floor((dayNumber + 3) / 7)
+      const days = byDay || [(startDay + 4) % 7]
+      matches = (week - startWeek) % interval === 0 && days.includes(weekday)
+    } else if (freq === 'MONTHLY') {
+      const months = (cursor.year - start.year) * 12 + (cursor.month - start.month)
+      matches = months % interval === 0 && (byMonthDay || [start.day]).includes(cursor.day)
+    } else if (freq === 'YEARLY') {
+      matches = (cursor.year - start.year) % interval === 0 && cursor.month === start.month && cursor.day === start.day
+    } else {
+      yield start
+      return
+    }
+
+    if (matches) yield cursor
+    cursor = addWallDays(cursor, 1)
+  }
+}
+
+/**
+ * Parses an .ics document into busy blocks that overlap [rangeStart, rangeEnd).
+ * Free (TRANSP:TRANSPARENT) and cancelled events are skipped. Floating times and
+ * all-day events are read in fallbackZone.
+ */
+export const parseIcsBusyBlocks = (text: string, rangeStart: Date, rangeEnd: Date, fallbackZone = 'Europe/London'): IcsBusyBlock[] => {
+  const events = parseEvents(text)
+  const blocks: IcsBusyBlock[] = []
+  const fromMs = rangeStart.getTime()
+  const toMs = rangeEnd.getTime()
+
+  // Modified occurrences replace the matching instance of their master event
+  const overrides = new Map<string, Set<number>>()
+  events.forEach(e => {
+    if (!e.recurrenceId) return
+    const ms = toUtcMs(e.recurrenceId, fallbackZone)
+    if (ms === null) return
+    if (!overrides.has(e.uid)) overrides.set(e.uid, new Set())
+    overrides.get(e.uid)!.add(ms)
+  })
+
+  for (const event of events) {
+    if (!event.dtstart) continue
+    if (event.status === 'CANCELLED' || event.transp === 'TRANSPARENT') continue
+
+    const startWall = parseWallTime(event.dtstart.value)
+    if (!startWall) continue
+    const allDay = event.dtstart.isDate
+    const firstStartMs = wallToUtc(startWall, event.dtstart, fallbackZone)
+
+    let durationMs: number
+    if (event.dtend) {
+      const endMs = toUtcMs(event.dtend, fallbackZone)
+      durationMs = endMs === null ? 0 : endMs - firstStartMs
+    } else if (event.duration) {
+      durationMs = parseDuration(event.duration)
+    } else {
+      durationMs = allDay ? DAY_MS : 0
+    }
+    if (durationMs <= 0) continue
+
+    const excluded = new Set<number>(overrides.get(event.uid) || [])
+    event.exdates.forEach(ex => {
+      const ms = toUtcMs(ex, fallbackZone)
+      if (ms !== null) excluded.add(ms)
+    })
+
+    const pushOccurrence = (startMs: number) => {
+      const endMs = startMs + durationMs
+      if (endMs <= fromMs || startMs >= toMs) return
+      blocks.push({
+        uid: event.rrule || event.recurrenceId ? `${event.uid}#${startMs}` : event.uid,
+        summary: event.summary,
+        start: new Date(startMs),
+        end: new Date(endMs),
+        allDay,
+      })
+    }
+
+    if (!event.rrule || event.recurrenceId) {
+      pushOccurrence(firstStartMs)
+      continue
+    }
+
+    const rule = parseRule(event.rrule)
+    const count = rule.COUNT ? parseInt(rule.COUNT, 10) : null
+    const untilMs = rule.UNTIL ? toUtcMs(toDateValue(rule.UNTIL, {}), fallbackZone) : null
+    let emitted = 0
+
+    for (const wall of expandRule(startWall, event.rrule)) {
+      const startMs = wallToUtc(wall, event.dtstart, fallbackZone)
+      if (untilMs !== null && startMs > untilMs) break
+      if (startMs >= toMs) break
+      emitted++
+      if (!excluded.has(startMs)) pushOccurrence(startMs)
+      if (count !== null && emitted >= count) break
+    }
+  }
+
+  return blocks.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { InvoicePdfData, readJpegInfo, renderInvoicePdf } from "./invoice-pdf.ts";
+
+const invoice = (overrides: Partial<InvoicePdfData> = {}): InvoicePdfData => ({
+  kind: "receipt",
+  number: 12,
+  issue_date: "2026-03-02",
+  supply_date: "2026-03-01",
+  recipient_name: "Sam Student",
+  recipient_email: "sam@example.com",
+  description: "Driving lesson",
+  quantity: 1.5,
+  amount: 45,
+  issuer: { name: "Pat's School of Motoring", address: "1 High Street\nTown", phone: null, email: "pat@example.com", notes: null },
+  ...overrides,
+});
+
+// A JPEG with just enough markers to be read: SOI, an APP0 segment, a SOF0 frame header and EOI
+const jpeg = (width: number, height: number, components = 3) => Uint8Array.from([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46,
+  0xff, 0xc0, 0x00, 0x08 + components * 3, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, components,
+  ...Array.from({ length: components * 3 }, () => 0x11),
+  0xff, 0xd9,
+]);
+
+const PNG = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+const asText = (bytes: Uint8Array) => Buffer.from(bytes).toString("latin1");
+
+describe("readJpegInfo", () => {
+  it("reads the size and channels from the frame header", () => {
+    expect(readJpegInfo(jpeg(640, 200))).toEqual({ width: 640, height: 200, components: 3 });
+    expect(readJpegInfo(jpeg(32, 32, 1))).toEqual({ width: 32, height: 32, components: 1 });
+  });
+
+  it("rejects anything that isn't a JPEG", () => {
+    expect(readJpegInfo(PNG)).toBeNull();
+    expect(readJpegInfo(new Uint8Array())).toBeNull();
+  });
+});
+
+describe("renderInvoicePdf", () => {
+  it("escapes brackets and backslashes in text", () => {
+    const pdf = asText(renderInvoicePdf(invoice({ recipient_name: "A (Jr) \\ B" })));
+    expect(pdf).toContain("(A \\(Jr\\) \\\\ B) Tj");
+  });
+
+  it("writes the pound sign as its single WinAnsi byte", () => {
+    const bytes = renderInvoicePdf(invoice());
+    const pdf = asText(bytes);
+    const at = pdf.indexOf("45.00)");
+    expect(bytes[at - 1]).toBe(0xa3);
+    expect(bytes.includes(0xc2)).toBe(false);
+  });
+
+  it("keeps Latin-1 characters and replaces anything else", () => {
+    const bytes = renderInvoicePdf(invoice({ recipient_name: "Zoë 李" }));
+    expect(asText(bytes)).toContain("(Zoë ?) Tj");
+  });
+
+  it("points the cross-reference table at each object", () => {
+    const pdf = asText(renderInvoicePdf(invoice()));
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+
+    const offsets = pdf.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, i) => expect(pdf.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj\n`)));
+    expect(pdf).toContain("/Size 7 ");
+  });
+
+  it("gives the page content its exact length", () => {
+    const pdf = asText(renderInvoicePdf(invoice()));
+    const [, length, stream] = pdf.match(/6 0 obj\n<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+    expect(stream.length).toBe(Number(length));
+  });
+
+  it("embeds a JPEG logo as an image scaled into its box", () => {
+    const logo = jpeg(400, 100);
+    const pdf = asText(renderInvoicePdf(invoice(), logo));
+
+    expect(pdf).toContain("/XObject << /Logo 7 0 R >>");
+    expect(pdf).toContain("q 160 0 0 40 50 790.00 cm /Logo Do Q");
+    const [, length, data] = pdf.match(/7 0 obj\n<< .*\/Width 400 \/Height 100 \/ColorSpace \/DeviceRGB \/BitsPerComponent 8 \/Filter \/DCTDecode \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+    expect(Number(length)).toBe(logo.length);
+    expect(data).toBe(asText(logo));
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const offsets = pdf.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    expect(offsets).toHaveLength(7);
+    expect(pdf.slice(offsets[6])).toMatch(/^7 0 obj\n/);
+  });
+
+  it("leaves out a logo that isn't a JPEG", () => {
+    const pdf = asText(renderInvoicePdf(invoice(), PNG));
+    expect(pdf).not.toContain("/XObject");
+    expect(pdf).not.toContain("/Logo Do");
+  });
+});
@@ -0,0 +1,176 @@
+// Minimal one-page PDF for an invoice or receipt, for emailing and downloading.
+// Pure TypeScript using the built-in Helvetica fonts, so it needs no PDF library. A JPEG logo is
+// embedded as it is (PDF readers decode JPEG themselves); other image types are left out.
+
+export interface InvoicePdfData {
+  kind: 'invoice' | 'receipt'
+  number: number
+  issue_date: string
+  supply_date: string
+  recipient_name: string
+  recipient_email: string | null
+  description: string
+  quantity: number | null
+  amount: number
+  issuer: {
+    name: string | null
+    address: string | null
+    phone: string | null
+    email: string | null
+    logo_url?: string | null
+    notes: string | null
+  }
+}
+
+export const formatInvoiceNumber = (number: number) => number.toString().padStart(4, '0')
+
+/**
+ * Pixel size and colour channels of a baseline or progressive JPEG, or null if it isn't one
+ */
+export const readJpegInfo = (bytes: Uint8Array) => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null
+  let i = 2
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null
+    const marker = bytes[i + 1]
+    if (marker === 0xff) { i++; continue }
+    // SOF0 to SOF15, apart from DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[i + 5] << 8) | bytes[i + 6],
+        width: (bytes[i + 7] << 8) | bytes[i + 8],
+        components: bytes[i + 9],
+      }
+    }
+    i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3])
+  }
+  return null
+}
+
+const COLOUR_SPACES: Record<number, string> = {
+  1: '/DeviceGray',
+  3: '/DeviceRGB',
+  // Adobe writes CMYK JPEGs inverted
+  4: '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]',
+}
+
+const LOGO_MAX_WIDTH = 160
+const LOGO_MAX_HEIGHT = 48
+
+const formatDate = (value: string) =>
+  new Date(`${value}T12:00:00Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })
+
+// Helvetica is WinAnsi-encoded: keep Latin-1 (which has £) and replace anything else
+const pdfString = (text: string) =>
+  '(' + Array.from(text).map(ch => (ch.charCodeAt(0) < 256 ? ch : '?')).join('')
+    .replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)') + ')'
+
+const wrap = (text: string, maxChars: number) => {
+  const lines: string[] = []
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(' ')) {
+      if (line && (line + ' ' + word).length > maxChars) {
+        lines.push(line)
+        line = word
+      } else {
+        line = line ? `${line} ${word}` : word
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+export const renderInvoicePdf = (invoice: InvoicePdfData, logo?: Uint8Array | null) => {
+  const ops: string[] = []
+  const text = (x: number, y: number, value: string, size = 10, bold = false) =>
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td ${pdfString(value)} Tj ET`)
+  const rule = (y: number) => ops.push(`0.8 G 50 ${y} m 545 ${y} l S 0 G`)
+
+  // The logo sits top left, above the title, scaled to fit its box
+  const logoInfo = logo ? readJpegInfo(logo) : null
+  const image = logoInfo && COLOUR_SPACES[logoInfo.components] && logoInfo.width > 0 && logoInfo.height > 0 ? logoInfo : null
+  let top = 780
+  if (image) {
+    const scale = Math.min(LOGO_MAX_WIDTH / image.width, LOGO_MAX_HEIGHT / image.height)
+    const width = +(image.width * scale).toFixed(2)
+    const height = +(image.height * scale).toFixed(2)
+    ops.push(`q ${width} 0 0 ${height} 50 ${(830 - height).toFixed(2)} cm /Logo Do Q`)
+    top = 780 - LOGO_MAX_HEIGHT - 8
+  }
+
+  const isReceipt = invoice.kind === 'receipt'
+  text(50, top, isReceipt ? 'RECEIPT' : 'INVOICE', 22, true)
+  text(50, top - 22, `No. ${formatInvoiceNumber(invoice.number)}`, 10)
+  text(50, top - 36, `Date: ${formatDate(invoice.issue_date)}`, 10)
+
+  let y = 780
+  const issuer = invoice.issuer
+  if (issuer.name) { text(330, y, issuer.name, 12, true); y -= 16 }
+  for (const line of [...(issuer.address ? issuer.address.split(/\r?\n/) : []), issuer.phone, issuer.email]) {
+    if (!line) continue
+    text(330, y, line, 9)
+    y -= 12
+  }
+
+  y = Math.min(y, top - 60) - 20
+  text(50, y, isReceipt ? 'RECEIVED FROM' : 'BILL TO', 8, true)
+  text(50, y - 14, invoice.recipient_name, 11, true)
+  if (invoice.recipient_email) text(50, y - 28, invoice.recipient_email, 9)
+
+  y -= 64
+  text(50, y, 'DESCRIPTION', 8, true)
+  text(400, y, 'HOURS', 8, true)
+  text(480, y, 'AMOUNT', 8, true)
+  rule(y - 6)
+  y -= 22
+  const descriptionLines = wrap(`${invoice.description} (${formatDate(invoice.supply_date)})`, 60)
+  descriptionLines.forEach((line, i) => text(50, y - i * 13, line, 10))
+  if (invoice.quantity != null) text(400, y, String(Number(invoice.quantity)), 10)
+  text(480, y, `£${invoice.amount.toFixed(2)}`, 10)
+  y -= descriptionLines.length * 13 + 6
+  rule(y)
+  y -= 18
+  text(400, y, isReceipt ? 'PAID' : 'TOTAL DUE', 9, true)
+  text(480, y, `£${invoice.amount.toFixed(2)}`, 11, true)
+
+  if (issuer.notes) {
+    y -= 40
+    text(50, y, 'NOTES', 8, true)
+    wrap(issuer.notes, 95).forEach((line, i) => text(50, y - 14 - i * 12, line, 9))
+  }
+
+  const content = ops.join('\n')
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R /F2 5 0 R >>${image ? ' /XObject << /Logo 7 0 R >>' : ''} >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ]
+  if (image) {
+    // Each byte of the JPEG becomes one character, which the final conversion turns back into that byte
+    let data = ''
+    for (let i = 0; i < logo!.length; i += 8192) data += String.fromCharCode(...logo!.subarray(i, i + 8192))
+    objects.push(
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${COLOUR_SPACES[image.components]} ` +
+      `/BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n${data}\nendstream`
+    )
+  }
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length)
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Uint8Array.from(pdf, ch => ch.charCodeAt(0) & 0xff)
+}
@@ -0,0 +1,21 @@
+// Stripe client shared by the edge functions.
+// Set STRIPE_API_BASE (e.g. http://localhost:12111 for stripe-mock) to send every
+// call to a local mock instead of api.stripe.com.
+
+import Stripe from 'https://esm.sh/stripe@12.0.0?target=deno'
+
+const apiBase = Deno.env.get('STRIPE_API_BASE')
+const mockUrl = apiBase ? new URL(apiBase) : null
+
+export const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2022-11-15',
+  httpClient: Stripe.createFetchHttpClient(),
+  ...(mockUrl ? {
+    host: mockUrl.hostname,
+    port: mockUrl.port || (mockUrl.protocol === 'https:' ? '443' : '80'),
+    protocol: mockUrl.protocol.replace(':', '') as 'http' | 'https',
+  } : {}),
+})
+
+// Deno has no Node crypto, so webhook signatures are checked with Web Crypto
+export const webhookCryptoProvider = Stripe.createSubtleCryptoProvider()
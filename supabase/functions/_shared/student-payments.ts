@@ -0,0 +1,23 @@
+// Applying a student's paid checkout, shared by student-payments (when the student comes back
+// from Checkout) and subscription-webhooks (when Stripe reports the payment).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { stripe } from './stripe.ts'
+
+export type StudentPaymentStatus = 'paid' | 'refund_due' | 'refunded'
+
+export const fulfilStudentPayment = async (supabaseAdmin: SupabaseClient, sessionId: string, paymentIntentId: string | null) => {
+  const { data, error } = await supabaseAdmin.rpc('fulfil_student_payment', { p_session_id: sessionId, p_payment_intent_id: paymentIntentId })
+  if (error) throw error
+  const status = data as StudentPaymentStatus
+  if (status !== 'refund_due' || !paymentIntentId) return status
+
+  // The lesson was settled some other way while the student was paying. The idempotency key stops
+  // the return from Checkout and the webhook both refunding it.
+  await stripe.refunds.create(
+    { payment_intent: paymentIntentId, reverse_transfer: true },
+    { idempotencyKey: `student-payment-refund-${sessionId}` }
+  )
+  await supabaseAdmin.from('student_payments').update({ status: 'refunded' }).eq('stripe_session_id', sessionId)
+  return 'refunded'
+}
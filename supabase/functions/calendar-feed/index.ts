@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Public iCalendar feed. Calendar apps can't send auth headers, so the secret
+// token in the URL is the only credential. Deploy with --no-verify-jwt.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const PAST_DAYS = 90
+const FUTURE_DAYS = 365
+const DEFAULT_TIME_ZONE = 'Europe/London'
+
+interface FeedBooking {
+  id: string
+  start_time: string
+  end_time: string
+  status: string
+}
+
+interface FeedUnavailability {
+  id: string
+  start_date: string
+  end_date: string
+  reason: string | null
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// RFC 5545 lines must be folded at 75 octets
+const foldLine = (line: string) => {
+  const parts: string[] = []
+  let rest = line
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75))
+    rest = ' ' + rest.slice(75)
+  }
+  parts.push(rest)
+  return parts.join('\r\n')
+}
+
+const formatUtc = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const formatDate = (date: string) => date.replace(/-/g, '')
+
+const nextDate = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+// Times stay in UTC; X-WR-TIMEZONE tells calendar apps which zone the diary is kept in
+const buildCalendar = (name: string, timeZone: string, events: string[][]) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HDT App//Lesson Diary//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+const bookingEvent = (booking: FeedBooking, summary: string, description: string[]) => [
+  'BEGIN:VEVENT',
+  `UID:booking-${booking.id}@hdt-app`,
+  `DTSTAMP:${formatUtc(new Date().toISOString())}`,
+  `DTSTART:${formatUtc(booking.start_time)}`,
+  `DTEND:${formatUtc(booking.end_time)}`,
+  `SUMMARY:${escapeText(summary)}`,
+  ...(description.length ? [`DESCRIPTION:${escapeText(description.join('\n'))}`] : []),
+  `STATUS:${booking.status === 'pending_approval' ? 'TENTATIVE' : 'CONFIRMED'}`,
+  'END:VEVENT',
+]
+
+const unavailabilityEvent = (item: FeedUnavailability) => [
+  'BEGIN:VEVENT',
+  `UID:unavailable-${item.id}@hdt-app`,
+  `DTSTAMP:${formatUtc(new Date().toISOString())}`,
+  `DTSTART;VALUE=DATE:${formatDate(item.start_date)}`,
+  `DTEND;VALUE=DATE:${formatDate(nextDate(item.end_date))}`,
+  `SUMMARY:${escapeText(item.reason ? `Unavailable: ${item.reason}` : 'Unavailable')}`,
+  'TRANSP:OPAQUE',
+  'END:VEVENT',
+]
+
+serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token')
+  if (!token) return new Response('Missing token', { status: 400 })
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+
+    const { data: feed } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('id, user_id, student_id')
+      .eq('token', token)
+      .maybeSingle()
+
+    if (!feed) return new Response('Feed not found', { status: 404 })
+
+    await supabaseAdmin.from('calendar_feed_tokens').update({ last_accessed_at: new Date().toISOString() }).eq('id', feed.id)
+
+    const rangeStart = new Date(Date.now() - PAST_DAYS * 86400000).toISOString()
+    const rangeEnd = new Date(Date.now() + FUTURE_DAYS * 86400000).toISOString()
+
+    let query = supabaseAdmin
+      .from('bookings')
+      .select('id, title, start_time, end_time, status, lesson_type, targets_for_next_session, students(name)')
+      .eq('user_id', feed.user_id)
+      .not('status', 'in', '("cancelled","available")')
+      .gte('start_time', rangeStart)
+      .lte('start_time', rangeEnd)
+      .order('start_time', { ascending: true })
+
+    if (feed.student_id) query = query.eq('student_id', feed.student_id)
+
+    const { data: bookings, error: bookingsError } = await query
+    if (bookingsError) throw bookingsError
+
+    const { data: instructor } = await supabaseAdmin
+      .from('profiles')
+      .select('first_name, last_name, time_zone')
+      .eq('id', feed.user_id)
+      .single()
+
+    const instructorName = [instructor?.first_name, instructor?.last_name].filter(Boolean).join(' ') || 'Instructor'
+    const timeZone = instructor?.time_zone || DEFAULT_TIME_ZONE
+    const events: string[][] = []
+
+    if (feed.student_id) {
+      for (const b of bookings || []) {
+        const description = [`Instructor: ${instructorName}`]
+        if (b.targets_for_next_session) description.push(`Targets: ${b.targets_for_next_session}`)
+        events.push(bookingEvent(b, `${b.lesson_type || 'Driving lesson'} with ${instructorName}`, description))
+      }
+      return new Response(buildCalendar('My Driving Lessons', timeZone, events), {
+        headers: { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' },
+      })
+    }
+
+    for (const b of bookings || []) {
+      const studentName = b.students?.name
+      const description: string[] = []
+      if (studentName) description.push(`Student: ${studentName}`)
+      if (b.lesson_type) description.push(`Lesson type: ${b.lesson_type}`)
+      if (b.targets_for_next_session) description.push(`Targets: ${b.targets_for_next_session}`)
+      const summary = studentName ? `${studentName} - ${b.lesson_type || 'Lesson'}` : (b.title || b.lesson_type || 'Booking')
+      events.push(bookingEvent(b, summary, description))
+    }
+
+    const { data: unavailability } = await supabaseAdmin
+      .from('instructor_unavailability')
+      .select('id, start_date, end_date, reason')
+      .eq('user_id', feed.user_id)
+      .gte('end_date', rangeStart.slice(0, 10))
+
+    for (const item of unavailability || []) events.push(unavailabilityEvent(item))
+
+    return new Response(buildCalendar(`${instructorName} - Lessons`, timeZone, events), {
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' },
+    })
+  } catch (error) {
+    return new Response(error.message, { status: 500 })
+  }
+})
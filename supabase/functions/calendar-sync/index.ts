@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { parseIcsBusyBlocks } from '../_shared/ics-parser.ts'
+import { fetchCalendarFeed, MAX_CALENDAR_BYTES } from '../_shared/calendar-feed.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+// Only this window is stored, which comfortably covers max_booking_advance_weeks
+const SYNC_PAST_DAYS = 1
+const SYNC_FUTURE_DAYS = 183
+// Floating times in a calendar are read in the instructor's zone, or this if they haven't set one
+const DEFAULT_TIME_ZONE = 'Europe/London'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ExternalCalendar {
+  id: string
+  user_id: string
+  url: string | null
+}
+
+const syncCalendar = async (supabaseAdmin: SupabaseClient, calendar: ExternalCalendar, icsText?: string) => {
+  try {
+    let text = icsText
+    if (text && text.length > MAX_CALENDAR_BYTES) throw new Error('The calendar is too large to import')
+    if (!text) {
+      if (!calendar.url) throw new Error('No calendar URL or file provided')
+      text = await fetchCalendarFeed(calendar.url)
+    }
+    if (!text.includes('BEGIN:VCALENDAR')) throw new Error('This does not look like an iCalendar (.ics) file')
+
+    const rangeStart = new Date(Date.now() - SYNC_PAST_DAYS * 86400000)
+    const rangeEnd = new Date(Date.now() + SYNC_FUTURE_DAYS * 86400000)
+    const { data: profile } = await supabaseAdmin.from('profiles').select('time_zone').eq('id', calendar.user_id).maybeSingle()
+    const blocks = parseIcsBusyBlocks(text, rangeStart, rangeEnd, profile?.time_zone || DEFAULT_TIME_ZONE)
+
+    // Replaced in one transaction, so a failure keeps the previous sync's blocks
+    const { error: replaceError } = await supabaseAdmin.rpc('replace_external_busy_blocks', {
+      p_calendar_id: calendar.id,
+      p_blocks: blocks.map(b => ({
+        external_uid: b.uid,
+        summary: b.summary,
+        start_time: b.start.toISOString(),
+        end_time: b.end.toISOString(),
+        is_all_day: b.allDay,
+      })),
+    })
+    if (replaceError) throw replaceError
+
+    return { calendarId: calendar.id, blocks: blocks.length }
+  } catch (error) {
+    await supabaseAdmin.from('external_calendars').update({ last_error: error.message }).eq('id', calendar.id)
+    return { calendarId: calendar.id, error: error.message }
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+    const authHeader = req.headers.get('Authorization') ?? ''
+    const { action, calendarId, icsText } = await req.json()
+
+    // Scheduled re-sync of every URL calendar, called by pg_cron with the service role key
+    if (action === 'sync_all') {
+      if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) throw new Error('Not authorised')
+
+      const { data: calendars, error } = await supabaseAdmin
+        .from('external_calendars')
+        .select('id, user_id, url')
+        .not('url', 'is', null)
+      if (error) throw error
+
+      const results = []
+      for (const calendar of calendars || []) results.push(await syncCalendar(supabaseAdmin, calendar))
+      return new Response(JSON.stringify({ results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    const supabaseClient = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, { global: { headers: { Authorization: authHeader } } })
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    // RLS on the user's own client proves they own the calendar
+    const { data: calendar } = await supabaseClient
+      .from('external_calendars')
+      .select('id, user_id, url')
+      .eq('id', calendarId)
+      .single()
+    if (!calendar) throw new Error('Calendar not found')
+
+    if (action === 'sync' || action === 'import') {
+      const result = await syncCalendar(supabaseAdmin, calendar, action === 'import' ? icsText : undefined)
+      if (result.error) throw new Error(result.error)
+      return new Response(JSON.stringify(result), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    throw new Error('Invalid action')
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  }
+})
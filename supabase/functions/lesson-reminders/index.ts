@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
+const FCM_SERVER_KEY = Deno.env.get('FCM_SERVER_KEY')
+
+// Used when an instructor hasn't chosen a time zone
+const DEFAULT_TIME_ZONE = 'Europe/London'
+const FROM_ADDRESS = 'HDT App <notifications@drivinginstructorapp.co.uk>'
+
+interface ReminderRule {
+  id: string
+  user_id: string
+  hours_before: number
+  channels: string[]
+  template: string
+}
+
+interface UpcomingLesson {
+  id: string
+  user_id: string
+  start_time: string
+  lesson_type: string
+  pickup_address: string | null
+  pickup_postcode: string | null
+  students: {
+    name: string
+    email: string | null
+    auth_user_id: string | null
+    full_address: string | null
+    reminders_opt_out: boolean | null
+  } | null
+}
+
+const formatInZone = (date: Date, timeZone: string, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat('en-GB', { timeZone, ...options }).format(date)
+
+const renderTemplate = (template: string, lesson: UpcomingLesson, instructorName: string, timeZone: string) => {
+  const start = new Date(lesson.start_time)
+  const pickup = [lesson.pickup_address, lesson.pickup_postcode].filter(Boolean).join(', ') || lesson.students?.full_address || ''
+  const values: Record<string, string> = {
+    student: lesson.students?.name.split(' ')[0] ?? '',
+    instructor: instructorName,
+    date: formatInZone(start, timeZone, { weekday: 'long', day: 'numeric', month: 'long' }),
+    time: formatInZone(start, timeZone, { hour: '2-digit', minute: '2-digit' }),
+    lesson_type: lesson.lesson_type,
+    pickup,
+  }
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const sendEmail = async (to: string, message: string) => {
+  if (!RESEND_API_KEY) throw new Error('RESEND_API_KEY is not set')
+  const res = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${RESEND_API_KEY}` },
+    body: JSON.stringify({
+      from: FROM_ADDRESS,
+      to: [to],
+      subject: 'Lesson Reminder',
+      html: `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h1 style="color: #1e293b; font-size: 22px; font-weight: 800;">Lesson Reminder</h1>
+        <p style="color: #475569; font-size: 16px; line-height: 1.5; white-space: pre-line;">${escapeHtml(message)}</p>
+        <p style="color: #94a3b8; font-size: 12px; text-align: center;">Driving Instructor App</p>
+      </div>`,
+    }),
+  })
+  if (!res.ok) throw new Error(`Resend responded with ${res.status}`)
+}
+
+// Straight to the student's devices, for rules that push without an in-app notification
+const sendPush = async (supabaseAdmin: SupabaseClient, authUserId: string, message: string) => {
+  const { data: tokens } = await supabaseAdmin.from('user_push_tokens').select('token').eq('user_id', authUserId)
+  await Promise.all((tokens || []).map(t =>
+    fetch('https://fcm.googleapis.com/fcm/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `key=${FCM_SERVER_KEY}` },
+      body: JSON.stringify({
+        to: t.token,
+        notification: { title: 'Lesson Reminder', body: message, sound: 'default' },
+        data: { type: 'lesson_reminder' },
+      }),
+    })
+  ))
+  return (tokens || []).length > 0
+}
+
+const sendReminder = async (supabaseAdmin: SupabaseClient, rule: ReminderRule, lesson: UpcomingLesson, message: string) => {
+  const student = lesson.students!
+  const sent: string[] = []
+
+  if (rule.channels.includes('app') && student.auth_user_id) {
+    const { error } = await supabaseAdmin.from('notifications').insert({
+      user_id: student.auth_user_id,
+      title: 'Lesson Reminder',
+      message,
+      type: 'lesson_reminder',
+    })
+    if (!error) sent.push('app')
+  }
+
+  // An in-app notification is already pushed by the on_new_notification trigger
+  if (rule.channels.includes('push') && !sent.includes('app') && student.auth_user_id) {
+    try {
+      if (await sendPush(supabaseAdmin, student.auth_user_id, message)) sent.push('push')
+    } catch (error) {
+      console.error(`Push reminder failed for booking ${lesson.id}:`, error.message)
+    }
+  }
+
+  if (rule.channels.includes('email') && student.email) {
+    try {
+      await sendEmail(student.email, message)
+      sent.push('email')
+    } catch (error) {
+      console.error(`Email reminder failed for booking ${lesson.id}:`, error.message)
+    }
+  }
+
+  return sent
+}
+
+serve(async (req) => {
+  try {
+    // Called by pg_cron with the service role key
+    if (req.headers.get('Authorization') !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) throw new Error('Not authorised')
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+    const now = Date.now()
+
+    const { data: rules, error: rulesError } = await supabaseAdmin
+      .from('lesson_reminder_rules')
+      .select('id, user_id, hours_before, channels, template')
+      .eq('is_active', true)
+    if (rulesError) throw rulesError
+    if (!rules || rules.length === 0) return new Response(JSON.stringify({ sent: 0 }), { status: 200 })
+
+    const rulesByInstructor = new Map<string, ReminderRule[]>()
+    rules.forEach(rule => rulesByInstructor.set(rule.user_id, [...(rulesByInstructor.get(rule.user_id) || []), rule]))
+    const instructorIds = Array.from(rulesByInstructor.keys())
+    const furthestHours = Math.max(...rules.map(r => r.hours_before))
+
+    const [{ data: lessons, error: lessonsError }, { data: profiles }] = await Promise.all([
+      supabaseAdmin
+        .from('bookings')
+        .select('id, user_id, start_time, lesson_type, pickup_address, pickup_postcode, students(name, email, auth_user_id, full_address, reminders_opt_out)')
+        .in('user_id', instructorIds)
+        .eq('status', 'scheduled')
+        .not('student_id', 'is', null)
+        .gt('start_time', new Date(now).toISOString())
+        .lte('start_time', new Date(now + furthestHours * 3600000).toISOString()),
+      supabaseAdmin.from('profiles').select('id, first_name, last_name, time_zone').in('id', instructorIds),
+    ])
+    if (lessonsError) throw lessonsError
+
+    const instructorNames = new Map((profiles || []).map(p => [p.id, [p.first_name, p.last_name].filter(Boolean).join(' ') || 'your instructor']))
+    const timeZones = new Map((profiles || []).map(p => [p.id, p.time_zone || DEFAULT_TIME_ZONE]))
+    let sentCount = 0
+
+    for (const lesson of (lessons || []) as unknown as UpcomingLesson[]) {
+      if (!lesson.students || lesson.students.reminders_opt_out) continue
+      const hoursToGo = (new Date(lesson.start_time).getTime() - now) / 3600000
+
+      // Only the closest due reminder is sent; any earlier ones that were missed (e.g. a lesson
+      // booked at short notice) are recorded as done so the student doesn't get a burst of them
+      const due = (rulesByInstructor.get(lesson.user_id) || [])
+        .filter(rule => hoursToGo <= rule.hours_before)
+        .sort((a, b) => a.hours_before - b.hours_before)
+      if (due.length === 0) continue
+
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('lesson_reminder_sends')
+        .upsert(due.map(rule => ({ rule_id: rule.id, booking_id: lesson.id, start_time: lesson.start_time })), { onConflict: 'rule_id,booking_id,start_time', ignoreDuplicates: true })
+        .select('id, rule_id')
+      if (claimError) throw claimError
+
+      const claimedClosest = (claimed || []).find(row => row.rule_id === due[0].id)
+      if (!claimedClosest) continue
+
+      const message = renderTemplate(due[0].template, lesson, instructorNames.get(lesson.user_id) || 'your instructor', timeZones.get(lesson.user_id) || DEFAULT_TIME_ZONE)
+      const channelsSent = await sendReminder(supabaseAdmin, due[0], lesson, message)
+      await supabaseAdmin.from('lesson_reminder_sends').update({ channels_sent: channelsSent }).eq('id', claimedClosest.id)
+      if (channelsSent.length > 0) sentCount++
+    }
+
+    return new Response(JSON.stringify({ sent: sentCount }), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 400, headers: { 'Content-Type': 'application/json' } })
+  }
+})
@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import { formatInvoiceNumber, InvoicePdfData, renderInvoicePdf } from '../_shared/invoice-pdf.ts'
+import { assertPublicHost, isPrivateAddress } from '../_shared/calendar-feed.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
+const FROM_ADDRESS = 'HDT App <notifications@drivinginstructorapp.co.uk>'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_LOGO_BYTES = 1024 * 1024
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// The logo URL is whatever the instructor typed, so it's only fetched over https from a public
+// address, without following redirects. Anything wrong and the PDF goes without it.
+const fetchLogo = async (logoUrl: string | null | undefined) => {
+  if (!logoUrl) return null
+  try {
+    const url = new URL(logoUrl)
+    if (url.protocol !== 'https:' || (url.port && url.port !== '443') || isPrivateAddress(url.hostname)) return null
+    await assertPublicHost(url.hostname)
+
+    const res = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(5000) })
+    const reader = res.body?.getReader()
+    if (!res.ok || !reader) {
+      await res.body?.cancel()
+      return null
+    }
+
+    const bytes = new Uint8Array(MAX_LOGO_BYTES)
+    let size = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      if (size + value.length > MAX_LOGO_BYTES) {
+        await reader.cancel()
+        return null
+      }
+      bytes.set(value, size)
+      size += value.length
+    }
+    return bytes.slice(0, size)
+  } catch {
+    return null
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  try {
+    const authHeader = req.headers.get('Authorization') ?? ''
+    const supabaseClient = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, { global: { headers: { Authorization: authHeader } } })
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const { invoiceId, to, download } = await req.json()
+
+    // Students can read and download their invoices too, but only the instructor who issued one sends it
+    let query = supabaseClient.from('invoices').select('*').eq('id', invoiceId)
+    if (!download) query = query.eq('user_id', user.id)
+    const { data: invoice } = await query.single()
+    if (!invoice) throw new Error('Invoice not found')
+
+    const data = { ...invoice, amount: Number(invoice.amount) } as InvoicePdfData
+    const pdf = renderInvoicePdf(data, await fetchLogo(data.issuer.logo_url))
+    if (download) {
+      return new Response(pdf, { headers: { ...corsHeaders, 'Content-Type': 'application/pdf' } })
+    }
+
+    if (!RESEND_API_KEY) throw new Error('RESEND_API_KEY is not set')
+    const recipient = (to || invoice.recipient_email || '').trim()
+    if (!recipient) throw new Error('There is no email address to send this to')
+
+    const title = `${data.kind === 'receipt' ? 'Receipt' : 'Invoice'} ${formatInvoiceNumber(data.number)}`
+    const from = data.issuer.name || 'your driving instructor'
+
+    const res = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${RESEND_API_KEY}` },
+      body: JSON.stringify({
+        from: FROM_ADDRESS,
+        to: [recipient],
+        reply_to: data.issuer.email || undefined,
+        subject: `${title} from ${from}`,
+        html: `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h1 style="color: #1e293b; font-size: 22px; font-weight: 800;">${escapeHtml(title)}</h1>
+          <p style="color: #475569; font-size: 16px; line-height: 1.5;">Hi ${escapeHtml(data.recipient_name.split(' ')[0])},</p>
+          <p style="color: #475569; font-size: 16px; line-height: 1.5;">
+            Please find attached ${data.kind === 'receipt' ? 'your receipt' : 'an invoice'} from ${escapeHtml(from)} for
+            ${escapeHtml(data.description)}: <strong>£${data.amount.toFixed(2)}</strong>.
+          </p>
+          <p style="color: #94a3b8; font-size: 12px; text-align: center;">Driving Instructor App</p>
+        </div>`,
+        attachments: [{ filename: `${title.replace(' ', '-')}.pdf`, content: encodeBase64(pdf) }],
+      }),
+    })
+    if (!res.ok) throw new Error(`Resend responded with ${res.status}`)
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+    await supabaseAdmin.from('invoices').update({ emailed_at: new Date().toISOString() }).eq('id', invoice.id)
+
+    return new Response(JSON.stringify({ sent: recipient }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  }
+})
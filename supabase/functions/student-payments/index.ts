@@ -0,0 +1,247 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { stripe } from '../_shared/stripe.ts'
+import { fulfilStudentPayment } from '../_shared/student-payments.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+// The app's own address, e.g. https://app.example.com; Stripe only ever sends people back there
+const APP_URL = Deno.env.get('APP_URL')
+
+const CURRENCY = 'gbp'
+// Connected accounts are created in this country; Express onboarding lets the instructor change it
+const ACCOUNT_COUNTRY = 'GB'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+
+interface CheckoutItem {
+  kind: 'booking' | 'package'
+  bookingId?: string
+  packageId?: string
+  packageHours?: number
+  amount: number
+  description: string
+}
+
+// Stripe's placeholder has to reach it with the braces as they are, not percent-encoded
+const CHECKOUT_SESSION_PLACEHOLDER = '{CHECKOUT_SESSION_ID}'
+
+// The page to come back to after Stripe, which must be on the app itself
+const appReturnUrl = (returnUrl: unknown) => {
+  if (!APP_URL) throw new Error('APP_URL is not configured')
+  let url: URL
+  try {
+    url = new URL(String(returnUrl))
+  } catch {
+    throw new Error('Invalid return URL')
+  }
+  if (url.origin !== new URL(APP_URL).origin) throw new Error('Invalid return URL')
+  return url
+}
+
+const checkoutSuccessUrl = (returnUrl: URL) => {
+  const url = new URL(returnUrl)
+  url.searchParams.set('payment_session', CHECKOUT_SESSION_PLACEHOLDER)
+  return url.toString().replace(encodeURIComponent(CHECKOUT_SESSION_PLACEHOLDER), CHECKOUT_SESSION_PLACEHOLDER)
+}
+
+// The instructor must have finished onboarding before students can pay them
+const getPayoutAccount = async (supabaseAdmin: SupabaseClient, instructorId: string) => {
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('stripe_account_id, stripe_charges_enabled')
+    .eq('id', instructorId)
+    .single()
+  if (!profile?.stripe_account_id || !profile.stripe_charges_enabled) {
+    throw new Error('Your instructor is not taking online payments yet')
+  }
+  return profile.stripe_account_id as string
+}
+
+const bookingItem = async (supabaseAdmin: SupabaseClient, student: { id: string; user_id: string }, bookingId: string): Promise<CheckoutItem> => {
+  const { data: booking } = await supabaseAdmin
+    .from('bookings')
+    .select('id, start_time, end_time, lesson_type, status, is_paid, capacity')
+    .eq('id', bookingId)
+    .eq('student_id', student.id)
+    .maybeSingle()
+  if (!booking) throw new Error('Lesson not found')
+  if (booking.is_paid) throw new Error('This lesson is already paid for')
+  if (!['scheduled', 'completed'].includes(booking.status) || booking.lesson_type === 'Personal' || booking.capacity != null) {
+    throw new Error('This lesson cannot be paid for online')
+  }
+
+  const { count } = await supabaseAdmin
+    .from('pre_paid_hours_transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('booking_id', booking.id)
+  if (count) throw new Error('This lesson is covered by your pre-paid hours')
+
+  const hours = (new Date(booking.end_time).getTime() - new Date(booking.start_time).getTime()) / 3600000
+  const { data: price, error } = await supabaseAdmin.rpc('calculate_lesson_price', {
+    p_instructor_id: student.user_id,
+    p_hours: hours,
+    p_lesson_type: booking.lesson_type,
+  })
+  if (error) throw error
+  if (!price || price <= 0) throw new Error('Your instructor has not set a price for this lesson')
+
+  const date = new Date(booking.start_time).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+  return { kind: 'booking', bookingId: booking.id, amount: Number(price), description: `${booking.lesson_type} on ${date}` }
+}
+
+const packageItem = async (supabaseAdmin: SupabaseClient, student: { id: string; user_id: string }, packageId: string): Promise<CheckoutItem> => {
+  const { data: pkg } = await supabaseAdmin
+    .from('lesson_packages')
+    .select('id, name, hours, price')
+    .eq('id', packageId)
+    .eq('user_id', student.user_id)
+    .eq('is_active', true)
+    .maybeSingle()
+  if (!pkg) throw new Error('Package not found')
+  return { kind: 'package', packageId: pkg.id, packageHours: Number(pkg.hours), amount: Number(pkg.price), description: pkg.name }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+    const authHeader = req.headers.get('Authorization') ?? ''
+    const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (!user) throw new Error('Not authenticated')
+
+    const { action, bookingId, packageId, sessionId, returnUrl } = await req.json()
+
+    // Instructor: open Stripe's onboarding for their payout account, creating it the first time
+    if (action === 'connect') {
+      const returnTo = appReturnUrl(returnUrl).toString()
+      const { data: profile } = await supabaseAdmin.from('profiles').select('stripe_account_id').eq('id', user.id).single()
+      let accountId = profile?.stripe_account_id
+      if (!accountId) {
+        const account = await stripe.accounts.create({
+          type: 'express',
+          country: ACCOUNT_COUNTRY,
+          email: user.email,
+          capabilities: { card_payments: { requested: true }, transfers: { requested: true } },
+          metadata: { supabase_user_id: user.id },
+        })
+        accountId = account.id
+        await supabaseAdmin.from('profiles').update({ stripe_account_id: accountId }).eq('id', user.id)
+      }
+      const link = await stripe.accountLinks.create({
+        account: accountId,
+        refresh_url: returnTo,
+        return_url: returnTo,
+        type: 'account_onboarding',
+      })
+      return json({ url: link.url })
+    }
+
+    // Instructor: check whether onboarding is finished and payments can be taken
+    if (action === 'connect_status') {
+      const { data: profile } = await supabaseAdmin.from('profiles').select('stripe_account_id').eq('id', user.id).single()
+      if (!profile?.stripe_account_id) return json({ connected: false, chargesEnabled: false })
+      const account = await stripe.accounts.retrieve(profile.stripe_account_id)
+      const chargesEnabled = !!account.charges_enabled
+      await supabaseAdmin.from('profiles').update({ stripe_charges_enabled: chargesEnabled }).eq('id', user.id)
+      return json({ connected: true, chargesEnabled })
+    }
+
+    // Everything else is a student paying their instructor
+    const { data: student } = await supabaseAdmin
+      .from('students')
+      .select('id, user_id, email')
+      .eq('auth_user_id', user.id)
+      .maybeSingle()
+    if (!student) throw new Error('Student record not found')
+
+    if (action === 'pay_booking' || action === 'buy_package') {
+      const returnTo = appReturnUrl(returnUrl)
+      const accountId = await getPayoutAccount(supabaseAdmin, student.user_id)
+      const item = action === 'pay_booking'
+        ? await bookingItem(supabaseAdmin, student, bookingId)
+        : await packageItem(supabaseAdmin, student, packageId)
+
+      // A second tab or a double click would otherwise open another Checkout for the same lesson
+      // and let the student pay for it twice; send them back to the one still open
+      if (item.kind === 'booking') {
+        const { data: pending } = await supabaseAdmin
+          .from('student_payments')
+          .select('stripe_session_id, amount')
+          .eq('booking_id', item.bookingId)
+          .eq('student_id', student.id)
+          .eq('status', 'pending')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+        if (pending && Number(pending.amount) === item.amount) {
+          const openSession = await stripe.checkout.sessions.retrieve(pending.stripe_session_id)
+          if (openSession.status === 'open' && openSession.url) return json({ url: openSession.url })
+        }
+      }
+
+      const session = await stripe.checkout.sessions.create({
+        mode: 'payment',
+        customer_email: student.email || user.email,
+        line_items: [{
+          quantity: 1,
+          price_data: {
+            currency: CURRENCY,
+            unit_amount: Math.round(item.amount * 100),
+            product_data: { name: item.description },
+          },
+        }],
+        payment_intent_data: { transfer_data: { destination: accountId } },
+        metadata: { student_id: student.id, instructor_id: student.user_id, kind: item.kind },
+        success_url: checkoutSuccessUrl(returnTo),
+        cancel_url: returnTo.toString(),
+      })
+
+      const { error } = await supabaseAdmin.from('student_payments').insert({
+        user_id: student.user_id,
+        student_id: student.id,
+        kind: item.kind,
+        booking_id: item.bookingId ?? null,
+        package_id: item.packageId ?? null,
+        package_hours: item.packageHours ?? null,
+        amount: item.amount,
+        currency: CURRENCY,
+        description: item.description,
+        stripe_session_id: session.id,
+      })
+      if (error) throw error
+
+      return json({ url: session.url })
+    }
+
+    // Back from Checkout: apply the payment if Stripe says it went through
+    if (action === 'confirm') {
+      const { data: payment } = await supabaseAdmin
+        .from('student_payments')
+        .select('id, status')
+        .eq('stripe_session_id', sessionId)
+        .eq('student_id', student.id)
+        .maybeSingle()
+      if (!payment) throw new Error('Payment not found')
+      // refund_due carries on so a refund that failed last time is tried again
+      if (['paid', 'refunded'].includes(payment.status)) return json({ status: payment.status })
+
+      const session = await stripe.checkout.sessions.retrieve(sessionId)
+      if (session.payment_status !== 'paid') return json({ status: session.status === 'expired' ? 'expired' : 'pending' })
+
+      const paymentIntentId = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id ?? null
+      return json({ status: await fulfilStudentPayment(supabaseAdmin, sessionId, paymentIntentId) })
+    }
+
+    throw new Error('Invalid action')
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  }
+})
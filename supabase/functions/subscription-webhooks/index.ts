@@ -0,0 +1,252 @@
+// Receives Stripe and PayPal webhooks. Deploy with --no-verify-jwt: neither provider sends a
+// Supabase token, so every request is authenticated by its signature instead.
+// Stripe: point the endpoint at this function and set STRIPE_WEBHOOK_SECRET.
+// PayPal: set PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET and PAYPAL_WEBHOOK_ID (and PAYPAL_API_BASE
+// to https://api-m.sandbox.paypal.com while testing).
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { stripe, webhookCryptoProvider } from '../_shared/stripe.ts'
+import { fulfilStudentPayment } from '../_shared/student-payments.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+const STRIPE_WEBHOOK_SECRET = Deno.env.get('STRIPE_WEBHOOK_SECRET')
+const PAYPAL_CLIENT_ID = Deno.env.get('PAYPAL_CLIENT_ID')
+const PAYPAL_CLIENT_SECRET = Deno.env.get('PAYPAL_CLIENT_SECRET')
+const PAYPAL_WEBHOOK_ID = Deno.env.get('PAYPAL_WEBHOOK_ID')
+const PAYPAL_API_BASE = Deno.env.get('PAYPAL_API_BASE') || 'https://api-m.paypal.com'
+
+type SubscriptionStatus = 'active' | 'inactive' | 'cancelled'
+
+interface SubscriptionUpdate {
+  userId: string | null
+  subscriptionId: string | null
+  status: SubscriptionStatus | null
+  expiry: string | null
+}
+
+// The fields read from Stripe's checkout session and subscription objects
+interface StripeEventObject {
+  id: string
+  mode?: string
+  subscription?: string | null
+  client_reference_id?: string | null
+  payment_status?: string
+  payment_intent?: string | null
+  customer?: string
+  status?: string
+  current_period_end?: number
+  metadata?: Record<string, string> | null
+}
+
+const NO_CHANGE: SubscriptionUpdate = { userId: null, subscriptionId: null, status: null, expiry: null }
+
+const toDate = (value: Date) => value.toISOString().slice(0, 10)
+
+const applyEvent = async (supabaseAdmin: SupabaseClient, provider: 'stripe' | 'paypal', eventId: string, eventType: string, update: SubscriptionUpdate) => {
+  const { error } = await supabaseAdmin.rpc('apply_subscription_event', {
+    p_event_id: eventId,
+    p_provider: provider,
+    p_event_type: eventType,
+    p_user_id: update.userId,
+    p_subscription_id: update.subscriptionId,
+    p_status: update.status,
+    p_expiry: update.expiry,
+  })
+  if (error) throw error
+}
+
+const alreadyHandled = async (supabaseAdmin: SupabaseClient, eventId: string) => {
+  const { count } = await supabaseAdmin.from('stripe_events').select('id', { count: 'exact', head: true }).eq('id', eventId)
+  return !!count
+}
+
+// ---- Stripe ----
+
+const stripeStatus = (status: string): SubscriptionStatus => {
+  // past_due keeps access while Stripe retries the card; it ends in deleted if every retry fails
+  if (['active', 'trialing', 'past_due'].includes(status)) return 'active'
+  return 'inactive'
+}
+
+const stripeUserId = async (supabaseAdmin: SupabaseClient, customerId: string | null, fallbackUserId?: string | null) => {
+  if (customerId) {
+    const { data } = await supabaseAdmin.from('profiles').select('id').eq('stripe_customer_id', customerId).maybeSingle()
+    if (data) return data.id as string
+  }
+  return fallbackUserId || null
+}
+
+const stripeSubscriptionUpdate = async (supabaseAdmin: SupabaseClient, subscriptionId: string, fallbackUserId?: string | null): Promise<SubscriptionUpdate> => {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId)
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id
+  return {
+    userId: await stripeUserId(supabaseAdmin, customerId, fallbackUserId ?? subscription.metadata?.supabase_user_id),
+    subscriptionId: subscription.id,
+    status: stripeStatus(subscription.status),
+    expiry: toDate(new Date(subscription.current_period_end * 1000)),
+  }
+}
+
+const handleStripe = async (req: Request, supabaseAdmin: SupabaseClient) => {
+  if (!STRIPE_WEBHOOK_SECRET) throw new Error('STRIPE_WEBHOOK_SECRET is not set')
+  const body = await req.text()
+  const event = await stripe.webhooks.constructEventAsync(
+    body,
+    req.headers.get('stripe-signature')!,
+    STRIPE_WEBHOOK_SECRET,
+    undefined,
+    webhookCryptoProvider
+  )
+  if (await alreadyHandled(supabaseAdmin, event.id)) return
+
+  let update = NO_CHANGE
+  const object = event.data.object as unknown as StripeEventObject
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded':
+      if (object.mode === 'subscription' && object.subscription) {
+        update = await stripeSubscriptionUpdate(supabaseAdmin, object.subscription, object.client_reference_id)
+      } else if (object.mode === 'payment' && object.payment_status === 'paid') {
+        // A student paying their instructor (see student-payments). The event is only recorded by
+        // applyEvent below, so a redelivery can get here again; that's safe because
+        // fulfil_student_payment does nothing for a session it has already handled
+        try {
+          await fulfilStudentPayment(supabaseAdmin, object.id, object.payment_intent ?? null)
+        } catch (error) {
+          if (!error.message?.includes('Payment not found')) throw error
+        }
+      }
+      break
+    case 'checkout.session.expired':
+      await supabaseAdmin.from('student_payments').update({ status: 'expired' }).eq('stripe_session_id', object.id).eq('status', 'pending')
+      break
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      // Stripe doesn't promise to deliver events in order, so a late 'updated' could arrive after
+      // 'deleted'; use the subscription as it is now rather than as the event describes it
+      update = await stripeSubscriptionUpdate(supabaseAdmin, object.id, object.metadata?.supabase_user_id)
+      break
+  }
+
+  await applyEvent(supabaseAdmin, 'stripe', event.id, event.type, update)
+}
+
+// ---- PayPal ----
+
+const paypalToken = async () => {
+  if (!PAYPAL_CLIENT_ID || !PAYPAL_CLIENT_SECRET) throw new Error('PayPal credentials are not set')
+  const res = await fetch(`${PAYPAL_API_BASE}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${PAYPAL_CLIENT_ID}:${PAYPAL_CLIENT_SECRET}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  })
+  if (!res.ok) throw new Error(`PayPal auth failed with ${res.status}`)
+  const { access_token } = await res.json()
+  return access_token as string
+}
+
+// PayPal checks the signature for us, given the transmission headers and the event as received
+const verifyPaypalEvent = async (req: Request, token: string, event: unknown) => {
+  if (!PAYPAL_WEBHOOK_ID) throw new Error('PAYPAL_WEBHOOK_ID is not set')
+  const res = await fetch(`${PAYPAL_API_BASE}/v1/notifications/verify-webhook-signature`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      auth_algo: req.headers.get('paypal-auth-algo'),
+      cert_url: req.headers.get('paypal-cert-url'),
+      transmission_id: req.headers.get('paypal-transmission-id'),
+      transmission_sig: req.headers.get('paypal-transmission-sig'),
+      transmission_time: req.headers.get('paypal-transmission-time'),
+      webhook_id: PAYPAL_WEBHOOK_ID,
+      webhook_event: event,
+    }),
+  })
+  const result = res.ok ? await res.json() : null
+  if (result?.verification_status !== 'SUCCESS') throw new Error('Invalid PayPal signature')
+}
+
+const fetchPaypalSubscription = async (token: string, subscriptionId: string) => {
+  const res = await fetch(`${PAYPAL_API_BASE}/v1/billing/subscriptions/${subscriptionId}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  })
+  if (!res.ok) throw new Error(`PayPal subscription lookup failed with ${res.status}`)
+  return await res.json()
+}
+
+// The PayPal plan link can't carry our user id, so fall back to the id the instructor brought back
+// to the Subscription page and claimed
+const paypalUserId = async (supabaseAdmin: SupabaseClient, subscriptionId: string, customId?: string | null) => {
+  const { data: profile } = await supabaseAdmin.from('profiles').select('id').eq('subscription_id', subscriptionId).maybeSingle()
+  if (profile) return profile.id as string
+  if (customId) return customId
+  const { data: claim } = await supabaseAdmin
+    .from('subscription_claims')
+    .select('user_id')
+    .eq('stripe_session_id', subscriptionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return (claim?.user_id as string) || null
+}
+
+const PAYPAL_STATUSES: Record<string, SubscriptionStatus> = {
+  'BILLING.SUBSCRIPTION.ACTIVATED': 'active',
+  'BILLING.SUBSCRIPTION.RE-ACTIVATED': 'active',
+  'BILLING.SUBSCRIPTION.UPDATED': 'active',
+  'PAYMENT.SALE.COMPLETED': 'active',
+  'BILLING.SUBSCRIPTION.CANCELLED': 'cancelled',
+  'BILLING.SUBSCRIPTION.SUSPENDED': 'inactive',
+  'BILLING.SUBSCRIPTION.EXPIRED': 'inactive',
+}
+
+const handlePaypal = async (req: Request, supabaseAdmin: SupabaseClient) => {
+  const event = await req.json()
+  const token = await paypalToken()
+  await verifyPaypalEvent(req, token, event)
+  if (await alreadyHandled(supabaseAdmin, event.id)) return
+
+  let update = NO_CHANGE
+  const status = PAYPAL_STATUSES[event.event_type]
+  // Sale events carry the subscription as billing_agreement_id; subscription events are the subscription
+  const subscriptionId = event.event_type === 'PAYMENT.SALE.COMPLETED' ? event.resource?.billing_agreement_id : event.resource?.id
+
+  if (status && subscriptionId) {
+    const subscription = event.event_type === 'PAYMENT.SALE.COMPLETED' ? await fetchPaypalSubscription(token, subscriptionId) : event.resource
+    const nextBilling = subscription.billing_info?.next_billing_time
+    update = {
+      userId: await paypalUserId(supabaseAdmin, subscriptionId, subscription.custom_id),
+      subscriptionId,
+      status: status === 'active' && subscription.status && subscription.status !== 'ACTIVE' ? 'inactive' : status,
+      expiry: nextBilling ? toDate(new Date(nextBilling)) : null,
+    }
+  }
+
+  await applyEvent(supabaseAdmin, 'paypal', event.id, event.event_type, update)
+}
+
+serve(async (req) => {
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+
+    if (req.headers.get('stripe-signature')) {
+      await handleStripe(req, supabaseAdmin)
+    } else if (req.headers.get('paypal-transmission-id')) {
+      await handlePaypal(req, supabaseAdmin)
+    } else {
+      throw new Error('Unrecognised webhook')
+    }
+
+    return new Response(JSON.stringify({ received: true }), { headers: { 'Content-Type': 'application/json' } })
+  } catch (error) {
+    // A non-2xx response makes the provider retry later
+    console.error('Webhook error:', error.message)
+    return new Response(JSON.stringify({ error: error.message }), { status: 400, headers: { 'Content-Type': 'application/json' } })
+  }
+})
@@ -0,0 +1,77 @@
+-- Nightly auto-completion of past lessons.
+-- Marking a lesson completed is what deducts pre-paid hours (handle_booking_completion in
+-- supabase_prepaid_logic.sql) and counts it as income, so lessons left as scheduled skew both.
+-- Each night, scheduled lessons that ended more than the instructor's delay ago are completed,
+-- unless held for review, and the instructor gets a notification listing what changed.
+-- It's off until the instructor switches it on in settings, since completing a lesson nobody
+-- confirmed took place would take hours from the student's package.
+
+-- 1. Per-instructor switch and delay
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS auto_complete_enabled BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS auto_complete_delay_hours INTEGER DEFAULT 12;
+
+ALTER TABLE public.profiles ALTER COLUMN auto_complete_enabled SET DEFAULT false;
+
+-- 2. Lessons the instructor wants to check before they're completed (e.g. a no-show)
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS needs_review BOOLEAN DEFAULT false;
+
+-- 3. Complete each instructor's overdue lessons and send one digest per instructor
+CREATE OR REPLACE FUNCTION public.auto_complete_past_lessons()
+RETURNS VOID AS $$
+DECLARE
+    v_profile RECORD;
+    v_count INTEGER;
+    v_summary TEXT;
+BEGIN
+    FOR v_profile IN
+        SELECT id, COALESCE(auto_complete_delay_hours, 12) AS delay_hours
+        FROM public.profiles
+        WHERE COALESCE(auto_complete_enabled, false) = true
+    LOOP
+        WITH completed AS (
+            UPDATE public.bookings
+            SET status = 'completed'
+            WHERE user_id = v_profile.id
+            AND status = 'scheduled'
+            AND student_id IS NOT NULL
+            AND COALESCE(needs_review, false) = false
+            AND end_time <= NOW() - make_interval(hours => v_profile.delay_hours)
+            RETURNING start_time, student_id
+        )
+        SELECT
+            COUNT(*),
+            string_agg(
+                COALESCE(s.name, 'Unknown') || ' (' || to_char(c.start_time AT TIME ZONE public.instructor_time_zone(v_profile.id), 'Dy DD Mon HH24:MI') || ')',
+                ', ' ORDER BY c.start_time
+            )
+        INTO v_count, v_summary
+        FROM completed c
+        LEFT JOIN public.students s ON s.id = c.student_id;
+
+        IF v_count > 0 THEN
+            INSERT INTO public.notifications (user_id, title, message, type)
+            VALUES (
+                v_profile.id,
+                'Lessons Auto-Completed',
+                v_count || ' past lesson' || CASE WHEN v_count = 1 THEN ' was' ELSE 's were' END || ' marked completed: ' || v_summary
+                    || '. Flag a lesson for review to stop this happening to it.',
+                'auto_complete_digest'
+            );
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only pg_cron runs this job
+REVOKE EXECUTE ON FUNCTION public.auto_complete_past_lessons() FROM PUBLIC, anon, authenticated;
+
+-- 4. Run every night at 02:00 (UTC)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'auto-complete-past-lessons',
+  '0 2 * * *',
+  $$ SELECT public.auto_complete_past_lessons(); $$
+);
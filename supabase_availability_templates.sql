@@ -0,0 +1,51 @@
+-- Reusable availability week templates for gaps booking mode.
+-- A template is a week of "Available Slot" times (e.g. "Standard week", "School holiday week").
+-- Applying one to a date range creates the available bookings in one batch, recorded in
+-- availability_template_runs so the whole batch can be undone later.
+
+-- 1. Templates
+CREATE TABLE IF NOT EXISTS public.availability_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  slots JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{"weekday": 1, "start": "09:00", "duration_mins": 60}], weekday 0 = Sunday
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.availability_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their availability templates"
+ON public.availability_templates
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 2. Each time a template is applied. The template name is copied so the history still
+-- reads properly after a template is deleted.
+CREATE TABLE IF NOT EXISTS public.availability_template_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  template_id UUID REFERENCES public.availability_templates(id) ON DELETE SET NULL,
+  template_name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  slots_created INTEGER NOT NULL DEFAULT 0,
+  slots_skipped INTEGER NOT NULL DEFAULT 0,
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+ALTER TABLE public.availability_template_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their availability template runs"
+ON public.availability_template_runs
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 3. Link generated slots to their batch. Slots students have since booked stay put on undo.
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS template_run_id UUID REFERENCES public.availability_template_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_template_run_id ON public.bookings(template_run_id);
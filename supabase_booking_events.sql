@@ -0,0 +1,164 @@
+-- Booking audit trail.
+-- Bookings are changed from many places (calendar, pending requests, student pages, the AI
+-- assistant, cron jobs), so every insert, change and delete is logged by a trigger with who
+-- made it and the row before and after. Instructors can restore a deleted booking or undo a change.
+
+-- 1. The log. booking_id has no foreign key so entries outlive the booking they describe.
+CREATE TABLE IF NOT EXISTS public.booking_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL,
+  instructor_id UUID NOT NULL,
+  actor_id UUID, -- auth.uid() of whoever made the change; NULL for cron jobs and the service role
+  action TEXT NOT NULL, -- 'insert', 'update', 'delete' or 'restore'
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking ON public.booking_events(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_booking_events_instructor_action ON public.booking_events(instructor_id, action, created_at);
+
+-- Read only for instructors; rows are only ever written by the trigger below
+ALTER TABLE public.booking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can view their booking history"
+ON public.booking_events
+FOR SELECT
+USING (auth.uid() = instructor_id);
+
+-- 2. Log every change. Updates that don't change anything are ignored.
+CREATE OR REPLACE FUNCTION public.log_booking_event()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_old JSONB;
+    v_new JSONB;
+    v_changed TEXT[];
+    v_action TEXT := lower(TG_OP);
+BEGIN
+    IF TG_OP <> 'INSERT' THEN v_old := to_jsonb(OLD); END IF;
+    IF TG_OP <> 'DELETE' THEN v_new := to_jsonb(NEW); END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        SELECT array_agg(n.key ORDER BY n.key) INTO v_changed
+        FROM jsonb_each(v_new) n
+        WHERE n.value IS DISTINCT FROM v_old -> n.key;
+
+        IF v_changed IS NULL THEN RETURN NEW; END IF;
+    END IF;
+
+    -- Set by restore_booking_event so restores are told apart from ordinary edits
+    IF current_setting('app.booking_restore', true) = 'on' THEN
+        v_action := 'restore';
+    END IF;
+
+    INSERT INTO public.booking_events (booking_id, instructor_id, actor_id, action, old_data, new_data, changed_fields)
+    VALUES (
+        COALESCE(NEW.id, OLD.id),
+        COALESCE(NEW.user_id, OLD.user_id),
+        auth.uid(),
+        v_action,
+        v_old,
+        v_new,
+        COALESCE(v_changed, '{}')
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_booking_change_log ON public.bookings;
+CREATE TRIGGER on_booking_change_log
+AFTER INSERT OR UPDATE OR DELETE ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.log_booking_event();
+
+-- 3. Restore a deleted booking, or put back the fields a change touched.
+-- A lesson coming back into the diary mustn't clash with what's been booked since, so the result
+-- is checked against other lessons (with the buffer) and days off, as claim_booking_slot does.
+CREATE OR REPLACE FUNCTION public.restore_booking_event(p_event_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_event public.booking_events%ROWTYPE;
+    v_data JSONB;
+    v_set TEXT;
+    v_current public.bookings;
+    v_result public.bookings;
+    v_buffer INTERVAL;
+BEGIN
+    SELECT * INTO v_event FROM public.booking_events WHERE id = p_event_id AND instructor_id = auth.uid();
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'History entry not found';
+    END IF;
+
+    IF v_event.old_data IS NULL OR v_event.action = 'insert' THEN
+        RAISE EXCEPTION 'Only changes and deletions can be restored';
+    END IF;
+
+    -- The series or template batch may have been removed since
+    v_data := v_event.old_data;
+    IF v_data->>'series_id' IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.booking_series WHERE id = (v_data->>'series_id')::UUID) THEN
+        v_data := v_data || '{"series_id": null}'::jsonb;
+    END IF;
+    IF v_data->>'template_run_id' IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.availability_template_runs WHERE id = (v_data->>'template_run_id')::UUID) THEN
+        v_data := v_data || '{"template_run_id": null}'::jsonb;
+    END IF;
+
+    -- What the booking would look like once restored
+    IF v_event.action = 'delete' THEN
+        v_result := jsonb_populate_record(NULL::public.bookings, v_data);
+    ELSE
+        SELECT * INTO v_current FROM public.bookings WHERE id = v_event.booking_id;
+        v_result := jsonb_populate_record(v_current, (
+            SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) FROM jsonb_each(v_data) WHERE key = ANY(v_event.changed_fields)
+        ));
+    END IF;
+
+    IF (v_event.action = 'delete' OR v_event.changed_fields && ARRAY['start_time', 'end_time', 'status'])
+        AND v_result.status NOT IN ('available', 'cancelled') THEN
+        v_buffer := make_interval(mins => COALESCE((SELECT booking_buffer_mins FROM public.profiles WHERE id = v_result.user_id), 0));
+
+        IF EXISTS (
+            SELECT 1 FROM public.bookings
+            WHERE user_id = v_result.user_id
+            AND id <> v_result.id
+            AND status NOT IN ('available', 'cancelled')
+            AND start_time < v_result.end_time + v_buffer
+            AND end_time > v_result.start_time - v_buffer
+        ) THEN
+            RAISE EXCEPTION 'This can''t be undone: another lesson has since been booked at or too close to that time';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM public.instructor_unavailability
+            WHERE user_id = v_result.user_id
+            AND (v_result.start_time AT TIME ZONE public.instructor_time_zone(v_result.user_id))::date BETWEEN start_date AND end_date
+        ) THEN
+            RAISE EXCEPTION 'This can''t be undone: you''re marked as unavailable on that day';
+        END IF;
+    END IF;
+
+    PERFORM set_config('app.booking_restore', 'on', true);
+
+    IF v_event.action = 'delete' THEN
+        IF EXISTS (SELECT 1 FROM public.bookings WHERE id = v_event.booking_id) THEN
+            RAISE EXCEPTION 'This booking has already been restored';
+        END IF;
+
+        INSERT INTO public.bookings
+        SELECT * FROM jsonb_populate_record(NULL::public.bookings, v_data);
+    ELSE
+        IF NOT EXISTS (SELECT 1 FROM public.bookings WHERE id = v_event.booking_id) THEN
+            RAISE EXCEPTION 'This booking has since been deleted. Restore it first';
+        END IF;
+
+        SELECT string_agg(format('%I = r.%I', f, f), ', ') INTO v_set FROM unnest(v_event.changed_fields) f;
+
+        EXECUTE format('UPDATE public.bookings b SET %s FROM jsonb_populate_record(NULL::public.bookings, $1) r WHERE b.id = $2', v_set)
+        USING v_data, v_event.booking_id;
+    END IF;
+
+    PERFORM set_config('app.booking_restore', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.restore_booking_event(UUID) TO authenticated;
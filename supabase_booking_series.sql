@@ -0,0 +1,274 @@
+-- 1. Recurring booking series. The rule is stored RRULE-style (e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH;UNTIL=20241220)
+-- and each occurrence is still a normal row in bookings, linked back via bookings.series_id.
+CREATE TABLE IF NOT EXISTS public.booking_series (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE,
+  title TEXT,
+  description TEXT,
+  lesson_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled', -- 'scheduled' or 'available'
+  start_time TIMESTAMPTZ NOT NULL, -- first occurrence (DTSTART)
+  duration_mins INTEGER NOT NULL,
+  rrule TEXT NOT NULL,
+  skip_unavailable BOOLEAN DEFAULT true, -- skip instructor_unavailability days (holidays)
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 2. Link occurrences to their series. Deleting a series keeps any completed lessons as standalone history.
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON public.bookings(series_id, start_time);
+
+-- 3. Enable RLS
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their own booking series"
+ON public.booking_series
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 4. Editing or deleting lessons across a series happens in one transaction, so a dropped connection
+-- can't leave a series half moved. "This & following" covers the lesson and every later lesson;
+-- "all" covers the lesson and every upcoming one. Completed and past lessons are history and are
+-- never rewritten, so the series is split where the change starts and its rule still describes them.
+-- Times are worked out in the instructor's zone (supabase_instructor_timezone.sql), so "Tuesdays at
+-- 10:00" stays at 10:00 across the clocks changing.
+CREATE OR REPLACE FUNCTION public.rrule_shift_days(p_rrule TEXT, p_shift INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+    v_days TEXT[] := ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+    v_by_day TEXT := substring(p_rrule FROM 'BYDAY=([A-Z,]+)');
+BEGIN
+    IF v_by_day IS NULL OR p_shift % 7 = 0 THEN
+        RETURN p_rrule;
+    END IF;
+
+    -- Monday first, matching toRRule in src/utils/booking-series.ts
+    SELECT string_agg(v_days[idx + 1], ',' ORDER BY (idx + 6) % 7) INTO v_by_day
+    FROM (
+        SELECT DISTINCT (((array_position(v_days, d) - 1 + p_shift) % 7) + 7) % 7 AS idx
+        FROM unnest(string_to_array(v_by_day, ',')) d
+        WHERE array_position(v_days, d) IS NOT NULL
+    ) s;
+
+    RETURN regexp_replace(p_rrule, 'BYDAY=[A-Z,]+', 'BYDAY=' || v_by_day);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.rrule_with_end(p_rrule TEXT, p_until DATE, p_count INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+    v_rule TEXT := regexp_replace(p_rrule, ';(UNTIL|COUNT)=[^;]*', '', 'g');
+BEGIN
+    IF p_until IS NOT NULL THEN
+        RETURN v_rule || ';UNTIL=' || to_char(p_until, 'YYYYMMDD');
+    ELSIF p_count IS NOT NULL THEN
+        RETURN v_rule || ';COUNT=' || p_count;
+    END IF;
+    RETURN v_rule;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Stops a series the day before the given lesson, or removes it if nothing is left before it
+CREATE OR REPLACE FUNCTION public.end_series_before(p_series_id UUID, p_start TIMESTAMPTZ)
+RETURNS VOID AS $$
+DECLARE
+    v_series public.booking_series;
+BEGIN
+    SELECT * INTO v_series FROM public.booking_series WHERE id = p_series_id;
+    IF v_series.start_time >= p_start THEN
+        DELETE FROM public.booking_series WHERE id = p_series_id;
+    ELSE
+        UPDATE public.booking_series
+        SET rrule = public.rrule_with_end(rrule, (p_start AT TIME ZONE public.instructor_time_zone(user_id))::date - 1, NULL)
+        WHERE id = p_series_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.end_series_before(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- The lessons a scope covers besides the one being edited
+CREATE OR REPLACE FUNCTION public.series_scope_bookings(p_anchor public.bookings, p_scope TEXT)
+RETURNS UUID[] AS $$
+    SELECT COALESCE(array_agg(id), '{}')
+    FROM public.bookings
+    WHERE series_id = p_anchor.series_id
+    AND id <> p_anchor.id
+    AND status <> 'completed'
+    AND start_time >= CASE WHEN p_scope = 'all' THEN NOW() ELSE p_anchor.start_time END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.series_scope_bookings(public.bookings, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Applies an edit to one lesson and, depending on scope, the rest of its series. Moving a lesson
+-- moves every other lesson in scope by the same number of days and to the same new start time.
+-- p_shared holds the fields every lesson in a series shares, p_own those for this lesson only.
+CREATE OR REPLACE FUNCTION public.apply_series_update(
+    p_booking_id UUID,
+    p_scope TEXT,
+    p_start_time TIMESTAMPTZ,
+    p_end_time TIMESTAMPTZ,
+    p_shared JSONB,
+    p_own JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+DECLARE
+    v_tz TEXT;
+    v_anchor public.bookings;
+    v_series public.booking_series;
+    v_row public.bookings;
+    v_shared JSONB;
+    v_own JSONB;
+    v_others UUID[];
+    v_split TIMESTAMPTZ;
+    v_day_shift INTEGER;
+    v_new_time TIME;
+    v_duration INTERVAL := p_end_time - p_start_time;
+    v_time_changed BOOLEAN;
+    v_until DATE;
+    v_series_id UUID;
+BEGIN
+    IF p_scope NOT IN ('this', 'following', 'all') THEN
+        RAISE EXCEPTION 'Unknown series scope %', p_scope;
+    END IF;
+    IF p_start_time IS NULL OR p_end_time IS NULL OR p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'Invalid lesson times';
+    END IF;
+
+    SELECT * INTO v_anchor FROM public.bookings WHERE id = p_booking_id AND user_id = auth.uid() FOR UPDATE;
+    IF v_anchor.id IS NULL OR v_anchor.series_id IS NULL THEN
+        RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}') INTO v_shared FROM jsonb_each(COALESCE(p_shared, '{}'))
+    WHERE key IN ('student_id', 'title', 'description', 'lesson_type', 'status');
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}') INTO v_own FROM jsonb_each(COALESCE(p_own, '{}'))
+    WHERE key IN ('targets_for_next_session', 'status', 'is_paid', 'needs_review', 'cancellation_fee_waived', 'pickup_location_id');
+
+    v_series_id := v_anchor.series_id;
+
+    IF p_scope <> 'this' THEN
+        v_tz := public.instructor_time_zone(v_anchor.user_id);
+        SELECT * INTO v_series FROM public.booking_series WHERE id = v_anchor.series_id FOR UPDATE;
+        v_others := public.series_scope_bookings(v_anchor, p_scope);
+
+        SELECT LEAST(v_anchor.start_time, MIN(start_time)) INTO v_split FROM public.bookings WHERE id = ANY(v_others);
+        v_day_shift := (p_start_time AT TIME ZONE v_tz)::date - (v_anchor.start_time AT TIME ZONE v_tz)::date;
+        v_new_time := (p_start_time AT TIME ZONE v_tz)::time;
+        v_time_changed := v_day_shift <> 0
+            OR v_new_time <> (v_anchor.start_time AT TIME ZONE v_tz)::time
+            OR v_duration <> v_anchor.end_time - v_anchor.start_time;
+
+        -- The series' own template never carries a cancellation
+        SELECT * INTO v_series FROM jsonb_populate_record(v_series, v_shared - 'status');
+
+        IF v_series.start_time >= v_split THEN
+            UPDATE public.booking_series
+            SET student_id = v_series.student_id,
+                title = v_series.title,
+                description = v_series.description,
+                lesson_type = v_series.lesson_type,
+                start_time = (((start_time AT TIME ZONE v_tz)::date + v_day_shift) + v_new_time) AT TIME ZONE v_tz,
+                duration_mins = EXTRACT(EPOCH FROM v_duration)::INTEGER / 60,
+                rrule = public.rrule_shift_days(rrule, v_day_shift)
+            WHERE id = v_series.id;
+        ELSE
+            -- Split: the earlier lessons keep the original rule
+            v_until := to_date(substring(v_series.rrule FROM 'UNTIL=(\d{8})'), 'YYYYMMDD');
+            PERFORM public.end_series_before(v_series.id, v_split);
+
+            INSERT INTO public.booking_series (
+                user_id, student_id, title, description, lesson_type, status, skip_unavailable, start_time, duration_mins, rrule
+            ) VALUES (
+                v_series.user_id, v_series.student_id, v_series.title, v_series.description, v_series.lesson_type,
+                v_series.status, v_series.skip_unavailable,
+                (((v_split AT TIME ZONE v_tz)::date + v_day_shift) + v_new_time) AT TIME ZONE v_tz,
+                EXTRACT(EPOCH FROM v_duration)::INTEGER / 60,
+                public.rrule_with_end(
+                    public.rrule_shift_days(v_series.rrule, v_day_shift),
+                    v_until,
+                    CASE WHEN v_until IS NULL THEN COALESCE(array_length(v_others, 1), 0) + 1 END
+                )
+            )
+            RETURNING id INTO v_series_id;
+        END IF;
+
+        WITH changed AS (
+            SELECT b.id, r.student_id, r.title, r.description, r.lesson_type, r.status,
+                CASE WHEN v_time_changed
+                    THEN (((b.start_time AT TIME ZONE v_tz)::date + v_day_shift) + v_new_time) AT TIME ZONE v_tz
+                    ELSE b.start_time
+                END AS new_start
+            FROM public.bookings b, jsonb_populate_record(b, v_shared) r
+            WHERE b.id = ANY(v_others)
+        )
+        UPDATE public.bookings b
+        SET student_id = c.student_id,
+            title = c.title,
+            description = c.description,
+            lesson_type = c.lesson_type,
+            status = c.status,
+            series_id = v_series_id,
+            start_time = c.new_start,
+            end_time = CASE WHEN v_time_changed THEN c.new_start + v_duration ELSE b.end_time END
+        FROM changed c
+        WHERE b.id = c.id;
+    END IF;
+
+    v_row := jsonb_populate_record(v_anchor, v_shared || v_own);
+    UPDATE public.bookings
+    SET student_id = v_row.student_id,
+        title = v_row.title,
+        description = v_row.description,
+        lesson_type = v_row.lesson_type,
+        status = v_row.status,
+        targets_for_next_session = v_row.targets_for_next_session,
+        is_paid = v_row.is_paid,
+        needs_review = v_row.needs_review,
+        cancellation_fee_waived = v_row.cancellation_fee_waived,
+        pickup_location_id = v_row.pickup_location_id,
+        start_time = p_start_time,
+        end_time = p_end_time,
+        series_id = v_series_id
+    WHERE id = v_anchor.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.apply_series_update(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, JSONB) TO authenticated;
+
+-- Deletes one lesson, this and all following lessons, or every upcoming lesson in the series
+CREATE OR REPLACE FUNCTION public.apply_series_delete(p_booking_id UUID, p_scope TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_anchor public.bookings;
+    v_others UUID[] := '{}';
+    v_split TIMESTAMPTZ;
+BEGIN
+    IF p_scope NOT IN ('this', 'following', 'all') THEN
+        RAISE EXCEPTION 'Unknown series scope %', p_scope;
+    END IF;
+
+    SELECT * INTO v_anchor FROM public.bookings WHERE id = p_booking_id AND user_id = auth.uid() FOR UPDATE;
+    IF v_anchor.id IS NULL OR v_anchor.series_id IS NULL THEN
+        RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    IF p_scope <> 'this' THEN
+        PERFORM 1 FROM public.booking_series WHERE id = v_anchor.series_id FOR UPDATE;
+        v_others := public.series_scope_bookings(v_anchor, p_scope);
+        SELECT LEAST(v_anchor.start_time, MIN(start_time)) INTO v_split FROM public.bookings WHERE id = ANY(v_others);
+    END IF;
+
+    DELETE FROM public.bookings WHERE id = v_anchor.id OR id = ANY(v_others);
+
+    IF p_scope <> 'this' THEN
+        PERFORM public.end_series_before(v_anchor.series_id, v_split);
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.apply_series_delete(UUID, TEXT) TO authenticated;
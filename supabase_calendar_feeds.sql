@@ -0,0 +1,39 @@
+-- Secret tokens for subscribable iCalendar (ICS) feeds served by the calendar-feed edge function.
+-- An instructor token (student_id IS NULL) exposes the instructor's whole diary,
+-- a student token exposes only that student's lessons.
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL, -- Instructor who owns the diary
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_user ON public.calendar_feed_tokens(user_id);
+
+-- Enable RLS
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Instructors manage their own diary feed
+CREATE POLICY "Instructors can manage their own feed tokens"
+ON public.calendar_feed_tokens
+FOR ALL
+USING (auth.uid() = user_id AND student_id IS NULL)
+WITH CHECK (auth.uid() = user_id AND student_id IS NULL);
+
+-- Students manage the feed for their own lessons only
+CREATE POLICY "Students can manage their own feed tokens"
+ON public.calendar_feed_tokens
+FOR ALL
+USING (
+  student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid())
+)
+WITH CHECK (
+  student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid())
+  AND user_id IN (SELECT user_id FROM public.students WHERE auth_user_id = auth.uid())
+);
+
+-- Deploy the function with JWT verification disabled, calendar apps cannot send auth headers:
+--   supabase functions deploy calendar-feed --no-verify-jwt
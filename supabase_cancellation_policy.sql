@@ -0,0 +1,210 @@
+-- Late cancellation policy. Cancelling a scheduled lesson inside the cutoff raises a fee, taken from the
+-- student's pre-paid hours when they have enough, otherwise charged to their account as an unpaid fee.
+
+-- 1. Policy settings
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS cancellation_policy_enabled BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS cancellation_cutoff_hours INTEGER DEFAULT 48,
+ADD COLUMN IF NOT EXISTS cancellation_fee_type TEXT DEFAULT 'percent', -- 'percent' of the lesson price or 'fixed' amount
+ADD COLUMN IF NOT EXISTS cancellation_fee_amount NUMERIC DEFAULT 100,
+ADD COLUMN IF NOT EXISTS cancellation_grace_count INTEGER DEFAULT 0; -- free late cancellations per student
+
+-- 2. Set in the same update as status = 'cancelled' to cancel without a fee
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS cancellation_fee_waived BOOLEAN DEFAULT false;
+
+-- 3. One row per late cancellation
+CREATE TABLE IF NOT EXISTS public.cancellation_charges (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  lesson_start TIMESTAMPTZ NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  hours_deducted NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'charged', -- charged (unpaid), paid, deducted (from pre-paid hours), grace, waived
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_charges_booking ON public.cancellation_charges(booking_id);
+
+ALTER TABLE public.cancellation_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their cancellation charges"
+ON public.cancellation_charges
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Students can view their own cancellation charges"
+ON public.cancellation_charges
+FOR SELECT
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 4. Lesson price, matching calculateLessonPrice in src/utils/lesson-types.ts.
+-- A priced lesson type (supabase_lesson_types.sql) wins over the profile rates.
+DROP FUNCTION IF EXISTS public.calculate_lesson_price(UUID, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.calculate_lesson_price(p_instructor_id UUID, p_hours NUMERIC, p_lesson_type TEXT DEFAULT NULL)
+RETURNS NUMERIC AS $$
+DECLARE
+    v_profile RECORD;
+    v_type RECORD;
+BEGIN
+    SELECT price, default_duration_mins INTO v_type
+    FROM public.lesson_types
+    WHERE user_id = p_instructor_id AND name = p_lesson_type AND price IS NOT NULL;
+    IF FOUND THEN
+        RETURN ROUND(v_type.price * p_hours * 60 / v_type.default_duration_mins, 2);
+    END IF;
+
+    SELECT rate_1h, rate_1_5h, rate_2h, hourly_rate INTO v_profile FROM public.profiles WHERE id = p_instructor_id;
+    IF p_hours = 1 AND v_profile.rate_1h IS NOT NULL THEN RETURN v_profile.rate_1h; END IF;
+    IF p_hours = 1.5 AND v_profile.rate_1_5h IS NOT NULL THEN RETURN v_profile.rate_1_5h; END IF;
+    IF p_hours = 2 AND v_profile.rate_2h IS NOT NULL THEN RETURN v_profile.rate_2h; END IF;
+    RETURN p_hours * COALESCE(v_profile.hourly_rate, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 5. Give back any hours a charge took and drop its pre-paid transactions (internal: called by the
+-- trigger and waive_cancellation_charge below)
+CREATE OR REPLACE FUNCTION public.reverse_cancellation_deduction(p_booking_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_tx RECORD;
+BEGIN
+    FOR v_tx IN
+        SELECT id, pre_paid_hours_id, hours_deducted
+        FROM public.pre_paid_hours_transactions
+        WHERE booking_id = p_booking_id AND notes = 'Late cancellation fee'
+    LOOP
+        UPDATE public.pre_paid_hours SET remaining_hours = remaining_hours + v_tx.hours_deducted WHERE id = v_tx.pre_paid_hours_id;
+        DELETE FROM public.pre_paid_hours_transactions WHERE id = v_tx.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_cancellation_deduction(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 6. Apply the policy when a lesson is cancelled, and undo it if the lesson is reinstated
+CREATE OR REPLACE FUNCTION public.handle_late_cancellation()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_profile RECORD;
+    v_hours NUMERIC;
+    v_price NUMERIC;
+    v_fee NUMERIC;
+    v_fee_hours NUMERIC;
+    v_balance NUMERIC;
+    v_remaining NUMERIC;
+    v_deduction NUMERIC;
+    v_pkg RECORD;
+    v_grace_used INTEGER;
+BEGIN
+    IF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+        PERFORM public.reverse_cancellation_deduction(NEW.id);
+        -- A fee that has been paid stays on record; anything else is cleared (grace and waived
+        -- included), so cancelling late again later is judged afresh
+        DELETE FROM public.cancellation_charges WHERE booking_id = NEW.id AND status IN ('charged', 'deducted', 'grace', 'waived');
+        IF COALESCE(NEW.cancellation_fee_waived, false) THEN
+            UPDATE public.bookings SET cancellation_fee_waived = false WHERE id = NEW.id;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NOT (OLD.status = 'scheduled' AND NEW.status = 'cancelled') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.student_id IS NULL OR NEW.lesson_type = 'Personal' OR COALESCE(NEW.cancellation_fee_waived, false) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_profile FROM public.profiles WHERE id = NEW.user_id;
+
+    IF NOT COALESCE(v_profile.cancellation_policy_enabled, false)
+       OR NEW.start_time - NOW() >= make_interval(hours => COALESCE(v_profile.cancellation_cutoff_hours, 48)) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Free late cancellations are still recorded so the allowance is used up
+    SELECT COUNT(*) INTO v_grace_used FROM public.cancellation_charges WHERE student_id = NEW.student_id AND status = 'grace';
+    IF v_grace_used < COALESCE(v_profile.cancellation_grace_count, 0) THEN
+        INSERT INTO public.cancellation_charges (user_id, student_id, booking_id, lesson_start, status)
+        VALUES (NEW.user_id, NEW.student_id, NEW.id, NEW.start_time, 'grace')
+        ON CONFLICT (booking_id) DO NOTHING;
+        RETURN NEW;
+    END IF;
+
+    v_hours := EXTRACT(EPOCH FROM (NEW.end_time - NEW.start_time)) / 3600;
+    v_price := public.calculate_lesson_price(NEW.user_id, v_hours, NEW.lesson_type);
+
+    IF COALESCE(v_profile.cancellation_fee_type, 'percent') = 'fixed' THEN
+        v_fee := COALESCE(v_profile.cancellation_fee_amount, 0);
+        v_fee_hours := CASE WHEN v_price > 0 THEN v_fee / (v_price / v_hours) ELSE NULL END;
+    ELSE
+        v_fee := ROUND(v_price * COALESCE(v_profile.cancellation_fee_amount, 100) / 100, 2);
+        v_fee_hours := v_hours * COALESCE(v_profile.cancellation_fee_amount, 100) / 100;
+    END IF;
+
+    IF v_fee <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(SUM(remaining_hours), 0) INTO v_balance FROM public.pre_paid_hours WHERE student_id = NEW.student_id AND remaining_hours > 0;
+
+    -- Take it from pre-paid hours (oldest package first) only when they cover the whole fee
+    IF v_fee_hours IS NOT NULL AND v_balance >= v_fee_hours THEN
+        v_remaining := v_fee_hours;
+        FOR v_pkg IN
+            SELECT id, remaining_hours FROM public.pre_paid_hours
+            WHERE student_id = NEW.student_id AND remaining_hours > 0
+            ORDER BY purchase_date ASC, created_at ASC
+        LOOP
+            EXIT WHEN v_remaining <= 0;
+            v_deduction := LEAST(v_pkg.remaining_hours, v_remaining);
+            UPDATE public.pre_paid_hours SET remaining_hours = remaining_hours - v_deduction WHERE id = v_pkg.id;
+            INSERT INTO public.pre_paid_hours_transactions (user_id, student_id, pre_paid_hours_id, booking_id, hours_deducted, transaction_date, notes)
+            VALUES (NEW.user_id, NEW.student_id, v_pkg.id, NEW.id, v_deduction, NOW(), 'Late cancellation fee');
+            v_remaining := v_remaining - v_deduction;
+        END LOOP;
+
+        INSERT INTO public.cancellation_charges (user_id, student_id, booking_id, lesson_start, amount, hours_deducted, status)
+        VALUES (NEW.user_id, NEW.student_id, NEW.id, NEW.start_time, v_fee, v_fee_hours, 'deducted')
+        ON CONFLICT (booking_id) DO NOTHING;
+    ELSE
+        INSERT INTO public.cancellation_charges (user_id, student_id, booking_id, lesson_start, amount, status)
+        VALUES (NEW.user_id, NEW.student_id, NEW.id, NEW.start_time, v_fee, 'charged')
+        ON CONFLICT (booking_id) DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_booking_late_cancellation ON public.bookings;
+CREATE TRIGGER on_booking_late_cancellation
+AFTER UPDATE ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_late_cancellation();
+
+-- 7. Instructor override: waive a fee after the fact, returning any hours taken
+CREATE OR REPLACE FUNCTION public.waive_cancellation_charge(p_charge_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_charge public.cancellation_charges;
+BEGIN
+    SELECT * INTO v_charge FROM public.cancellation_charges WHERE id = p_charge_id AND user_id = auth.uid();
+    IF v_charge.id IS NULL THEN
+        RAISE EXCEPTION 'Charge not found';
+    END IF;
+
+    IF v_charge.booking_id IS NOT NULL THEN
+        PERFORM public.reverse_cancellation_deduction(v_charge.booking_id);
+    END IF;
+
+    UPDATE public.cancellation_charges SET status = 'waived', hours_deducted = 0 WHERE id = p_charge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.waive_cancellation_charge(UUID) TO authenticated;
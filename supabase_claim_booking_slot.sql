@@ -0,0 +1,279 @@
+-- Atomically validate and claim a lesson slot for the signed-in student.
+-- Mirrors the rules in src/utils/slot-engine.ts so a stale browser view
+-- (or two students clicking at once) can never double book the instructor.
+-- Requires supabase_external_calendars.sql for the external_busy_blocks table
+-- and supabase_waitlist.sql for waitlist holds.
+-- Passing p_reschedule_of turns the claim into a request to move that lesson (supabase_student_reschedule.sql).
+-- The pickup defaults to the student's default location (supabase_pickup_locations.sql).
+-- Open mode checks split shifts and dated overrides (supabase_working_hours.sql).
+-- Students can book a standard lesson or any of the instructor's self-bookable lesson types (supabase_lesson_types.sql).
+-- Working hours are read in the instructor's own time zone (supabase_instructor_timezone.sql).
+-- Slots another student is part way through booking are refused (supabase_slot_holds.sql).
+DROP FUNCTION IF EXISTS public.claim_booking_slot(TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS public.claim_booking_slot(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.claim_booking_slot(
+    p_start_time TIMESTAMPTZ,
+    p_end_time TIMESTAMPTZ,
+    p_lesson_type TEXT DEFAULT 'Driving lesson',
+    p_reschedule_of UUID DEFAULT NULL,
+    p_pickup_location_id UUID DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+    v_tz TEXT;
+    v_student RECORD;
+    v_instructor RECORD;
+    v_buffer INTERVAL;
+    v_local_start TIMESTAMP;
+    v_local_end TIMESTAMP;
+    v_intervals JSONB;
+    v_status TEXT;
+    v_offer_id UUID;
+    v_original public.bookings;
+    v_lesson_type TEXT := COALESCE(p_lesson_type, 'Driving lesson');
+    v_pickup public.student_pickup_locations;
+    v_booking public.bookings;
+BEGIN
+    IF p_start_time IS NULL OR p_end_time IS NULL OR p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'Invalid slot times';
+    END IF;
+
+    -- The lengths the booking page offers: whole minutes from 15 minutes to 5 hours
+    IF p_end_time - p_start_time < interval '15 minutes'
+        OR p_end_time - p_start_time > interval '5 hours'
+        OR EXTRACT(EPOCH FROM (p_end_time - p_start_time))::NUMERIC % 60 <> 0 THEN
+        RAISE EXCEPTION 'Lessons can be booked for between 15 minutes and 5 hours';
+    END IF;
+
+    SELECT id, name, user_id INTO v_student
+    FROM public.students
+    WHERE auth_user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_student.id IS NULL THEN
+        RAISE EXCEPTION 'Student record not found';
+    END IF;
+
+    SELECT * INTO v_instructor FROM public.profiles WHERE id = v_student.user_id;
+    v_tz := public.instructor_time_zone(v_student.user_id);
+
+    IF p_reschedule_of IS NOT NULL THEN
+        SELECT * INTO v_original FROM public.bookings
+        WHERE id = p_reschedule_of AND student_id = v_student.id AND status = 'scheduled' AND start_time > NOW();
+
+        IF v_original.id IS NULL THEN
+            RAISE EXCEPTION 'Only upcoming scheduled lessons can be moved';
+        END IF;
+
+        IF p_end_time - p_start_time <> v_original.end_time - v_original.start_time THEN
+            RAISE EXCEPTION 'A moved lesson must keep its length';
+        END IF;
+
+        v_lesson_type := v_original.lesson_type;
+    ELSIF v_lesson_type <> 'Driving lesson' AND NOT EXISTS (
+        SELECT 1 FROM public.lesson_types
+        WHERE user_id = v_student.user_id
+        AND name = v_lesson_type
+        AND is_active
+        AND student_bookable
+    ) THEN
+        RAISE EXCEPTION 'This lesson type can''t be booked online';
+    END IF;
+
+    -- Pickup: the one chosen, else the lesson being moved's, else the student's default
+    IF p_pickup_location_id IS NOT NULL THEN
+        SELECT * INTO v_pickup FROM public.student_pickup_locations WHERE id = p_pickup_location_id AND student_id = v_student.id;
+        IF v_pickup.id IS NULL THEN
+            RAISE EXCEPTION 'Pickup location not found';
+        END IF;
+    ELSIF v_original.pickup_location_id IS NOT NULL THEN
+        SELECT * INTO v_pickup FROM public.student_pickup_locations WHERE id = v_original.pickup_location_id;
+    ELSE
+        SELECT * INTO v_pickup FROM public.student_pickup_locations
+        WHERE student_id = v_student.id
+        ORDER BY is_default DESC, created_at ASC
+        LIMIT 1;
+    END IF;
+
+    -- Serialise all claims against this instructor's diary for the rest of the transaction
+    PERFORM pg_advisory_xact_lock(hashtext('claim_booking_slot:' || v_student.user_id::text));
+
+    -- A slot offered to this student from the waitlist
+    SELECT id INTO v_offer_id
+    FROM public.waitlist_offers
+    WHERE student_id = v_student.id
+    AND status = 'offered'
+    AND expires_at > NOW()
+    AND start_time = p_start_time
+    AND end_time = p_end_time
+    LIMIT 1;
+
+    -- 1. Notice and advance booking limits (waitlist offers are last-minute by nature, so skip the notice period)
+    IF v_offer_id IS NULL AND p_start_time < NOW() + make_interval(hours => COALESCE(v_instructor.min_booking_notice_hours, 48)) THEN
+        RAISE EXCEPTION 'This slot is inside the minimum booking notice period';
+    END IF;
+
+    IF p_start_time > NOW() + make_interval(weeks => COALESCE(v_instructor.max_booking_advance_weeks, 12)) THEN
+        RAISE EXCEPTION 'This slot is too far in advance to book';
+    END IF;
+
+    v_local_start := p_start_time AT TIME ZONE v_tz;
+    v_local_end := p_end_time AT TIME ZONE v_tz;
+
+    -- 2. Instructor days off
+    IF EXISTS (
+        SELECT 1 FROM public.instructor_unavailability
+        WHERE user_id = v_student.user_id
+        AND v_local_start::date BETWEEN start_date AND end_date
+    ) THEN
+        RAISE EXCEPTION 'The instructor is unavailable on this day';
+    END IF;
+
+    -- 3. The slot must sit inside a published gap or the day's working hours
+    IF COALESCE(v_instructor.booking_mode, 'gaps') = 'gaps' THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM public.bookings
+            WHERE user_id = v_student.user_id
+            AND status = 'available'
+            AND start_time <= p_start_time
+            AND end_time >= p_end_time
+        ) THEN
+            RAISE EXCEPTION 'This slot is no longer available';
+        END IF;
+    ELSE
+        -- Split shifts and dated overrides (supabase_working_hours.sql); the slot must fit inside one shift
+        v_intervals := public.get_working_intervals(v_student.user_id, v_local_start::date);
+        IF jsonb_array_length(v_intervals) = 0 THEN
+            RAISE EXCEPTION 'The instructor does not work on this day';
+        END IF;
+
+        IF v_local_start::date <> v_local_end::date OR NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(v_intervals) AS shift
+            WHERE v_local_start::time >= public.parse_working_time(shift -> 'start', '09:00')
+            AND v_local_end::time <= public.parse_working_time(shift -> 'end', '17:00')
+        ) THEN
+            RAISE EXCEPTION 'This slot is outside the instructor''s working hours';
+        END IF;
+    END IF;
+
+    -- 4. No overlap with existing lessons, including the travel buffer (a move may overlap the lesson it replaces)
+    v_buffer := make_interval(mins => COALESCE(v_instructor.booking_buffer_mins, 0));
+
+    IF EXISTS (
+        SELECT 1 FROM public.bookings
+        WHERE user_id = v_student.user_id
+        AND status NOT IN ('available', 'cancelled')
+        AND (p_reschedule_of IS NULL OR (id <> p_reschedule_of AND reschedule_of IS DISTINCT FROM p_reschedule_of))
+        AND start_time < p_end_time + v_buffer
+        AND end_time > p_start_time - v_buffer
+    ) THEN
+        RAISE EXCEPTION 'Sorry, this slot has just been taken';
+    END IF;
+
+    -- 5. Enough time to drive between this pickup and the neighbouring lessons' pickups
+    IF COALESCE(v_instructor.travel_buffer_enabled, false) AND v_pickup.latitude IS NOT NULL AND v_pickup.longitude IS NOT NULL THEN
+        IF EXISTS (
+            SELECT 1 FROM (
+                SELECT start_time, end_time, make_interval(mins => public.estimate_travel_minutes(
+                    v_pickup.latitude, v_pickup.longitude, pickup_latitude, pickup_longitude,
+                    v_instructor.travel_speed_mph, v_instructor.travel_max_buffer_mins
+                )) AS travel
+                FROM public.bookings
+                WHERE user_id = v_student.user_id
+                AND status NOT IN ('available', 'cancelled')
+                AND pickup_latitude IS NOT NULL
+                AND pickup_longitude IS NOT NULL
+                AND (p_reschedule_of IS NULL OR (id <> p_reschedule_of AND reschedule_of IS DISTINCT FROM p_reschedule_of))
+                AND start_time < p_end_time + interval '1 day'
+                AND end_time > p_start_time - interval '1 day'
+            ) nearby
+            WHERE nearby.start_time < p_end_time + nearby.travel
+            AND nearby.end_time > p_start_time - nearby.travel
+        ) THEN
+            RAISE EXCEPTION 'There isn''t enough time for the instructor to travel to your pickup for this slot';
+        END IF;
+    END IF;
+
+    -- 6. No overlap with busy time imported from the instructor's other calendars
+    IF EXISTS (
+        SELECT 1 FROM public.external_busy_blocks
+        WHERE user_id = v_student.user_id
+        AND start_time < p_end_time + v_buffer
+        AND end_time > p_start_time - v_buffer
+    ) THEN
+        RAISE EXCEPTION 'The instructor is busy at this time';
+    END IF;
+
+    -- 7. Not held for a different student on the waitlist
+    IF EXISTS (
+        SELECT 1 FROM public.waitlist_offers
+        WHERE instructor_id = v_student.user_id
+        AND student_id <> v_student.id
+        AND status = 'offered'
+        AND expires_at > NOW()
+        AND start_time < p_end_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'This slot is being held for a student on the waitlist';
+    END IF;
+
+    -- 8. Not being booked by another student right now
+    IF EXISTS (
+        SELECT 1 FROM public.slot_holds
+        WHERE instructor_id = v_student.user_id
+        AND student_id <> v_student.id
+        AND expires_at > NOW()
+        AND start_time < p_end_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Another student is booking this slot right now';
+    END IF;
+
+    -- Moves always need the instructor's approval; a newer request replaces any earlier one
+    IF p_reschedule_of IS NOT NULL THEN
+        DELETE FROM public.bookings WHERE reschedule_of = p_reschedule_of AND status = 'pending_approval';
+        v_status := 'pending_approval';
+    ELSE
+        v_status := CASE WHEN COALESCE(v_instructor.require_booking_approval, false) THEN 'pending_approval' ELSE 'scheduled' END;
+    END IF;
+
+    INSERT INTO public.bookings (user_id, student_id, status, title, lesson_type, start_time, end_time, reschedule_of, pickup_location_id)
+    VALUES (
+        v_student.user_id,
+        v_student.id,
+        v_status,
+        v_student.name || CASE
+            WHEN p_reschedule_of IS NOT NULL THEN ' - Reschedule Request'
+            WHEN v_status = 'pending_approval' THEN ' - Pending Approval'
+            ELSE ' - ' || v_lesson_type END,
+        v_lesson_type,
+        p_start_time,
+        p_end_time,
+        p_reschedule_of,
+        v_pickup.id
+    )
+    RETURNING * INTO v_booking;
+
+    IF v_offer_id IS NOT NULL THEN
+        UPDATE public.waitlist_offers SET status = 'claimed' WHERE id = v_offer_id;
+    END IF;
+
+    DELETE FROM public.slot_holds WHERE student_id = v_student.id;
+
+    -- The student has a lesson that day now, so stop waiting for it
+    UPDATE public.waitlist_entries
+    SET status = 'booked'
+    WHERE student_id = v_student.id
+    AND status IN ('waiting', 'offered')
+    AND wait_date = v_local_start::date;
+
+    RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.claim_booking_slot(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, UUID, UUID) TO authenticated;
+
+-- Students book only through claim_booking_slot. The older direct-update policy
+-- (supabase_claim_slots_policy.sql) would let them skip every check above.
+DROP POLICY IF EXISTS "Students can claim available slots" ON public.bookings;
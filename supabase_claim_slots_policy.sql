@@ -1,5 +1,6 @@
 -- 1. Allow students to update a booking ONLY if it is currently 'available'
 -- and belongs to their instructor.
+-- Superseded by claim_booking_slot: supabase_claim_booking_slot.sql drops this policy.
 CREATE POLICY "Students can claim available slots" 
 ON public.bookings 
 FOR UPDATE 
@@ -42,7 +42,7 @@ begin
           'subject', 'New Lesson Booked: ' || student_name,
           'html', '<h1>New Lesson Booked!</h1>' ||
                   '<p><strong>' || student_name || '</strong> has booked a slot.</p>' ||
-                  '<p><strong>Time:</strong> ' || to_char(new.start_time at time zone 'UTC', 'Day, DD Mon HH24:MI') || '</p>'
+                  '<p><strong>Time:</strong> ' || to_char(new.start_time at time zone public.instructor_time_zone(new.user_id), 'Day, DD Mon HH24:MI') || '</p>'
         )
       );
     end if;
@@ -0,0 +1,309 @@
+-- Group sessions (theory workshops, show me/tell me practice and the like) with several students.
+-- A session is a bookings row with a capacity and no student; who is coming lives in booking_attendees.
+-- Completing a session charges each attendee who turned up: from their pre-paid hours when those
+-- cover the fee (the same pre_paid_hours_transactions the lesson triggers write), otherwise as an
+-- unpaid fee on Accounts until the instructor marks it paid.
+
+-- 1. Capacity and the fee each attendee pays; NULL capacity means an ordinary one-to-one booking
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+ADD COLUMN IF NOT EXISTS attendee_price NUMERIC;
+
+-- 2. One row per student signed up to a session
+CREATE TABLE IF NOT EXISTS public.booking_attendees (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'booked', -- booked, attended, absent
+  payment_status TEXT NOT NULL DEFAULT 'unpaid', -- unpaid, paid, credit (taken from pre-paid hours)
+  amount NUMERIC NOT NULL DEFAULT 0,
+  hours_deducted NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (booking_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_attendees_student ON public.booking_attendees(student_id);
+
+ALTER TABLE public.booking_attendees ENABLE ROW LEVEL SECURITY;
+
+-- Attendees must be the instructor's own students on the instructor's own sessions
+DROP POLICY IF EXISTS "Instructors can manage their session attendees" ON public.booking_attendees;
+CREATE POLICY "Instructors can manage their session attendees"
+ON public.booking_attendees
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND student_id IN (SELECT id FROM public.students WHERE user_id = auth.uid())
+  AND booking_id IN (SELECT id FROM public.bookings WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Students can view their own session places"
+ON public.booking_attendees
+FOR SELECT
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 3. Charge an attendee of a completed session, from pre-paid hours if they cover the whole fee.
+-- Hours are valued at the instructor's standard one hour price. Sections 3 and 4 are internal: only
+-- the triggers below call them.
+CREATE OR REPLACE FUNCTION public.charge_group_attendee(p_attendee_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_attendee public.booking_attendees;
+    v_hour_price NUMERIC;
+    v_fee_hours NUMERIC;
+    v_balance NUMERIC;
+    v_remaining NUMERIC;
+    v_deduction NUMERIC;
+    v_pkg RECORD;
+BEGIN
+    SELECT a.* INTO v_attendee
+    FROM public.booking_attendees a
+    JOIN public.bookings b ON b.id = a.booking_id
+    WHERE a.id = p_attendee_id
+    AND a.status = 'attended'
+    AND a.payment_status = 'unpaid'
+    AND a.amount > 0
+    AND b.status = 'completed';
+
+    IF v_attendee.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    v_hour_price := public.calculate_lesson_price(v_attendee.user_id, 1);
+    IF v_hour_price <= 0 THEN
+        RETURN;
+    END IF;
+    v_fee_hours := v_attendee.amount / v_hour_price;
+
+    SELECT COALESCE(SUM(remaining_hours), 0) INTO v_balance FROM public.pre_paid_hours
+    WHERE student_id = v_attendee.student_id AND user_id = v_attendee.user_id AND remaining_hours > 0;
+    IF v_balance < v_fee_hours THEN
+        RETURN;
+    END IF;
+
+    v_remaining := v_fee_hours;
+    FOR v_pkg IN
+        SELECT id, remaining_hours FROM public.pre_paid_hours
+        WHERE student_id = v_attendee.student_id AND user_id = v_attendee.user_id AND remaining_hours > 0
+        ORDER BY purchase_date ASC, created_at ASC
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+        v_deduction := LEAST(v_pkg.remaining_hours, v_remaining);
+        UPDATE public.pre_paid_hours SET remaining_hours = remaining_hours - v_deduction WHERE id = v_pkg.id;
+        INSERT INTO public.pre_paid_hours_transactions (user_id, student_id, pre_paid_hours_id, booking_id, hours_deducted, transaction_date, notes)
+        VALUES (v_attendee.user_id, v_attendee.student_id, v_pkg.id, v_attendee.booking_id, v_deduction, NOW(), 'Group session');
+        v_remaining := v_remaining - v_deduction;
+    END LOOP;
+
+    UPDATE public.booking_attendees SET payment_status = 'credit', hours_deducted = v_fee_hours WHERE id = p_attendee_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.charge_group_attendee(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 4. Give back the hours an attendee's fee took
+CREATE OR REPLACE FUNCTION public.reverse_group_attendee_deduction(p_booking_id UUID, p_student_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_tx RECORD;
+BEGIN
+    FOR v_tx IN
+        SELECT id, pre_paid_hours_id, hours_deducted
+        FROM public.pre_paid_hours_transactions
+        WHERE booking_id = p_booking_id AND student_id = p_student_id AND notes = 'Group session'
+    LOOP
+        UPDATE public.pre_paid_hours SET remaining_hours = remaining_hours + v_tx.hours_deducted WHERE id = v_tx.pre_paid_hours_id;
+        DELETE FROM public.pre_paid_hours_transactions WHERE id = v_tx.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_group_attendee_deduction(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refund_group_attendee(p_attendee_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_attendee public.booking_attendees;
+BEGIN
+    SELECT * INTO v_attendee FROM public.booking_attendees WHERE id = p_attendee_id AND payment_status = 'credit';
+    IF v_attendee.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    PERFORM public.reverse_group_attendee_deduction(v_attendee.booking_id, v_attendee.student_id);
+    UPDATE public.booking_attendees SET payment_status = 'unpaid', hours_deducted = 0 WHERE id = p_attendee_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refund_group_attendee(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 5. Marking attendance on a completed session charges or refunds straight away, and removing
+-- an attendee returns anything their fee took
+CREATE OR REPLACE FUNCTION public.handle_attendee_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.payment_status = 'credit' THEN
+            PERFORM public.reverse_group_attendee_deduction(OLD.booking_id, OLD.student_id);
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF NEW.status = 'attended' THEN
+        PERFORM public.charge_group_attendee(NEW.id);
+    ELSE
+        PERFORM public.refund_group_attendee(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_booking_attendee_status ON public.booking_attendees;
+CREATE TRIGGER on_booking_attendee_status
+AFTER INSERT OR UPDATE OF status OR DELETE ON public.booking_attendees
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_attendee_status();
+
+-- 6. Completing a session counts everyone not marked absent as attended and charges them;
+-- un-completing it refunds any hours taken
+CREATE OR REPLACE FUNCTION public.handle_group_session_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_attendee RECORD;
+BEGIN
+    IF NEW.capacity IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+        UPDATE public.booking_attendees SET status = 'attended' WHERE booking_id = NEW.id AND status = 'booked';
+        FOR v_attendee IN SELECT id FROM public.booking_attendees WHERE booking_id = NEW.id AND status = 'attended' LOOP
+            PERFORM public.charge_group_attendee(v_attendee.id);
+        END LOOP;
+    ELSIF OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+        FOR v_attendee IN SELECT id FROM public.booking_attendees WHERE booking_id = NEW.id AND payment_status = 'credit' LOOP
+            PERFORM public.refund_group_attendee(v_attendee.id);
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_group_session_completion ON public.bookings;
+CREATE TRIGGER on_group_session_completion
+AFTER UPDATE OF status ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_group_session_completion();
+
+-- 7. Upcoming sessions a student can sign up to, with places left but not who has taken them
+CREATE OR REPLACE FUNCTION public.get_group_sessions(p_instructor_id UUID)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    description TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    capacity INTEGER,
+    attendee_price NUMERIC,
+    places_left INTEGER,
+    is_signed_up BOOLEAN
+) AS $$
+BEGIN
+    IF NOT (
+        auth.uid() = p_instructor_id
+        OR EXISTS (SELECT 1 FROM public.students s WHERE s.user_id = p_instructor_id AND s.auth_user_id = auth.uid())
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.title,
+        b.description,
+        b.start_time,
+        b.end_time,
+        b.capacity,
+        b.attendee_price,
+        (b.capacity - (SELECT COUNT(*) FROM public.booking_attendees a WHERE a.booking_id = b.id))::INTEGER,
+        EXISTS (
+            SELECT 1 FROM public.booking_attendees a
+            JOIN public.students s ON s.id = a.student_id
+            WHERE a.booking_id = b.id AND s.auth_user_id = auth.uid()
+        )
+    FROM public.bookings b
+    WHERE b.user_id = p_instructor_id
+    AND b.capacity IS NOT NULL
+    AND b.status = 'scheduled'
+    AND b.start_time > NOW()
+    ORDER BY b.start_time;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_group_sessions(UUID) TO authenticated;
+
+-- 8. Sign the signed-in student up to a session, if there's still a place
+CREATE OR REPLACE FUNCTION public.join_group_session(p_booking_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_student RECORD;
+    v_session public.bookings;
+BEGIN
+    SELECT id, user_id INTO v_student
+    FROM public.students
+    WHERE auth_user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_student.id IS NULL THEN
+        RAISE EXCEPTION 'Student record not found';
+    END IF;
+
+    -- Locking the session row stops two students taking the last place together
+    SELECT * INTO v_session FROM public.bookings
+    WHERE id = p_booking_id AND user_id = v_student.user_id AND capacity IS NOT NULL
+    FOR UPDATE;
+
+    IF v_session.id IS NULL THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    IF v_session.status <> 'scheduled' OR v_session.start_time <= NOW() THEN
+        RAISE EXCEPTION 'This session is no longer taking sign-ups';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.booking_attendees WHERE booking_id = p_booking_id AND student_id = v_student.id) THEN
+        RAISE EXCEPTION 'You are already signed up to this session';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM public.booking_attendees WHERE booking_id = p_booking_id) >= v_session.capacity THEN
+        RAISE EXCEPTION 'Sorry, this session is full';
+    END IF;
+
+    INSERT INTO public.booking_attendees (booking_id, user_id, student_id, amount)
+    VALUES (p_booking_id, v_session.user_id, v_student.id, COALESCE(v_session.attendee_price, 0));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.join_group_session(UUID) TO authenticated;
+
+-- 9. Give up a place before the session starts
+CREATE OR REPLACE FUNCTION public.leave_group_session(p_booking_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM public.booking_attendees a
+    USING public.bookings b
+    WHERE a.booking_id = p_booking_id
+    AND b.id = a.booking_id
+    AND b.start_time > NOW()
+    AND a.student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid());
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'You can only leave a session before it starts';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.leave_group_session(UUID) TO authenticated;
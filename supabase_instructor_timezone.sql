@@ -0,0 +1,32 @@
+-- Instructor time zones.
+-- Working hours, day boundaries, emails and calendar feeds were worked out in a mix of the
+-- browser's zone, UTC and a hard-coded Europe/London. Each instructor now has a zone on their
+-- profile and everything about their diary uses it.
+-- Run before supabase_email_notifications.sql, supabase_claim_booking_slot.sql, supabase_waitlist.sql,
+-- supabase_external_calendars.sql and supabase_auto_complete.sql, which all read it.
+
+-- 1. Only zones Postgres knows are accepted, so AT TIME ZONE can never fail later
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(p_time_zone TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    PERFORM NOW() AT TIME ZONE p_time_zone;
+    RETURN true;
+EXCEPTION WHEN OTHERS THEN
+    RETURN false;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS time_zone TEXT DEFAULT 'Europe/London';
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_time_zone_check;
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_time_zone_check CHECK (time_zone IS NULL OR public.is_valid_time_zone(time_zone));
+
+-- 2. An instructor's zone, defaulting to Europe/London. Mirrors resolveTimeZone in src/utils/time-zone.ts.
+CREATE OR REPLACE FUNCTION public.instructor_time_zone(p_instructor_id UUID)
+RETURNS TEXT AS $$
+    SELECT COALESCE((SELECT time_zone FROM public.profiles WHERE id = p_instructor_id), 'Europe/London');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.instructor_time_zone(UUID) TO anon, authenticated;
@@ -0,0 +1,238 @@
+-- Invoices and receipts for lessons, pre-paid packages and additional income.
+-- Each instructor has one running sequence of numbers, handed out by issue_invoice so there are no
+-- gaps or duplicates. An invoice keeps a copy of the instructor's business details and the amount
+-- at the time it was issued, so later changes to rates or the profile don't alter it. Students can
+-- see and download the ones made out to them. A lesson's price is fixed when it's completed or paid
+-- for (bookings.charged_amount), so a receipt shows what was actually paid rather than today's rates.
+-- Re-run supabase_student_payments.sql after this file so online payments issue a receipt.
+
+-- 1. Business details printed on invoices, and the last number used
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_name TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_address TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_phone TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_email TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS invoice_notes TEXT; -- e.g. bank details or payment terms
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_invoice_number INTEGER NOT NULL DEFAULT 0;
+
+-- 2. What a lesson was charged at, stamped when it's completed or paid for, whichever comes first.
+-- Online payments record the amount the student paid (supabase_student_payments.sql); anything else
+-- is priced at the rates of the day. The student ledger reads it too (supabase_student_ledger.sql).
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS charged_amount NUMERIC;
+
+CREATE OR REPLACE FUNCTION public.stamp_charged_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(NEW.is_paid, false) OR NEW.status = 'completed' THEN
+        NEW.charged_amount := COALESCE(NEW.charged_amount, public.calculate_lesson_price(
+            NEW.user_id, EXTRACT(EPOCH FROM (NEW.end_time - NEW.start_time)) / 3600, NEW.lesson_type
+        ));
+    ELSE
+        NEW.charged_amount := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_booking_charged ON public.bookings;
+CREATE TRIGGER on_booking_charged
+BEFORE INSERT OR UPDATE OF is_paid, status ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_charged_amount();
+
+-- Lessons completed or paid before this was added: the online payment where there was one, otherwise today's rates
+UPDATE public.bookings b
+SET charged_amount = COALESCE(
+    (SELECT sp.amount FROM public.student_payments sp WHERE sp.booking_id = b.id AND sp.status = 'paid' ORDER BY sp.paid_at DESC LIMIT 1),
+    public.calculate_lesson_price(b.user_id, EXTRACT(EPOCH FROM (b.end_time - b.start_time)) / 3600, b.lesson_type)
+)
+WHERE (b.is_paid OR b.status = 'completed') AND b.charged_amount IS NULL AND b.student_id IS NOT NULL;
+
+-- 3. Issued invoices and receipts, one line each
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  number INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('invoice', 'receipt')),
+  source_type TEXT NOT NULL CHECK (source_type IN ('booking', 'package', 'additional_income')),
+  source_id UUID NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE SET NULL,
+  recipient_name TEXT NOT NULL,
+  recipient_email TEXT,
+  issue_date DATE NOT NULL,
+  supply_date DATE NOT NULL,
+  description TEXT NOT NULL,
+  quantity NUMERIC, -- hours, where the line is for lessons
+  amount NUMERIC NOT NULL,
+  issuer JSONB NOT NULL, -- name, address, phone, email, logo_url and notes as they were when issued
+  emailed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (user_id, number),
+  UNIQUE (source_type, source_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_student ON public.invoices(student_id);
+
+-- 4. Enable RLS; invoices are only created through issue_invoice
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can view their invoices"
+ON public.invoices
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Students can view their own invoices"
+ON public.invoices
+FOR SELECT
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 5. Create an invoice or receipt for a lesson, package or income item, or return the one already issued.
+-- Internal: trusts p_user_id, so it's only called by the functions below.
+CREATE OR REPLACE FUNCTION public.create_invoice(
+    p_user_id UUID,
+    p_source_type TEXT,
+    p_source_id UUID,
+    p_kind TEXT,
+    p_recipient_name TEXT DEFAULT NULL,
+    p_recipient_email TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_invoice_id UUID;
+    v_tz TEXT := public.instructor_time_zone(p_user_id);
+    v_profile RECORD;
+    v_student_id UUID;
+    v_name TEXT;
+    v_email TEXT;
+    v_supply_date DATE;
+    v_description TEXT;
+    v_quantity NUMERIC;
+    v_amount NUMERIC;
+    v_source RECORD;
+    v_number INTEGER;
+BEGIN
+    IF p_kind NOT IN ('invoice', 'receipt') THEN
+        RAISE EXCEPTION 'Invalid document type';
+    END IF;
+
+    SELECT id INTO v_invoice_id FROM public.invoices
+    WHERE source_type = p_source_type AND source_id = p_source_id AND kind = p_kind;
+    IF v_invoice_id IS NOT NULL THEN
+        RETURN v_invoice_id;
+    END IF;
+
+    IF p_source_type = 'booking' THEN
+        SELECT b.start_time, b.end_time, b.lesson_type, b.is_paid, b.charged_amount, b.student_id, s.name, s.email INTO v_source
+        FROM public.bookings b
+        LEFT JOIN public.students s ON s.id = b.student_id
+        WHERE b.id = p_source_id AND b.user_id = p_user_id AND b.status <> 'cancelled';
+        IF NOT FOUND OR v_source.student_id IS NULL THEN
+            RAISE EXCEPTION 'Lesson not found';
+        END IF;
+        IF p_kind = 'receipt' AND NOT COALESCE(v_source.is_paid, false) THEN
+            RAISE EXCEPTION 'This lesson has not been paid for yet';
+        END IF;
+        v_student_id := v_source.student_id;
+        v_name := v_source.name;
+        v_email := v_source.email;
+        v_supply_date := (v_source.start_time AT TIME ZONE v_tz)::date;
+        v_quantity := ROUND(EXTRACT(EPOCH FROM (v_source.end_time - v_source.start_time)) / 3600, 2);
+        -- A receipt is for what was paid: the online payment, or the price when it was marked paid.
+        -- An invoice is for what's due at today's rates.
+        IF p_kind = 'receipt' THEN
+            v_amount := COALESCE(
+                (SELECT sp.amount FROM public.student_payments sp WHERE sp.booking_id = p_source_id AND sp.status = 'paid' ORDER BY sp.paid_at DESC LIMIT 1),
+                v_source.charged_amount
+            );
+        END IF;
+        v_amount := COALESCE(v_amount, public.calculate_lesson_price(p_user_id, v_quantity, v_source.lesson_type));
+        v_description := v_source.lesson_type || ', ' || to_char(v_source.start_time AT TIME ZONE v_tz, 'FMDD Mon YYYY "at" HH24:MI');
+
+    ELSIF p_source_type = 'package' THEN
+        SELECT p.package_hours, p.amount_paid, p.purchase_date, p.student_id, s.name, s.email INTO v_source
+        FROM public.pre_paid_hours p
+        JOIN public.students s ON s.id = p.student_id
+        WHERE p.id = p_source_id AND p.user_id = p_user_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Package not found';
+        END IF;
+        IF v_source.amount_paid IS NULL THEN
+            RAISE EXCEPTION 'No amount was recorded for this package';
+        END IF;
+        v_student_id := v_source.student_id;
+        v_name := v_source.name;
+        v_email := v_source.email;
+        v_supply_date := COALESCE(v_source.purchase_date::date, CURRENT_DATE);
+        v_quantity := v_source.package_hours;
+        v_amount := v_source.amount_paid;
+        v_description := 'Pre-paid lesson package';
+
+    ELSIF p_source_type = 'additional_income' THEN
+        SELECT a.amount, a.description, a.date INTO v_source
+        FROM public.additional_income a
+        WHERE a.id = p_source_id AND a.user_id = p_user_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Income item not found';
+        END IF;
+        v_supply_date := v_source.date;
+        v_amount := v_source.amount;
+        v_description := v_source.description;
+
+    ELSE
+        RAISE EXCEPTION 'Invalid invoice source';
+    END IF;
+
+    v_name := COALESCE(NULLIF(TRIM(p_recipient_name), ''), v_name);
+    v_email := COALESCE(NULLIF(TRIM(p_recipient_email), ''), v_email);
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Please enter who the invoice is for';
+    END IF;
+
+    -- Taking the next number locks the profile row, so concurrent invoices queue up here
+    UPDATE public.profiles
+    SET last_invoice_number = last_invoice_number + 1
+    WHERE id = p_user_id
+    RETURNING last_invoice_number, first_name, last_name, business_name, business_address, business_phone, business_email, invoice_notes, logo_url, email
+    INTO v_profile;
+
+    INSERT INTO public.invoices (
+        user_id, number, kind, source_type, source_id, student_id, recipient_name, recipient_email,
+        issue_date, supply_date, description, quantity, amount, issuer
+    )
+    VALUES (
+        p_user_id, v_profile.last_invoice_number, p_kind, p_source_type, p_source_id, v_student_id, v_name, v_email,
+        (NOW() AT TIME ZONE v_tz)::date, v_supply_date, v_description, v_quantity, COALESCE(v_amount, 0),
+        jsonb_build_object(
+            'name', COALESCE(NULLIF(v_profile.business_name, ''), TRIM(COALESCE(v_profile.first_name, '') || ' ' || COALESCE(v_profile.last_name, ''))),
+            'address', v_profile.business_address,
+            'phone', v_profile.business_phone,
+            'email', COALESCE(NULLIF(v_profile.business_email, ''), v_profile.email),
+            'logo_url', v_profile.logo_url,
+            'notes', v_profile.invoice_notes
+        )
+    )
+    RETURNING id INTO v_invoice_id;
+
+    RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_invoice(UUID, TEXT, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 6. Issue an invoice or receipt for the signed-in instructor
+CREATE OR REPLACE FUNCTION public.issue_invoice(
+    p_source_type TEXT,
+    p_source_id UUID,
+    p_kind TEXT,
+    p_recipient_name TEXT DEFAULT NULL,
+    p_recipient_email TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    RETURN public.create_invoice(auth.uid(), p_source_type, p_source_id, p_kind, p_recipient_name, p_recipient_email);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.issue_invoice(TEXT, UUID, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,51 @@
+-- Instructor-managed lesson types (motorway, mock test, Pass Plus...) with their own default length,
+-- price, calendar colour and whether students can book them online. The built-in types
+-- ('Driving lesson', 'Driving Test', 'Personal') are not stored here and keep using the profile rates.
+-- bookings.lesson_type holds the type's name, so renaming a type renames it on every booking and series, past lessons included.
+-- Run before supabase_cancellation_policy.sql and supabase_claim_booking_slot.sql, which read this table.
+
+-- 1. Catalogue
+CREATE TABLE IF NOT EXISTS public.lesson_types (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (name NOT IN ('Driving lesson', 'Driving Test', 'Personal', 'Availability')),
+  default_duration_mins INTEGER NOT NULL DEFAULT 60 CHECK (default_duration_mins > 0),
+  price NUMERIC, -- for a lesson of the default length, pro-rated for other lengths; NULL uses the profile rates
+  colour TEXT NOT NULL DEFAULT 'teal', -- palette key, see LESSON_TYPE_COLOURS in src/utils/lesson-types.ts
+  student_bookable BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.lesson_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their lesson types"
+ON public.lesson_types
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Students can view their instructor's lesson types"
+ON public.lesson_types
+FOR SELECT
+USING (user_id IN (SELECT user_id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 2. Keep every booking and series, past and future, on a type when it's renamed
+CREATE OR REPLACE FUNCTION public.rename_lesson_type_bookings()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        UPDATE public.bookings SET lesson_type = NEW.name WHERE user_id = NEW.user_id AND lesson_type = OLD.name;
+        UPDATE public.booking_series SET lesson_type = NEW.name WHERE user_id = NEW.user_id AND lesson_type = OLD.name;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_lesson_type_renamed ON public.lesson_types;
+CREATE TRIGGER on_lesson_type_renamed
+AFTER UPDATE OF name ON public.lesson_types
+FOR EACH ROW
+EXECUTE FUNCTION public.rename_lesson_type_bookings();
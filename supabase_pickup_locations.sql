@@ -0,0 +1,181 @@
+-- Saved pickup locations per student, a pickup on each booking, and travel-time-aware buffers.
+-- When travel buffers are on, the gap needed between two lessons is the larger of booking_buffer_mins
+-- and the estimated drive between their pickups, worked out here so students never see each other's pickups.
+-- Run before supabase_claim_booking_slot.sql, which checks travel time when claiming.
+
+-- 1. Travel settings
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS travel_buffer_enabled BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS travel_speed_mph INTEGER DEFAULT 20, -- average door-to-door speed, allowing for town traffic
+ADD COLUMN IF NOT EXISTS travel_max_buffer_mins INTEGER DEFAULT 60;
+
+-- 2. Pickup locations
+CREATE TABLE IF NOT EXISTS public.student_pickup_locations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  label TEXT NOT NULL DEFAULT 'Home',
+  address TEXT,
+  postcode TEXT NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pickup_locations_student ON public.student_pickup_locations(student_id);
+
+ALTER TABLE public.student_pickup_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their students' pickup locations"
+ON public.student_pickup_locations
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Students can view their own pickup locations"
+ON public.student_pickup_locations
+FOR SELECT
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 3. Pickup on bookings. The address and coordinates are copied from the saved location so
+-- editing or deleting a location never rewrites past lessons.
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS pickup_location_id UUID REFERENCES public.student_pickup_locations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS pickup_address TEXT,
+ADD COLUMN IF NOT EXISTS pickup_postcode TEXT,
+ADD COLUMN IF NOT EXISTS pickup_latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS pickup_longitude DOUBLE PRECISION;
+
+CREATE OR REPLACE FUNCTION public.sync_booking_pickup()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_location public.student_pickup_locations;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.pickup_location_id IS NOT DISTINCT FROM OLD.pickup_location_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.pickup_location_id IS NULL THEN
+        -- Cleared on purpose; a location deleted via ON DELETE SET NULL keeps its snapshot
+        IF TG_OP = 'INSERT' OR EXISTS (SELECT 1 FROM public.student_pickup_locations WHERE id = OLD.pickup_location_id) THEN
+            NEW.pickup_address := NULL;
+            NEW.pickup_postcode := NULL;
+            NEW.pickup_latitude := NULL;
+            NEW.pickup_longitude := NULL;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_location FROM public.student_pickup_locations WHERE id = NEW.pickup_location_id;
+    NEW.pickup_address := v_location.address;
+    NEW.pickup_postcode := v_location.postcode;
+    NEW.pickup_latitude := v_location.latitude;
+    NEW.pickup_longitude := v_location.longitude;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_booking_pickup_change ON public.bookings;
+CREATE TRIGGER on_booking_pickup_change
+BEFORE INSERT OR UPDATE OF pickup_location_id ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_booking_pickup();
+
+-- 4. Estimated drive in minutes, rounded up to 5 and capped at the instructor's maximum
+CREATE OR REPLACE FUNCTION public.estimate_travel_minutes(
+    p_from_lat DOUBLE PRECISION,
+    p_from_lng DOUBLE PRECISION,
+    p_to_lat DOUBLE PRECISION,
+    p_to_lng DOUBLE PRECISION,
+    p_speed_mph INTEGER,
+    p_max_mins INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_km DOUBLE PRECISION;
+    v_mins DOUBLE PRECISION;
+BEGIN
+    IF p_from_lat IS NULL OR p_from_lng IS NULL OR p_to_lat IS NULL OR p_to_lng IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    -- Haversine distance, then 1.3x for roads not running in straight lines
+    v_km := 2 * 6371 * asin(sqrt(
+        power(sin(radians(p_to_lat - p_from_lat) / 2), 2)
+        + cos(radians(p_from_lat)) * cos(radians(p_to_lat)) * power(sin(radians(p_to_lng - p_from_lng) / 2), 2)
+    ));
+    v_mins := v_km * 1.3 / (GREATEST(COALESCE(p_speed_mph, 20), 1) * 1.609344) * 60;
+
+    RETURN LEAST(CEIL(v_mins / 5) * 5, COALESCE(p_max_mins, 60))::INTEGER;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 5. Time around the instructor's other lessons that's needed to drive to and from the signed-in
+-- student's pickup, so their slot picker can allow for travel. Only the padded times come back, never
+-- whose lessons they are or where they're picked up. The pickup is chosen as claim_booking_slot does.
+DROP FUNCTION IF EXISTS public.get_instructor_pickup_stops(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.get_travel_blocks(
+    p_start TIMESTAMPTZ,
+    p_end TIMESTAMPTZ,
+    p_pickup_location_id UUID DEFAULT NULL,
+    p_reschedule_of UUID DEFAULT NULL
+)
+RETURNS TABLE (start_time TIMESTAMPTZ, end_time TIMESTAMPTZ) AS $$
+DECLARE
+    v_student RECORD;
+    v_instructor RECORD;
+    v_pickup public.student_pickup_locations;
+BEGIN
+    SELECT id, user_id INTO v_student FROM public.students WHERE auth_user_id = auth.uid() LIMIT 1;
+    IF v_student.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT travel_buffer_enabled, travel_speed_mph, travel_max_buffer_mins INTO v_instructor
+    FROM public.profiles WHERE id = v_student.user_id;
+    IF NOT COALESCE(v_instructor.travel_buffer_enabled, false) THEN
+        RETURN;
+    END IF;
+
+    IF p_pickup_location_id IS NOT NULL THEN
+        SELECT * INTO v_pickup FROM public.student_pickup_locations WHERE id = p_pickup_location_id AND student_id = v_student.id;
+    ELSIF p_reschedule_of IS NOT NULL THEN
+        SELECT l.* INTO v_pickup
+        FROM public.bookings b
+        JOIN public.student_pickup_locations l ON l.id = b.pickup_location_id
+        WHERE b.id = p_reschedule_of AND b.student_id = v_student.id;
+    END IF;
+    IF v_pickup.id IS NULL AND p_pickup_location_id IS NULL THEN
+        SELECT * INTO v_pickup FROM public.student_pickup_locations
+        WHERE student_id = v_student.id
+        ORDER BY is_default DESC, created_at ASC
+        LIMIT 1;
+    END IF;
+    IF v_pickup.latitude IS NULL OR v_pickup.longitude IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT nearby.start_time - nearby.travel, nearby.end_time + nearby.travel
+    FROM (
+        SELECT b.start_time, b.end_time, make_interval(mins => public.estimate_travel_minutes(
+            v_pickup.latitude, v_pickup.longitude, b.pickup_latitude, b.pickup_longitude,
+            v_instructor.travel_speed_mph, v_instructor.travel_max_buffer_mins
+        )) AS travel
+        FROM public.bookings b
+        WHERE b.user_id = v_student.user_id
+        AND b.status NOT IN ('available', 'cancelled')
+        AND b.pickup_latitude IS NOT NULL
+        AND b.pickup_longitude IS NOT NULL
+        AND (p_reschedule_of IS NULL OR (b.id <> p_reschedule_of AND b.reschedule_of IS DISTINCT FROM p_reschedule_of))
+        AND b.end_time > p_start
+        AND b.start_time < p_end
+    ) nearby
+    WHERE nearby.travel > interval '0';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_travel_blocks(TIMESTAMPTZ, TIMESTAMPTZ, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_travel_blocks(TIMESTAMPTZ, TIMESTAMPTZ, UUID, UUID) TO authenticated;
@@ -0,0 +1,129 @@
+-- Short holds on a slot while a student confirms it.
+-- Opening the confirm dialog holds the slot for a few minutes so another student can't take it
+-- in the meantime. Other students don't see held slots, claim_booking_slot rejects them, and
+-- claiming the slot (or letting the hold lapse) releases it.
+-- Re-run supabase_claim_booking_slot.sql after this file so claims respect holds.
+
+-- 1. One live hold per student; a new hold replaces the last
+CREATE TABLE IF NOT EXISTS public.slot_holds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  instructor_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_holds_active ON public.slot_holds(instructor_id, expires_at, start_time);
+
+-- 2. Enable RLS; holds are only ever written by the functions below
+ALTER TABLE public.slot_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own holds"
+ON public.slot_holds
+FOR SELECT
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 3. Hold a slot for the signed-in student, returning when the hold lapses
+CREATE OR REPLACE FUNCTION public.hold_booking_slot(p_start_time TIMESTAMPTZ, p_end_time TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_hold_mins CONSTANT INTEGER := 10;
+    v_student RECORD;
+    v_expires_at TIMESTAMPTZ;
+BEGIN
+    IF p_start_time IS NULL OR p_end_time IS NULL OR p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'Invalid slot times';
+    END IF;
+
+    SELECT id, user_id INTO v_student
+    FROM public.students
+    WHERE auth_user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_student.id IS NULL THEN
+        RAISE EXCEPTION 'Student record not found';
+    END IF;
+
+    -- Same lock as claim_booking_slot, so a hold and a claim can't both win
+    PERFORM pg_advisory_xact_lock(hashtext('claim_booking_slot:' || v_student.user_id::text));
+
+    IF EXISTS (
+        SELECT 1 FROM public.slot_holds
+        WHERE instructor_id = v_student.user_id
+        AND student_id <> v_student.id
+        AND expires_at > NOW()
+        AND start_time < p_end_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Another student is booking this slot right now';
+    END IF;
+
+    -- The full checks run when the slot is claimed; this only stops holding a slot that's plainly gone
+    IF EXISTS (
+        SELECT 1 FROM public.bookings
+        WHERE user_id = v_student.user_id
+        AND status NOT IN ('available', 'cancelled')
+        AND start_time < p_end_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Sorry, this slot has just been taken';
+    END IF;
+
+    v_expires_at := NOW() + make_interval(mins => v_hold_mins);
+
+    INSERT INTO public.slot_holds (instructor_id, student_id, start_time, end_time, expires_at)
+    VALUES (v_student.user_id, v_student.id, p_start_time, p_end_time, v_expires_at)
+    ON CONFLICT (student_id) DO UPDATE
+    SET instructor_id = EXCLUDED.instructor_id,
+        start_time = EXCLUDED.start_time,
+        end_time = EXCLUDED.end_time,
+        expires_at = EXCLUDED.expires_at,
+        created_at = now();
+
+    RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.hold_booking_slot(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+-- 4. Let go of the signed-in student's hold, e.g. when they close the confirm dialog
+CREATE OR REPLACE FUNCTION public.release_slot_hold()
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM public.slot_holds
+    WHERE student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.release_slot_hold() TO authenticated;
+
+-- 5. Other students' holds block slots without revealing who is booking them
+CREATE OR REPLACE FUNCTION public.get_slot_holds(p_instructor_id UUID)
+RETURNS TABLE (start_time TIMESTAMPTZ, end_time TIMESTAMPTZ, is_all_day BOOLEAN, start_date DATE, end_date DATE) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        h.start_time,
+        h.end_time,
+        false,
+        (h.start_time AT TIME ZONE public.instructor_time_zone(h.instructor_id))::date,
+        (h.end_time AT TIME ZONE public.instructor_time_zone(h.instructor_id))::date
+    FROM public.slot_holds h
+    WHERE h.instructor_id = p_instructor_id
+    AND h.expires_at > NOW()
+    AND h.student_id NOT IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_slot_holds(UUID) TO authenticated;
+
+-- 6. Lapsed holds are ignored everywhere; clear them out every so often
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'clear-expired-slot-holds',
+  '*/15 * * * *',
+  $$ DELETE FROM public.slot_holds WHERE expires_at <= NOW(); $$
+);
@@ -0,0 +1,205 @@
+-- One account per student: everything they've been charged, everything they've paid and the
+-- pre-paid credit they've bought, with a running balance. Nothing new is stored apart from how and
+-- when each payment was made; get_student_ledger reads the same rows Accounts does:
+--   charges:  completed lessons at the price they were charged (bookings.charged_amount, stamped by
+--             supabase_invoices.sql, which runs first), late cancellation fees and group session fees
+--   payments: those marked paid (cash, transfer or card)
+--   credit:   pre-paid packages bought, and the hours taken from them, valued at the package's rate
+-- A positive balance is money (or credit) the student has in hand; negative is what they owe.
+-- Re-run supabase_student_payments.sql after this file so online payments are recorded as card.
+
+-- 1. How and when each payment was made
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS payment_method TEXT CHECK (payment_method IN ('cash', 'transfer', 'card'));
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+ALTER TABLE public.cancellation_charges ADD COLUMN IF NOT EXISTS payment_method TEXT CHECK (payment_method IN ('cash', 'transfer', 'card'));
+ALTER TABLE public.cancellation_charges ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+ALTER TABLE public.booking_attendees ADD COLUMN IF NOT EXISTS payment_method TEXT CHECK (payment_method IN ('cash', 'transfer', 'card'));
+ALTER TABLE public.booking_attendees ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+ALTER TABLE public.pre_paid_hours ADD COLUMN IF NOT EXISTS payment_method TEXT CHECK (payment_method IN ('cash', 'transfer', 'card'));
+
+-- 2. Stamp the payment date whenever something is marked paid, wherever that happens
+CREATE OR REPLACE FUNCTION public.stamp_paid_at()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_is_paid BOOLEAN;
+    v_was_paid BOOLEAN;
+BEGIN
+    IF TG_TABLE_NAME = 'bookings' THEN
+        v_is_paid := COALESCE(NEW.is_paid, false);
+        v_was_paid := TG_OP = 'UPDATE' AND COALESCE(OLD.is_paid, false);
+    ELSIF TG_TABLE_NAME = 'cancellation_charges' THEN
+        v_is_paid := NEW.status = 'paid';
+        v_was_paid := TG_OP = 'UPDATE' AND OLD.status = 'paid';
+    ELSE
+        v_is_paid := NEW.payment_status = 'paid';
+        v_was_paid := TG_OP = 'UPDATE' AND OLD.payment_status = 'paid';
+    END IF;
+
+    IF v_is_paid AND NOT v_was_paid THEN
+        NEW.paid_at := COALESCE(NEW.paid_at, NOW());
+    ELSIF NOT v_is_paid THEN
+        NEW.paid_at := NULL;
+        NEW.payment_method := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_booking_paid ON public.bookings;
+CREATE TRIGGER on_booking_paid
+BEFORE INSERT OR UPDATE OF is_paid ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_paid_at();
+
+DROP TRIGGER IF EXISTS on_cancellation_charge_paid ON public.cancellation_charges;
+CREATE TRIGGER on_cancellation_charge_paid
+BEFORE INSERT OR UPDATE OF status ON public.cancellation_charges
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_paid_at();
+
+DROP TRIGGER IF EXISTS on_attendee_paid ON public.booking_attendees;
+CREATE TRIGGER on_attendee_paid
+BEFORE INSERT OR UPDATE OF payment_status ON public.booking_attendees
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_paid_at();
+
+-- 3. The ledger, oldest first. Open to the student's instructor and to the student themselves.
+CREATE OR REPLACE FUNCTION public.get_student_ledger(p_student_id UUID)
+RETURNS TABLE (
+    entry_date TIMESTAMPTZ,
+    entry_type TEXT, -- charge, payment or credit
+    description TEXT,
+    payment_method TEXT,
+    charge NUMERIC,
+    payment NUMERIC,
+    balance NUMERIC,
+    source_type TEXT, -- booking, cancellation_charge, booking_attendee or package: the row to record a payment method on
+    source_id UUID
+) AS $$
+DECLARE
+    v_user_id UUID;
+    v_tz TEXT;
+BEGIN
+    SELECT s.user_id INTO v_user_id
+    FROM public.students s
+    WHERE s.id = p_student_id
+    AND (s.user_id = auth.uid() OR s.auth_user_id = auth.uid());
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Student not found';
+    END IF;
+    v_tz := public.instructor_time_zone(v_user_id);
+
+    RETURN QUERY
+    WITH credit_bookings AS (
+        SELECT DISTINCT t.booking_id FROM public.pre_paid_hours_transactions t
+        WHERE t.student_id = p_student_id AND t.booking_id IS NOT NULL
+    ),
+    lessons AS (
+        SELECT b.id, b.start_time, b.is_paid, b.paid_at, b.payment_method, b.lesson_type,
+            COALESCE(b.charged_amount, public.calculate_lesson_price(v_user_id, EXTRACT(EPOCH FROM (b.end_time - b.start_time)) / 3600, b.lesson_type)) AS price
+        FROM public.bookings b
+        WHERE b.student_id = p_student_id
+        AND b.capacity IS NULL
+        AND b.status <> 'cancelled'
+        AND (b.status = 'completed' OR b.is_paid)
+        AND b.id NOT IN (SELECT booking_id FROM credit_bookings)
+    ),
+    entries AS (
+        -- Lessons paid for individually
+        SELECT l.start_time AS entry_date, 'charge'::TEXT AS entry_type,
+            l.lesson_type || ', ' || to_char(l.start_time AT TIME ZONE v_tz, 'FMDD Mon HH24:MI') AS description,
+            NULL::TEXT AS payment_method, l.price AS charge, 0::NUMERIC AS payment, 'booking'::TEXT AS source_type, l.id AS source_id, 1 AS sort
+        FROM lessons l
+        UNION ALL
+        SELECT COALESCE(l.paid_at, l.start_time), 'payment', 'Payment for lesson on ' || to_char(l.start_time AT TIME ZONE v_tz, 'FMDD Mon'),
+            l.payment_method, 0, l.price, 'booking', l.id, 2
+        FROM lessons l WHERE l.is_paid
+
+        -- Late cancellation fees not taken from credit (those are below, with the other credit used)
+        UNION ALL
+        SELECT c.lesson_start, 'charge', 'Late cancellation fee, ' || to_char(c.lesson_start AT TIME ZONE v_tz, 'FMDD Mon HH24:MI'),
+            NULL, c.amount, 0, 'cancellation_charge', c.id, 1
+        FROM public.cancellation_charges c
+        WHERE c.student_id = p_student_id AND c.status IN ('charged', 'paid')
+        UNION ALL
+        SELECT COALESCE(c.paid_at, c.lesson_start), 'payment', 'Payment for late cancellation fee',
+            c.payment_method, 0, c.amount, 'cancellation_charge', c.id, 2
+        FROM public.cancellation_charges c
+        WHERE c.student_id = p_student_id AND c.status = 'paid'
+
+        -- Group sessions attended and not paid from credit
+        UNION ALL
+        SELECT b.start_time, 'charge', COALESCE(b.title, 'Group session') || ', ' || to_char(b.start_time AT TIME ZONE v_tz, 'FMDD Mon HH24:MI'),
+            NULL, a.amount, 0, 'booking_attendee', a.id, 1
+        FROM public.booking_attendees a
+        JOIN public.bookings b ON b.id = a.booking_id
+        WHERE a.student_id = p_student_id AND a.status = 'attended' AND b.status = 'completed'
+        AND a.payment_status IN ('unpaid', 'paid') AND a.amount > 0
+        UNION ALL
+        SELECT COALESCE(a.paid_at, b.start_time), 'payment', 'Payment for ' || COALESCE(b.title, 'group session'),
+            a.payment_method, 0, a.amount, 'booking_attendee', a.id, 2
+        FROM public.booking_attendees a
+        JOIN public.bookings b ON b.id = a.booking_id
+        WHERE a.student_id = p_student_id AND a.payment_status = 'paid'
+
+        -- Pre-paid packages bought
+        UNION ALL
+        SELECT COALESCE(p.purchase_date::TIMESTAMPTZ, p.created_at), 'credit',
+            RTRIM(to_char(p.package_hours, 'FM999990.##'), '.') || 'h pre-paid package',
+            p.payment_method, 0, COALESCE(p.amount_paid, 0), 'package', p.id, 0
+        FROM public.pre_paid_hours p
+        WHERE p.student_id = p_student_id
+
+        -- Hours taken from them, for lessons, group sessions and late cancellation fees
+        UNION ALL
+        SELECT COALESCE(b.start_time, t.transaction_date), 'charge',
+            CASE
+                WHEN t.notes = 'Late cancellation fee' THEN 'Late cancellation fee'
+                WHEN t.notes = 'Group session' THEN COALESCE(b.title, 'Group session')
+                ELSE COALESCE(b.lesson_type, 'Lesson')
+            END
+            || COALESCE(', ' || to_char(b.start_time AT TIME ZONE v_tz, 'FMDD Mon HH24:MI'), '')
+            || ' (' || RTRIM(to_char(t.hours_deducted, 'FM999990.##'), '.') || 'h from credit)',
+            NULL, ROUND(t.hours_deducted * COALESCE(p.amount_paid / NULLIF(p.package_hours, 0), 0), 2), 0, NULL, NULL, 1
+        FROM public.pre_paid_hours_transactions t
+        JOIN public.pre_paid_hours p ON p.id = t.pre_paid_hours_id
+        LEFT JOIN public.bookings b ON b.id = t.booking_id
+        WHERE t.student_id = p_student_id
+    )
+    SELECT e.entry_date, e.entry_type, e.description, e.payment_method, e.charge, e.payment,
+        SUM(e.payment - e.charge) OVER (ORDER BY e.entry_date, e.sort, e.source_id ROWS UNBOUNDED PRECEDING) AS balance,
+        e.source_type, e.source_id
+    FROM entries e
+    ORDER BY e.entry_date, e.sort, e.source_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_student_ledger(UUID) TO authenticated;
+
+-- 4. Record how something was paid (the instructor's own students only)
+CREATE OR REPLACE FUNCTION public.set_payment_method(p_source_type TEXT, p_source_id UUID, p_method TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF p_method IS NOT NULL AND p_method NOT IN ('cash', 'transfer', 'card') THEN
+        RAISE EXCEPTION 'Invalid payment method';
+    END IF;
+
+    IF p_source_type = 'booking' THEN
+        UPDATE public.bookings SET payment_method = p_method WHERE id = p_source_id AND user_id = auth.uid() AND is_paid;
+    ELSIF p_source_type = 'cancellation_charge' THEN
+        UPDATE public.cancellation_charges SET payment_method = p_method WHERE id = p_source_id AND user_id = auth.uid() AND status = 'paid';
+    ELSIF p_source_type = 'booking_attendee' THEN
+        UPDATE public.booking_attendees SET payment_method = p_method WHERE id = p_source_id AND user_id = auth.uid() AND payment_status = 'paid';
+    ELSIF p_source_type = 'package' THEN
+        UPDATE public.pre_paid_hours SET payment_method = p_method WHERE id = p_source_id AND user_id = auth.uid();
+    ELSE
+        RAISE EXCEPTION 'Invalid payment source';
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_payment_method(TEXT, UUID, TEXT) TO authenticated;
@@ -0,0 +1,180 @@
+-- Online payments from students through Stripe Checkout.
+-- Instructors connect a Stripe Express account for payouts; students then pay for a booking or buy
+-- one of the instructor's lesson packages from their dashboard. Money goes straight to the
+-- instructor's account (a destination charge), and a paid checkout marks the booking paid or adds
+-- the pre-paid hours. The student-payments edge function is the only writer of student_payments.
+
+-- 1. The instructor's connected payout account
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS stripe_account_id TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS stripe_charges_enabled BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Packages of pre-paid hours students can buy online
+CREATE TABLE IF NOT EXISTS public.lesson_packages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  hours NUMERIC NOT NULL CHECK (hours > 0),
+  price NUMERIC NOT NULL CHECK (price > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_packages_user ON public.lesson_packages(user_id);
+
+ALTER TABLE public.lesson_packages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their lesson packages"
+ON public.lesson_packages
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Students can view their instructor's lesson packages"
+ON public.lesson_packages
+FOR SELECT
+USING (is_active AND user_id IN (SELECT user_id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 3. One row per checkout, from the moment it's opened
+CREATE TABLE IF NOT EXISTS public.student_payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('booking', 'package')),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  package_id UUID REFERENCES public.lesson_packages(id) ON DELETE SET NULL,
+  package_hours NUMERIC, -- copied at checkout so editing the package later doesn't change what was bought
+  pre_paid_hours_id UUID REFERENCES public.pre_paid_hours(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'gbp',
+  description TEXT,
+  stripe_session_id TEXT NOT NULL UNIQUE,
+  stripe_payment_intent_id TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'expired', 'refund_due', 'refunded')),
+  refund_reason TEXT, -- why a payment was handed back rather than applied
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_payments_user ON public.student_payments(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_student_payments_student ON public.student_payments(student_id);
+
+ALTER TABLE public.student_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can view payments from their students"
+ON public.student_payments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Students can view their own payments"
+ON public.student_payments
+FOR SELECT
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+-- 4. Apply a paid checkout and return the payment's status. Safe to call more than once for the same session.
+-- Only the edge functions (service role) call this, once Stripe has confirmed the payment.
+-- The lesson may have been settled another way while the student was in Checkout (paid in cash,
+-- covered by pre-paid hours, cancelled or deleted). Then nothing is applied and the payment comes
+-- back 'refund_due' for the caller to refund.
+DROP FUNCTION IF EXISTS public.fulfil_student_payment(TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.fulfil_student_payment(p_session_id TEXT, p_payment_intent_id TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_payment public.student_payments;
+    v_booking public.bookings;
+    v_refund_reason TEXT;
+    v_pre_paid_id UUID;
+BEGIN
+    SELECT * INTO v_payment FROM public.student_payments WHERE stripe_session_id = p_session_id FOR UPDATE;
+    IF v_payment.id IS NULL THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+    IF v_payment.status IN ('paid', 'refund_due', 'refunded') THEN
+        RETURN v_payment.status;
+    END IF;
+
+    IF v_payment.kind = 'booking' THEN
+        SELECT * INTO v_booking FROM public.bookings WHERE id = v_payment.booking_id FOR UPDATE;
+        IF v_booking.id IS NULL THEN
+            v_refund_reason := 'the lesson was deleted';
+        ELSIF v_booking.status NOT IN ('scheduled', 'completed') THEN
+            v_refund_reason := 'the lesson was cancelled';
+        ELSIF COALESCE(v_booking.is_paid, false) THEN
+            v_refund_reason := 'the lesson was already paid for';
+        ELSIF EXISTS (SELECT 1 FROM public.pre_paid_hours_transactions t WHERE t.booking_id = v_booking.id) THEN
+            v_refund_reason := 'the lesson was covered by pre-paid hours';
+        END IF;
+
+        IF v_refund_reason IS NOT NULL THEN
+            UPDATE public.student_payments
+            SET status = 'refund_due',
+                refund_reason = v_refund_reason,
+                paid_at = NOW(),
+                stripe_payment_intent_id = p_payment_intent_id
+            WHERE id = v_payment.id;
+
+            INSERT INTO public.notifications (user_id, title, message, type)
+            SELECT v_payment.user_id, 'Online Payment Refunded', s.name || ' paid £' || to_char(v_payment.amount, 'FM999990.00') || ' for ' || COALESCE(v_payment.description, 'a lesson') || ', but ' || v_refund_reason || ', so it is being refunded.', 'payment_received'
+            FROM public.students s WHERE s.id = v_payment.student_id;
+            RETURN 'refund_due';
+        END IF;
+
+        UPDATE public.bookings SET is_paid = true, payment_method = 'card', charged_amount = v_payment.amount WHERE id = v_payment.booking_id;
+    ELSE
+        INSERT INTO public.pre_paid_hours (user_id, student_id, package_hours, remaining_hours, amount_paid, payment_method, notes)
+        VALUES (v_payment.user_id, v_payment.student_id, v_payment.package_hours, v_payment.package_hours, v_payment.amount, 'card', 'Paid online: ' || COALESCE(v_payment.description, 'package'))
+        RETURNING id INTO v_pre_paid_id;
+    END IF;
+
+    UPDATE public.student_payments
+    SET status = 'paid',
+        paid_at = NOW(),
+        stripe_payment_intent_id = p_payment_intent_id,
+        pre_paid_hours_id = v_pre_paid_id
+    WHERE id = v_payment.id;
+
+    -- A receipt the student can download straight away (see supabase_invoices.sql); failing to
+    -- issue one mustn't undo the payment
+    BEGIN
+        IF v_payment.kind = 'booking' THEN
+            PERFORM public.create_invoice(v_payment.user_id, 'booking', v_payment.booking_id, 'receipt');
+        ELSE
+            PERFORM public.create_invoice(v_payment.user_id, 'package', v_pre_paid_id, 'receipt');
+        END IF;
+    EXCEPTION WHEN OTHERS THEN
+        NULL;
+    END;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    SELECT v_payment.user_id, 'Online Payment Received', s.name || ' paid £' || to_char(v_payment.amount, 'FM999990.00') || ' for ' || COALESCE(v_payment.description, 'a lesson') || '.', 'payment_received'
+    FROM public.students s WHERE s.id = v_payment.student_id;
+    RETURN 'paid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.fulfil_student_payment(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 5. The signed-in student's lessons that can be paid for online, priced as they'd be charged
+CREATE OR REPLACE FUNCTION public.get_payable_bookings()
+RETURNS TABLE (id UUID, start_time TIMESTAMPTZ, end_time TIMESTAMPTZ, lesson_type TEXT, status TEXT, amount NUMERIC) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.start_time,
+        b.end_time,
+        b.lesson_type,
+        b.status,
+        public.calculate_lesson_price(b.user_id, EXTRACT(EPOCH FROM (b.end_time - b.start_time)) / 3600, b.lesson_type)
+    FROM public.bookings b
+    JOIN public.students s ON s.id = b.student_id
+    WHERE s.auth_user_id = auth.uid()
+    AND b.status IN ('scheduled', 'completed')
+    AND COALESCE(b.is_paid, false) = false
+    AND b.lesson_type <> 'Personal'
+    AND b.capacity IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.pre_paid_hours_transactions t WHERE t.booking_id = b.id)
+    ORDER BY b.start_time;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_payable_bookings() TO authenticated;
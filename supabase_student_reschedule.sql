@@ -0,0 +1,82 @@
+-- Student self-service reschedule and cancel.
+-- A move request is a pending_approval booking pointing at the lesson it replaces. The original lesson
+-- keeps its slot until the instructor approves, at which point it is moved to the requested time.
+-- Run before supabase_claim_booking_slot.sql, which creates the move requests.
+
+-- 1. Link a move request to the lesson it would replace
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS reschedule_of UUID REFERENCES public.bookings(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_reschedule_of ON public.bookings(reschedule_of);
+
+-- 2. Instructor approves a move: the original lesson takes the new time and the request row goes.
+-- Moving the original keeps its notes, series link and pre-paid transactions, and frees the old
+-- slot for the waitlist via on_booking_freed.
+CREATE OR REPLACE FUNCTION public.approve_booking_move(p_request_id UUID)
+RETURNS public.bookings AS $$
+DECLARE
+    v_request public.bookings;
+    v_original public.bookings;
+BEGIN
+    SELECT * INTO v_request FROM public.bookings
+    WHERE id = p_request_id AND user_id = auth.uid() AND status = 'pending_approval' AND reschedule_of IS NOT NULL;
+
+    IF v_request.id IS NULL THEN
+        RAISE EXCEPTION 'Move request not found';
+    END IF;
+
+    SELECT * INTO v_original FROM public.bookings WHERE id = v_request.reschedule_of;
+
+    IF v_original.status <> 'scheduled' THEN
+        RAISE EXCEPTION 'The original lesson is no longer scheduled';
+    END IF;
+
+    UPDATE public.bookings
+    SET start_time = v_request.start_time, end_time = v_request.end_time
+    WHERE id = v_original.id
+    RETURNING * INTO v_original;
+
+    DELETE FROM public.bookings WHERE id = v_request.id;
+
+    RETURN v_original;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.approve_booking_move(UUID) TO authenticated;
+
+-- 3. Student cancels an upcoming lesson, or withdraws a request that hasn't been approved yet.
+-- Cancelling goes through status = 'cancelled' so the late cancellation policy and waitlist apply.
+CREATE OR REPLACE FUNCTION public.cancel_student_booking(p_booking_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_booking public.bookings;
+BEGIN
+    SELECT b.* INTO v_booking
+    FROM public.bookings b
+    JOIN public.students s ON s.id = b.student_id
+    WHERE b.id = p_booking_id AND s.auth_user_id = auth.uid();
+
+    IF v_booking.id IS NULL THEN
+        RAISE EXCEPTION 'Lesson not found';
+    END IF;
+
+    IF v_booking.start_time <= NOW() THEN
+        RAISE EXCEPTION 'This lesson has already started';
+    END IF;
+
+    IF v_booking.status = 'pending_approval' THEN
+        DELETE FROM public.bookings WHERE id = v_booking.id;
+        RETURN;
+    END IF;
+
+    IF v_booking.status <> 'scheduled' THEN
+        RAISE EXCEPTION 'Only scheduled lessons can be cancelled';
+    END IF;
+
+    DELETE FROM public.bookings WHERE reschedule_of = v_booking.id AND status = 'pending_approval';
+
+    UPDATE public.bookings SET status = 'cancelled', cancellation_fee_waived = false WHERE id = v_booking.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.cancel_student_booking(UUID) TO authenticated;
@@ -0,0 +1,99 @@
+-- Subscription lifecycle driven by Stripe and PayPal webhooks.
+-- The subscription-webhooks edge function verifies each event's signature, works out which
+-- instructor it belongs to and calls apply_subscription_event, which logs the event in
+-- stripe_events (so a redelivered event is ignored) and updates the profile.
+-- subscription_claims stay as the fallback: a claim is approved automatically once a webhook
+-- confirms the payment, so the owner only has to check the ones no webhook has matched.
+
+-- 1. Which provider manages a profile's subscription, and its id there
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS subscription_provider TEXT CHECK (subscription_provider IN ('stripe', 'paypal'));
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS subscription_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_subscription_id ON public.profiles(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_profiles_stripe_customer ON public.profiles(stripe_customer_id);
+
+-- 2. The event log holds PayPal events too
+ALTER TABLE public.stripe_events ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'stripe';
+ALTER TABLE public.stripe_events ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view billing events"
+ON public.stripe_events
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.role = 'owner'));
+
+-- 3. Record an event and apply it to the instructor's subscription.
+-- Returns false if the event was already handled. p_status is 'active' or 'inactive', or
+-- 'cancelled' for a subscription that stops renewing but stays active until p_expiry.
+-- A NULL p_user_id or p_status only logs the event. Lifetime members are never changed.
+CREATE OR REPLACE FUNCTION public.apply_subscription_event(
+    p_event_id TEXT,
+    p_provider TEXT,
+    p_event_type TEXT,
+    p_user_id UUID,
+    p_subscription_id TEXT,
+    p_status TEXT,
+    p_expiry DATE
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_expiry DATE;
+    v_status TEXT;
+BEGIN
+    INSERT INTO public.stripe_events (id, type, provider, user_id)
+    VALUES (p_event_id, p_event_type, p_provider, p_user_id)
+    ON CONFLICT (id) DO NOTHING;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF p_user_id IS NULL OR p_status IS NULL THEN
+        RETURN true;
+    END IF;
+
+    SELECT COALESCE(p_expiry, subscription_expiry) INTO v_expiry FROM public.profiles WHERE id = p_user_id;
+
+    v_status := p_status;
+    IF p_status = 'cancelled' THEN
+        v_status := CASE WHEN v_expiry >= CURRENT_DATE THEN 'active' ELSE 'inactive' END;
+    END IF;
+
+    UPDATE public.profiles
+    SET subscription_status = v_status,
+        subscription_expiry = v_expiry,
+        subscription_provider = p_provider,
+        subscription_id = COALESCE(p_subscription_id, subscription_id),
+        updated_at = NOW()
+    WHERE id = p_user_id
+    AND subscription_status IS DISTINCT FROM 'lifetime';
+
+    -- The payment is confirmed, so there's nothing left for the owner to check
+    IF v_status = 'active' THEN
+        UPDATE public.subscription_claims
+        SET status = 'approved', updated_at = NOW()
+        WHERE user_id = p_user_id AND status IN ('pending', 'auto_approved');
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_subscription_event(TEXT, TEXT, TEXT, UUID, TEXT, TEXT, DATE) FROM PUBLIC, anon, authenticated;
+
+-- 4. Webhook-managed subscriptions that have run past their expiry (a cancelled PayPal plan, or a
+-- renewal whose event never arrived) lose access after a few days' grace. Manually managed
+-- profiles have no provider and are left to the owner.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-lapsed-subscriptions',
+  '30 3 * * *',
+  $$
+  UPDATE public.profiles
+  SET subscription_status = 'inactive', updated_at = NOW()
+  WHERE subscription_status = 'active'
+  AND subscription_provider IS NOT NULL
+  AND subscription_expiry < CURRENT_DATE - 3;
+  $$
+);
@@ -0,0 +1,13 @@
+-- HMRC Self Assessment (SA103F, self-employment full pages) figures for the Accounts tax return report.
+-- Each expenditure category can be assigned the SA103F expense box it belongs in, and flagged as a
+-- vehicle running cost (fuel, insurance, repairs...) that the simplified mileage rate replaces.
+-- Instructors choose per profile whether the car is claimed at simplified expenses (45p/25p a
+-- business mile) or actual costs, and what share of its use is for the business.
+
+-- 1. Box mapping for expenditure categories
+ALTER TABLE public.expenditure_categories ADD COLUMN IF NOT EXISTS sa103_box INTEGER CHECK (sa103_box IS NULL OR sa103_box BETWEEN 17 AND 30);
+ALTER TABLE public.expenditure_categories ADD COLUMN IF NOT EXISTS is_vehicle_cost BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. How the car is claimed
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS vehicle_expense_method TEXT NOT NULL DEFAULT 'actual' CHECK (vehicle_expense_method IN ('actual', 'simplified'));
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS vehicle_business_percent NUMERIC NOT NULL DEFAULT 100 CHECK (vehicle_business_percent BETWEEN 0 AND 100);
@@ -0,0 +1,286 @@
+-- Waitlist for fully booked days. When a lesson is cancelled, declined, deleted or moved, the freed
+-- time is offered to waitlisted students one at a time, each with an exclusive hold before it opens to everyone.
+-- Requires supabase_claim_booking_slot.sql (re-run it after this file so claims respect holds)
+-- and supabase_instructor_timezone.sql for each instructor's time zone.
+
+-- 1. How long each waitlisted student gets to claim an offered slot
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS waitlist_offer_minutes INTEGER DEFAULT 60;
+
+-- 2. A student waiting for a day, optionally only within a time window
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  instructor_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  wait_date DATE NOT NULL,
+  window_start TIME, -- NULL means any time that day
+  window_end TIME,
+  status TEXT NOT NULL DEFAULT 'waiting', -- waiting, offered, booked, expired
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_lookup ON public.waitlist_entries(instructor_id, wait_date, status, created_at);
+
+-- 3. A freed slot held for one waitlisted student until expires_at
+CREATE TABLE IF NOT EXISTS public.waitlist_offers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_id UUID REFERENCES public.waitlist_entries(id) ON DELETE CASCADE NOT NULL,
+  instructor_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'offered', -- offered, claimed, passed, expired
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_active ON public.waitlist_offers(instructor_id, status, start_time);
+
+-- 4. Enable RLS
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can manage their own waitlist entries"
+ON public.waitlist_entries
+FOR ALL
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()))
+WITH CHECK (
+  status = 'waiting' AND
+  student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()) AND
+  instructor_id IN (SELECT user_id FROM public.students WHERE auth_user_id = auth.uid())
+);
+
+CREATE POLICY "Instructors can view and remove their waitlist"
+ON public.waitlist_entries
+FOR ALL
+USING (auth.uid() = instructor_id);
+
+-- Offers are only ever written by the functions below
+CREATE POLICY "Students can view their own offers"
+ON public.waitlist_offers
+FOR SELECT
+USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+CREATE POLICY "Instructors can view offers for their diary"
+ON public.waitlist_offers
+FOR SELECT
+USING (auth.uid() = instructor_id);
+
+-- 5. Offer a freed slot to the next matching student in the queue
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(
+    p_instructor_id UUID,
+    p_start TIMESTAMPTZ,
+    p_end TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+DECLARE
+    v_tz TEXT := public.instructor_time_zone(p_instructor_id);
+    v_instructor RECORD;
+    v_entry RECORD;
+    v_local_start TIMESTAMP;
+    v_local_end TIMESTAMP;
+    v_hold_mins INTEGER;
+    v_expires_at TIMESTAMPTZ;
+BEGIN
+    IF p_start <= NOW() THEN
+        RETURN;
+    END IF;
+
+    -- Already held for someone
+    IF EXISTS (
+        SELECT 1 FROM public.waitlist_offers
+        WHERE instructor_id = p_instructor_id
+        AND status = 'offered'
+        AND expires_at > NOW()
+        AND start_time < p_end
+        AND end_time > p_start
+    ) THEN
+        RETURN;
+    END IF;
+
+    -- Filled again in the meantime
+    IF EXISTS (
+        SELECT 1 FROM public.bookings
+        WHERE user_id = p_instructor_id
+        AND status NOT IN ('available', 'cancelled')
+        AND start_time < p_end
+        AND end_time > p_start
+    ) THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_instructor FROM public.profiles WHERE id = p_instructor_id;
+
+    -- In gaps mode only published gaps can be booked, so a freed lesson outside one isn't offered
+    IF COALESCE(v_instructor.booking_mode, 'gaps') = 'gaps' AND NOT EXISTS (
+        SELECT 1 FROM public.bookings
+        WHERE user_id = p_instructor_id
+        AND status = 'available'
+        AND start_time <= p_start
+        AND end_time >= p_end
+    ) THEN
+        RETURN;
+    END IF;
+
+    v_local_start := p_start AT TIME ZONE v_tz;
+    v_local_end := p_end AT TIME ZONE v_tz;
+
+    SELECT e.id, e.student_id, s.auth_user_id INTO v_entry
+    FROM public.waitlist_entries e
+    JOIN public.students s ON s.id = e.student_id
+    WHERE e.instructor_id = p_instructor_id
+    AND e.status = 'waiting'
+    AND e.wait_date = v_local_start::date
+    AND (e.window_start IS NULL OR e.window_start <= v_local_start::time)
+    AND (e.window_end IS NULL OR e.window_end >= v_local_end::time)
+    -- Anyone who already let this exact slot go isn't asked again
+    AND NOT EXISTS (
+        SELECT 1 FROM public.waitlist_offers o
+        WHERE o.entry_id = e.id AND o.start_time = p_start
+    )
+    ORDER BY e.created_at
+    LIMIT 1;
+
+    IF v_entry.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    v_hold_mins := COALESCE(v_instructor.waitlist_offer_minutes, 60);
+    v_expires_at := LEAST(NOW() + make_interval(mins => v_hold_mins), p_start);
+
+    INSERT INTO public.waitlist_offers (entry_id, instructor_id, student_id, start_time, end_time, expires_at)
+    VALUES (v_entry.id, p_instructor_id, v_entry.student_id, p_start, p_end, v_expires_at);
+
+    UPDATE public.waitlist_entries SET status = 'offered' WHERE id = v_entry.id;
+
+    -- Delivered by push via the on_new_notification trigger
+    IF v_entry.auth_user_id IS NOT NULL THEN
+        INSERT INTO public.notifications (user_id, title, message, type)
+        VALUES (
+            v_entry.auth_user_id,
+            'A lesson slot has opened up!',
+            'The ' || to_char(v_local_start, 'HH24:MI') || ' lesson on ' || to_char(v_local_start, 'FMDay DD Mon') ||
+            ' is held for you until ' || to_char(v_expires_at AT TIME ZONE v_tz, 'HH24:MI') || '. Open Book a Lesson to claim it.',
+            'waitlist_offer'
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_slot(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- 6. Watch for freed time on every path: cancel, decline, delete or move
+CREATE OR REPLACE FUNCTION public.handle_booking_freed()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status IN ('scheduled', 'pending_approval') THEN
+            PERFORM public.offer_waitlist_slot(OLD.user_id, OLD.start_time, OLD.end_time);
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status IN ('scheduled', 'pending_approval') AND (
+        NEW.status IN ('cancelled', 'available')
+        OR NEW.start_time <> OLD.start_time
+        OR NEW.end_time <> OLD.end_time
+    ) THEN
+        PERFORM public.offer_waitlist_slot(OLD.user_id, OLD.start_time, OLD.end_time);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_booking_freed ON public.bookings;
+CREATE TRIGGER on_booking_freed
+AFTER UPDATE OR DELETE ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_booking_freed();
+
+-- 7. A student turns down an offer, which passes it straight to the next in line
+CREATE OR REPLACE FUNCTION public.decline_waitlist_offer(p_offer_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_offer public.waitlist_offers;
+BEGIN
+    UPDATE public.waitlist_offers o
+    SET status = 'passed'
+    WHERE o.id = p_offer_id
+    AND o.status = 'offered'
+    AND o.student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid())
+    RETURNING * INTO v_offer;
+
+    IF v_offer.id IS NULL THEN
+        RAISE EXCEPTION 'Offer not found';
+    END IF;
+
+    UPDATE public.waitlist_entries SET status = 'waiting' WHERE id = v_offer.entry_id AND status = 'offered';
+    PERFORM public.offer_waitlist_slot(v_offer.instructor_id, v_offer.start_time, v_offer.end_time);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.decline_waitlist_offer(UUID) TO authenticated;
+
+-- 8. Expire lapsed holds, moving each slot on to the next student (or opening it to everyone)
+CREATE OR REPLACE FUNCTION public.process_waitlist_offers()
+RETURNS VOID AS $$
+DECLARE
+    v_offer RECORD;
+BEGIN
+    FOR v_offer IN
+        UPDATE public.waitlist_offers
+        SET status = 'expired'
+        WHERE status = 'offered' AND expires_at <= NOW()
+        RETURNING entry_id, instructor_id, start_time, end_time
+    LOOP
+        UPDATE public.waitlist_entries SET status = 'waiting' WHERE id = v_offer.entry_id AND status = 'offered';
+        PERFORM public.offer_waitlist_slot(v_offer.instructor_id, v_offer.start_time, v_offer.end_time);
+    END LOOP;
+
+    UPDATE public.waitlist_entries
+    SET status = 'expired'
+    WHERE status IN ('waiting', 'offered')
+    AND wait_date < (NOW() AT TIME ZONE public.instructor_time_zone(instructor_id))::date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.process_waitlist_offers() FROM PUBLIC, anon, authenticated;
+
+-- 9. Held slots block other students without revealing who they are held for.
+-- Only the instructor and their own students can see them.
+CREATE OR REPLACE FUNCTION public.get_waitlist_holds(p_instructor_id UUID)
+RETURNS TABLE (start_time TIMESTAMPTZ, end_time TIMESTAMPTZ, is_all_day BOOLEAN, start_date DATE, end_date DATE) AS $$
+BEGIN
+    IF auth.uid() IS NULL OR NOT (
+        auth.uid() = p_instructor_id
+        OR EXISTS (SELECT 1 FROM public.students s WHERE s.auth_user_id = auth.uid() AND s.user_id = p_instructor_id)
+    ) THEN
+        RAISE EXCEPTION 'Not authorised';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        o.start_time,
+        o.end_time,
+        false,
+        (o.start_time AT TIME ZONE public.instructor_time_zone(o.instructor_id))::date,
+        (o.end_time AT TIME ZONE public.instructor_time_zone(o.instructor_id))::date
+    FROM public.waitlist_offers o
+    WHERE o.instructor_id = p_instructor_id
+    AND o.status = 'offered'
+    AND o.expires_at > NOW()
+    AND o.student_id NOT IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_waitlist_holds(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_waitlist_holds(UUID) TO authenticated;
+
+-- 10. Check for lapsed holds every five minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'process-waitlist-offers',
+  '*/5 * * * *',
+  $$ SELECT public.process_waitlist_offers(); $$
+);
@@ -0,0 +1,107 @@
+-- Split shifts and dated overrides for open booking mode.
+-- Each profiles.working_hours day may now hold an "intervals" array of {start, end} shifts
+-- (e.g. 07:00-10:00 and 15:00-19:00). Days without one still use their single start/end.
+-- Overrides replace the weekly hours on specific dates, either with special hours or closed.
+-- Run before supabase_claim_booking_slot.sql, which checks both when claiming.
+
+-- 1. Dated overrides
+CREATE TABLE IF NOT EXISTS public.working_hours_overrides (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  weekdays SMALLINT[], -- 0 = Sunday; NULL applies to every day in the range
+  is_closed BOOLEAN NOT NULL DEFAULT false,
+  intervals JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{"start": "09:00", "end": "15:00"}]
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_working_hours_overrides_user_dates ON public.working_hours_overrides(user_id, end_date);
+
+ALTER TABLE public.working_hours_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their working hours overrides"
+ON public.working_hours_overrides
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Notes are the instructor's own, so students and visitors read overrides through
+-- get_published_working_hours_overrides below instead of the table
+DROP POLICY IF EXISTS "Students can view their instructor's working hours overrides" ON public.working_hours_overrides;
+DROP POLICY IF EXISTS "Public view of working hours overrides" ON public.working_hours_overrides;
+
+CREATE OR REPLACE FUNCTION public.get_published_working_hours_overrides(p_instructor_id UUID)
+RETURNS TABLE (
+    id UUID,
+    start_date DATE,
+    end_date DATE,
+    weekdays SMALLINT[],
+    is_closed BOOLEAN,
+    intervals JSONB,
+    created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = p_instructor_id AND profiles.is_public = true)
+    AND NOT EXISTS (SELECT 1 FROM public.students WHERE students.user_id = p_instructor_id AND students.auth_user_id = auth.uid())
+    AND auth.uid() IS DISTINCT FROM p_instructor_id THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT o.id, o.start_date, o.end_date, o.weekdays, o.is_closed, o.intervals, o.created_at
+    FROM public.working_hours_overrides o
+    WHERE o.user_id = p_instructor_id
+    AND o.end_date >= (NOW() AT TIME ZONE public.instructor_time_zone(p_instructor_id))::date
+    ORDER BY o.start_date;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_published_working_hours_overrides(UUID) TO anon, authenticated;
+
+-- 2. Working times are stored as "HH:mm" strings or legacy whole hours
+CREATE OR REPLACE FUNCTION public.parse_working_time(p_value JSONB, p_default TIME)
+RETURNS TIME AS $$
+BEGIN
+    IF jsonb_typeof(p_value) = 'number' THEN
+        RETURN make_time((p_value #>> '{}')::int, 0, 0);
+    END IF;
+    RETURN COALESCE(NULLIF(p_value #>> '{}', ''), p_default::text)::time;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 3. The shifts worked on a date, matching getWorkingIntervals in src/utils/slot-engine.ts.
+-- The newest override covering the date wins; an empty array means not working.
+CREATE OR REPLACE FUNCTION public.get_working_intervals(p_instructor_id UUID, p_date DATE)
+RETURNS JSONB AS $$
+DECLARE
+    v_override public.working_hours_overrides;
+    v_day_config JSONB;
+BEGIN
+    SELECT * INTO v_override
+    FROM public.working_hours_overrides
+    WHERE user_id = p_instructor_id
+    AND p_date BETWEEN start_date AND end_date
+    AND (weekdays IS NULL OR EXTRACT(DOW FROM p_date)::smallint = ANY(weekdays))
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_override.id IS NOT NULL THEN
+        RETURN CASE WHEN v_override.is_closed THEN '[]'::jsonb ELSE v_override.intervals END;
+    END IF;
+
+    SELECT working_hours -> EXTRACT(DOW FROM p_date)::text INTO v_day_config FROM public.profiles WHERE id = p_instructor_id;
+
+    IF v_day_config IS NULL OR COALESCE((v_day_config ->> 'active')::boolean, false) = false THEN
+        RETURN '[]'::jsonb;
+    END IF;
+
+    IF jsonb_typeof(v_day_config -> 'intervals') = 'array' AND jsonb_array_length(v_day_config -> 'intervals') > 0 THEN
+        RETURN v_day_config -> 'intervals';
+    END IF;
+
+    RETURN jsonb_build_array(jsonb_build_object('start', v_day_config -> 'start', 'end', v_day_config -> 'end'));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;